@@ -0,0 +1,73 @@
+import { cn } from "./utils";
+import type { SyncStatus } from "./offline";
+
+function describe(status: SyncStatus): { label: string; tone: "ok" | "busy" | "warn" | "error"; title: string } {
+  const skipped =
+    status.conflicts > 0
+      ? ` ${status.conflicts} offline change${status.conflicts === 1 ? " was" : "s were"} skipped because someone edited the same task or project later.`
+      : "";
+  if (!status.online) {
+    return {
+      label: status.pending > 0 ? `Offline · ${status.pending} pending` : "Offline",
+      tone: "warn",
+      title: "Changes are saved on this device and sent when you reconnect.",
+    };
+  }
+  if (status.syncing) return { label: "Syncing…", tone: "busy", title: `Sending ${status.pending} offline change${status.pending === 1 ? "" : "s"}.` };
+  if (status.error) return { label: "Sync issue", tone: "error", title: status.error + skipped };
+  if (status.pending > 0) return { label: `${status.pending} pending`, tone: "warn", title: "Click to send offline changes now." };
+  return {
+    label: "Synced",
+    tone: "ok",
+    title: (status.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleTimeString()}.` : "All changes saved.") + skipped,
+  };
+}
+
+export function SyncIndicator({
+  status,
+  onSync,
+  onDiscard,
+}: {
+  status: SyncStatus | null;
+  onSync: () => void;
+  /** Offered when queued changes can't be sent for a reason other than the connection. */
+  onDiscard?: () => void;
+}) {
+  if (!status) return null;
+  const { label, tone, title } = describe(status);
+  const stuck = status.online && !status.syncing && !!status.error && status.pending > 0;
+
+  const indicator = (
+    <button
+      onClick={onSync}
+      disabled={status.syncing || !status.online}
+      title={title}
+      className="flex items-center gap-1.5 rounded-lg px-2 py-1.5 text-xs font-medium text-gray-500 hover:text-gray-700 disabled:cursor-default disabled:hover:text-gray-500"
+    >
+      <span
+        className={cn(
+          "h-2 w-2 rounded-full",
+          tone === "ok" && (status.conflicts > 0 ? "bg-amber-400" : "bg-green-500"),
+          tone === "busy" && "bg-accent animate-pulse",
+          tone === "warn" && "bg-amber-400",
+          tone === "error" && "bg-red-500"
+        )}
+      />
+      <span className="hidden md:inline">{label}</span>
+    </button>
+  );
+
+  if (!stuck || !onDiscard) return indicator;
+  return (
+    <div className="flex items-center">
+      {indicator}
+      <button
+        onClick={onDiscard}
+        className="rounded-lg px-2 py-1.5 text-xs font-medium text-red-600 hover:text-red-700"
+        title="Drop the offline changes that can't be sent and load the latest data"
+      >
+        Discard
+      </button>
+    </div>
+  );
+}
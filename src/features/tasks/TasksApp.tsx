@@ -4,263 +4,625 @@ import {
   Sidebar,
   KanbanBoard,
   ListView,
+  CalendarView,
+  MyWorkView,
+  TrashView,
+  FilterBar,
+  BulkActionBar,
+  TaskDetailPanel,
+  TaskSidePanel,
   Modal,
   ThemeToggle,
   TaskForm,
   ProjectForm,
+  MoveTaskForm,
+  ImportProjectForm,
+  RestoreWorkspaceForm,
+  MigrateLocalForm,
   ConfirmDialog,
+  UndoToast,
+  SyncIndicator,
+  CommandPalette,
+  ShortcutHelp,
   IconPlus,
   IconKanban,
   IconList,
+  IconCalendar,
   IconFolder,
   IconMenu,
   IconSearch,
+  IconInbox,
+  IconTrash,
+  IconArchive,
 } from "./index";
 import { useTasksPage } from "./hooks/useTasksPage";
+import { TaskBoardProvider } from "./context";
+import { getProjectColumns, getWipPolicy } from "./workflow";
+import { getDependencyPolicy } from "./dependencies";
 
 export default function App() {
   const {
     view, setView,
+    filters, setFilters,
+    sort, setSort,
     sidebarOpen, setSidebarOpen,
     search, setSearch,
-    activeProjectId, setActiveProjectId,
+    assignedToMe, setAssignedToMe,
+    activeProjectId,
+    selectProject,
     activeProject,
+    isMyWork,
+    isTrash,
+    basePath,
+    columns,
+    defaultStatus,
     useMockData,
     user,
     projectsApi,
     tasksApi,
     filteredTasks,
+    statusCounts,
     totalTasks,
     doneTasks,
     allAssignees,
     allTags,
+    members,
+    myWorkTasks,
+    dependencyTasks,
+    openBlockers,
+    tasksById,
+    taskPath,
+    attachmentUrl,
     canEdit,
+    canEditProject,
     canManageProject,
+    savedViews,
+    activeViewId,
+    canManageViews,
+    selection,
+    selectedTasks,
+    bulkMoveTargets,
+    moveTargets,
     projectModal, setProjectModal,
     taskModal, setTaskModal,
+    taskLink,
+    taskModalProjectId,
+    taskModalColumns,
+    taskHistory,
     confirmDialog, setConfirmDialog,
+    undoHistory,
+    syncStatus,
+    syncNow,
+    discardOfflineChanges,
+    paletteOpen, setPaletteOpen,
+    shortcutHelpOpen, setShortcutHelpOpen,
+    commands,
+    focusedTaskId,
+    moveTask, setMoveTask,
+    importFile, setImportFile,
+    restore, setRestore,
+    localMigration, setLocalMigration,
     handleCreateProject,
     handleUpdateProject,
     handleExportProject,
     handleImportProject,
+    handleConfirmImport,
+    handleBackupWorkspace,
+    handleConfirmRestore,
+    handleMigrateLocal,
+    handleDeclineMigration,
     handleLeaveProject,
     handleDeleteProject,
+    handleReorderProjects,
+    handleArchiveProject,
+    trash,
+    canRestoreTask,
+    handleRestoreProject,
+    handleRestoreTask,
+    handlePurgeProject,
+    handlePurgeTask,
+    handleEmptyTrash,
     handleCreateTask,
     handleUpdateTask,
+    handleUploadAttachment,
+    handleDiscardAttachments,
+    taskConflict,
+    handleReloadConflict,
+    handleKeepMine,
     handleDeleteTask,
     handleReorder,
+    handleReschedule,
+    handleBulkAction,
+    handleMoveMany,
+    handleBulkDelete,
+    handleBulkMove,
+    handleMoveTask,
+    handleMyWorkUpdate,
+    handleMyWorkMove,
+    applySavedView,
+    handleSaveView,
+    handleDeleteView,
   } = useTasksPage();
 
-  return (
-    <div className="flex h-full overflow-hidden">
-      <Sidebar
+  // One form for both: new tasks open in a dialog, existing ones in the side panel.
+  const taskDetails = taskModal && (
+    <>
+      <TaskForm
+        key={taskModal.task ? `${taskModal.task.id}:${taskModal.task.updatedAt}` : "new"}
+        initial={{
+          title: taskModal.task?.title ?? "",
+          description: taskModal.task?.description ?? "",
+          priority: taskModal.task?.priority ?? "medium",
+          status: taskModal.task?.status ?? taskModal.defaultStatus ?? defaultStatus,
+          tags: taskModal.task?.tags ?? [],
+          assignee: taskModal.task?.assignee?.name ?? "",
+          assigneeColor: taskModal.task?.assignee?.color ?? "",
+          assigneeIds: taskModal.task?.assigneeIds ?? [],
+          due: taskModal.task?.due ?? "",
+          subtasks: taskModal.task?.subtasks ?? [],
+          blockedBy: taskModal.task?.blockedBy ?? [],
+          recurrence: taskModal.task?.recurrence ?? null,
+          attachments: taskModal.task?.attachments ?? [],
+        }}
+        columns={taskModalColumns}
+        members={taskModalProjectId === activeProjectId ? members : []}
+        taskId={taskModal.task?.id}
+        projectId={taskModalProjectId}
+        dependencyTasks={dependencyTasks}
         projects={projectsApi.projects ?? []}
-        activeId={activeProjectId}
-        onSelect={setActiveProjectId}
-        onAdd={() => setProjectModal({ mode: "create" })}
-        onEdit={(p) => setProjectModal({ mode: "edit", project: p })}
-        onDelete={handleDeleteProject}
-        canManageProject={canManageProject}
-        onExport={handleExportProject}
-        onImport={handleImportProject}
-        hasActiveProject={!!activeProject}
-        onLeaveProject={handleLeaveProject}
-        currentUserId={user?.id}
-        onReorder={(ids) => projectsApi.reorder(ids)}
-        collapsed={!sidebarOpen}
-        onToggle={() => setSidebarOpen((v) => !v)}
-        useMockData={useMockData}
+        knownAssignees={allAssignees}
+        knownTags={allTags}
+        conflict={taskModal.mode === "edit" ? taskConflict : null}
+        onReloadConflict={handleReloadConflict}
+        onDismissConflict={handleKeepMine}
+        onUploadAttachment={handleUploadAttachment}
+        onDiscardAttachments={handleDiscardAttachments}
+        onSubmit={taskModal.mode === "create" ? handleCreateTask : handleUpdateTask}
+        onCancel={() => setTaskModal(null)}
       />
-
-      <div className="flex flex-1 flex-col overflow-hidden">
-        <header className="flex h-14 shrink-0 items-center gap-3 border-b border-gray-200 dark:border-dark-border bg-white/80 dark:bg-dark-surface/80 backdrop-blur-md px-4">
+      {taskModal.mode === "edit" && taskModal.task && (
+        <TaskDetailPanel
+          comments={taskHistory.comments}
+          activity={taskHistory.activity}
+          loading={taskHistory.loading}
+          columns={taskModalColumns}
+          members={taskModalProjectId === activeProjectId ? members : []}
+          currentUserId={useMockData ? undefined : user?.id}
+          onAddComment={taskHistory.addComment}
+          onDeleteComment={taskHistory.removeComment}
+        />
+      )}
+      {taskModal.mode === "edit" && taskModal.task && moveTargets.length > 0 && (
+        <div className="mt-4 flex items-center justify-between rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-4 py-3">
+          <span className="text-xs text-gray-600 dark:text-gray-400">Move this task to another project, or duplicate it</span>
+          <button
+            onClick={() => setMoveTask(taskModal.task!)}
+            className="rounded-md border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-dark-border"
+          >
+            Move…
+          </button>
+        </div>
+      )}
+      {taskModal.mode === "edit" && taskModal.task && (
+        <div className="mt-4 flex items-center justify-between rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-950/50 px-4 py-3">
+          <span className="text-xs text-red-700">Move this task to the trash</span>
           <button
-            onClick={() => setSidebarOpen((v) => !v)}
-            className="rounded-md p-1.5 text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600"
-            title={sidebarOpen ? "Collapse sidebar" : "Expand sidebar"}
+            onClick={() => { handleDeleteTask(taskModal.task!); }}
+            className="rounded-md bg-red-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-red-700"
           >
-            <IconMenu />
+            Delete
           </button>
+        </div>
+      )}
+    </>
+  );
 
-          {activeProject && (
-            <div className="flex min-w-0 items-center gap-2.5">
-              <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded" style={{ backgroundColor: activeProject.color + "20", color: activeProject.color }}>
-                <IconFolder className="h-3.5 w-3.5" />
-              </span>
-              <h1 className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">{activeProject.name}</h1>
-            </div>
-          )}
+  return (
+    <TaskBoardProvider columns={columns} members={members} openBlockers={openBlockers} tasksById={tasksById} taskHref={taskPath} attachmentUrl={attachmentUrl}>
+      <div className="flex h-full overflow-hidden">
+        <Sidebar
+          projects={projectsApi.projects ?? []}
+          activeId={isMyWork || isTrash ? null : activeProjectId}
+          onSelect={selectProject}
+          myWorkHref={`${basePath}/my-work`}
+          isMyWork={isMyWork}
+          trashHref={`${basePath}/trash`}
+          isTrash={isTrash}
+          onAdd={() => setProjectModal({ mode: "create" })}
+          onEdit={(p) => setProjectModal({ mode: "edit", project: p })}
+          onDelete={handleDeleteProject}
+          onArchive={handleArchiveProject}
+          canManageProject={canManageProject}
+          onExport={handleExportProject}
+          onImport={handleImportProject}
+          onBackup={useMockData ? undefined : handleBackupWorkspace}
+          hasActiveProject={!!activeProject}
+          onLeaveProject={handleLeaveProject}
+          currentUserId={user?.id}
+          onReorder={handleReorderProjects}
+          onPlace={(id, placement) => projectsApi.place(id, placement)}
+          collapsed={!sidebarOpen}
+          onToggle={() => setSidebarOpen((v) => !v)}
+          useMockData={useMockData}
+        />
 
-          <div className="ml-auto flex items-center gap-2 shrink-0">
-            <div className="relative hidden sm:block">
-              <IconSearch className="absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-gray-400" />
-              <input
-                value={search}
-                onChange={(e) => setSearch(e.target.value)}
-                placeholder="Search tasks…"
-                className="h-8 w-48 rounded-lg border border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised pl-8 pr-3 text-xs text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:bg-white dark:focus:bg-dark-surface focus:outline-none focus:ring-2 focus:ring-accent/25"
-              />
-            </div>
+        <div className="flex flex-1 flex-col overflow-hidden">
+          <header className="flex h-14 shrink-0 items-center gap-3 border-b border-gray-200 dark:border-dark-border bg-white/80 dark:bg-dark-surface/80 backdrop-blur-md px-4">
+            <button
+              onClick={() => setSidebarOpen((v) => !v)}
+              className="rounded-md p-1.5 text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600"
+              title={sidebarOpen ? "Collapse sidebar" : "Expand sidebar"}
+            >
+              <IconMenu />
+            </button>
 
-            <div className="flex rounded-lg border border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised p-0.5">
-              <button
-                onClick={() => setView("kanban")}
-                className={cn(
-                  "flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-xs font-medium transition-all",
-                  view === "kanban" ? "bg-white dark:bg-dark-surface text-gray-900 dark:text-gray-100 shadow-card" : "text-gray-500 hover:text-gray-700"
-                )}
-              >
-                <IconKanban className="h-3.5 w-3.5" />
-                Board
-              </button>
-              <button
-                onClick={() => setView("list")}
-                className={cn(
-                  "flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-xs font-medium transition-all",
-                  view === "list" ? "bg-white dark:bg-dark-surface text-gray-900 dark:text-gray-100 shadow-card" : "text-gray-500 hover:text-gray-700"
-                )}
-              >
-                <IconList className="h-3.5 w-3.5" />
-                List
-              </button>
-            </div>
+            {isMyWork ? (
+              <div className="flex min-w-0 items-center gap-2.5">
+                <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded bg-accent/10 text-accent">
+                  <IconInbox className="h-3.5 w-3.5" />
+                </span>
+                <h1 className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">My Work</h1>
+              </div>
+            ) : isTrash ? (
+              <div className="flex min-w-0 items-center gap-2.5">
+                <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded bg-gray-100 dark:bg-dark-border text-gray-500">
+                  <IconTrash className="h-3.5 w-3.5" />
+                </span>
+                <h1 className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">Trash</h1>
+              </div>
+            ) : activeProject && (
+              <div className="flex min-w-0 items-center gap-2.5">
+                <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded" style={{ backgroundColor: activeProject.color + "20", color: activeProject.color }}>
+                  <IconFolder className="h-3.5 w-3.5" />
+                </span>
+                <h1 className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">{activeProject.name}</h1>
+              </div>
+            )}
+
+            <div className="ml-auto flex items-center gap-2 shrink-0">
+              <SyncIndicator status={syncStatus} onSync={syncNow} onDiscard={discardOfflineChanges} />
 
-            <ThemeToggle />
+              <div className="relative hidden sm:block">
+                <IconSearch className="absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-gray-400" />
+                <input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search tasks…"
+                  className="h-8 w-48 rounded-lg border border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised pl-8 pr-3 text-xs text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:bg-white dark:focus:bg-dark-surface focus:outline-none focus:ring-2 focus:ring-accent/25"
+                />
+              </div>
 
-            {canEdit && (
               <button
-                onClick={() => setTaskModal({ mode: "create", defaultStatus: "todo" })}
-                className="flex items-center gap-1.5 rounded-lg bg-accent px-2 py-1.5 sm:px-3 text-xs font-medium text-white hover:bg-accent-dark transition-colors"
+                onClick={() => setPaletteOpen(true)}
+                className="hidden sm:block rounded-lg border border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised px-2 py-1.5 text-xs font-medium text-gray-500 hover:text-gray-700"
+                title="Command palette (⌘/Ctrl+K) — press ? for all shortcuts"
               >
-                <IconPlus className="h-3.5 w-3.5" />
-                <span className="hidden sm:inline">New Task</span>
+                ⌘K
               </button>
-            )}
-          </div>
-        </header>
 
-        {activeProject && totalTasks > 0 && (
-          <div className="border-b border-gray-200 dark:border-dark-border bg-white/80 dark:bg-dark-surface/80 backdrop-blur-md px-4 py-2.5">
-            <div className="flex items-center gap-3">
-              <div className="flex-1">
-                <div className="h-1.5 overflow-hidden rounded-full bg-gray-100 dark:bg-dark-border">
-                  <div
-                    className="h-full rounded-full bg-gradient-to-r from-accent to-accent-light transition-all duration-500"
-                    style={{ width: `${(doneTasks / totalTasks) * 100}%` }}
-                  />
+              {user && !useMockData && (
+                <button
+                  onClick={() => setAssignedToMe((v) => !v)}
+                  className={cn(
+                    "hidden sm:block rounded-lg border px-2.5 py-1.5 text-xs font-medium transition-colors",
+                    assignedToMe
+                      ? "border-accent/40 bg-accent/10 text-accent-dark dark:text-accent-light"
+                      : "border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised text-gray-500 hover:text-gray-700"
+                  )}
+                  title="Only show tasks assigned to you"
+                >
+                  Assigned to me
+                </button>
+              )}
+
+              {!isMyWork && !isTrash && (
+                <div className="flex rounded-lg border border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised p-0.5">
+                  <button
+                    onClick={() => setView("kanban")}
+                    className={cn(
+                      "flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-xs font-medium transition-all",
+                      view === "kanban" ? "bg-white dark:bg-dark-surface text-gray-900 dark:text-gray-100 shadow-card" : "text-gray-500 hover:text-gray-700"
+                    )}
+                  >
+                    <IconKanban className="h-3.5 w-3.5" />
+                    Board
+                  </button>
+                  <button
+                    onClick={() => setView("list")}
+                    className={cn(
+                      "flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-xs font-medium transition-all",
+                      view === "list" ? "bg-white dark:bg-dark-surface text-gray-900 dark:text-gray-100 shadow-card" : "text-gray-500 hover:text-gray-700"
+                    )}
+                  >
+                    <IconList className="h-3.5 w-3.5" />
+                    List
+                  </button>
+                  <button
+                    onClick={() => setView("calendar")}
+                    className={cn(
+                      "flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-xs font-medium transition-all",
+                      view === "calendar" ? "bg-white dark:bg-dark-surface text-gray-900 dark:text-gray-100 shadow-card" : "text-gray-500 hover:text-gray-700"
+                    )}
+                  >
+                    <IconCalendar className="h-3.5 w-3.5" />
+                    Calendar
+                  </button>
                 </div>
-              </div>
-              <span className="text-2xs font-medium text-gray-500 dark:text-gray-400">
-                {doneTasks}/{totalTasks} done
-              </span>
+              )}
+
+              <ThemeToggle />
+
+              {canEdit && !isMyWork && !isTrash && (
+                <button
+                  onClick={() => setTaskModal({ mode: "create", defaultStatus })}
+                  className="flex items-center gap-1.5 rounded-lg bg-accent px-2 py-1.5 sm:px-3 text-xs font-medium text-white hover:bg-accent-dark transition-colors"
+                >
+                  <IconPlus className="h-3.5 w-3.5" />
+                  <span className="hidden sm:inline">New Task</span>
+                </button>
+              )}
             </div>
-          </div>
-        )}
+          </header>
 
-        <main className="flex-1 overflow-auto bg-canvas dark:bg-dark-canvas p-4 sm:p-6">
-          {!activeProjectId ? (
-            <div className="flex flex-col items-center justify-center py-20 text-gray-400">
-              <IconFolder className="mb-4 h-12 w-12" />
-              <p className="text-lg font-medium text-gray-600 dark:text-gray-400">Select or create a project</p>
-              <p className="mt-1 text-sm">Your tasks will appear here</p>
-              <button
-                onClick={() => setProjectModal({ mode: "create" })}
-                className="mt-4 flex items-center gap-1.5 rounded-lg bg-accent px-4 py-2 text-sm font-medium text-white hover:bg-accent-dark"
-              >
-                <IconPlus className="h-4 w-4" />
-                Create Project
-              </button>
+          {!isMyWork && !isTrash && activeProject && totalTasks > 0 && (
+            <div className="border-b border-gray-200 dark:border-dark-border bg-white/80 dark:bg-dark-surface/80 backdrop-blur-md px-4 py-2.5">
+              <div className="flex items-center gap-3">
+                <div className="flex-1">
+                  <div className="h-1.5 overflow-hidden rounded-full bg-gray-100 dark:bg-dark-border">
+                    <div
+                      className="h-full rounded-full bg-gradient-to-r from-accent to-accent-light transition-all duration-500"
+                      style={{ width: `${(doneTasks / totalTasks) * 100}%` }}
+                    />
+                  </div>
+                </div>
+                <span className="text-2xs font-medium text-gray-500 dark:text-gray-400">
+                  {doneTasks}/{totalTasks} done
+                </span>
+              </div>
             </div>
-          ) : tasksApi.loading ? (
-            <div className="flex items-center justify-center py-20">
-              <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-accent" />
+          )}
+
+          {!isMyWork && !isTrash && activeProject?.archivedAt && (
+            <div className="flex items-center gap-2 border-b border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-950/40 px-4 py-2 text-xs text-amber-800 dark:text-amber-300">
+              <IconArchive className="h-3.5 w-3.5 shrink-0" />
+              <span className="flex-1">This project is archived and read-only.</span>
+              {canManageProject(activeProject.id) && (
+                <button
+                  onClick={() => handleArchiveProject(activeProject.id, false)}
+                  className="rounded-md border border-amber-300 dark:border-amber-800 px-2.5 py-1 font-medium hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                >
+                  Unarchive
+                </button>
+              )}
             </div>
-          ) : view === "kanban" ? (
-            <KanbanBoard
-              tasks={filteredTasks}
-              onEditTask={canEdit ? (t) => setTaskModal({ mode: "edit", task: t }) : undefined}
-              onDeleteTask={canEdit ? handleDeleteTask : undefined}
-              onAddTask={canEdit ? (status) => setTaskModal({ mode: "create", defaultStatus: status }) : undefined}
-              onReorder={canEdit ? handleReorder : undefined}
-            />
-          ) : (
-            <ListView
-              tasks={filteredTasks}
-              onEditTask={canEdit ? (t) => setTaskModal({ mode: "edit", task: t }) : undefined}
-              onDeleteTask={canEdit ? handleDeleteTask : undefined}
-              onReorder={canEdit ? handleReorder : undefined}
-            />
           )}
-        </main>
-      </div>
 
-      <Modal
-        open={!!projectModal}
-        title={projectModal?.mode === "create" ? "New Project" : "Edit Project"}
-        onClose={() => setProjectModal(null)}
-      >
-        {projectModal && (
-          <ProjectForm
-            initial={{
-              name: projectModal.project?.name ?? "",
-              description: projectModal.project?.description ?? "",
-              color: projectModal.project?.color ?? PROJECT_COLORS[0],
-            }}
-            projectId={projectModal.project?.id}
-            projectOwnerId={projectModal.project?.ownerId}
-            isLoggedIn={!!user && !useMockData}
-            onSubmit={projectModal.mode === "create" ? handleCreateProject : handleUpdateProject}
-            onCancel={() => setProjectModal(null)}
-            submitLabel={projectModal.mode === "create" ? "Create Project" : "Save Changes"}
-          />
-        )}
-      </Modal>
+          {!isMyWork && !isTrash && activeProject && (
+            <div className="border-b border-gray-200 dark:border-dark-border bg-white/80 dark:bg-dark-surface/80 backdrop-blur-md px-4 py-2">
+              <FilterBar
+                filters={filters}
+                sort={sort}
+                onFiltersChange={setFilters}
+                onSortChange={setSort}
+                columns={columns}
+                members={members}
+                tasks={tasksApi.tasks ?? []}
+                shownCount={filteredTasks.length}
+                savedViews={savedViews}
+                activeViewId={activeViewId}
+                onApplyView={applySavedView}
+                onSaveView={canManageViews ? handleSaveView : undefined}
+                onDeleteView={canManageViews ? handleDeleteView : undefined}
+              />
+            </div>
+          )}
 
-      <Modal
-        open={!!taskModal}
-        title={taskModal?.mode === "create" ? "New Task" : "Edit Task"}
-        onClose={() => setTaskModal(null)}
-      >
-        {taskModal && (
-          <>
-            <TaskForm
-              initial={{
-                title: taskModal.task?.title ?? "",
-                description: taskModal.task?.description ?? "",
-                priority: taskModal.task?.priority ?? "medium",
-                status: taskModal.task?.status ?? taskModal.defaultStatus ?? "todo",
-                tags: taskModal.task?.tags ?? [],
-                assignee: taskModal.task?.assignee?.name ?? "",
-                assigneeColor: taskModal.task?.assignee?.color ?? "",
-              }}
-              knownAssignees={allAssignees}
-              knownTags={allTags}
-              onSubmit={taskModal.mode === "create" ? handleCreateTask : handleUpdateTask}
-              onCancel={() => setTaskModal(null)}
-            />
-            {taskModal.mode === "edit" && taskModal.task && (
-              <div className="mt-4 flex items-center justify-between rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-950/50 px-4 py-3">
-                <span className="text-xs text-red-700">Delete this task permanently</span>
+          <main className="flex-1 overflow-auto bg-canvas dark:bg-dark-canvas p-4 sm:p-6">
+            {!isMyWork && !isTrash && canEdit && view !== "calendar" && selectedTasks.length > 0 && (
+              <BulkActionBar
+                tasks={selectedTasks}
+                columns={columns}
+                members={members}
+                knownAssignees={allAssignees}
+                knownTags={allTags}
+                moveTargets={bulkMoveTargets}
+                onAction={handleBulkAction}
+                onMove={handleBulkMove}
+                onDelete={handleBulkDelete}
+                onClear={selection.clearSelection}
+              />
+            )}
+            {isMyWork ? (
+              projectsApi.loading ? (
+                <div className="flex items-center justify-center py-20">
+                  <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-accent" />
+                </div>
+              ) : (
+                <MyWorkView
+                  tasks={myWorkTasks}
+                  projects={projectsApi.projects ?? []}
+                  canEditProject={canEditProject}
+                  onEditTask={(t) => setTaskModal({ mode: "edit", task: t })}
+                  onUpdateTask={handleMyWorkUpdate}
+                  onMoveTask={handleMyWorkMove}
+                />
+              )
+            ) : isTrash ? (
+              <TrashView
+                trash={trash}
+                projects={projectsApi.projects ?? []}
+                canRestoreTask={canRestoreTask}
+                onRestoreProject={handleRestoreProject}
+                onPurgeProject={handlePurgeProject}
+                onRestoreTask={handleRestoreTask}
+                onPurgeTask={handlePurgeTask}
+                onEmptyTrash={handleEmptyTrash}
+              />
+            ) : !activeProjectId ? (
+              <div className="flex flex-col items-center justify-center py-20 text-gray-400">
+                <IconFolder className="mb-4 h-12 w-12" />
+                <p className="text-lg font-medium text-gray-600 dark:text-gray-400">Select or create a project</p>
+                <p className="mt-1 text-sm">Your tasks will appear here</p>
                 <button
-                  onClick={() => { handleDeleteTask(taskModal.task!); }}
-                  className="rounded-md bg-red-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-red-700"
+                  onClick={() => setProjectModal({ mode: "create" })}
+                  className="mt-4 flex items-center gap-1.5 rounded-lg bg-accent px-4 py-2 text-sm font-medium text-white hover:bg-accent-dark"
                 >
-                  Delete
+                  <IconPlus className="h-4 w-4" />
+                  Create Project
                 </button>
               </div>
+            ) : tasksApi.loading ? (
+              <div className="flex items-center justify-center py-20">
+                <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-accent" />
+              </div>
+            ) : view === "kanban" ? (
+              <KanbanBoard
+                tasks={filteredTasks}
+                taskCounts={statusCounts}
+                columns={columns}
+                wipPolicy={getWipPolicy(activeProject)}
+                sort={sort}
+                onEditTask={canEdit ? (t) => setTaskModal({ mode: "edit", task: t }) : undefined}
+                onMoveTask={moveTargets.length > 0 ? (t) => setMoveTask(t) : undefined}
+                onDeleteTask={canEdit ? handleDeleteTask : undefined}
+                onAddTask={canEdit ? (status) => setTaskModal({ mode: "create", defaultStatus: status }) : undefined}
+                onReorder={canEdit ? handleReorder : undefined}
+                selectedIds={canEdit ? selection.selectedIds : undefined}
+                focusedId={focusedTaskId}
+                onSelectTask={canEdit ? selection.handleSelect : undefined}
+                onMoveMany={canEdit ? handleMoveMany : undefined}
+              />
+            ) : view === "list" ? (
+              <ListView
+                tasks={filteredTasks}
+                columns={columns}
+                sort={sort}
+                filtered={filteredTasks.length < totalTasks}
+                onEditTask={canEdit ? (t) => setTaskModal({ mode: "edit", task: t }) : undefined}
+                onMoveTask={moveTargets.length > 0 ? (t) => setMoveTask(t) : undefined}
+                onDeleteTask={canEdit ? handleDeleteTask : undefined}
+                onReorder={canEdit ? handleReorder : undefined}
+                selectedIds={canEdit ? selection.selectedIds : undefined}
+                focusedId={focusedTaskId}
+                onSelectTask={canEdit ? selection.handleSelect : undefined}
+                onLassoSelect={canEdit ? selection.selectMany : undefined}
+                onMoveMany={canEdit ? handleMoveMany : undefined}
+              />
+            ) : (
+              <CalendarView
+                tasks={filteredTasks}
+                onEditTask={canEdit ? (t) => setTaskModal({ mode: "edit", task: t }) : undefined}
+                onReschedule={canEdit ? handleReschedule : undefined}
+              />
             )}
-          </>
-        )}
-      </Modal>
+          </main>
+        </div>
 
-      <ConfirmDialog
-        open={!!confirmDialog}
-        title={confirmDialog?.title ?? ""}
-        message={confirmDialog?.message ?? ""}
-        confirmLabel={confirmDialog?.confirmLabel}
-        onConfirm={() => confirmDialog?.onConfirm()}
-        onCancel={() => setConfirmDialog(null)}
-      />
-    </div>
+        <TaskSidePanel
+          open={taskModal?.mode === "edit"}
+          title={taskModal?.task?.title ?? "Task"}
+          subtitle={projectsApi.projects?.find((p) => p.id === taskModalProjectId)?.name}
+          link={taskLink}
+          onClose={() => setTaskModal(null)}
+        >
+          {taskModal?.mode === "edit" && taskDetails}
+        </TaskSidePanel>
+
+        <Modal
+          open={!!projectModal}
+          title={projectModal?.mode === "create" ? "New Project" : "Edit Project"}
+          onClose={() => setProjectModal(null)}
+        >
+          {projectModal && (
+            <ProjectForm
+              initial={{
+                name: projectModal.project?.name ?? "",
+                description: projectModal.project?.description ?? "",
+                color: projectModal.project?.color ?? PROJECT_COLORS[0],
+                columns: getProjectColumns(projectModal.project),
+                wipPolicy: getWipPolicy(projectModal.project),
+                dependencyPolicy: getDependencyPolicy(projectModal.project),
+              }}
+              taskCounts={projectModal.project?.id === activeProjectId ? statusCounts : undefined}
+              projectId={projectModal.project?.id}
+              projectOwnerId={projectModal.project?.ownerId}
+              isLoggedIn={!!user && !useMockData}
+              onSubmit={projectModal.mode === "create" ? handleCreateProject : handleUpdateProject}
+              onCancel={() => setProjectModal(null)}
+              submitLabel={projectModal.mode === "create" ? "Create Project" : "Save Changes"}
+            />
+          )}
+        </Modal>
+
+        <Modal open={taskModal?.mode === "create"} title="New Task" onClose={() => setTaskModal(null)}>
+          {taskModal?.mode === "create" && taskDetails}
+        </Modal>
+
+        <Modal open={!!moveTask} title="Move or duplicate task" onClose={() => setMoveTask(null)}>
+          {moveTask && (
+            <MoveTaskForm
+              taskTitle={moveTask.title}
+              currentProjectId={moveTask.projectId}
+              projects={moveTargets}
+              canMove={canEditProject(moveTask.projectId)}
+              onSubmit={handleMoveTask}
+              onCancel={() => setMoveTask(null)}
+            />
+          )}
+        </Modal>
+
+        <Modal open={!!importFile} title="Import project" onClose={() => setImportFile(null)} width="max-w-2xl">
+          {importFile && (
+            <ImportProjectForm
+              key={importFile.fileName}
+              fileName={importFile.fileName}
+              text={importFile.text}
+              onSubmit={handleConfirmImport}
+              onCancel={() => setImportFile(null)}
+            />
+          )}
+        </Modal>
+
+        <Modal open={!!restore} title="Restore workspace backup" onClose={() => setRestore(null)}>
+          {restore && (
+            <RestoreWorkspaceForm
+              fileName={restore.fileName}
+              backup={restore.backup}
+              problems={restore.problems}
+              current={restore.current}
+              userId={user?.id}
+              canEdit={canEditProject}
+              onSubmit={handleConfirmRestore}
+              onCancel={() => setRestore(null)}
+            />
+          )}
+        </Modal>
+
+        <Modal open={!!localMigration} title="Bring your local projects along?" onClose={() => setLocalMigration(null)}>
+          {localMigration && (
+            <MigrateLocalForm plan={localMigration} onSubmit={handleMigrateLocal} onDecline={handleDeclineMigration} />
+          )}
+        </Modal>
+
+        <ConfirmDialog
+          open={!!confirmDialog}
+          title={confirmDialog?.title ?? ""}
+          message={confirmDialog?.message ?? ""}
+          confirmLabel={confirmDialog?.confirmLabel}
+          onConfirm={() => confirmDialog?.onConfirm()}
+          onCancel={() => setConfirmDialog(null)}
+        />
+
+        <CommandPalette open={paletteOpen} commands={commands} onClose={() => setPaletteOpen(false)} />
+        <ShortcutHelp open={shortcutHelpOpen} onClose={() => setShortcutHelpOpen(false)} />
+
+        <UndoToast
+          toast={undoHistory.toast}
+          onUndo={undoHistory.undo}
+          onRedo={undoHistory.redo}
+          onDismiss={undoHistory.dismissToast}
+        />
+      </div>
+    </TaskBoardProvider>
   );
 }
@@ -0,0 +1,36 @@
+import { IconX } from "./icons";
+import type { UndoToastState } from "./hooks/useUndoHistory";
+
+export function UndoToast({
+  toast,
+  onUndo,
+  onRedo,
+  onDismiss,
+}: {
+  toast: UndoToastState | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDismiss: () => void;
+}) {
+  if (!toast) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 z-[70] -translate-x-1/2 animate-fade-in" role="status">
+      <div className="flex items-center gap-3 rounded-xl bg-sidebar px-4 py-2.5 text-sm text-white shadow-overlay">
+        <span className="max-w-xs truncate">{toast.message}</span>
+        {toast.action && (
+          <button
+            onClick={toast.action === "undo" ? onUndo : onRedo}
+            className="rounded-md px-2 py-1 text-xs font-semibold text-accent-light hover:bg-white/10"
+            title={toast.action === "undo" ? "Undo (Ctrl/⌘+Z)" : "Redo (Ctrl/⌘+Shift+Z)"}
+          >
+            {toast.action === "undo" ? "Undo" : "Redo"}
+          </button>
+        )}
+        <button onClick={onDismiss} className="rounded p-1 text-sidebar-muted hover:text-white" title="Dismiss">
+          <IconX className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import type { ActivityValue, ProjectMember, Task, TaskActivity, WorkflowColumn } from "./types";
+import { PRIORITY_CONFIG } from "./types";
+import { memberName } from "./assignees";
+
+export type ActivityChange = Pick<TaskActivity, "kind" | "from" | "to">;
+
+/** Assignees as stored in the log: member ids, then `legacy:<name>` for a free-text assignee. */
+function assigneeValue(task: Pick<Task, "assignee" | "assigneeIds">): string[] {
+  const keys = [...(task.assigneeIds ?? [])].sort();
+  if (task.assignee) keys.push(`legacy:${task.assignee.name}`);
+  return keys;
+}
+
+/** Logged changes between two versions of a task. */
+export function diffTaskActivity(before: Task, after: Task): ActivityChange[] {
+  const changes: ActivityChange[] = [];
+  if (before.status !== after.status) changes.push({ kind: "status", from: before.status, to: after.status });
+  if (before.priority !== after.priority) changes.push({ kind: "priority", from: before.priority, to: after.priority });
+  if (before.title !== after.title) changes.push({ kind: "title", from: before.title, to: after.title });
+  const fromAssignees = assigneeValue(before);
+  const toAssignees = assigneeValue(after);
+  if (fromAssignees.join("\n") !== toAssignees.join("\n")) {
+    changes.push({ kind: "assignees", from: fromAssignees, to: toAssignees });
+  }
+  return changes;
+}
+
+type DescribeContext = {
+  columns: WorkflowColumn[];
+  members: ProjectMember[];
+  currentUserId?: string;
+};
+
+/** Display name for the author of a comment or activity entry. */
+export function actorName(actorId: string | undefined, ctx: Pick<DescribeContext, "members" | "currentUserId">): string {
+  if (!actorId || actorId === ctx.currentUserId) return "You";
+  const member = ctx.members.find((m) => m.userId === actorId);
+  return member ? memberName(member) : "Someone";
+}
+
+function assigneeNames(value: ActivityValue | undefined, ctx: DescribeContext): string {
+  const keys = Array.isArray(value) ? value : [];
+  if (keys.length === 0) return "nobody";
+  return keys
+    .map((k) => (k.startsWith("legacy:") ? k.slice("legacy:".length) : actorName(k, { members: ctx.members })))
+    .join(", ");
+}
+
+function columnLabel(key: ActivityValue | undefined, ctx: DescribeContext): string {
+  return ctx.columns.find((c) => c.key === key)?.label ?? String(key ?? "");
+}
+
+/** One-line summary of an activity entry, without the actor ("moved this from To Do to Done"). */
+export function describeActivity(a: TaskActivity, ctx: DescribeContext): string {
+  switch (a.kind) {
+    case "created":
+      return "created this task";
+    case "status":
+      return `moved this from ${columnLabel(a.from, ctx)} to ${columnLabel(a.to, ctx)}`;
+    case "priority": {
+      const label = (v: ActivityValue | undefined) => PRIORITY_CONFIG[v as keyof typeof PRIORITY_CONFIG]?.label ?? String(v);
+      return `changed priority from ${label(a.from)} to ${label(a.to)}`;
+    }
+    case "title":
+      return `renamed this from "${a.from ?? ""}" to "${a.to ?? ""}"`;
+    case "assignees":
+      return `changed assignees from ${assigneeNames(a.from, ctx)} to ${assigneeNames(a.to, ctx)}`;
+  }
+}
@@ -0,0 +1,77 @@
+import type { ProjectMember, Task } from "./types";
+import { AVATAR_COLORS, nameToInitials } from "./utils";
+
+export type AssigneeDisplay = { key: string; name: string; initials: string; color: string };
+
+function hashString(value: string): number {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) h = (h * 31 + value.charCodeAt(i)) | 0;
+  return Math.abs(h);
+}
+
+/** Human-readable name for a member, derived from the local part of their email. */
+export function memberName(member: Pick<ProjectMember, "email">): string {
+  const local = member.email.split("@")[0] ?? member.email;
+  return local
+    .split(/[._-]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join(" ") || member.email;
+}
+
+export function memberToDisplay(member: ProjectMember): AssigneeDisplay {
+  const name = memberName(member);
+  return {
+    key: member.userId,
+    name,
+    initials: nameToInitials(name),
+    color: AVATAR_COLORS[hashString(member.userId) % AVATAR_COLORS.length],
+  };
+}
+
+/** Everyone shown as assigned to a task: linked members first, then any legacy free-text assignee. */
+export function getTaskAssignees(task: Pick<Task, "assignee" | "assigneeIds">, members: ProjectMember[]): AssigneeDisplay[] {
+  const out: AssigneeDisplay[] = [];
+  for (const id of task.assigneeIds ?? []) {
+    const m = members.find((x) => x.userId === id);
+    if (m) out.push(memberToDisplay(m));
+  }
+  if (task.assignee) out.push({ key: `legacy:${task.assignee.name}`, ...task.assignee });
+  return out;
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/[._\-\s]+/g, " ");
+}
+
+/**
+ * Find the project member a free-text assignee refers to. Matches the full
+ * email, the email's local part, or the local part read as a name
+ * ("jane.doe@…" ↔ "Jane Doe"). Returns null when there is no unique match.
+ */
+export function matchMemberForAssignee(name: string, members: ProjectMember[]): ProjectMember | null {
+  const needle = normalize(name);
+  if (!needle) return null;
+  const matches = members.filter((m) => {
+    const email = m.email.toLowerCase();
+    const local = email.split("@")[0] ?? email;
+    return email === name.trim().toLowerCase() || normalize(local) === needle || normalize(memberName(m)) === needle;
+  });
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/** Patches that move matching legacy assignees onto `assigneeIds`. */
+export function planAssigneeMigration(
+  tasks: Task[],
+  members: ProjectMember[]
+): { taskId: string; assigneeIds: string[] }[] {
+  const plan: { taskId: string; assigneeIds: string[] }[] = [];
+  for (const t of tasks) {
+    if (!t.assignee) continue;
+    const member = matchMemberForAssignee(t.assignee.name, members);
+    if (!member) continue;
+    const ids = t.assigneeIds ?? [];
+    plan.push({ taskId: t.id, assigneeIds: ids.includes(member.userId) ? ids : [...ids, member.userId] });
+  }
+  return plan;
+}
@@ -0,0 +1,155 @@
+/**
+ * Files attached to tasks.
+ *
+ * A task lists its attachments; the files themselves are kept by the repo
+ * (Supabase Storage when signed in, IndexedDB in the local repo) under
+ * `path`. A file is deleted when its task is purged from the trash, or when it
+ * is removed from the task and the task is saved.
+ */
+
+import type { TaskAttachment } from "./types";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_TASK = 20;
+
+/** Where a repo keeps attachment files. */
+export type AttachmentStore = {
+  put(path: string, file: Blob): Promise<void>;
+  get(path: string): Promise<Blob>;
+  /** A URL the browser can load the file from; it may stop working after a while. */
+  url(path: string): Promise<string>;
+  remove(paths: string[]): Promise<void>;
+};
+
+export function isTaskAttachment(obj: unknown): obj is TaskAttachment {
+  if (!obj || typeof obj !== "object") return false;
+  const o = obj as Record<string, unknown>;
+  return (
+    typeof o.id === "string" &&
+    typeof o.name === "string" &&
+    typeof o.type === "string" &&
+    typeof o.size === "number" &&
+    typeof o.path === "string" &&
+    typeof o.createdAt === "string"
+  );
+}
+
+export function isImageAttachment(attachment: Pick<TaskAttachment, "type">): boolean {
+  return /^image\/(png|jpe?g|gif|webp|avif|bmp)$/.test(attachment.type);
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Why these files can't be added next to `existing` attachments, or null when they can. */
+export function attachmentProblem(files: File[], existing: number): string | null {
+  const tooBig = files.find((f) => f.size > MAX_ATTACHMENT_BYTES);
+  if (tooBig) return `"${tooBig.name}" is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}.`;
+  if (files.some((f) => f.size === 0)) return "Empty files can't be attached.";
+  if (existing + files.length > MAX_ATTACHMENTS_PER_TASK) return `A task can have at most ${MAX_ATTACHMENTS_PER_TASK} attachments.`;
+  return null;
+}
+
+/** Attachments in `before` that `after` no longer lists, whose files can go. */
+export function removedAttachments(before: TaskAttachment[] | undefined, after: TaskAttachment[] | undefined): TaskAttachment[] {
+  const kept = new Set((after ?? []).map((a) => a.id));
+  return (before ?? []).filter((a) => !kept.has(a.id));
+}
+
+/** Storage paths are `<project id>/<attachment id>/<file name>`; the name is only kept readable. */
+export function attachmentPath(projectId: string, id: string, fileName: string): string {
+  const safeName = fileName.replace(/[^\w.-]+/g, "_").replace(/^\.+/, "").slice(-100) || "file";
+  return `${projectId}/${id}/${safeName}`;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open("tasks-attachments", 1);
+    req.onupgradeneeded = () => req.result.createObjectStore("files");
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Files as IndexedDB blobs, for the local repo. */
+export function createIndexedDbAttachmentStore(): AttachmentStore {
+  let db: Promise<IDBDatabase> | null = null;
+  const urls = new Map<string, string>();
+
+  function run<T>(mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    db ??= openDb();
+    return db.then(
+      (d) =>
+        new Promise<T>((resolve, reject) => {
+          const tx = d.transaction("files", mode);
+          const req = op(tx.objectStore("files"));
+          tx.oncomplete = () => resolve(req.result);
+          tx.onerror = () => reject(tx.error);
+          tx.onabort = () => reject(tx.error);
+        })
+    );
+  }
+
+  return {
+    async put(path, file) {
+      await run("readwrite", (s) => s.put(file, path));
+    },
+    async get(path) {
+      const blob = await run<Blob | undefined>("readonly", (s) => s.get(path));
+      if (!blob) throw new Error("Attachment not found");
+      return blob;
+    },
+    async url(path) {
+      const cached = urls.get(path);
+      if (cached) return cached;
+      const blob = await run<Blob | undefined>("readonly", (s) => s.get(path));
+      if (!blob) throw new Error("Attachment not found");
+      const url = URL.createObjectURL(blob);
+      urls.set(path, url);
+      return url;
+    },
+    async remove(paths) {
+      if (paths.length === 0) return;
+      await run("readwrite", (s) => {
+        let last!: IDBRequest<undefined>;
+        for (const path of paths) last = s.delete(path);
+        return last;
+      });
+      for (const path of paths) {
+        const url = urls.get(path);
+        if (url) URL.revokeObjectURL(url);
+        urls.delete(path);
+      }
+    },
+  };
+}
+
+/** Files kept in memory only, for the demo data. */
+export function createMemoryAttachmentStore(): AttachmentStore {
+  const files = new Map<string, string>();
+  return {
+    async put(path, file) {
+      files.set(path, URL.createObjectURL(file));
+    },
+    async get(path) {
+      const url = files.get(path);
+      if (!url) throw new Error("Attachment not found");
+      return (await fetch(url)).blob();
+    },
+    async url(path) {
+      const url = files.get(path);
+      if (!url) throw new Error("Attachment not found");
+      return url;
+    },
+    async remove(paths) {
+      for (const path of paths) {
+        const url = files.get(path);
+        if (url) URL.revokeObjectURL(url);
+        files.delete(path);
+      }
+    },
+  };
+}
@@ -0,0 +1,251 @@
+import type { MemberRole, Project, Task, TaskActivity, TaskComment } from "./types";
+import { getProjectColumns, hasStatus } from "./workflow";
+import { isProject, isTaskActivity, isTaskComment, taskProblems } from "./storage";
+
+export const BACKUP_FORMAT = "project-dashboard-backup";
+export const BACKUP_VERSION = 1;
+
+/** A member's role on a project, by email so it can be restored into another account's workspace. */
+export type BackupMember = { projectId: string; email: string; role: MemberRole };
+
+/** Every record in a workspace: what a backup holds and what a restore writes. */
+export type WorkspaceData = {
+  projects: Project[];
+  tasks: Task[];
+  comments: TaskComment[];
+  activity: TaskActivity[];
+  members: BackupMember[];
+};
+
+export type WorkspaceBackup = WorkspaceData & {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+};
+
+export type RestoreMode = "merge" | "replace";
+
+/** What a restore will do, worked out from the backup and the current workspace before anything is written. */
+export type RestorePlan = {
+  mode: RestoreMode;
+  /** Projects the user owns that the backup replaces ("replace" only); what it doesn't write again is deleted last. */
+  deleteProjectIds: string[];
+  /** Records to write as-is; projects and tasks whose id already exists are overwritten. */
+  write: WorkspaceData;
+  /** Every project id, in sidebar order, once the restore is done. */
+  projectOrder: string[];
+  /** Records that exist on both sides but differ, and which copy is kept. */
+  conflicts: string[];
+  counts: { projects: number; tasks: number; comments: number; activity: number; members: number };
+};
+
+export function createBackup(data: WorkspaceData): WorkspaceBackup {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), ...data };
+}
+
+export function isBackupFile(text: string): boolean {
+  try {
+    const data: unknown = JSON.parse(text);
+    return !!data && typeof data === "object" && (data as Record<string, unknown>).format === BACKUP_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+const MEMBER_ROLES: MemberRole[] = ["viewer", "editor", "owner"];
+
+function isBackupMember(obj: unknown): obj is BackupMember {
+  if (!obj || typeof obj !== "object") return false;
+  const o = obj as Record<string, unknown>;
+  return typeof o.projectId === "string" && typeof o.email === "string" && MEMBER_ROLES.includes(o.role as MemberRole);
+}
+
+function list(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function label(obj: unknown, kind: string): string {
+  const o = (obj ?? {}) as Record<string, unknown>;
+  const name = typeof o.name === "string" ? o.name : typeof o.title === "string" ? o.title : null;
+  const id = typeof o.id === "string" ? o.id : null;
+  return [kind, name && `"${name}"`, id && `(${id})`].filter(Boolean).join(" ");
+}
+
+/**
+ * Read a backup file and validate every record with the same guards used for
+ * localStorage. Invalid or orphaned records are left out and described in `problems`.
+ */
+export function parseBackup(text: string): { backup: WorkspaceBackup; problems: string[] } {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!raw || raw.format !== BACKUP_FORMAT) throw new Error("This file is not a workspace backup.");
+  if (typeof raw.version !== "number" || raw.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of the app.");
+  }
+
+  const problems: string[] = [];
+
+  const projects: Project[] = [];
+  for (const p of list(raw.projects)) {
+    if (isProject(p)) projects.push(p);
+    else problems.push(`${label(p, "Project")} is not valid and was skipped`);
+  }
+  const columnsById = new Map(projects.map((p) => [p.id, getProjectColumns(p)]));
+
+  const tasks: Task[] = [];
+  for (const t of list(raw.tasks)) {
+    const errors = taskProblems(t);
+    if (errors.length === 0) {
+      const task = t as Task;
+      const columns = columnsById.get(task.projectId);
+      if (!columns) errors.push("its project is not in the backup");
+      else if (!hasStatus(columns, task.status)) errors.push(`Unknown status "${task.status}"`);
+    }
+    if (errors.length > 0) problems.push(`${label(t, "Task")} was skipped: ${errors.join(", ")}`);
+    else tasks.push(t as Task);
+  }
+
+  // Dependencies on tasks that didn't make it are dropped, as when a task is deleted.
+  const taskIds = new Set(tasks.map((t) => t.id));
+  let dangling = 0;
+  for (const [i, t] of tasks.entries()) {
+    if (!t.blockedBy?.some((id) => !taskIds.has(id))) continue;
+    dangling++;
+    const blockedBy = t.blockedBy.filter((id) => taskIds.has(id));
+    tasks[i] = { ...t, blockedBy: blockedBy.length > 0 ? blockedBy : undefined };
+  }
+  if (dangling > 0) problems.push(`${dangling} task${dangling === 1 ? "" : "s"} lost dependencies on tasks not in the backup`);
+
+  const comments = list(raw.comments).filter((c): c is TaskComment => isTaskComment(c) && taskIds.has(c.taskId));
+  const activity = list(raw.activity).filter((a): a is TaskActivity => isTaskActivity(a) && taskIds.has(a.taskId));
+  const members = list(raw.members).filter((m): m is BackupMember => isBackupMember(m) && columnsById.has(m.projectId));
+  const droppedHistory = list(raw.comments).length - comments.length + list(raw.activity).length - activity.length;
+  if (droppedHistory > 0) problems.push(`${droppedHistory} comment or activity entr${droppedHistory === 1 ? "y" : "ies"} skipped`);
+  const droppedMembers = list(raw.members).length - members.length;
+  if (droppedMembers > 0) problems.push(`${droppedMembers} member role${droppedMembers === 1 ? "" : "s"} skipped`);
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+      projects,
+      tasks,
+      comments,
+      activity,
+      members,
+    },
+    problems,
+  };
+}
+
+/** Fields compared to decide whether two copies of a record differ; timestamps and owner are ignored. */
+function sameRecord(a: Project | Task, b: Project | Task): boolean {
+  const strip = ({ updatedAt: _u, ownerId: _o, ...rest }: Record<string, unknown>) => rest;
+  return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+}
+
+/**
+ * Decide what a restore writes. "merge" keeps the current workspace and adds the
+ * backup to it; where both have the same project or task, the more recently
+ * updated copy wins. "replace" first deletes the projects the user owns, then
+ * writes the backup. Projects shared with the user are never deleted, and only
+ * overwritten where the user could edit them anyway.
+ */
+export function planRestore(
+  backup: WorkspaceData,
+  current: WorkspaceData,
+  mode: RestoreMode,
+  access: { userId?: string; canEdit: (projectId: string) => boolean }
+): RestorePlan {
+  const conflicts: string[] = [];
+  const isOwned = (p: Project) => !p.ownerId || p.ownerId === access.userId;
+
+  const deleteProjectIds = mode === "replace" ? current.projects.filter(isOwned).map((p) => p.id) : [];
+  const deleted = new Set(deleteProjectIds);
+  const kept = {
+    projects: new Map(current.projects.filter((p) => !deleted.has(p.id)).map((p) => [p.id, p])),
+    tasks: new Map(current.tasks.filter((t) => !deleted.has(t.projectId)).map((t) => [t.id, t])),
+  };
+
+  const projects: Project[] = [];
+  for (const p of backup.projects) {
+    const { ownerId: _owner, ...incoming } = p;
+    const existing = kept.projects.get(p.id);
+    if (!existing) {
+      projects.push(incoming);
+    } else if (!sameRecord(existing, p)) {
+      if (!isOwned(existing)) conflicts.push(`Project "${existing.name}" is shared with you, so your current copy was kept`);
+      else if (p.updatedAt > existing.updatedAt) {
+        conflicts.push(`Project "${existing.name}" was replaced by the newer copy from the backup`);
+        projects.push({ ...incoming, order: existing.order });
+      } else conflicts.push(`Project "${existing.name}" is newer in your workspace and was kept`);
+    }
+  }
+  const writtenProjects = new Set(projects.map((p) => p.id));
+
+  const tasks: Task[] = [];
+  for (const t of backup.tasks) {
+    const existing = kept.tasks.get(t.id);
+    const target = writtenProjects.has(t.projectId) || (kept.projects.has(t.projectId) && access.canEdit(t.projectId));
+    if (!existing) {
+      if (target) tasks.push(t);
+      else conflicts.push(`Task "${t.title}" was skipped because you can't add tasks to its project`);
+    } else if (!sameRecord(existing, t)) {
+      if (!target || !access.canEdit(existing.projectId)) conflicts.push(`Task "${existing.title}" can't be changed by you, so your current copy was kept`);
+      else if (t.updatedAt > existing.updatedAt) {
+        conflicts.push(`Task "${existing.title}" was replaced by the newer copy from the backup`);
+        tasks.push(t);
+      } else conflicts.push(`Task "${existing.title}" is newer in your workspace and was kept`);
+    }
+  }
+
+  // History is only ever added. A comment counts as already there when its id
+  // or its task, time and text match; repos that assign their own ids need the latter.
+  const availableTasks = new Set([...tasks.map((t) => t.id), ...kept.tasks.keys()]);
+  const commentKey = (c: TaskComment) => `${c.taskId}|${c.createdAt}|${c.body}`;
+  const activityKey = (a: TaskActivity) => `${a.taskId}|${a.createdAt}|${a.kind}`;
+  const currentComments = current.comments.filter((c) => kept.tasks.has(c.taskId));
+  const currentActivity = current.activity.filter((a) => kept.tasks.has(a.taskId));
+  const seenComments = new Set([...currentComments.map((c) => c.id), ...currentComments.map(commentKey)]);
+  const seenActivity = new Set([...currentActivity.map((a) => a.id), ...currentActivity.map(activityKey)]);
+  const comments = backup.comments.filter(
+    (c) => availableTasks.has(c.taskId) && !seenComments.has(c.id) && !seenComments.has(commentKey(c))
+  );
+  const activity = backup.activity.filter(
+    (a) => availableTasks.has(a.taskId) && !seenActivity.has(a.id) && !seenActivity.has(activityKey(a))
+  );
+  // A comment moves with its task if the task's project changed.
+  const projectOfTask = new Map([...kept.tasks.values(), ...tasks].map((t) => [t.id, t.projectId]));
+  const rehome = <T extends { taskId: string; projectId: string }>(x: T): T => ({ ...x, projectId: projectOfTask.get(x.taskId) ?? x.projectId });
+
+  const seenMembers = new Set(current.members.filter((m) => !deleted.has(m.projectId)).map((m) => `${m.projectId}|${m.email.toLowerCase()}`));
+  const members = backup.members.filter(
+    (m) => writtenProjects.has(m.projectId) && !seenMembers.has(`${m.projectId}|${m.email.toLowerCase()}`)
+  );
+
+  // Projects new to this workspace keep their relative order from the backup, after the ones already here.
+  const byOrder = (a: Project, b: Project) => a.order - b.order;
+  const existingOrder = [...kept.projects.values()].sort(byOrder).map((p) => p.id);
+  const added = projects.filter((p) => !kept.projects.has(p.id)).sort(byOrder).map((p) => p.id);
+  const projectOrder = [...existingOrder, ...added];
+
+  return {
+    mode,
+    deleteProjectIds,
+    write: { projects, tasks, comments: comments.map(rehome), activity: activity.map(rehome), members },
+    projectOrder,
+    conflicts,
+    counts: {
+      projects: projects.length,
+      tasks: tasks.length,
+      comments: comments.length,
+      activity: activity.length,
+      members: members.length,
+    },
+  };
+}
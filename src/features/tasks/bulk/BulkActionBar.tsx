@@ -0,0 +1,159 @@
+import { useState } from "react";
+import type { Project, ProjectMember, Task, TaskPriority, WorkflowColumn } from "../types";
+import { PRIORITY_CONFIG } from "../types";
+import type { KnownAssignee } from "../forms";
+import type { BulkAction } from "../bulkActions";
+import { CustomSelect } from "../ui";
+import { IconTrash, IconX } from "../icons";
+import { memberToDisplay } from "../assignees";
+import { nameToInitials } from "../utils";
+
+const selectClass = "h-8 py-0 text-xs";
+
+/** Toolbar shown above the board or list while tasks are selected. */
+export function BulkActionBar({
+  tasks,
+  columns,
+  members,
+  knownAssignees,
+  knownTags,
+  moveTargets,
+  onAction,
+  onMove,
+  onDelete,
+  onClear,
+}: {
+  tasks: Task[];
+  columns: WorkflowColumn[];
+  members: ProjectMember[];
+  knownAssignees: KnownAssignee[];
+  knownTags: string[];
+  /** Projects the selection can be moved into. */
+  moveTargets: Project[];
+  onAction: (action: BulkAction) => void;
+  onMove: (projectId: string) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}) {
+  const [tagInput, setTagInput] = useState("");
+  const selectedTags = Array.from(new Set(tasks.flatMap((t) => t.tags ?? []))).sort();
+
+  // Projects with members assign by account; older projects still use free-text names.
+  const assigneeOptions =
+    members.length > 0
+      ? members.map((m) => ({ value: `member:${m.userId}`, label: memberToDisplay(m).name }))
+      : knownAssignees.map((a) => ({ value: `name:${a.name}`, label: a.name }));
+
+  function assign(value: string) {
+    if (value === "none") onAction({ kind: "unassign" });
+    else if (value.startsWith("member:")) onAction({ kind: "assignMember", userId: value.slice(7) });
+    else {
+      const name = value.slice(5);
+      const known = knownAssignees.find((a) => a.name === name);
+      onAction({ kind: "assignName", assignee: known ?? { name, initials: nameToInitials(name), color: "" } });
+    }
+  }
+
+  function addTag() {
+    const tag = tagInput.trim().toLowerCase();
+    if (tag) onAction({ kind: "addTag", tag });
+    setTagInput("");
+  }
+
+  return (
+    <div className="sticky top-0 z-20 mb-4 flex flex-wrap items-center gap-2 rounded-xl border border-accent/30 bg-white/95 dark:bg-dark-surface/95 px-3 py-2 shadow-lifted backdrop-blur-md animate-fade-in">
+      <span className="mr-1 text-xs font-semibold text-gray-900 dark:text-gray-100">{tasks.length} selected</span>
+      <div className="w-32">
+        <CustomSelect<string>
+          value=""
+          placeholder="Status"
+          onChange={(status) => onAction({ kind: "status", status })}
+          options={columns.map((c) => ({ value: c.key, label: c.label }))}
+          className={selectClass}
+        />
+      </div>
+      <div className="w-28">
+        <CustomSelect<TaskPriority | "">
+          value=""
+          placeholder="Priority"
+          onChange={(priority) => priority && onAction({ kind: "priority", priority })}
+          options={(Object.keys(PRIORITY_CONFIG) as TaskPriority[]).map((p) => ({ value: p, label: PRIORITY_CONFIG[p].label }))}
+          className={selectClass}
+        />
+      </div>
+      <div className="w-36">
+        <CustomSelect<string>
+          value=""
+          placeholder="Assignee"
+          onChange={assign}
+          options={[...assigneeOptions, { value: "none", label: "Unassigned" }]}
+          className={selectClass}
+        />
+      </div>
+      <input
+        value={tagInput}
+        onChange={(e) => setTagInput(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === ",") { e.preventDefault(); addTag(); }
+        }}
+        list="bulk-tag-suggestions"
+        placeholder="Add tag…"
+        className="h-8 w-28 rounded-lg border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-raised px-2.5 text-xs text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25"
+      />
+      <datalist id="bulk-tag-suggestions">
+        {knownTags.map((t) => <option key={t} value={t} />)}
+      </datalist>
+      {selectedTags.length > 0 && (
+        <div className="w-32">
+          <CustomSelect<string>
+            value=""
+            placeholder="Remove tag"
+            onChange={(tag) => onAction({ kind: "removeTag", tag })}
+            options={selectedTags.map((t) => ({ value: t, label: t }))}
+            className={selectClass}
+          />
+        </div>
+      )}
+      <input
+        type="date"
+        value=""
+        onChange={(e) => e.target.value && onAction({ kind: "due", due: e.target.value })}
+        title="Set due date"
+        className="h-8 rounded-lg border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-raised px-2 text-xs text-gray-900 dark:text-gray-100 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25"
+      />
+      <button
+        onClick={() => onAction({ kind: "due", due: undefined })}
+        className="rounded-lg px-2 py-1.5 text-xs font-medium text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-700"
+      >
+        Clear due
+      </button>
+      {moveTargets.length > 0 && (
+        <div className="w-40">
+          <CustomSelect<string>
+            value=""
+            placeholder="Move to project"
+            onChange={onMove}
+            options={moveTargets.map((p) => ({ value: p.id, label: p.name }))}
+            className={selectClass}
+          />
+        </div>
+      )}
+      <div className="ml-auto flex items-center gap-1">
+        <button
+          onClick={onDelete}
+          className="flex items-center gap-1.5 rounded-lg px-2.5 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 dark:hover:bg-red-500/20"
+        >
+          <IconTrash className="h-3.5 w-3.5" />
+          Delete
+        </button>
+        <button
+          onClick={onClear}
+          className="rounded-md p-1.5 text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600"
+          title="Clear selection (Esc)"
+        >
+          <IconX className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { BulkActionBar } from "./BulkActionBar";
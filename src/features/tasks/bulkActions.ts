@@ -0,0 +1,43 @@
+import type { Task, TaskPriority, TaskStatus } from "./types";
+import type { TaskUpdate } from "./store";
+
+export type BulkAction =
+  | { kind: "status"; status: TaskStatus }
+  | { kind: "priority"; priority: TaskPriority }
+  | { kind: "assignMember"; userId: string }
+  | { kind: "assignName"; assignee: NonNullable<Task["assignee"]> }
+  | { kind: "unassign" }
+  | { kind: "addTag"; tag: string }
+  | { kind: "removeTag"; tag: string }
+  | { kind: "due"; due: string | undefined };
+
+/** The patch one bulk action makes to one task, or null when the task is already in that state. */
+export function bulkPatch(task: Task, action: BulkAction): TaskUpdate | null {
+  switch (action.kind) {
+    case "status":
+      return task.status === action.status ? null : { status: action.status };
+    case "priority":
+      return task.priority === action.priority ? null : { priority: action.priority };
+    case "assignMember":
+      if (task.assigneeIds?.length === 1 && task.assigneeIds[0] === action.userId && !task.assignee) return null;
+      return { assigneeIds: [action.userId], assignee: undefined };
+    case "assignName":
+      if (task.assignee?.name === action.assignee.name) return null;
+      return { assignee: action.assignee };
+    case "unassign":
+      if (!task.assignee && !task.assigneeIds?.length) return null;
+      return { assignee: undefined, assigneeIds: undefined };
+    case "addTag": {
+      const tags = task.tags ?? [];
+      return tags.includes(action.tag) ? null : { tags: [...tags, action.tag] };
+    }
+    case "removeTag": {
+      const tags = task.tags ?? [];
+      if (!tags.includes(action.tag)) return null;
+      const rest = tags.filter((t) => t !== action.tag);
+      return { tags: rest.length > 0 ? rest : undefined };
+    }
+    case "due":
+      return task.due === action.due ? null : { due: action.due };
+  }
+}
@@ -0,0 +1,67 @@
+import { useDroppable } from "@dnd-kit/core";
+import type { Task } from "../types";
+import { DraggableCalendarChip } from "./CalendarTaskChip";
+import { cn } from "../utils";
+
+export function CalendarDay({
+  dateKey,
+  date,
+  tasks,
+  activeTaskId,
+  isToday,
+  isOutside,
+  maxVisible,
+  onEditTask,
+  onShowMore,
+}: {
+  dateKey: string;
+  date: Date;
+  tasks: Task[];
+  activeTaskId: string | null;
+  isToday: boolean;
+  isOutside?: boolean;
+  maxVisible?: number;
+  onEditTask?: (t: Task) => void;
+  onShowMore?: () => void;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: `day-${dateKey}`, data: { type: "day", dateKey } });
+  const visible = maxVisible !== undefined ? tasks.slice(0, maxVisible) : tasks;
+  const hidden = tasks.length - visible.length;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "flex min-h-[96px] min-w-0 flex-col gap-1 border-b border-r border-gray-100 dark:border-dark-border p-1.5 transition-colors",
+        isOutside ? "bg-canvas/60 dark:bg-dark-canvas/60" : "bg-white dark:bg-dark-surface",
+        isOver && "bg-accent/8 dark:bg-accent/15"
+      )}
+    >
+      <span
+        className={cn(
+          "flex h-5 w-5 items-center justify-center self-end rounded-full text-2xs font-semibold",
+          isToday ? "bg-accent text-white" : isOutside ? "text-gray-400" : "text-gray-600 dark:text-gray-300"
+        )}
+      >
+        {date.getDate()}
+      </span>
+      {visible.map((t) => (
+        <DraggableCalendarChip
+          key={t.id}
+          task={t}
+          isActive={t.id === activeTaskId}
+          onEdit={onEditTask ? () => onEditTask(t) : undefined}
+        />
+      ))}
+      {hidden > 0 && (
+        <button
+          type="button"
+          onClick={onShowMore}
+          className="rounded px-1 text-left text-2xs font-medium text-gray-500 hover:text-accent"
+        >
+          +{hidden} more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useDraggable } from "@dnd-kit/core";
+import type { Task } from "../types";
+import { PRIORITY_CONFIG } from "../types";
+import { getDueState } from "../dates";
+import { useIsDone } from "../context";
+import { cn } from "../utils";
+
+export function DraggableCalendarChip({
+  task,
+  isActive,
+  onEdit,
+}: {
+  task: Task;
+  isActive?: boolean;
+  onEdit?: () => void;
+}) {
+  const { attributes, listeners, setNodeRef } = useDraggable({ id: task.id });
+  return (
+    <div
+      ref={setNodeRef}
+      data-task-id={task.id}
+      style={isActive ? { visibility: "hidden" } : undefined}
+      {...attributes}
+      {...listeners}
+    >
+      <CalendarTaskChip task={task} onClick={onEdit} />
+    </div>
+  );
+}
+
+export function CalendarTaskChip({
+  task,
+  onClick,
+  overlay,
+}: {
+  task: Task;
+  onClick?: () => void;
+  overlay?: boolean;
+}) {
+  const done = useIsDone(task.status);
+  const overdue = getDueState(task, done) === "overdue";
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "flex w-full items-center gap-1.5 rounded-md border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface px-1.5 py-1 text-left text-2xs font-medium transition-colors hover:border-gray-300 dark:hover:border-gray-600",
+        overlay && "shadow-lifted ring-2 ring-accent/25 border-accent/30",
+        done
+          ? "text-gray-400 line-through"
+          : overdue
+            ? "text-red-600 dark:text-red-400"
+            : "text-gray-800 dark:text-gray-200"
+      )}
+      title={task.title}
+    >
+      <span className="inline-block h-1.5 w-1.5 shrink-0 rounded-full" style={{ backgroundColor: PRIORITY_CONFIG[task.priority].dot }} />
+      <span className="truncate">{task.title}</span>
+    </button>
+  );
+}
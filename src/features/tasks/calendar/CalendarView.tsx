@@ -0,0 +1,225 @@
+import { useMemo, useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import type { Task } from "../types";
+import { addDays, getMonthGrid, getWeekDays, toDateKey } from "../dates";
+import { IconChevron } from "../icons";
+import { CalendarDay } from "./CalendarDay";
+import { CalendarTaskChip, DraggableCalendarChip } from "./CalendarTaskChip";
+import { cn, collisionDetection } from "../utils";
+
+type CalendarMode = "month" | "week";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTH_VISIBLE_CHIPS = 3;
+
+export function CalendarView({
+  tasks,
+  onEditTask,
+  onReschedule,
+}: {
+  tasks: Task[];
+  onEditTask?: (t: Task) => void;
+  onReschedule?: (taskId: string, due: string | undefined) => void;
+}) {
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [activeTask, setActiveTask] = useState<Task | null>(null);
+
+  const todayKey = toDateKey(new Date());
+  const days = mode === "month" ? getMonthGrid(anchor) : getWeekDays(anchor);
+
+  const { byDay, unscheduled } = useMemo(() => {
+    const byDay = new Map<string, Task[]>();
+    const unscheduled: Task[] = [];
+    for (const t of tasks) {
+      if (!t.due) { unscheduled.push(t); continue; }
+      const key = t.due.slice(0, 10);
+      const list = byDay.get(key) ?? [];
+      list.push(t);
+      byDay.set(key, list);
+    }
+    for (const list of byDay.values()) list.sort((a, b) => a.order - b.order);
+    return { byDay, unscheduled };
+  }, [tasks]);
+
+  const pointerSensor = useSensor(PointerSensor, { activationConstraint: { distance: 5 } });
+  const sensors = useSensors(onReschedule ? pointerSensor : undefined);
+
+  function shift(direction: 1 | -1) {
+    setAnchor((prev) =>
+      mode === "month"
+        ? new Date(prev.getFullYear(), prev.getMonth() + direction, 1)
+        : addDays(prev, 7 * direction)
+    );
+  }
+
+  function handleDragStart(event: DragStartEvent) {
+    document.body.classList.add("is-dragging");
+    setActiveTask(tasks.find((t) => t.id === event.active.id) ?? null);
+  }
+
+  function handleDragEnd(event: DragEndEvent) {
+    document.body.classList.remove("is-dragging");
+    setActiveTask(null);
+    const { active, over } = event;
+    if (!over) return;
+    const task = tasks.find((t) => t.id === active.id);
+    if (!task) return;
+    const overId = over.id as string;
+    const nextDue = overId === "day-none" ? undefined : overId.replace("day-", "");
+    if ((task.due?.slice(0, 10) ?? undefined) === nextDue) return;
+    onReschedule?.(task.id, nextDue);
+  }
+
+  function handleDragCancel() {
+    document.body.classList.remove("is-dragging");
+    setActiveTask(null);
+  }
+
+  const title =
+    mode === "month"
+      ? anchor.toLocaleDateString(undefined, { month: "long", year: "numeric" })
+      : `${days[0].toLocaleDateString(undefined, { month: "short", day: "numeric" })} – ${days[6].toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })}`;
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={collisionDetection}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
+    >
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => shift(-1)}
+            className="rounded-md p-1.5 text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600"
+            title={mode === "month" ? "Previous month" : "Previous week"}
+          >
+            <IconChevron direction="left" className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={() => shift(1)}
+            className="rounded-md p-1.5 text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600"
+            title={mode === "month" ? "Next month" : "Next week"}
+          >
+            <IconChevron direction="right" className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={() => setAnchor(new Date())}
+            className="rounded-lg border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-raised px-2.5 py-1 text-2xs font-medium text-gray-600 dark:text-gray-300 hover:bg-canvas dark:hover:bg-dark-border"
+          >
+            Today
+          </button>
+        </div>
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">{title}</h2>
+        <div className="ml-auto flex rounded-lg border border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised p-0.5">
+          {(["month", "week"] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={cn(
+                "rounded-md px-2.5 py-1 text-2xs font-medium transition-all",
+                mode === m ? "bg-white dark:bg-dark-surface text-gray-900 dark:text-gray-100 shadow-card" : "text-gray-500 hover:text-gray-700"
+              )}
+            >
+              {m === "month" ? "Month" : "Week"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="min-w-0 overflow-x-auto kanban-scroll">
+        <div className="min-w-[640px] overflow-hidden rounded-2xl border-l border-t border-gray-200 dark:border-dark-border">
+          <div className="grid grid-cols-7 bg-raised dark:bg-dark-raised">
+            {WEEKDAYS.map((d) => (
+              <div key={d} className="border-b border-r border-gray-200 dark:border-dark-border px-2 py-1.5 text-2xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                {d}
+              </div>
+            ))}
+          </div>
+          <div className={cn("grid grid-cols-7", mode === "week" && "[&>*]:min-h-[320px]")}>
+            {days.map((d) => {
+              const key = toDateKey(d);
+              return (
+                <CalendarDay
+                  key={key}
+                  dateKey={key}
+                  date={d}
+                  tasks={byDay.get(key) ?? []}
+                  activeTaskId={activeTask?.id ?? null}
+                  isToday={key === todayKey}
+                  isOutside={mode === "month" && d.getMonth() !== anchor.getMonth()}
+                  maxVisible={mode === "month" ? MONTH_VISIBLE_CHIPS : undefined}
+                  onEditTask={onEditTask}
+                  onShowMore={() => { setAnchor(d); setMode("week"); }}
+                />
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <UnscheduledTray tasks={unscheduled} activeTaskId={activeTask?.id ?? null} onEditTask={onEditTask} />
+
+      <DragOverlay dropAnimation={{ duration: 200, easing: "ease" }}>
+        {activeTask ? (
+          <div className="w-40">
+            <CalendarTaskChip task={activeTask} overlay />
+          </div>
+        ) : null}
+      </DragOverlay>
+    </DndContext>
+  );
+}
+
+function UnscheduledTray({
+  tasks,
+  activeTaskId,
+  onEditTask,
+}: {
+  tasks: Task[];
+  activeTaskId: string | null;
+  onEditTask?: (t: Task) => void;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: "day-none", data: { type: "day", dateKey: null } });
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "mt-4 rounded-2xl border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-3 py-3 transition-colors",
+        isOver && "border-accent/40 bg-accent/5"
+      )}
+    >
+      <div className="mb-2 flex items-center gap-2">
+        <span className="text-xs font-semibold text-gray-800 dark:text-gray-100">No due date</span>
+        <span className="flex h-5 min-w-[20px] items-center justify-center rounded-full bg-gray-200/80 dark:bg-dark-border px-1.5 text-2xs font-semibold text-gray-500 dark:text-gray-400">
+          {tasks.length}
+        </span>
+      </div>
+      {tasks.length === 0 ? (
+        <p className="text-2xs text-gray-400">Drop a task here to clear its due date</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-1.5 sm:grid-cols-4 lg:grid-cols-6">
+          {tasks.map((t) => (
+            <DraggableCalendarChip
+              key={t.id}
+              task={t}
+              isActive={t.id === activeTaskId}
+              onEdit={onEditTask ? () => onEditTask(t) : undefined}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
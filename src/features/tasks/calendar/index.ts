@@ -0,0 +1,3 @@
+export { CalendarView } from "./CalendarView";
+export { CalendarDay } from "./CalendarDay";
+export { CalendarTaskChip, DraggableCalendarChip } from "./CalendarTaskChip";
@@ -0,0 +1,68 @@
+/** An entry in the command palette. */
+export type Command = {
+  id: string;
+  group: "Actions" | "Projects" | "Tasks";
+  label: string;
+  /** Secondary text, e.g. the project a task is in; searched too, at a lower weight. */
+  detail?: string;
+  /** Key hint shown on the right, e.g. "C". */
+  shortcut?: string;
+  run: () => void;
+};
+
+/** Single-key shortcuts, for the help overlay. */
+export const SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ["⌘/Ctrl", "K"], description: "Open the command palette" },
+  { keys: ["C"], description: "Create a task" },
+  { keys: ["J"], description: "Focus the next task" },
+  { keys: ["K"], description: "Focus the previous task" },
+  { keys: ["Enter"], description: "Open the focused task" },
+  { keys: ["1–9"], description: "Move the focused task to that column" },
+  { keys: ["P"], description: "Raise the focused task's priority (wraps to low)" },
+  { keys: ["Esc"], description: "Clear the focus and selection" },
+  { keys: ["⌘/Ctrl", "Z"], description: "Undo" },
+  { keys: ["⌘/Ctrl", "Shift", "Z"], description: "Redo" },
+  { keys: ["?"], description: "Show these shortcuts" },
+];
+
+const WORD_BREAK = /[\s\-_/.:#]/;
+
+/**
+ * How well `query` matches `text` with its letters in order, or null if it
+ * doesn't. Runs of consecutive letters and matches at word starts score higher,
+ * and shorter texts win ties.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, "");
+  if (!q) return 0;
+  const t = text.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let prev = -2;
+  for (const ch of q) {
+    const i = t.indexOf(ch, from);
+    if (i === -1) return null;
+    score += 1;
+    if (i === prev + 1) score += 2;
+    if (i === 0 || WORD_BREAK.test(t[i - 1])) score += 3;
+    prev = i;
+    from = i + 1;
+  }
+  return score - t.length / 100;
+}
+
+/** Commands matching `query`, best first; an empty query keeps the given order. */
+export function searchCommands(commands: Command[], query: string, limit = 50): Command[] {
+  if (!query.trim()) return commands.slice(0, limit);
+  const scored: { command: Command; score: number }[] = [];
+  for (const command of commands) {
+    const label = fuzzyScore(query, command.label);
+    const detail = command.detail ? fuzzyScore(query, command.detail) : null;
+    const score = Math.max(label ?? -Infinity, detail === null ? -Infinity : detail - 2);
+    if (score > -Infinity) scored.push({ command, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((s) => s.command);
+}
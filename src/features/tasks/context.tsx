@@ -0,0 +1,39 @@
+import { createContext, useContext, type ReactNode } from "react";
+import type { ProjectMember, Task, TaskAttachment, TaskStatus, WorkflowColumn } from "./types";
+import { STATUS_COLUMNS } from "./types";
+import { isDoneStatus } from "./workflow";
+
+type TaskBoardCtx = {
+  columns: WorkflowColumn[];
+  members: ProjectMember[];
+  openBlockers?: Map<string, Task[]>; // unfinished blockers by task id, across projects
+  tasksById?: Map<string, Task>; // every task the user can see, for #t-… references
+  taskHref?: (task: Task) => string; // the task's own URL
+  attachmentUrl?: (attachment: TaskAttachment) => Promise<string>; // where the browser can load the file
+};
+
+const NO_BLOCKERS = new Map<string, Task[]>();
+
+const TaskBoardContext = createContext<TaskBoardCtx>({
+  columns: STATUS_COLUMNS,
+  members: [],
+});
+
+/** Shared, read-only board state for deeply nested task components (cards, rows, chips). */
+export function useTaskBoard() {
+  return useContext(TaskBoardContext);
+}
+
+export function useIsDone(status: TaskStatus): boolean {
+  return isDoneStatus(useTaskBoard().columns, status);
+}
+
+export function useOpenBlockers(taskId: string): Task[] {
+  return (useTaskBoard().openBlockers ?? NO_BLOCKERS).get(taskId) ?? [];
+}
+
+export function TaskBoardProvider({ columns, members, openBlockers, tasksById, taskHref, attachmentUrl, children }: TaskBoardCtx & { children: ReactNode }) {
+  return (
+    <TaskBoardContext.Provider value={{ columns, members, openBlockers, tasksById, taskHref, attachmentUrl }}>{children}</TaskBoardContext.Provider>
+  );
+}
@@ -0,0 +1,55 @@
+/** Minimal RFC 4180 CSV: quoted fields, doubled quotes, and newlines inside quotes. */
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  // Excel and Jira prepend a byte-order mark.
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no data.
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+// Spreadsheets run cells starting with these as formulas; a leading ' makes them plain text.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeField(value: string): string {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Undo the ' that toCsv puts before formula-like cells, so exports re-import unchanged. */
+export function unescapeFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((r) => r.map(escapeField).join(",")).join("\r\n") + "\r\n";
+}
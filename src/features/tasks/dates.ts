@@ -0,0 +1,95 @@
+import type { Task } from "./types";
+
+/** Days ahead of today that still count as "due soon". */
+export const DUE_SOON_DAYS = 2;
+
+export type DueState = "overdue" | "today" | "soon" | "later";
+
+/** Format a date as a local `YYYY-MM-DD` key (the format stored in `Task.due`). */
+export function toDateKey(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+/** Parse a `YYYY-MM-DD` key (or full ISO string) into a local-midnight Date. */
+export function parseDateKey(key: string): Date | null {
+  const m = key.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!m) return null;
+  return new Date(parseInt(m[1], 10), parseInt(m[2], 10) - 1, parseInt(m[3], 10));
+}
+
+export function addDays(d: Date, days: number): Date {
+  const next = new Date(d);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+export function startOfDay(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+export function startOfWeek(d: Date): Date {
+  const day = startOfDay(d);
+  return addDays(day, -day.getDay());
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / 86_400_000);
+}
+
+/** Where a due date sits relative to today. Done tasks and tasks without a due date return null. */
+export function getDueState(task: Pick<Task, "due">, done: boolean, today = new Date()): DueState | null {
+  if (!task.due || done) return null;
+  const due = parseDateKey(task.due);
+  if (!due) return null;
+  const diff = daysBetween(today, due);
+  if (diff < 0) return "overdue";
+  if (diff === 0) return "today";
+  if (diff <= DUE_SOON_DAYS) return "soon";
+  return "later";
+}
+
+export function formatDue(due: string, today = new Date()): string {
+  const d = parseDateKey(due);
+  if (!d) return due;
+  const diff = daysBetween(today, d);
+  if (diff === 0) return "Today";
+  if (diff === 1) return "Tomorrow";
+  if (diff === -1) return "Yesterday";
+  const sameYear = d.getFullYear() === today.getFullYear();
+  return d.toLocaleDateString(undefined, sameYear ? { month: "short", day: "numeric" } : { month: "short", day: "numeric", year: "numeric" });
+}
+
+/** Compare by due date ascending; tasks without a due date sort last. */
+export function compareDue(a: Pick<Task, "due">, b: Pick<Task, "due">): number {
+  if (a.due && b.due) return a.due.localeCompare(b.due);
+  if (a.due) return -1;
+  if (b.due) return 1;
+  return 0;
+}
+
+/** Six full weeks (Sunday first) covering the month that contains `anchor`. */
+export function getMonthGrid(anchor: Date): Date[] {
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const start = startOfWeek(first);
+  return Array.from({ length: 42 }, (_, i) => addDays(start, i));
+}
+
+export function getWeekDays(anchor: Date): Date[] {
+  const start = startOfWeek(anchor);
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+}
+
+/** "just now", "5m ago", "3h ago", "Yesterday", then a short date. */
+export function formatRelativeTime(iso: string, now = new Date()): string {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  const minutes = Math.floor((now.getTime() - d.getTime()) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24 && daysBetween(d, now) === 0) return `${Math.floor(minutes / 60)}h ago`;
+  if (daysBetween(d, now) === 1) return "Yesterday";
+  return formatDue(toDateKey(d), now);
+}
@@ -0,0 +1,77 @@
+import type { DependencyPolicy, Project, Task, TaskStatus } from "./types";
+import { getProjectColumns, isDoneStatus } from "./workflow";
+
+export function getDependencyPolicy(project?: Pick<Project, "dependencyPolicy"> | null): DependencyPolicy {
+  return project?.dependencyPolicy ?? "warn";
+}
+
+function isDoneIn(task: Task, projectsById: Map<string, Project>): boolean {
+  return isDoneStatus(getProjectColumns(projectsById.get(task.projectId)), task.status);
+}
+
+function openBlockersOf(task: Task, byId: Map<string, Task>, projectsById: Map<string, Project>): Task[] {
+  return (task.blockedBy ?? [])
+    .map((id) => byId.get(id))
+    .filter((b): b is Task => !!b && !isDoneIn(b, projectsById));
+}
+
+/**
+ * Blockers of `task` that are not done yet. Ids that no longer resolve
+ * (deleted, or in a project the user cannot see) are ignored.
+ */
+export function getOpenBlockers(task: Task, tasks: Task[], projects: Project[]): Task[] {
+  return openBlockersOf(task, new Map(tasks.map((t) => [t.id, t])), new Map(projects.map((p) => [p.id, p])));
+}
+
+/** `getOpenBlockers` for every task at once, keyed by task id; unblocked tasks are left out. */
+export function getOpenBlockerMap(tasks: Task[], projects: Project[]): Map<string, Task[]> {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const projectsById = new Map(projects.map((p) => [p.id, p]));
+  const map = new Map<string, Task[]>();
+  for (const t of tasks) {
+    const open = openBlockersOf(t, byId, projectsById);
+    if (open.length > 0) map.set(t.id, open);
+  }
+  return map;
+}
+
+/** Tasks that list `taskId` as a blocker. */
+export function getBlockedTasks(taskId: string, tasks: Task[]): Task[] {
+  return tasks.filter((t) => t.blockedBy?.includes(taskId));
+}
+
+/**
+ * If giving `taskId` the blockers `blockedBy` would close a loop, return the
+ * loop as task ids starting and ending with `taskId`; otherwise null.
+ */
+export function findDependencyCycle(tasks: Pick<Task, "id" | "blockedBy">[], taskId: string, blockedBy: string[]): string[] | null {
+  const edges = new Map(tasks.map((t) => [t.id, t.blockedBy ?? []]));
+  edges.set(taskId, blockedBy);
+  const visiting = new Set<string>();
+  const path: string[] = [];
+
+  function visit(id: string): boolean {
+    if (id === taskId && path.length > 0) return true;
+    if (visiting.has(id)) return false;
+    visiting.add(id);
+    path.push(id);
+    for (const next of edges.get(id) ?? []) {
+      if (visit(next)) return true;
+    }
+    path.pop();
+    return false;
+  }
+
+  return visit(taskId) ? [...path, taskId] : null;
+}
+
+/** True when moving a task with open blockers into `status` should be stopped or flagged. */
+export function isFinishingBlocked(
+  task: Pick<Task, "projectId">,
+  status: TaskStatus,
+  openBlockers: Task[] | undefined,
+  projects: Project[]
+): boolean {
+  if (!openBlockers || openBlockers.length === 0) return false;
+  return isDoneStatus(getProjectColumns(projects.find((p) => p.id === task.projectId)), status);
+}
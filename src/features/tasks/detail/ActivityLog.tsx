@@ -0,0 +1,38 @@
+import type { ProjectMember, TaskActivity, WorkflowColumn } from "../types";
+import { actorName, describeActivity } from "../activity";
+import { formatRelativeTime } from "../dates";
+
+export function ActivityLog({
+  activity,
+  columns,
+  members,
+  currentUserId,
+}: {
+  activity: TaskActivity[];
+  columns: WorkflowColumn[];
+  members: ProjectMember[];
+  currentUserId?: string;
+}) {
+  if (activity.length === 0) {
+    return <p className="py-2 text-2xs text-gray-400">No activity recorded yet</p>;
+  }
+
+  // Newest first reads best in a short scrolling list.
+  const entries = [...activity].reverse();
+  return (
+    <ol className="relative space-y-3 border-l border-gray-200 dark:border-dark-border pl-4">
+      {entries.map((a) => (
+        <li key={a.id} className="relative">
+          <span className="absolute -left-[21px] top-1 h-2 w-2 rounded-full border-2 border-white dark:border-dark-surface bg-gray-300 dark:bg-gray-600" />
+          <p className="text-xs text-gray-700 dark:text-gray-300">
+            <span className="font-medium text-gray-900 dark:text-gray-100">{actorName(a.actorId, { members, currentUserId })}</span>{" "}
+            {describeActivity(a, { columns, members, currentUserId })}
+          </p>
+          <span className="text-2xs text-gray-400" title={new Date(a.createdAt).toLocaleString()}>
+            {formatRelativeTime(a.createdAt)}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
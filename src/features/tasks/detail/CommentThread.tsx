@@ -0,0 +1,102 @@
+import { useState } from "react";
+import type { ProjectMember, TaskComment } from "../types";
+import { actorName } from "../activity";
+import { memberToDisplay } from "../assignees";
+import { formatRelativeTime } from "../dates";
+import { Avatar } from "../ui";
+import { IconTrash } from "../icons";
+import { AVATAR_COLORS, nameToInitials } from "../utils";
+
+export function CommentThread({
+  comments,
+  members,
+  currentUserId,
+  onAdd,
+  onDelete,
+}: {
+  comments: TaskComment[];
+  members: ProjectMember[];
+  currentUserId?: string;
+  onAdd?: (body: string) => Promise<unknown>;
+  onDelete?: (id: string) => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+
+  async function submit() {
+    const body = draft.trim();
+    if (!body || !onAdd || sending) return;
+    setSending(true);
+    try {
+      await onAdd(body);
+      setDraft("");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <div>
+      {comments.length === 0 ? (
+        <p className="py-2 text-2xs text-gray-400">No comments yet</p>
+      ) : (
+        <div className="space-y-3">
+          {comments.map((c) => {
+            const name = actorName(c.authorId, { members, currentUserId });
+            const own = !c.authorId || c.authorId === currentUserId;
+            const member = members.find((m) => m.userId === c.authorId);
+            return (
+              <div key={c.id} className="group flex gap-2">
+                <Avatar initials={nameToInitials(name)} color={member ? memberToDisplay(member).color : AVATAR_COLORS[0]} />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-xs font-medium text-gray-900 dark:text-gray-100">{name}</span>
+                    <span className="text-2xs text-gray-400" title={new Date(c.createdAt).toLocaleString()}>
+                      {formatRelativeTime(c.createdAt)}
+                    </span>
+                    {own && onDelete && (
+                      <button
+                        type="button"
+                        onClick={() => onDelete(c.id)}
+                        className="ml-auto rounded p-0.5 text-gray-400 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 hover:text-red-500"
+                        title="Delete comment"
+                      >
+                        <IconTrash className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                  <p className="mt-0.5 whitespace-pre-wrap break-words text-sm text-gray-700 dark:text-gray-300">{c.body}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {onAdd && (
+        <div className="mt-3">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) { e.preventDefault(); submit(); }
+            }}
+            rows={2}
+            className="block w-full rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-3 py-2 text-base sm:text-sm text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25"
+            placeholder="Write a comment…"
+          />
+          <div className="mt-1.5 flex items-center justify-end gap-2">
+            <span className="hidden text-2xs text-gray-400 sm:inline">Ctrl/⌘ + Enter to send</span>
+            <button
+              type="button"
+              onClick={submit}
+              disabled={!draft.trim() || sending}
+              className="rounded-lg bg-accent px-3 py-1.5 text-xs font-medium text-white hover:bg-accent-dark disabled:opacity-50"
+            >
+              Comment
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import type { ProjectMember, TaskActivity, TaskComment, WorkflowColumn } from "../types";
+import { CommentThread } from "./CommentThread";
+import { ActivityLog } from "./ActivityLog";
+import { cn } from "../utils";
+
+type DetailTab = "comments" | "activity";
+
+/** Discussion and change history for one task, shown beneath the task form. */
+export function TaskDetailPanel({
+  comments,
+  activity,
+  loading,
+  columns,
+  members,
+  currentUserId,
+  onAddComment,
+  onDeleteComment,
+}: {
+  comments: TaskComment[];
+  activity: TaskActivity[];
+  loading?: boolean;
+  columns: WorkflowColumn[];
+  members: ProjectMember[];
+  currentUserId?: string;
+  onAddComment?: (body: string) => Promise<unknown>;
+  onDeleteComment?: (id: string) => void;
+}) {
+  const [tab, setTab] = useState<DetailTab>("comments");
+
+  return (
+    <div className="mt-4 border-t border-gray-200 dark:border-dark-border pt-4">
+      <div className="mb-3 flex rounded-lg border border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised p-0.5 w-fit">
+        {(["comments", "activity"] as const).map((t) => (
+          <button
+            key={t}
+            type="button"
+            onClick={() => setTab(t)}
+            className={cn(
+              "rounded-md px-2.5 py-1 text-2xs font-medium transition-all",
+              tab === t ? "bg-white dark:bg-dark-surface text-gray-900 dark:text-gray-100 shadow-card" : "text-gray-500 hover:text-gray-700"
+            )}
+          >
+            {t === "comments" ? `Comments${comments.length ? ` · ${comments.length}` : ""}` : "Activity"}
+          </button>
+        ))}
+      </div>
+      {loading && comments.length === 0 && activity.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <div className="h-4 w-4 animate-spin rounded-full border-2 border-gray-300 border-t-accent" />
+        </div>
+      ) : tab === "comments" ? (
+        <CommentThread
+          comments={comments}
+          members={members}
+          currentUserId={currentUserId}
+          onAdd={onAddComment}
+          onDelete={onDeleteComment}
+        />
+      ) : (
+        <div className="max-h-64 overflow-y-auto">
+          <ActivityLog activity={activity} columns={columns} members={members} currentUserId={currentUserId} />
+        </div>
+      )}
+    </div>
+  );
+}
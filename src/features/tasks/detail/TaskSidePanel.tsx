@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { IconCheck, IconX } from "../icons";
+import { cn, isTypingTarget } from "../utils";
+
+const WIDTH_KEY = "tasks:detail-width";
+const MIN_WIDTH = 360;
+const MAX_WIDTH = 960;
+const DEFAULT_WIDTH = 480;
+
+function loadWidth() {
+  const stored = Number(localStorage.getItem(WIDTH_KEY));
+  return stored >= MIN_WIDTH && stored <= MAX_WIDTH ? stored : DEFAULT_WIDTH;
+}
+
+/**
+ * Task details docked to the right of the board, which stays usable beside it.
+ * Drag the left edge to resize; the width is remembered in this browser. Full
+ * screen on small viewports.
+ */
+export function TaskSidePanel({
+  open,
+  title,
+  subtitle,
+  link,
+  onClose,
+  children,
+}: {
+  open: boolean;
+  title: string;
+  subtitle?: string;
+  /** Absolute URL offered by the "Copy link" button. */
+  link?: string;
+  onClose: () => void;
+  children: React.ReactNode;
+}) {
+  const [width, setWidth] = useState(loadWidth);
+  const [resizing, setResizing] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !e.defaultPrevented && !isTypingTarget(e.target)) onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [open, onClose]);
+
+  useEffect(() => { setCopied(false); }, [link]);
+
+  if (!open) return null;
+
+  function handleResizeStart(e: React.MouseEvent) {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const startX = e.clientX;
+    const startWidth = width;
+    let latest = startWidth;
+    setResizing(true);
+
+    function onMove(ev: MouseEvent) {
+      latest = Math.min(MAX_WIDTH, Math.max(MIN_WIDTH, startWidth + startX - ev.clientX));
+      setWidth(latest);
+    }
+
+    function onUp() {
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("mouseup", onUp);
+      setResizing(false);
+      localStorage.setItem(WIDTH_KEY, String(latest));
+    }
+
+    window.addEventListener("mousemove", onMove);
+    window.addEventListener("mouseup", onUp);
+  }
+
+  async function copyLink() {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+  }
+
+  return (
+    <aside
+      className="fixed inset-0 z-40 flex flex-col border-l border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface animate-fade-in lg:relative lg:inset-auto lg:z-auto lg:w-[var(--panel-width)] lg:shrink-0"
+      style={{ "--panel-width": `${width}px` } as React.CSSProperties}
+    >
+      <div
+        onMouseDown={handleResizeStart}
+        className={cn("absolute inset-y-0 -left-1 z-10 hidden w-2 cursor-col-resize lg:block", resizing ? "bg-accent/30" : "hover:bg-accent/20")}
+        title="Drag to resize"
+      />
+      {resizing && <div className="fixed inset-0 z-50 cursor-col-resize select-none" />}
+
+      <div className="flex h-14 shrink-0 items-center gap-2 border-b border-gray-100 dark:border-dark-border px-4">
+        <div className="min-w-0 flex-1">
+          <h2 className="truncate text-sm font-semibold text-gray-900 dark:text-gray-100">{title}</h2>
+          {subtitle && <p className="truncate text-2xs text-gray-500 dark:text-gray-400">{subtitle}</p>}
+        </div>
+        {link && (
+          <button
+            onClick={copyLink}
+            className="flex items-center gap-1 rounded-md px-2 py-1 text-xs font-medium text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-700"
+            title={link}
+          >
+            {copied && <IconCheck className="h-3.5 w-3.5 text-accent" />}
+            {copied ? "Copied" : "Copy link"}
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="rounded-lg p-1.5 text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600 transition-colors"
+          title="Close (Esc)"
+        >
+          <IconX className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4">{children}</div>
+    </aside>
+  );
+}
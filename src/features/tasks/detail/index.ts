@@ -0,0 +1,4 @@
+export { TaskDetailPanel } from "./TaskDetailPanel";
+export { CommentThread } from "./CommentThread";
+export { ActivityLog } from "./ActivityLog";
+export { TaskSidePanel } from "./TaskSidePanel";
@@ -0,0 +1,200 @@
+import { useMemo } from "react";
+import type { DateRange, ProjectMember, SavedView, Task, TaskFilters, TaskPriority, TaskSort, WorkflowColumn } from "../types";
+import { PRIORITY_CONFIG } from "../types";
+import { SORT_FIELDS, UNASSIGNED, hasActiveFilters } from "../filters";
+import { memberToDisplay } from "../assignees";
+import { parseDateKey } from "../dates";
+import { Avatar } from "../ui";
+import { IconX } from "../icons";
+import { cn } from "../utils";
+import { DateRangeFields, FilterMenu, OptionList, type FilterOption } from "./FilterMenu";
+import { SavedViewsMenu } from "./SavedViewsMenu";
+
+const PRIORITIES: TaskPriority[] = ["urgent", "high", "medium", "low"];
+
+function shortDate(key: string): string {
+  const d = parseDateKey(key);
+  return d ? d.toLocaleDateString(undefined, { month: "short", day: "numeric" }) : key;
+}
+
+function rangeLabel(label: string, range?: DateRange): string {
+  if (!range) return label;
+  if (range.from && range.to) return `${label}: ${shortDate(range.from)} – ${shortDate(range.to)}`;
+  if (range.from) return `${label}: after ${shortDate(range.from)}`;
+  return `${label}: before ${shortDate(range.to!)}`;
+}
+
+function countLabel(label: string, values?: string[]): string {
+  return values?.length ? `${label} · ${values.length}` : label;
+}
+
+export function FilterBar({
+  filters,
+  sort,
+  onFiltersChange,
+  onSortChange,
+  columns,
+  members,
+  tasks,
+  shownCount,
+  savedViews,
+  activeViewId,
+  onApplyView,
+  onSaveView,
+  onDeleteView,
+}: {
+  filters: TaskFilters;
+  sort: TaskSort;
+  onFiltersChange: (f: TaskFilters) => void;
+  onSortChange: (s: TaskSort) => void;
+  columns: WorkflowColumn[];
+  members: ProjectMember[];
+  tasks: Task[];
+  shownCount: number;
+  savedViews: SavedView[];
+  activeViewId: string | null;
+  onApplyView: (v: SavedView) => void;
+  onSaveView?: (name: string) => void;
+  onDeleteView?: (id: string) => void;
+}) {
+  const assigneeOptions = useMemo(() => {
+    const options: FilterOption[] = members.map((m) => {
+      const d = memberToDisplay(m);
+      return { value: m.userId, label: d.name, icon: <Avatar initials={d.initials} color={d.color} /> };
+    });
+    const legacy = new Map<string, NonNullable<Task["assignee"]>>();
+    for (const t of tasks) if (t.assignee) legacy.set(t.assignee.name, t.assignee);
+    for (const a of legacy.values()) {
+      options.push({ value: `legacy:${a.name}`, label: a.name, icon: <Avatar initials={a.initials} color={a.color} /> });
+    }
+    options.push({ value: UNASSIGNED, label: "Unassigned" });
+    return options;
+  }, [members, tasks]);
+
+  const tagOptions = useMemo(() => {
+    const tags = new Set<string>();
+    for (const t of tasks) for (const tag of t.tags ?? []) tags.add(tag);
+    for (const tag of filters.tags ?? []) tags.add(tag);
+    return Array.from(tags).sort().map((tag) => ({ value: tag, label: tag }));
+  }, [tasks, filters.tags]);
+
+  function patch(next: Partial<TaskFilters>) {
+    onFiltersChange({ ...filters, ...next });
+  }
+
+  const filtered = hasActiveFilters(filters);
+  const sortField = SORT_FIELDS.find((f) => f.value === sort.field) ?? SORT_FIELDS[0];
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <FilterMenu label={countLabel("Status", filters.statuses)} active={!!filters.statuses?.length}>
+        {() => (
+          <OptionList
+            options={columns.map((c) => ({ value: c.key, label: c.label, icon: <span className="text-xs" style={{ color: c.color }}>{c.icon}</span> }))}
+            selected={filters.statuses ?? []}
+            onChange={(statuses) => patch({ statuses })}
+          />
+        )}
+      </FilterMenu>
+      <FilterMenu label={countLabel("Priority", filters.priorities)} active={!!filters.priorities?.length}>
+        {() => (
+          <OptionList
+            options={PRIORITIES.map((p) => ({
+              value: p,
+              label: PRIORITY_CONFIG[p].label,
+              icon: <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: PRIORITY_CONFIG[p].dot }} />,
+            }))}
+            selected={filters.priorities ?? []}
+            onChange={(priorities) => patch({ priorities: priorities as TaskPriority[] })}
+          />
+        )}
+      </FilterMenu>
+      <FilterMenu label={countLabel("Assignee", filters.assignees)} active={!!filters.assignees?.length}>
+        {() => (
+          <OptionList
+            options={assigneeOptions}
+            selected={filters.assignees ?? []}
+            onChange={(assignees) => patch({ assignees })}
+          />
+        )}
+      </FilterMenu>
+      <FilterMenu label={countLabel("Tag", filters.tags)} active={!!filters.tags?.length}>
+        {() => (
+          <OptionList
+            options={tagOptions}
+            selected={filters.tags ?? []}
+            onChange={(tags) => patch({ tags })}
+            emptyLabel="No tags in this project"
+          />
+        )}
+      </FilterMenu>
+      <FilterMenu label={rangeLabel("Due", filters.due)} active={!!filters.due}>
+        {() => <DateRangeFields value={filters.due} onChange={(due) => patch({ due })} />}
+      </FilterMenu>
+      <FilterMenu label={rangeLabel("Created", filters.created)} active={!!filters.created}>
+        {() => <DateRangeFields value={filters.created} onChange={(created) => patch({ created })} />}
+      </FilterMenu>
+      <FilterMenu label={rangeLabel("Updated", filters.updated)} active={!!filters.updated}>
+        {() => <DateRangeFields value={filters.updated} onChange={(updated) => patch({ updated })} />}
+      </FilterMenu>
+
+      {filtered && (
+        <button
+          type="button"
+          onClick={() => onFiltersChange({})}
+          className="flex items-center gap-1 rounded-lg px-2 py-1 text-2xs font-medium text-gray-500 hover:text-gray-700"
+        >
+          <IconX className="h-2.5 w-2.5" />
+          Clear
+        </button>
+      )}
+
+      <div className="ml-auto flex items-center gap-1.5">
+        {filtered && (
+          <span className="text-2xs text-gray-500 dark:text-gray-400">
+            {shownCount} of {tasks.length}
+          </span>
+        )}
+        <FilterMenu label={`Sort: ${sortField.label}`} active={sort.field !== "manual"} align="right">
+          {(close) => (
+            <div className="py-1">
+              {SORT_FIELDS.map((f) => (
+                <button
+                  key={f.value}
+                  type="button"
+                  onClick={() => {
+                    // Picking the current field again flips its direction.
+                    const direction =
+                      f.value === sort.field && f.value !== "manual"
+                        ? sort.direction === "asc" ? "desc" : "asc"
+                        : f.direction;
+                    onSortChange({ field: f.value, direction });
+                    close();
+                  }}
+                  className={cn(
+                    "flex w-full items-center justify-between px-3 py-1.5 text-left text-xs transition-colors",
+                    f.value === sort.field
+                      ? "bg-accent/8 font-medium text-gray-900 dark:text-gray-100"
+                      : "text-gray-700 dark:text-gray-300 hover:bg-canvas dark:hover:bg-dark-raised"
+                  )}
+                >
+                  {f.label}
+                  {f.value === sort.field && f.value !== "manual" && (
+                    <span className="text-2xs text-gray-400">{sort.direction === "asc" ? "↑" : "↓"}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </FilterMenu>
+        <SavedViewsMenu
+          views={savedViews}
+          activeViewId={activeViewId}
+          onApply={onApplyView}
+          onSave={onSaveView}
+          onDelete={onDeleteView}
+        />
+      </div>
+    </div>
+  );
+}
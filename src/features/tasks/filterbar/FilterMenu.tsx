@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import type { DateRange } from "../types";
+import { IconCheck, IconX } from "../icons";
+import { cn } from "../utils";
+
+/** A filter-bar button that opens a popover; highlighted while its filter is active. */
+export function FilterMenu({
+  label,
+  active,
+  align = "left",
+  children,
+}: {
+  label: ReactNode;
+  active?: boolean;
+  align?: "left" | "right";
+  children: (close: () => void) => ReactNode;
+}) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") { e.stopPropagation(); setOpen(false); }
+    };
+    document.addEventListener("mousedown", handleClick);
+    document.addEventListener("keydown", handleKey, true);
+    return () => {
+      document.removeEventListener("mousedown", handleClick);
+      document.removeEventListener("keydown", handleKey, true);
+    };
+  }, [open]);
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className={cn(
+          "flex items-center gap-1 rounded-lg border px-2.5 py-1 text-2xs font-medium transition-colors",
+          active
+            ? "border-accent/40 bg-accent/10 text-accent-dark dark:text-accent-light"
+            : "border-gray-200 dark:border-dark-border bg-white dark:bg-dark-raised text-gray-600 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600",
+          open && "ring-2 ring-accent/25"
+        )}
+      >
+        {label}
+        <svg className={cn("h-3 w-3 transition-transform", open && "rotate-180")} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="m6 9 6 6 6-6" />
+        </svg>
+      </button>
+      {open && (
+        <div
+          className={cn(
+            "absolute top-full z-30 mt-1 min-w-[200px] rounded-lg border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface shadow-lifted animate-fade-in",
+            align === "right" ? "right-0" : "left-0"
+          )}
+        >
+          {children(() => setOpen(false))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export type FilterOption = { value: string; label: string; icon?: ReactNode };
+
+export function OptionList({
+  options,
+  selected,
+  onChange,
+  emptyLabel = "Nothing to filter by",
+}: {
+  options: FilterOption[];
+  selected: string[];
+  onChange: (v: string[]) => void;
+  emptyLabel?: string;
+}) {
+  function toggle(value: string) {
+    onChange(selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value]);
+  }
+
+  if (options.length === 0) {
+    return <p className="px-3 py-2 text-2xs text-gray-400">{emptyLabel}</p>;
+  }
+
+  return (
+    <div className="max-h-60 overflow-y-auto py-1">
+      {options.map((o) => {
+        const checked = selected.includes(o.value);
+        return (
+          <button
+            key={o.value}
+            type="button"
+            onClick={() => toggle(o.value)}
+            className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-gray-700 dark:text-gray-300 hover:bg-canvas dark:hover:bg-dark-raised"
+          >
+            <span
+              className={cn(
+                "flex h-3.5 w-3.5 shrink-0 items-center justify-center rounded border transition-colors",
+                checked ? "border-accent bg-accent text-white" : "border-gray-300 dark:border-gray-600"
+              )}
+            >
+              {checked && <IconCheck className="h-2.5 w-2.5" />}
+            </span>
+            {o.icon}
+            <span className="truncate">{o.label}</span>
+          </button>
+        );
+      })}
+      {selected.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="mt-1 w-full border-t border-gray-100 dark:border-dark-border px-3 pt-1.5 pb-0.5 text-left text-2xs font-medium text-gray-500 hover:text-gray-700"
+        >
+          Clear selection
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function DateRangeFields({
+  value,
+  onChange,
+}: {
+  value?: DateRange;
+  onChange: (v: DateRange | undefined) => void;
+}) {
+  function patch(next: DateRange) {
+    const merged = { ...value, ...next };
+    onChange(merged.from || merged.to ? merged : undefined);
+  }
+
+  return (
+    <div className="space-y-2 p-3">
+      {(["from", "to"] as const).map((key) => (
+        <label key={key} className="flex items-center gap-2">
+          <span className="w-8 text-2xs font-medium text-gray-500 dark:text-gray-400">{key === "from" ? "From" : "To"}</span>
+          <input
+            type="date"
+            value={value?.[key] ?? ""}
+            onChange={(e) => patch({ [key]: e.target.value || undefined })}
+            className="flex-1 rounded-md border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-2 py-1 text-xs text-gray-900 dark:text-gray-100 focus:border-accent focus:outline-none dark:[color-scheme:dark]"
+          />
+        </label>
+      ))}
+      {(value?.from || value?.to) && (
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className="flex items-center gap-1 text-2xs font-medium text-gray-500 hover:text-gray-700"
+        >
+          <IconX className="h-2.5 w-2.5" />
+          Clear dates
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import type { SavedView } from "../types";
+import { IconTrash } from "../icons";
+import { cn } from "../utils";
+import { FilterMenu } from "./FilterMenu";
+
+export function SavedViewsMenu({
+  views,
+  activeViewId,
+  onApply,
+  onSave,
+  onDelete,
+}: {
+  views: SavedView[];
+  activeViewId: string | null;
+  onApply: (v: SavedView) => void;
+  onSave?: (name: string) => void;
+  onDelete?: (id: string) => void;
+}) {
+  const [name, setName] = useState("");
+  const active = views.find((v) => v.id === activeViewId);
+
+  return (
+    <FilterMenu label={active ? `View: ${active.name}` : "Views"} active={!!active} align="right">
+      {(close) => (
+        <div className="w-60">
+          {views.length === 0 ? (
+            <p className="px-3 py-2 text-2xs text-gray-400">No saved views yet</p>
+          ) : (
+            <div className="max-h-60 overflow-y-auto py-1">
+              {views.map((v) => (
+                <div
+                  key={v.id}
+                  className={cn(
+                    "group flex items-center gap-1 px-1 transition-colors",
+                    v.id === activeViewId ? "bg-accent/8" : "hover:bg-canvas dark:hover:bg-dark-raised"
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => { onApply(v); close(); }}
+                    className={cn(
+                      "min-w-0 flex-1 truncate px-2 py-1.5 text-left text-xs",
+                      v.id === activeViewId ? "font-medium text-gray-900 dark:text-gray-100" : "text-gray-700 dark:text-gray-300"
+                    )}
+                  >
+                    {v.name}
+                  </button>
+                  {onDelete && (
+                    <button
+                      type="button"
+                      onClick={() => onDelete(v.id)}
+                      className="rounded p-1 text-gray-400 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 hover:text-red-500"
+                      title="Delete view"
+                    >
+                      <IconTrash className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {onSave && (
+            <form
+              className="flex items-center gap-1.5 border-t border-gray-100 dark:border-dark-border p-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (!name.trim()) return;
+                onSave(name.trim());
+                setName("");
+                close();
+              }}
+            >
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Save current view as…"
+                className="min-w-0 flex-1 rounded-md border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-2 py-1 text-xs text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:outline-none"
+              />
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="rounded-md bg-accent px-2 py-1 text-2xs font-medium text-white hover:bg-accent-dark disabled:opacity-50"
+              >
+                Save
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </FilterMenu>
+  );
+}
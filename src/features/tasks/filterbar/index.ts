@@ -0,0 +1,4 @@
+export { FilterBar } from "./FilterBar";
+export { FilterMenu, OptionList, DateRangeFields } from "./FilterMenu";
+export type { FilterOption } from "./FilterMenu";
+export { SavedViewsMenu } from "./SavedViewsMenu";
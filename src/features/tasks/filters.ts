@@ -0,0 +1,217 @@
+import type { DateRange, SavedView, Task, TaskFilters, TaskPriority, TaskSort, TaskSortField, ViewMode } from "./types";
+import { compareDue, toDateKey } from "./dates";
+
+export const DEFAULT_SORT: TaskSort = { field: "manual", direction: "asc" };
+
+export const SORT_FIELDS: { value: TaskSortField; label: string; direction: TaskSort["direction"] }[] = [
+  { value: "manual", label: "Manual", direction: "asc" },
+  { value: "due", label: "Due date", direction: "asc" },
+  { value: "priority", label: "Priority", direction: "desc" },
+  { value: "title", label: "Title", direction: "asc" },
+  { value: "created", label: "Created", direction: "desc" },
+  { value: "updated", label: "Updated", direction: "desc" },
+];
+
+/** Filter value that matches tasks with nobody assigned. */
+export const UNASSIGNED = "none";
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { low: 0, medium: 1, high: 2, urgent: 3 };
+const VIEW_MODES: ViewMode[] = ["kanban", "list", "calendar"];
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+function hasRange(range?: DateRange): boolean {
+  return !!range && (!!range.from || !!range.to);
+}
+
+export function hasActiveFilters(f: TaskFilters): boolean {
+  return (
+    !!f.statuses?.length ||
+    !!f.priorities?.length ||
+    !!f.assignees?.length ||
+    !!f.tags?.length ||
+    hasRange(f.due) ||
+    hasRange(f.created) ||
+    hasRange(f.updated)
+  );
+}
+
+/** Keys used by the assignee filter: member ids, `legacy:<name>` for free text, or UNASSIGNED. */
+export function getAssigneeKeys(task: Pick<Task, "assignee" | "assigneeIds">): string[] {
+  const keys = [...(task.assigneeIds ?? [])];
+  if (task.assignee) keys.push(`legacy:${task.assignee.name}`);
+  return keys.length > 0 ? keys : [UNASSIGNED];
+}
+
+function inRange(dateKey: string | undefined, range?: DateRange): boolean {
+  if (!hasRange(range)) return true;
+  if (!dateKey) return false;
+  if (range!.from && dateKey < range!.from) return false;
+  if (range!.to && dateKey > range!.to) return false;
+  return true;
+}
+
+/** Local calendar day of an ISO timestamp, so ranges line up with what the user sees. */
+function timestampKey(iso: string): string {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso.slice(0, 10) : toDateKey(d);
+}
+
+export function matchesSearch(task: Task, search: string): boolean {
+  const q = search.trim().toLowerCase();
+  if (!q) return true;
+  return (
+    task.title.toLowerCase().includes(q) ||
+    !!task.description?.toLowerCase().includes(q) ||
+    !!task.tags?.some((tag) => tag.toLowerCase().includes(q))
+  );
+}
+
+export function matchesFilters(task: Task, f: TaskFilters): boolean {
+  if (f.statuses?.length && !f.statuses.includes(task.status)) return false;
+  if (f.priorities?.length && !f.priorities.includes(task.priority)) return false;
+  if (f.assignees?.length && !getAssigneeKeys(task).some((k) => f.assignees!.includes(k))) return false;
+  if (f.tags?.length && !task.tags?.some((t) => f.tags!.includes(t))) return false;
+  if (!inRange(task.due?.slice(0, 10), f.due)) return false;
+  if (!inRange(timestampKey(task.createdAt), f.created)) return false;
+  if (!inRange(timestampKey(task.updatedAt), f.updated)) return false;
+  return true;
+}
+
+export function filterTasks(tasks: Task[], filters: TaskFilters, search = ""): Task[] {
+  return tasks.filter((t) => matchesSearch(t, search) && matchesFilters(t, filters));
+}
+
+/** Comparator for a sort; ties (and "manual") fall back to the stored order. */
+export function compareTasks(sort: TaskSort): (a: Task, b: Task) => number {
+  const dir = sort.direction === "desc" ? -1 : 1;
+  return (a, b) => {
+    let diff = 0;
+    switch (sort.field) {
+      case "due":
+        // Tasks without a due date stay last in either direction.
+        diff = a.due && b.due ? a.due.localeCompare(b.due) * dir : compareDue(a, b);
+        break;
+      case "priority":
+        diff = (PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]) * dir;
+        break;
+      case "title":
+        diff = a.title.localeCompare(b.title) * dir;
+        break;
+      case "created":
+        diff = a.createdAt.localeCompare(b.createdAt) * dir;
+        break;
+      case "updated":
+        diff = a.updatedAt.localeCompare(b.updatedAt) * dir;
+        break;
+    }
+    return diff || a.order - b.order;
+  };
+}
+
+// ── URL query params ──────────────────────────────────────────────────────────
+//
+// ?status=todo&status=done&priority=high&assignee=<id>&tag=bug
+//   &due=2024-01-01..2024-01-31&created=..2024-02-01&sort=-updated&view=list
+
+const FILTER_PARAMS = ["status", "priority", "assignee", "tag", "due", "created", "updated", "sort", "view"];
+
+function rangeToParam(range?: DateRange): string | null {
+  return hasRange(range) ? `${range!.from ?? ""}..${range!.to ?? ""}` : null;
+}
+
+function paramToRange(value: string | null): DateRange | undefined {
+  if (!value) return undefined;
+  const [from, to] = value.split("..");
+  const range: DateRange = {};
+  if (from && DATE_KEY.test(from)) range.from = from;
+  if (to && DATE_KEY.test(to)) range.to = to;
+  return hasRange(range) ? range : undefined;
+}
+
+export type FilterState = { filters: TaskFilters; sort: TaskSort; view?: ViewMode };
+
+export function readFilterParams(params: URLSearchParams): FilterState {
+  const list = (key: string) => {
+    const values = params.getAll(key).filter(Boolean);
+    return values.length > 0 ? values : undefined;
+  };
+  const filters: TaskFilters = {
+    statuses: list("status"),
+    priorities: list("priority")?.filter((p): p is TaskPriority => p in PRIORITY_RANK),
+    assignees: list("assignee"),
+    tags: list("tag"),
+    due: paramToRange(params.get("due")),
+    created: paramToRange(params.get("created")),
+    updated: paramToRange(params.get("updated")),
+  };
+
+  const rawSort = params.get("sort") ?? "";
+  const field = rawSort.replace(/^-/, "") as TaskSortField;
+  const sort: TaskSort = SORT_FIELDS.some((f) => f.value === field)
+    ? { field, direction: rawSort.startsWith("-") ? "desc" : "asc" }
+    : DEFAULT_SORT;
+
+  const rawView = params.get("view") as ViewMode | null;
+  return { filters, sort, view: rawView && VIEW_MODES.includes(rawView) ? rawView : undefined };
+}
+
+/** Copy of `params` with the filter keys replaced by `state`; unrelated params are kept. */
+export function writeFilterParams(params: URLSearchParams, state: FilterState): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const key of FILTER_PARAMS) next.delete(key);
+  const { filters: f, sort, view } = state;
+  for (const v of f.statuses ?? []) next.append("status", v);
+  for (const v of f.priorities ?? []) next.append("priority", v);
+  for (const v of f.assignees ?? []) next.append("assignee", v);
+  for (const v of f.tags ?? []) next.append("tag", v);
+  for (const key of ["due", "created", "updated"] as const) {
+    const value = rangeToParam(f[key]);
+    if (value) next.set(key, value);
+  }
+  if (sort.field !== "manual") next.set("sort", `${sort.direction === "desc" ? "-" : ""}${sort.field}`);
+  if (view) next.set("view", view);
+  return next;
+}
+
+// ── Saved views ───────────────────────────────────────────────────────────────
+
+function isStringArray(v: unknown): boolean {
+  return v === undefined || (Array.isArray(v) && v.every((x) => typeof x === "string"));
+}
+
+function isRange(v: unknown): boolean {
+  if (v === undefined) return true;
+  if (!v || typeof v !== "object") return false;
+  const r = v as Record<string, unknown>;
+  return (r.from === undefined || typeof r.from === "string") && (r.to === undefined || typeof r.to === "string");
+}
+
+export function isSavedView(obj: unknown): obj is SavedView {
+  if (!obj || typeof obj !== "object") return false;
+  const o = obj as Record<string, unknown>;
+  if (typeof o.id !== "string" || typeof o.name !== "string") return false;
+  if (!VIEW_MODES.includes(o.view as ViewMode)) return false;
+  const sort = o.sort as Record<string, unknown> | null;
+  if (!sort || typeof sort !== "object" || !SORT_FIELDS.some((f) => f.value === sort.field)) return false;
+  if (sort.direction !== "asc" && sort.direction !== "desc") return false;
+  const f = o.filters as Record<string, unknown> | null;
+  if (!f || typeof f !== "object") return false;
+  return (
+    isStringArray(f.statuses) &&
+    isStringArray(f.priorities) &&
+    isStringArray(f.assignees) &&
+    isStringArray(f.tags) &&
+    isRange(f.due) &&
+    isRange(f.created) &&
+    isRange(f.updated)
+  );
+}
+
+/** True when the current filters, sort and view are exactly what a saved view restores. */
+export function isSameView(view: SavedView, state: FilterState): boolean {
+  const a = writeFilterParams(new URLSearchParams(), { filters: view.filters, sort: view.sort, view: view.view });
+  const b = writeFilterParams(new URLSearchParams(), state);
+  a.sort();
+  b.sort();
+  return a.toString() === b.toString();
+}
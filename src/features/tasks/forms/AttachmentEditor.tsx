@@ -0,0 +1,134 @@
+import { useRef, useState } from "react";
+import type { TaskAttachment } from "../types";
+import { IconPaperclip, IconX } from "../icons";
+import { AttachmentThumb } from "../ui";
+import { useTaskBoard } from "../context";
+import { MAX_ATTACHMENT_BYTES, attachmentProblem, formatBytes } from "../attachments";
+import { cn } from "../utils";
+
+export function AttachmentEditor({
+  value,
+  onChange,
+  onUpload,
+}: {
+  value: TaskAttachment[];
+  onChange: (v: TaskAttachment[]) => void;
+  /** Stores a file and returns its attachment; the task lists it once the form is saved. */
+  onUpload: (file: File) => Promise<TaskAttachment>;
+}) {
+  const { attachmentUrl } = useTaskBoard();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  // Uploads finish one at a time; keep appending to the latest list, not the one they started with.
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  async function addFiles(files: File[]) {
+    if (files.length === 0) return;
+    const problem = attachmentProblem(files, value.length + uploading);
+    setError(problem);
+    if (problem) return;
+    setUploading((n) => n + files.length);
+    for (const file of files) {
+      try {
+        const attachment = await onUpload(file);
+        valueRef.current = [...valueRef.current, attachment];
+        onChange(valueRef.current);
+      } catch (e) {
+        setError(`Couldn't upload "${file.name}": ${e instanceof Error ? e.message : "unknown error"}`);
+      } finally {
+        setUploading((n) => n - 1);
+      }
+    }
+  }
+
+  async function open(attachment: TaskAttachment) {
+    if (!attachmentUrl) return;
+    // Open the tab right away so it isn't taken for a popup once the URL arrives.
+    const tab = window.open("", "_blank");
+    try {
+      const url = await attachmentUrl(attachment);
+      if (tab) tab.location.href = url;
+    } catch {
+      tab?.close();
+      setError(`Couldn't open "${attachment.name}".`);
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-1.5 flex items-center justify-between">
+        <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Attachments</span>
+        {value.length > 0 && <span className="text-2xs text-gray-500 dark:text-gray-400">{value.length}</span>}
+      </div>
+      {value.length > 0 && (
+        <div className="mb-2 space-y-1">
+          {value.map((a) => (
+            <div key={a.id} className="group flex items-center gap-2.5 rounded-md px-1 py-1 hover:bg-canvas dark:hover:bg-dark-raised">
+              <AttachmentThumb attachment={a} className="h-9 w-9 shrink-0 rounded-md" />
+              <button
+                type="button"
+                onClick={() => open(a)}
+                className="min-w-0 flex-1 text-left"
+                title="Open in a new tab"
+              >
+                <span className="block truncate text-sm text-gray-900 dark:text-gray-100 hover:underline">{a.name}</span>
+                <span className="block text-2xs text-gray-400">{formatBytes(a.size)}</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((x) => x.id !== a.id))}
+                className="rounded p-1 text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-500 transition-opacity"
+                title="Remove attachment"
+              >
+                <IconX className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes("Files")) return;
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          addFiles(Array.from(e.dataTransfer.files));
+        }}
+        onClick={() => inputRef.current?.click()}
+        className={cn(
+          "flex cursor-pointer items-center justify-center gap-2 rounded-lg border border-dashed px-3 py-3 text-xs transition-colors",
+          dragging
+            ? "border-accent bg-accent/8 text-accent-dark dark:text-accent-light"
+            : "border-gray-300 dark:border-dark-border text-gray-500 hover:border-accent hover:text-gray-700"
+        )}
+      >
+        <IconPaperclip className="h-3.5 w-3.5" />
+        {uploading > 0 ? `Uploading ${uploading} file${uploading === 1 ? "" : "s"}…` : "Drop files here or click to attach"}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          addFiles(Array.from(e.target.files ?? []));
+          e.target.value = "";
+        }}
+      />
+      {error ? (
+        <p className="mt-1 text-2xs text-red-600 dark:text-red-400">{error}</p>
+      ) : (
+        <p className="mt-1 text-2xs text-gray-400">Up to {formatBytes(MAX_ATTACHMENT_BYTES)} per file</p>
+      )}
+    </div>
+  );
+}
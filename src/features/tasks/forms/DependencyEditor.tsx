@@ -0,0 +1,149 @@
+import { useMemo, useState } from "react";
+import type { Project, Task } from "../types";
+import { findDependencyCycle, getBlockedTasks } from "../dependencies";
+import { getProjectColumns, isDoneStatus } from "../workflow";
+import { IconCheck, IconLock, IconX } from "../icons";
+import { cn } from "../utils";
+
+const NEW_TASK_ID = "__new__";
+
+function DependencyRow({
+  task,
+  project,
+  showProject,
+  onRemove,
+}: {
+  task: Task;
+  project?: Project;
+  showProject: boolean;
+  onRemove?: () => void;
+}) {
+  const done = isDoneStatus(getProjectColumns(project), task.status);
+  return (
+    <div className="group flex items-center gap-2 rounded-md px-1 py-0.5 hover:bg-canvas dark:hover:bg-dark-raised">
+      <span className={cn("shrink-0", done ? "text-green-600 dark:text-green-400" : "text-gray-400")} title={done ? "Done" : "Not done"}>
+        {done ? <IconCheck className="h-3 w-3" /> : <IconLock className="h-3 w-3" />}
+      </span>
+      <span className={cn("flex-1 truncate text-sm", done ? "text-gray-400 line-through" : "text-gray-900 dark:text-gray-100")}>
+        {task.title}
+      </span>
+      {showProject && project && (
+        <span className="shrink-0 truncate text-2xs font-medium" style={{ color: project.color }}>
+          {project.name}
+        </span>
+      )}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded p-0.5 text-gray-400 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 hover:text-gray-600"
+          title="Remove dependency"
+        >
+          <IconX className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+/** "Blocked by" picker plus a read-only list of the tasks this one blocks. */
+export function DependencyEditor({
+  taskId,
+  projectId,
+  value,
+  onChange,
+  tasks,
+  projects,
+}: {
+  taskId?: string;
+  projectId?: string | null;
+  value: string[];
+  onChange: (v: string[]) => void;
+  tasks: Task[];
+  projects: Project[];
+}) {
+  const [query, setQuery] = useState("");
+  const [focused, setFocused] = useState(false);
+  const projectsById = useMemo(() => new Map(projects.map((p) => [p.id, p])), [projects]);
+  const byId = useMemo(() => new Map(tasks.map((t) => [t.id, t])), [tasks]);
+
+  const blockers = value.map((id) => byId.get(id)).filter((t): t is Task => !!t);
+  const blocking = taskId ? getBlockedTasks(taskId, tasks) : [];
+
+  const candidates = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return tasks
+      .filter((t) => t.id !== taskId && !value.includes(t.id) && (!q || t.title.toLowerCase().includes(q)))
+      .slice(0, 8)
+      .map((t) => ({ task: t, cycle: !!findDependencyCycle(tasks, taskId ?? NEW_TASK_ID, [...value, t.id]) }));
+  }, [tasks, taskId, value, query]);
+
+  function add(id: string) {
+    onChange([...value, id]);
+    setQuery("");
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Blocked by</span>
+        {blockers.length > 0 && (
+          <div className="mb-1 space-y-1">
+            {blockers.map((t) => (
+              <DependencyRow
+                key={t.id}
+                task={t}
+                project={projectsById.get(t.projectId)}
+                showProject={t.projectId !== projectId}
+                onRemove={() => onChange(value.filter((id) => id !== t.id))}
+              />
+            ))}
+          </div>
+        )}
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") { e.stopPropagation(); (e.target as HTMLElement).blur(); }
+          }}
+          className="block w-full rounded-lg border border-dashed border-gray-200 dark:border-dark-border bg-transparent px-3 py-1.5 text-base sm:text-sm text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25"
+          placeholder="Search tasks to add a blocker…"
+        />
+        {focused && candidates.length > 0 && (
+          <div className="absolute left-0 right-0 top-full z-10 mt-1 max-h-48 overflow-y-auto rounded-lg border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface shadow-lifted animate-fade-in">
+            {candidates.map(({ task: t, cycle }) => {
+              const project = projectsById.get(t.projectId);
+              return (
+                <button
+                  key={t.id}
+                  type="button"
+                  disabled={cycle}
+                  title={cycle ? "This would create a dependency cycle" : undefined}
+                  className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-gray-900 dark:text-gray-100 hover:bg-canvas dark:hover:bg-dark-raised transition-colors disabled:cursor-not-allowed disabled:opacity-40"
+                  onMouseDown={(e) => { e.preventDefault(); if (!cycle) add(t.id); }}
+                >
+                  <span className="flex-1 truncate">{t.title}</span>
+                  {t.projectId !== projectId && project && (
+                    <span className="shrink-0 text-2xs font-medium" style={{ color: project.color }}>{project.name}</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+      {blocking.length > 0 && (
+        <div>
+          <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Blocks</span>
+          <div className="space-y-1">
+            {blocking.map((t) => (
+              <DependencyRow key={t.id} task={t} project={projectsById.get(t.projectId)} showProject={t.projectId !== projectId} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
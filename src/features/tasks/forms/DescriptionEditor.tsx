@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { Markdown } from "../ui";
+import { toggleCheckbox } from "../markdown";
+import { cn } from "../utils";
+
+type EditorTab = "write" | "preview";
+
+export function DescriptionEditor({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (v: string) => void;
+}) {
+  // An existing description opens rendered, so its checkboxes can be ticked straight away.
+  const [tab, setTab] = useState<EditorTab>(() => (value.trim() ? "preview" : "write"));
+
+  return (
+    <div>
+      <div className="mb-1.5 flex items-center justify-between">
+        <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Description</span>
+        <div className="flex rounded-lg border border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised p-0.5">
+          {(["write", "preview"] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={cn(
+                "rounded-md px-2 py-0.5 text-2xs font-medium transition-all",
+                tab === t ? "bg-white dark:bg-dark-surface text-gray-900 dark:text-gray-100 shadow-card" : "text-gray-500 hover:text-gray-700"
+              )}
+            >
+              {t === "write" ? "Write" : "Preview"}
+            </button>
+          ))}
+        </div>
+      </div>
+      {tab === "write" ? (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={5}
+          autoFocus={!!value}
+          className="block w-full rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-3 py-2 font-mono text-base sm:text-xs leading-relaxed text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25"
+          placeholder="Add more detail…"
+        />
+      ) : (
+        <div
+          onDoubleClick={() => setTab("write")}
+          className="min-h-[5rem] rounded-lg border border-gray-200 dark:border-dark-border px-3 py-2"
+          title="Double-click to edit"
+        >
+          {value.trim() ? (
+            <Markdown source={value} onToggleCheckbox={(line) => onChange(toggleCheckbox(value, line))} />
+          ) : (
+            <p className="text-sm text-gray-400">Nothing to preview</p>
+          )}
+        </div>
+      )}
+      <p className="mt-1 text-2xs text-gray-400">
+        Markdown · <code>- [ ]</code> for a checkbox · <code>#t-…</code> links a task · <code>@email</code> mentions a member
+      </p>
+    </div>
+  );
+}
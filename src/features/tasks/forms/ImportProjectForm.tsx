@@ -0,0 +1,197 @@
+import { useMemo, useState } from "react";
+import { PRIORITY_CONFIG } from "../types";
+import { getProjectColumns } from "../workflow";
+import {
+  IMPORT_FIELDS,
+  IMPORT_FORMATS,
+  buildImport,
+  csvHeaders,
+  detectFormat,
+  guessCsvMapping,
+  type CsvMapping,
+  type ImportDraft,
+  type ImportFormat,
+} from "../importers";
+import { CustomSelect } from "../ui/CustomSelect";
+import { cn } from "../utils";
+
+/** Rows shown in the preview; the rest are only counted. */
+const PREVIEW_LIMIT = 100;
+
+/** Choose how a file is read, map CSV columns, and review every task before anything is created. */
+export function ImportProjectForm({
+  fileName,
+  text,
+  onSubmit,
+  onCancel,
+}: {
+  fileName: string;
+  text: string;
+  /** Called with only the rows that passed validation. */
+  onSubmit: (draft: ImportDraft) => void;
+  onCancel: () => void;
+}) {
+  const [format, setFormat] = useState<ImportFormat>(() => detectFormat(fileName, text));
+  const headers = useMemo(() => (format === "csv" ? csvHeaders(text) : []), [format, text]);
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessCsvMapping(csvHeaders(text)));
+  const [name, setName] = useState<string | null>(null);
+
+  const result = useMemo(() => {
+    try {
+      return { draft: buildImport(format, fileName, text, mapping), error: null };
+    } catch (err) {
+      return { draft: null, error: err instanceof Error ? err.message : "Could not read the file." };
+    }
+  }, [format, fileName, text, mapping]);
+
+  const draft = result.draft;
+  const columns = getProjectColumns(draft?.project);
+  const valid = draft?.rows.filter((r) => r.errors.length === 0) ?? [];
+  const skipped = (draft?.rows.length ?? 0) - valid.length;
+  const projectName = (name ?? draft?.project.name ?? "").trim();
+  // An empty project is fine; a file where every task failed is not.
+  const canImport = !!draft && !!projectName && (valid.length > 0 || draft.rows.length === 0);
+
+  const fieldOptions = [
+    { value: "", label: "Don't import" },
+    ...headers.map((h, i) => ({ value: String(i), label: h || `Column ${i + 1}` })),
+  ];
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!canImport || !draft) return;
+        onSubmit({ ...draft, project: { ...draft.project, name: projectName }, rows: valid });
+      }}
+      className="space-y-4"
+    >
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div>
+          <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Format</span>
+          <CustomSelect value={format} onChange={setFormat} options={IMPORT_FORMATS} />
+          <p className="mt-1 truncate text-2xs text-gray-500 dark:text-gray-400">{fileName}</p>
+        </div>
+        <label className="block">
+          <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Project name</span>
+          <input
+            value={name ?? draft?.project.name ?? ""}
+            onChange={(e) => setName(e.target.value)}
+            className="block w-full rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-3 py-2 text-base sm:text-sm text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25"
+            placeholder="Imported project"
+            required
+          />
+        </label>
+      </div>
+
+      {format === "csv" && headers.length > 0 && (
+        <div>
+          <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Columns</span>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+            {IMPORT_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <span className="mb-1 block text-2xs text-gray-500 dark:text-gray-400">{label}</span>
+                <CustomSelect
+                  value={mapping[field] === undefined ? "" : String(mapping[field])}
+                  onChange={(v) => setMapping((m) => ({ ...m, [field]: v === "" ? undefined : Number(v) }))}
+                  options={fieldOptions}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="mt-1.5 text-2xs text-gray-500 dark:text-gray-400">
+            Separate tags with commas or semicolons and subtasks with semicolons; prefix finished subtasks with “[x]”.
+          </p>
+        </div>
+      )}
+
+      {result.error && (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 dark:border-red-900/60 dark:bg-red-950/40 dark:text-red-200">
+          {result.error}
+        </p>
+      )}
+
+      {draft && (
+        <>
+          {draft.warnings.length > 0 && (
+            <ul className="space-y-0.5 text-2xs text-amber-700 dark:text-amber-300">
+              {draft.warnings.map((w) => (
+                <li key={w}>{w}</li>
+              ))}
+            </ul>
+          )}
+          <div className="max-h-72 overflow-auto rounded-lg border border-gray-200 dark:border-dark-border">
+            <table className="w-full text-left text-xs">
+              <thead className="sticky top-0 bg-canvas dark:bg-dark-raised text-2xs uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="px-2.5 py-1.5 font-medium">Task</th>
+                  <th className="px-2.5 py-1.5 font-medium">Status</th>
+                  <th className="px-2.5 py-1.5 font-medium">Priority</th>
+                  <th className="px-2.5 py-1.5 font-medium">Due</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-dark-border">
+                {draft.rows.slice(0, PREVIEW_LIMIT).map((row, i) => {
+                  const t = row.task;
+                  const notes = [...row.errors, ...row.warnings];
+                  return (
+                    <tr key={i} className={cn(row.errors.length > 0 && "bg-red-50/60 dark:bg-red-950/20")}>
+                      <td className="px-2.5 py-1.5 align-top">
+                        <div className={cn("font-medium text-gray-900 dark:text-gray-100", row.errors.length > 0 && "line-through opacity-60")}>
+                          {t.title || <span className="italic text-gray-400">Untitled</span>}
+                        </div>
+                        {(t.assignee || !!t.tags?.length) && (
+                          <div className="mt-0.5 truncate text-2xs text-gray-500 dark:text-gray-400">
+                            {[t.assignee?.name, ...(t.tags ?? []).map((tag) => `#${tag}`)].filter(Boolean).join(" · ")}
+                          </div>
+                        )}
+                        {notes.length > 0 && (
+                          <div className={cn("mt-0.5 text-2xs", row.errors.length > 0 ? "text-red-600 dark:text-red-300" : "text-amber-700 dark:text-amber-300")}>
+                            {notes.join(" · ")}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-2.5 py-1.5 align-top text-gray-600 dark:text-gray-300">
+                        {columns.find((c) => c.key === t.status)?.label ?? t.status}
+                      </td>
+                      <td className="px-2.5 py-1.5 align-top text-gray-600 dark:text-gray-300">
+                        {PRIORITY_CONFIG[t.priority]?.label ?? t.priority}
+                      </td>
+                      <td className="px-2.5 py-1.5 align-top text-gray-600 dark:text-gray-300">{t.due ?? ""}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {draft.rows.length > PREVIEW_LIMIT && (
+              <p className="px-2.5 py-1.5 text-2xs text-gray-500 dark:text-gray-400">
+                and {draft.rows.length - PREVIEW_LIMIT} more…
+              </p>
+            )}
+          </div>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            {valid.length} task{valid.length === 1 ? "" : "s"} will be imported
+            {skipped > 0 && `, ${skipped} skipped`}.
+          </p>
+        </>
+      )}
+
+      <div className="flex items-center justify-end gap-2 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-dark-border"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!canImport}
+          className="rounded-lg bg-accent px-4 py-2 text-sm font-medium text-white hover:bg-accent-dark disabled:opacity-50"
+        >
+          Import Project
+        </button>
+      </div>
+    </form>
+  );
+}
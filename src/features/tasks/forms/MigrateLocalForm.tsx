@@ -0,0 +1,74 @@
+import type { LocalMigrationPlan } from "../migration";
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+/** Offer to upload the projects a guest made on this device into the account they just signed in to. */
+export function MigrateLocalForm({
+  plan,
+  onSubmit,
+  onDecline,
+}: {
+  plan: LocalMigrationPlan;
+  onSubmit: () => void;
+  /** Keep the local data on this device and stop asking. */
+  onDecline: () => void;
+}) {
+  const tasks = plan.write.tasks.length;
+  const files = plan.attachments.flatMap((a) => a.files);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit();
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        You have projects saved on this device from before you signed in. Upload them to your account to see them here
+        and on your other devices.
+      </p>
+      <ul className="space-y-1 text-xs text-gray-700 dark:text-gray-300">
+        {plan.created.length > 0 && (
+          <li>
+            {plural(plan.created.length, "new project")}: {plan.created.join(", ")}
+          </li>
+        )}
+        {plan.merged.length > 0 && (
+          <li>
+            Added to your projects of the same name: {plan.merged.join(", ")}
+          </li>
+        )}
+        <li>{plural(tasks, "task")} will be uploaded</li>
+        {files.length > 0 && (
+          <li>
+            {plural(files.length, "attachment")} will be uploaded: {files.map((f) => f.name).join(", ")}
+          </li>
+        )}
+        {plan.duplicates > 0 && (
+          <li className="text-gray-500 dark:text-gray-400">{plural(plan.duplicates, "task")} already in your account will be skipped</li>
+        )}
+      </ul>
+      <p className="text-2xs text-gray-500 dark:text-gray-400">
+        Afterwards the local copy is archived on this device, so you won't be asked again.
+      </p>
+      <div className="flex items-center justify-end gap-2 pt-2">
+        <button
+          type="button"
+          onClick={onDecline}
+          className="rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-dark-border"
+        >
+          Keep on this device
+        </button>
+        <button
+          type="submit"
+          className="rounded-lg bg-accent px-4 py-2 text-sm font-medium text-white hover:bg-accent-dark disabled:opacity-50"
+        >
+          Upload to My Account
+        </button>
+      </div>
+    </form>
+  );
+}
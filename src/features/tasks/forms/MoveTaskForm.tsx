@@ -0,0 +1,97 @@
+import { useState } from "react";
+import type { Project } from "../types";
+import { CustomSelect } from "../ui";
+import { cn } from "../utils";
+
+export type MoveTaskMode = "move" | "duplicate";
+
+export type MoveTaskValues = { projectId: string; mode: MoveTaskMode };
+
+/** Pick a project to move a task to, or to file a copy in. */
+export function MoveTaskForm({
+  taskTitle,
+  currentProjectId,
+  projects,
+  canMove,
+  onSubmit,
+  onCancel,
+}: {
+  taskTitle: string;
+  currentProjectId: string;
+  /** Projects the user can add tasks to. */
+  projects: Project[];
+  /** Moving also needs edit rights on the task's current project. */
+  canMove: boolean;
+  onSubmit: (values: MoveTaskValues) => void;
+  onCancel: () => void;
+}) {
+  const [mode, setMode] = useState<MoveTaskMode>(canMove ? "move" : "duplicate");
+  // A task can be duplicated within its own project, but not moved there.
+  const targets = mode === "move" ? projects.filter((p) => p.id !== currentProjectId) : projects;
+  const [projectId, setProjectId] = useState(
+    (projects.find((p) => p.id !== currentProjectId) ?? projects[0])?.id ?? ""
+  );
+  const selected = targets.some((p) => p.id === projectId) ? projectId : (targets[0]?.id ?? "");
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (selected) onSubmit({ projectId: selected, mode });
+      }}
+      className="space-y-4"
+    >
+      <p className="truncate text-sm text-gray-600 dark:text-gray-400">“{taskTitle}”</p>
+      <div className="flex rounded-lg border border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised p-0.5">
+        {(["move", "duplicate"] as const).map((m) => (
+          <button
+            key={m}
+            type="button"
+            disabled={m === "move" && !canMove}
+            onClick={() => setMode(m)}
+            title={m === "move" && !canMove ? "You can't edit tasks in this project" : undefined}
+            className={cn(
+              "flex-1 rounded-md px-2.5 py-1.5 text-xs font-medium transition-all disabled:cursor-not-allowed disabled:opacity-40",
+              mode === m ? "bg-white dark:bg-dark-surface text-gray-900 dark:text-gray-100 shadow-card" : "text-gray-500 hover:text-gray-700"
+            )}
+          >
+            {m === "move" ? "Move" : "Duplicate"}
+          </button>
+        ))}
+      </div>
+      <div>
+        <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Project</span>
+        {targets.length > 0 ? (
+          <CustomSelect
+            value={selected}
+            onChange={setProjectId}
+            options={targets.map((p) => ({ value: p.id, label: p.id === currentProjectId ? `${p.name} (this project)` : p.name }))}
+          />
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-400">There are no other projects you can add tasks to.</p>
+        )}
+        <p className="mt-1.5 text-2xs text-gray-500 dark:text-gray-400">
+          {mode === "move"
+            ? "Comments and activity move with the task. Statuses the target workflow lacks fall back to its first column."
+            : "The copy starts without comments or activity. Assignees who aren't members of the target project are left off."}
+        </p>
+      </div>
+      <div className="flex items-center justify-end gap-2 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-dark-border"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!selected}
+          className="rounded-lg bg-accent px-4 py-2 text-sm font-medium text-white hover:bg-accent-dark disabled:opacity-50"
+        >
+          {mode === "move" ? "Move Task" : "Duplicate Task"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,10 +1,22 @@
 import { useEffect, useMemo, useState } from "react";
 import { useAuth } from "../../../lib/AuthContext";
-import type { MemberRole, ProjectMember } from "../types";
+import type { DependencyPolicy, MemberRole, ProjectMember, TaskStatus, WipPolicy, WorkflowColumn } from "../types";
 import { PROJECT_COLORS } from "../types";
 import { addProjectMember, listProjectMembers, removeProjectMember, updateMemberRole } from "../memberStorage";
 import { CustomSelect } from "../ui/CustomSelect";
 import { cn } from "../utils";
+import { WorkflowEditor, finalizeWorkflow, type WorkflowDraftColumn } from "./WorkflowEditor";
+
+export type ProjectFormValues = {
+  name: string;
+  description: string;
+  color: string;
+  columns: WorkflowColumn[];
+  wipPolicy: WipPolicy;
+  dependencyPolicy: DependencyPolicy;
+  /** Deleted column key → column its tasks should move to. */
+  statusMoves: Record<TaskStatus, TaskStatus>;
+};
 
 const ROLE_OPTIONS: { value: MemberRole; label: string }[] = [
   { value: "viewer", label: "Viewer" },
@@ -42,20 +54,27 @@ export function ProjectForm({
   projectId,
   isLoggedIn,
   projectOwnerId,
+  taskCounts,
 }: {
-  initial: { name: string; description: string; color: string };
-  onSubmit: (v: { name: string; description: string; color: string }) => void;
+  initial: { name: string; description: string; color: string; columns: WorkflowColumn[]; wipPolicy: WipPolicy; dependencyPolicy: DependencyPolicy };
+  onSubmit: (v: ProjectFormValues) => void;
   onCancel: () => void;
   submitLabel: string;
   projectId?: string;
   isLoggedIn?: boolean;
   projectOwnerId?: string;
+  taskCounts?: Record<string, number>;
 }) {
   const { user } = useAuth();
 
   const [name, setName] = useState(initial.name);
   const [description, setDescription] = useState(initial.description);
   const [color, setColor] = useState(initial.color);
+  const [columns, setColumns] = useState<WorkflowDraftColumn[]>(initial.columns);
+  const [statusMoves, setStatusMoves] = useState<Record<TaskStatus, TaskStatus>>({});
+  const [wipPolicy, setWipPolicy] = useState<WipPolicy>(initial.wipPolicy);
+  const hasWipLimits = columns.some((c) => c.wipLimit !== undefined);
+  const [dependencyPolicy, setDependencyPolicy] = useState<DependencyPolicy>(initial.dependencyPolicy);
 
   const [members, setMembers] = useState<ProjectMember[]>([]);
   const [membersLoading, setMembersLoading] = useState(false);
@@ -101,7 +120,7 @@ export function ProjectForm({
       className="space-y-4"
       onSubmit={(e) => {
         e.preventDefault();
-        onSubmit({ name: name.trim(), description: description.trim(), color });
+        onSubmit({ name: name.trim(), description: description.trim(), color, wipPolicy, dependencyPolicy, ...finalizeWorkflow(columns, statusMoves) });
       }}
     >
       <label className="block">
@@ -144,6 +163,46 @@ export function ProjectForm({
         </div>
       </div>
 
+      <WorkflowEditor
+        columns={columns}
+        onChange={setColumns}
+        moves={statusMoves}
+        onMovesChange={setStatusMoves}
+        taskCounts={taskCounts}
+      />
+
+      {hasWipLimits && (
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-medium text-gray-700 dark:text-gray-300">When a column is over its WIP limit</span>
+          <div className="ml-auto w-40">
+            <CustomSelect
+              value={wipPolicy}
+              onChange={setWipPolicy}
+              options={[
+                { value: "warn" as WipPolicy, label: "Warn" },
+                { value: "block" as WipPolicy, label: "Block the move" },
+              ]}
+              className="h-8 py-0 text-xs"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <span className="text-xs font-medium text-gray-700 dark:text-gray-300">When a blocked task is completed</span>
+        <div className="ml-auto w-40">
+          <CustomSelect
+            value={dependencyPolicy}
+            onChange={setDependencyPolicy}
+            options={[
+              { value: "warn" as DependencyPolicy, label: "Warn" },
+              { value: "block" as DependencyPolicy, label: "Block the move" },
+            ]}
+            className="h-8 py-0 text-xs"
+          />
+        </div>
+      </div>
+
       {showMembers && (
         <div className="pt-2">
           <div className="mb-2 flex items-center justify-between">
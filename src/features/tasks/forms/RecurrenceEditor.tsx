@@ -0,0 +1,161 @@
+import { useState } from "react";
+import type { Recurrence, RecurrenceFrequency } from "../types";
+import { CustomSelect } from "../ui";
+import { describeRecurrence, formatRRule, parseRRule } from "../recurrence";
+import { cn } from "../utils";
+
+type RepeatMode = "none" | RecurrenceFrequency | "custom";
+
+const MODE_OPTIONS: { value: RepeatMode; label: string }[] = [
+  { value: "none", label: "Does not repeat" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "yearly", label: "Yearly" },
+  { value: "custom", label: "Custom (RRULE)" },
+];
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = { daily: "days", weekly: "weeks", monthly: "months", yearly: "years" };
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+
+const inputClass =
+  "rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-2 py-1 text-base sm:text-sm text-gray-900 dark:text-gray-100 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25";
+
+export function RecurrenceEditor({
+  value,
+  onChange,
+}: {
+  value: Recurrence | null;
+  onChange: (v: Recurrence | null) => void;
+}) {
+  const [custom, setCustom] = useState(false);
+  const [ruleText, setRuleText] = useState(value ? formatRRule(value) : "");
+  const mode: RepeatMode = custom ? "custom" : (value?.freq ?? "none");
+  const ruleError = custom && ruleText.trim() !== "" && !parseRRule(ruleText);
+
+  function setMode(next: RepeatMode) {
+    if (next === "custom") {
+      setCustom(true);
+      setRuleText(value ? formatRRule(value) : "FREQ=WEEKLY");
+      if (!value) onChange({ freq: "weekly" });
+      return;
+    }
+    setCustom(false);
+    onChange(next === "none" ? null : { ...value, freq: next, byWeekday: next === "weekly" ? value?.byWeekday : undefined });
+  }
+
+  function patch(next: Partial<Recurrence>) {
+    if (value) onChange({ ...value, ...next });
+  }
+
+  function toggleDay(day: number) {
+    const days = value?.byWeekday ?? [];
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day];
+    patch({ byWeekday: next.length > 0 ? next.sort((a, b) => a - b) : undefined });
+  }
+
+  const ends = value?.until !== undefined ? "until" : value?.count !== undefined ? "count" : "never";
+
+  return (
+    <div>
+      <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Repeat</span>
+      <CustomSelect value={mode} onChange={setMode} options={MODE_OPTIONS} />
+
+      {mode === "custom" && (
+        <div className="mt-2">
+          <input
+            value={ruleText}
+            onChange={(e) => {
+              setRuleText(e.target.value);
+              const parsed = parseRRule(e.target.value);
+              if (parsed) onChange(parsed);
+            }}
+            className={cn("block w-full font-mono", inputClass, ruleError && "border-red-300 dark:border-red-800")}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+          />
+          <p className={cn("mt-1 text-2xs", ruleError ? "text-red-600" : "text-gray-500 dark:text-gray-400")}>
+            {ruleError ? "Use FREQ, INTERVAL, BYDAY, UNTIL and COUNT, separated by semicolons." : value && describeRecurrence(value)}
+          </p>
+        </div>
+      )}
+
+      {value && mode !== "custom" && mode !== "none" && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              value={value.interval ?? 1}
+              onChange={(e) => {
+                const n = parseInt(e.target.value, 10);
+                patch({ interval: n > 1 ? n : undefined });
+              }}
+              className={cn("w-16", inputClass)}
+            />
+            <span>{UNIT_LABELS[value.freq]}</span>
+          </div>
+          {value.freq === "weekly" && (
+            <div className="flex gap-1">
+              {WEEKDAYS.map((label, day) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={cn(
+                    "h-7 w-7 rounded-full text-2xs font-medium transition-colors",
+                    value.byWeekday?.includes(day)
+                      ? "bg-accent text-white"
+                      : "border border-gray-200 dark:border-dark-border text-gray-600 dark:text-gray-300 hover:border-accent"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <span>Ends</span>
+            <div className="w-28">
+              <CustomSelect
+                value={ends}
+                onChange={(next) =>
+                  patch({
+                    until: next === "until" ? (value.until ?? "") : undefined,
+                    count: next === "count" ? (value.count ?? 5) : undefined,
+                  })
+                }
+                options={[
+                  { value: "never", label: "Never" },
+                  { value: "until", label: "On date" },
+                  { value: "count", label: "After" },
+                ]}
+                className="h-8 py-0 text-xs"
+              />
+            </div>
+            {ends === "until" && (
+              <input
+                type="date"
+                value={value.until ?? ""}
+                onChange={(e) => patch({ until: e.target.value })}
+                className={inputClass}
+              />
+            )}
+            {ends === "count" && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  value={value.count ?? 1}
+                  onChange={(e) => patch({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className={cn("w-16", inputClass)}
+                />
+                <span>times</span>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
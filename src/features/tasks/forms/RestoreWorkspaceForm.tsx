@@ -0,0 +1,135 @@
+import { useMemo, useState } from "react";
+import { planRestore, type RestoreMode, type RestorePlan, type WorkspaceBackup, type WorkspaceData } from "../backup";
+import { cn } from "../utils";
+
+const MODE_HELP: Record<RestoreMode, string> = {
+  merge: "Adds the backup to your workspace. Where a project or task is in both, the more recently updated copy is kept.",
+  replace: "Deletes the projects you own, then restores the backup. Projects shared with you are left alone.",
+};
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+/** Review a workspace backup against the current workspace and choose how to restore it. */
+export function RestoreWorkspaceForm({
+  fileName,
+  backup,
+  problems,
+  current,
+  userId,
+  canEdit,
+  onSubmit,
+  onCancel,
+}: {
+  fileName: string;
+  backup: WorkspaceBackup;
+  /** Records in the file that failed validation and will be skipped. */
+  problems: string[];
+  current: WorkspaceData;
+  userId?: string;
+  canEdit: (projectId: string) => boolean;
+  onSubmit: (plan: RestorePlan) => void;
+  onCancel: () => void;
+}) {
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const plan = useMemo(() => planRestore(backup, current, mode, { userId, canEdit }), [backup, current, mode, userId, canEdit]);
+  const exported = backup.exportedAt ? new Date(backup.exportedAt).toLocaleString() : null;
+  const nothingToDo = plan.deleteProjectIds.length === 0 && Object.values(plan.counts).every((n) => n === 0);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!nothingToDo) onSubmit(plan);
+      }}
+      className="space-y-4"
+    >
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        <span className="font-medium text-gray-900 dark:text-gray-100">{fileName}</span>
+        {exported && ` · saved ${exported}`} · {plural(backup.projects.length, "project")}, {plural(backup.tasks.length, "task")}
+      </p>
+
+      <div>
+        <div className="flex rounded-lg border border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised p-0.5">
+          {(["merge", "replace"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={cn(
+                "flex-1 rounded-md px-2.5 py-1.5 text-xs font-medium transition-all",
+                mode === m ? "bg-white dark:bg-dark-surface text-gray-900 dark:text-gray-100 shadow-card" : "text-gray-500 hover:text-gray-700"
+              )}
+            >
+              {m === "merge" ? "Merge" : "Replace"}
+            </button>
+          ))}
+        </div>
+        <p className="mt-1.5 text-2xs text-gray-500 dark:text-gray-400">{MODE_HELP[mode]}</p>
+      </div>
+
+      <ul className="space-y-1 text-xs text-gray-700 dark:text-gray-300">
+        {plan.deleteProjectIds.length > 0 && (
+          <li className="text-red-600 dark:text-red-300">
+            {plural(plan.deleteProjectIds.length, "project")} you own will be deleted first
+          </li>
+        )}
+        <li>{plural(plan.counts.projects, "project")} and {plural(plan.counts.tasks, "task")} will be written</li>
+        <li>
+          {plural(plan.counts.comments, "comment")} and {plan.counts.activity} activity {plan.counts.activity === 1 ? "entry" : "entries"} will be added
+        </li>
+        {plan.counts.members > 0 && <li>{plural(plan.counts.members, "member role")} will be restored</li>}
+      </ul>
+
+      {(plan.conflicts.length > 0 || problems.length > 0) && (
+        <div className="max-h-48 space-y-2 overflow-auto rounded-lg border border-gray-200 dark:border-dark-border px-3 py-2">
+          {plan.conflicts.length > 0 && (
+            <div>
+              <span className="block text-2xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                Conflicts ({plan.conflicts.length})
+              </span>
+              <ul className="mt-1 space-y-0.5 text-2xs text-amber-700 dark:text-amber-300">
+                {plan.conflicts.map((c, i) => (
+                  <li key={i}>{c}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {problems.length > 0 && (
+            <div>
+              <span className="block text-2xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                Skipped ({problems.length})
+              </span>
+              <ul className="mt-1 space-y-0.5 text-2xs text-red-600 dark:text-red-300">
+                {problems.map((p, i) => (
+                  <li key={i}>{p}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-dark-border"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={nothingToDo}
+          className={cn(
+            "rounded-lg px-4 py-2 text-sm font-medium text-white disabled:opacity-50",
+            mode === "replace" ? "bg-red-600 hover:bg-red-700" : "bg-accent hover:bg-accent-dark"
+          )}
+        >
+          {mode === "replace" ? "Replace Workspace" : "Merge Backup"}
+        </button>
+      </div>
+    </form>
+  );
+}
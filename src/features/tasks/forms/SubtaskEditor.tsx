@@ -0,0 +1,95 @@
+import { useState } from "react";
+import type { Subtask } from "../types";
+import { IconCheck, IconX } from "../icons";
+import { cn, localId } from "../utils";
+
+export function SubtaskEditor({
+  value,
+  onChange,
+}: {
+  value: Subtask[];
+  onChange: (v: Subtask[]) => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const done = value.filter((s) => s.done).length;
+
+  function add() {
+    const title = draft.trim();
+    if (!title) return;
+    onChange([...value, { id: localId("s"), title, done: false }]);
+    setDraft("");
+  }
+
+  function patch(id: string, next: Partial<Subtask>) {
+    onChange(value.map((s) => (s.id === id ? { ...s, ...next } : s)));
+  }
+
+  function remove(id: string) {
+    onChange(value.filter((s) => s.id !== id));
+  }
+
+  return (
+    <div>
+      <div className="mb-1.5 flex items-center justify-between">
+        <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Checklist</span>
+        {value.length > 0 && (
+          <span className="text-2xs text-gray-500 dark:text-gray-400">
+            {done}/{value.length} done
+          </span>
+        )}
+      </div>
+      {value.length > 0 && (
+        <div className="mb-2 h-1 overflow-hidden rounded-full bg-gray-100 dark:bg-dark-border">
+          <div
+            className="h-full rounded-full bg-accent transition-all duration-300"
+            style={{ width: `${(done / value.length) * 100}%` }}
+          />
+        </div>
+      )}
+      <div className="space-y-1">
+        {value.map((s) => (
+          <div key={s.id} className="group flex items-center gap-2 rounded-md px-1 py-0.5 hover:bg-canvas dark:hover:bg-dark-raised">
+            <button
+              type="button"
+              onClick={() => patch(s.id, { done: !s.done })}
+              className={cn(
+                "flex h-4 w-4 shrink-0 items-center justify-center rounded border transition-colors",
+                s.done ? "border-accent bg-accent text-white" : "border-gray-300 dark:border-gray-600 hover:border-accent"
+              )}
+              title={s.done ? "Mark as not done" : "Mark as done"}
+            >
+              {s.done && <IconCheck className="h-3 w-3" />}
+            </button>
+            <input
+              value={s.title}
+              onChange={(e) => patch(s.id, { title: e.target.value })}
+              onBlur={(e) => { if (!e.target.value.trim()) remove(s.id); }}
+              className={cn(
+                "flex-1 border-none bg-transparent py-0.5 text-base sm:text-sm outline-none",
+                s.done ? "text-gray-400 line-through" : "text-gray-900 dark:text-gray-100"
+              )}
+            />
+            <button
+              type="button"
+              onClick={() => remove(s.id)}
+              className="rounded p-0.5 text-gray-400 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 hover:text-gray-600"
+              title="Remove item"
+            >
+              <IconX className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") { e.preventDefault(); add(); }
+        }}
+        onBlur={add}
+        className="mt-1 block w-full rounded-lg border border-dashed border-gray-200 dark:border-dark-border bg-transparent px-3 py-1.5 text-base sm:text-sm text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25"
+        placeholder="Add an item…"
+      />
+    </div>
+  );
+}
@@ -1,23 +1,71 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import type { TaskPriority, TaskStatus } from "../types";
-import { STATUS_COLUMNS, PRIORITY_CONFIG } from "../types";
+import type { Project, ProjectMember, Recurrence, Subtask, Task, TaskAttachment, TaskPriority, TaskStatus, WorkflowColumn } from "../types";
+import { PRIORITY_CONFIG } from "../types";
 import { CustomSelect, Avatar } from "../ui";
-import { IconX } from "../icons";
+import { IconCheck, IconX } from "../icons";
 import { AVATAR_COLORS, cn, nameToInitials } from "../utils";
+import { SubtaskEditor } from "./SubtaskEditor";
+import { DescriptionEditor } from "./DescriptionEditor";
+import { DependencyEditor } from "./DependencyEditor";
+import { RecurrenceEditor } from "./RecurrenceEditor";
+import { AttachmentEditor } from "./AttachmentEditor";
+import { memberToDisplay } from "../assignees";
 
 export type KnownAssignee = { name: string; initials: string; color: string };
 
+export type TaskFormValues = {
+  title: string;
+  description: string;
+  priority: TaskPriority;
+  status: TaskStatus;
+  tags: string[];
+  assignee: string;
+  assigneeColor: string;
+  assigneeIds: string[];
+  due: string; // YYYY-MM-DD, or "" for no due date
+  subtasks: Subtask[];
+  blockedBy: string[];
+  recurrence: Recurrence | null;
+  attachments: TaskAttachment[];
+};
+
 export function TaskForm({
   initial,
+  columns,
+  members = [],
+  taskId,
+  projectId,
+  dependencyTasks,
+  projects = [],
   knownAssignees,
   knownTags,
+  conflict,
+  onReloadConflict,
+  onDismissConflict,
+  onUploadAttachment,
+  onDiscardAttachments,
   onSubmit,
   onCancel,
 }: {
-  initial: { title: string; description: string; priority: TaskPriority; status: TaskStatus; tags: string[]; assignee: string; assigneeColor: string };
+  initial: TaskFormValues;
+  columns: WorkflowColumn[];
+  members?: ProjectMember[];
+  taskId?: string;
+  projectId?: string | null;
+  /** Tasks that can be picked as blockers; the dependency section is hidden without them. */
+  dependencyTasks?: Task[];
+  projects?: Project[];
   knownAssignees: KnownAssignee[];
   knownTags: string[];
-  onSubmit: (v: { title: string; description: string; priority: TaskPriority; status: TaskStatus; tags: string[]; assignee: string; assigneeColor: string }) => void;
+  /** Set when someone else changed or deleted the task while this form was open. */
+  conflict?: "changed" | "deleted" | null;
+  onReloadConflict?: () => void;
+  onDismissConflict?: () => void;
+  /** Stores a dropped or picked file; the attachments section is hidden without it. */
+  onUploadAttachment?: (file: File) => Promise<TaskAttachment>;
+  /** Deletes files uploaded here that the task won't list, when the form closes. */
+  onDiscardAttachments?: (attachments: TaskAttachment[]) => void;
+  onSubmit: (v: TaskFormValues) => void;
   onCancel: () => void;
 }) {
   const [title, setTitle] = useState(initial.title);
@@ -25,14 +73,38 @@ export function TaskForm({
   const [priority, setPriority] = useState<TaskPriority>(initial.priority);
   const [status, setStatus] = useState<TaskStatus>(initial.status);
   const [tags, setTags] = useState<string[]>(initial.tags);
+  const [subtasks, setSubtasks] = useState<Subtask[]>(initial.subtasks);
+  const [due, setDue] = useState(initial.due);
+  const [blockedBy, setBlockedBy] = useState<string[]>(initial.blockedBy);
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(initial.recurrence);
+  const [attachments, setAttachments] = useState<TaskAttachment[]>(initial.attachments);
   const [tagInput, setTagInput] = useState("");
   const [tagFocused, setTagFocused] = useState(false);
   const tagRef = useRef<HTMLDivElement>(null);
   const [assignee, setAssignee] = useState(initial.assignee);
   const [assigneeColor, setAssigneeColor] = useState(initial.assigneeColor || AVATAR_COLORS[0]);
+  const [assigneeIds, setAssigneeIds] = useState<string[]>(initial.assigneeIds);
   const [assigneeFocused, setAssigneeFocused] = useState(false);
   const assigneeRef = useRef<HTMLDivElement>(null);
 
+  // Files uploaded while the form is open are only kept if it is saved with them.
+  const uploadedRef = useRef<TaskAttachment[]>([]);
+  const keptRef = useRef<Set<string> | null>(null);
+  const discardRef = useRef(onDiscardAttachments);
+  discardRef.current = onDiscardAttachments;
+
+  useEffect(() => () => {
+    const kept = keptRef.current;
+    const unsaved = uploadedRef.current.filter((a) => !kept?.has(a.id));
+    if (unsaved.length > 0) discardRef.current?.(unsaved);
+  }, []);
+
+  async function uploadAttachment(file: File) {
+    const attachment = await onUploadAttachment!(file);
+    uploadedRef.current.push(attachment);
+    return attachment;
+  }
+
   const suggestions = useMemo(() => {
     if (!assignee.trim()) return knownAssignees;
     const q = assignee.toLowerCase();
@@ -80,6 +152,13 @@ export function TaskForm({
     return () => document.removeEventListener("mousedown", handler);
   }, [showSuggestions]);
 
+  function toggleMember(userId: string) {
+    setAssigneeIds((prev) => (prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]));
+  }
+
+  // With real members available, free text is only kept around so an old assignee can be cleared.
+  const showFreeText = members.length === 0 || !!initial.assignee;
+
   function selectAssignee(a: KnownAssignee) {
     setAssignee(a.name);
     setAssigneeColor(a.color);
@@ -91,6 +170,8 @@ export function TaskForm({
       className="space-y-4"
       onSubmit={(e) => {
         e.preventDefault();
+        if (conflict === "deleted") return;
+        keptRef.current = new Set(attachments.map((a) => a.id));
         onSubmit({
           title: title.trim(),
           description: description.trim(),
@@ -99,9 +180,36 @@ export function TaskForm({
           tags,
           assignee: assignee.trim(),
           assigneeColor,
+          assigneeIds: assigneeIds.filter((id) => members.length === 0 || members.some((m) => m.userId === id)),
+          due,
+          subtasks: subtasks
+            .map((s) => ({ ...s, title: s.title.trim() }))
+            .filter((s) => s.title),
+          blockedBy,
+          recurrence: recurrence && { ...recurrence, until: recurrence.until || undefined },
+          attachments,
         });
       }}
     >
+      {conflict && (
+        <div className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-200">
+          <span className="flex-1">
+            {conflict === "deleted"
+              ? "This task was deleted by someone else."
+              : "Someone else changed this task while you were editing."}
+          </span>
+          {conflict === "changed" && onReloadConflict && (
+            <button type="button" onClick={onReloadConflict} className="font-medium underline hover:no-underline">
+              Load theirs
+            </button>
+          )}
+          {conflict === "changed" && onDismissConflict && (
+            <button type="button" onClick={onDismissConflict} className="font-medium underline hover:no-underline">
+              Keep mine
+            </button>
+          )}
+        </div>
+      )}
       <label className="block">
         <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Title</span>
         <input
@@ -113,28 +221,21 @@ export function TaskForm({
           autoFocus
         />
       </label>
-      <label className="block">
-        <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Description</span>
-        <textarea
-          value={description}
-          onChange={(e) => setDescription(e.target.value)}
-          rows={3}
-          className="block w-full rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-3 py-2 text-base sm:text-sm text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25"
-          placeholder="Add more detail…"
-        />
-      </label>
+      <DescriptionEditor value={description} onChange={setDescription} />
+      <SubtaskEditor value={subtasks} onChange={setSubtasks} />
+      {onUploadAttachment && <AttachmentEditor value={attachments} onChange={setAttachments} onUpload={uploadAttachment} />}
       <div className="grid grid-cols-2 gap-3">
         <div className="block">
           <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Status</span>
           <CustomSelect
             value={status}
             onChange={setStatus}
-            options={STATUS_COLUMNS.map((c) => ({ value: c.key, label: c.label }))}
+            options={columns.map((c) => ({ value: c.key, label: c.label }))}
             renderOption={(opt) => {
-              const col = STATUS_COLUMNS.find((c) => c.key === opt.value);
+              const col = columns.find((c) => c.key === opt.value);
               return (
                 <span className="flex items-center gap-2">
-                  <span className="text-xs">{col?.icon}</span>
+                  <span className="text-xs" style={{ color: col?.color }}>{col?.icon}</span>
                   <span>{opt.label}</span>
                 </span>
               );
@@ -164,68 +265,127 @@ export function TaskForm({
           />
         </div>
       </div>
-      <div className="block" ref={assigneeRef}>
-        <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Assignee</span>
+      <div className="block">
+        <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Due date</span>
         <div className="flex items-center gap-2">
-          {assignee.trim() && (
-            <Avatar initials={nameToInitials(assignee)} color={assigneeColor} />
-          )}
-          <div className="relative flex-1">
-            <input
-              value={assignee}
-              onChange={(e) => setAssignee(e.target.value)}
-              onFocus={() => setAssigneeFocused(true)}
-              onKeyDown={(e) => {
-                if (e.key === "Escape" && assigneeFocused) { e.stopPropagation(); setAssigneeFocused(false); (e.target as HTMLElement).blur(); }
-              }}
-              className="block w-full rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-3 py-2 text-base sm:text-sm text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25"
-              placeholder="Type a name…"
-            />
-            {showSuggestions && (
-              <div className="absolute left-0 right-0 top-full z-10 mt-1 max-h-40 overflow-y-auto rounded-lg border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface shadow-lifted animate-fade-in">
-                {suggestions.map((a) => (
-                  <button
-                    key={a.name}
-                    type="button"
-                    className="flex w-full items-center gap-2.5 px-3 py-2 text-left text-sm text-gray-900 dark:text-gray-100 hover:bg-canvas dark:hover:bg-dark-raised transition-colors"
-                    onMouseDown={(e) => { e.preventDefault(); selectAssignee(a); }}
-                  >
-                    <Avatar initials={a.initials} color={a.color} />
-                    <span>{a.name}</span>
-                  </button>
-                ))}
-              </div>
-            )}
-          </div>
-          {assignee.trim() && (
+          <input
+            type="date"
+            value={due}
+            onChange={(e) => setDue(e.target.value)}
+            className="block w-full rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-3 py-2 text-base sm:text-sm text-gray-900 dark:text-gray-100 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25 dark:[color-scheme:dark]"
+          />
+          {due && (
             <button
               type="button"
-              onClick={() => { setAssignee(""); setAssigneeFocused(false); }}
+              onClick={() => setDue("")}
               className="rounded-md p-1 text-gray-400 hover:text-gray-600"
-              title="Clear assignee"
+              title="Clear due date"
             >
               <IconX className="h-3.5 w-3.5" />
             </button>
           )}
         </div>
-        {assignee.trim() && (
-          <div className="mt-2 flex items-center gap-1.5">
-            <span className="text-2xs text-gray-500 dark:text-gray-400">Color:</span>
-            {AVATAR_COLORS.map((c) => (
+      </div>
+      <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+      {members.length > 0 && (
+        <div className="block">
+          <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Assignees</span>
+          <div className="max-h-40 overflow-y-auto rounded-lg border border-gray-200 dark:border-dark-border divide-y divide-gray-100 dark:divide-dark-border">
+            {members.map((m) => {
+              const d = memberToDisplay(m);
+              const selected = assigneeIds.includes(m.userId);
+              return (
+                <button
+                  key={m.userId}
+                  type="button"
+                  onClick={() => toggleMember(m.userId)}
+                  className="flex w-full items-center gap-2.5 px-3 py-2 text-left text-sm text-gray-900 dark:text-gray-100 hover:bg-canvas dark:hover:bg-dark-raised transition-colors"
+                >
+                  <Avatar initials={d.initials} color={d.color} />
+                  <span className="min-w-0 flex-1 truncate">
+                    {d.name}
+                    <span className="ml-1.5 text-2xs text-gray-400">{m.email}</span>
+                  </span>
+                  <span
+                    className={cn(
+                      "flex h-4 w-4 shrink-0 items-center justify-center rounded border transition-colors",
+                      selected ? "border-accent bg-accent text-white" : "border-gray-300 dark:border-gray-600"
+                    )}
+                  >
+                    {selected && <IconCheck className="h-3 w-3" />}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      {showFreeText && (
+        <div className="block" ref={assigneeRef}>
+          <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">
+            {members.length > 0 ? "Other assignee" : "Assignee"}
+          </span>
+          <div className="flex items-center gap-2">
+            {assignee.trim() && (
+              <Avatar initials={nameToInitials(assignee)} color={assigneeColor} />
+            )}
+            <div className="relative flex-1">
+              <input
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                onFocus={() => setAssigneeFocused(true)}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape" && assigneeFocused) { e.stopPropagation(); setAssigneeFocused(false); (e.target as HTMLElement).blur(); }
+                }}
+                className="block w-full rounded-lg border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-3 py-2 text-base sm:text-sm text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/25"
+                placeholder="Type a name…"
+              />
+              {showSuggestions && (
+                <div className="absolute left-0 right-0 top-full z-10 mt-1 max-h-40 overflow-y-auto rounded-lg border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface shadow-lifted animate-fade-in">
+                  {suggestions.map((a) => (
+                    <button
+                      key={a.name}
+                      type="button"
+                      className="flex w-full items-center gap-2.5 px-3 py-2 text-left text-sm text-gray-900 dark:text-gray-100 hover:bg-canvas dark:hover:bg-dark-raised transition-colors"
+                      onMouseDown={(e) => { e.preventDefault(); selectAssignee(a); }}
+                    >
+                      <Avatar initials={a.initials} color={a.color} />
+                      <span>{a.name}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {assignee.trim() && (
               <button
-                key={c}
                 type="button"
-                onClick={() => setAssigneeColor(c)}
-                className={cn(
-                  "h-5 w-5 rounded-full border-2 transition-all",
-                  assigneeColor === c ? "border-sidebar scale-110" : "border-transparent hover:scale-105"
-                )}
-                style={{ backgroundColor: c }}
-              />
-            ))}
+                onClick={() => { setAssignee(""); setAssigneeFocused(false); }}
+                className="rounded-md p-1 text-gray-400 hover:text-gray-600"
+                title="Clear assignee"
+              >
+                <IconX className="h-3.5 w-3.5" />
+              </button>
+            )}
           </div>
-        )}
-      </div>
+          {assignee.trim() && (
+            <div className="mt-2 flex items-center gap-1.5">
+              <span className="text-2xs text-gray-500 dark:text-gray-400">Color:</span>
+              {AVATAR_COLORS.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  onClick={() => setAssigneeColor(c)}
+                  className={cn(
+                    "h-5 w-5 rounded-full border-2 transition-all",
+                    assigneeColor === c ? "border-sidebar scale-110" : "border-transparent hover:scale-105"
+                  )}
+                  style={{ backgroundColor: c }}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
       <div ref={tagRef} className="relative">
         <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Tags</span>
         <div
@@ -272,6 +432,16 @@ export function TaskForm({
           </div>
         )}
       </div>
+      {dependencyTasks && (
+        <DependencyEditor
+          taskId={taskId}
+          projectId={projectId}
+          value={blockedBy}
+          onChange={setBlockedBy}
+          tasks={dependencyTasks}
+          projects={projects}
+        />
+      )}
       <div className="flex items-center justify-end gap-2 pt-2">
         <button
           type="button"
@@ -282,7 +452,8 @@ export function TaskForm({
         </button>
         <button
           type="submit"
-          className="rounded-lg bg-accent px-4 py-2 text-sm font-medium text-white hover:bg-accent-dark focus:outline-none focus:ring-2 focus:ring-accent/30"
+          disabled={conflict === "deleted"}
+          className="rounded-lg bg-accent px-4 py-2 text-sm font-medium text-white hover:bg-accent-dark focus:outline-none focus:ring-2 focus:ring-accent/30 disabled:opacity-50"
         >
           Save Task
         </button>
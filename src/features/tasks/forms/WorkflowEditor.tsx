@@ -0,0 +1,214 @@
+import { useState } from "react";
+import type { TaskStatus, WorkflowColumn } from "../types";
+import { COLUMN_ICONS, PROJECT_COLORS } from "../types";
+import { makeColumnKey, resolveStatusMoves } from "../workflow";
+import { CustomSelect } from "../ui/CustomSelect";
+import { IconPlus, IconTrash } from "../icons";
+import { cn, localId } from "../utils";
+
+/** A column being edited; new columns get their real key when the form is saved. */
+export type WorkflowDraftColumn = WorkflowColumn & { isNew?: boolean };
+
+/** Turn the editor state into saved columns plus the status moves for deleted columns. */
+export function finalizeWorkflow(
+  draft: WorkflowDraftColumn[],
+  moves: Record<TaskStatus, TaskStatus>
+): { columns: WorkflowColumn[]; statusMoves: Record<TaskStatus, TaskStatus> } {
+  const taken = new Set([...draft.filter((c) => !c.isNew).map((c) => c.key), ...Object.keys(moves)]);
+  const renamed = new Map<string, string>();
+  const columns = draft.map(({ isNew, ...c }) => {
+    const label = c.label.trim() || "Untitled";
+    if (!isNew) return { ...c, label };
+    const key = makeColumnKey(label, taken);
+    taken.add(key);
+    renamed.set(c.key, key);
+    return { ...c, key, label };
+  });
+  const rawMoves: Record<TaskStatus, TaskStatus> = {};
+  for (const [from, to] of Object.entries(moves)) rawMoves[from] = renamed.get(to) ?? to;
+  return { columns, statusMoves: resolveStatusMoves(rawMoves, columns) };
+}
+
+export function WorkflowEditor({
+  columns,
+  onChange,
+  moves,
+  onMovesChange,
+  taskCounts,
+}: {
+  columns: WorkflowDraftColumn[];
+  onChange: (v: WorkflowDraftColumn[]) => void;
+  moves: Record<TaskStatus, TaskStatus>;
+  onMovesChange: (v: Record<TaskStatus, TaskStatus>) => void;
+  taskCounts?: Record<string, number>;
+}) {
+  const [colorFor, setColorFor] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<{ key: string; target: string } | null>(null);
+
+  function patch(key: string, next: Partial<WorkflowColumn>) {
+    onChange(columns.map((c) => (c.key === key ? { ...c, ...next } : c)));
+  }
+
+  function move(index: number, delta: -1 | 1) {
+    const target = index + delta;
+    if (target < 0 || target >= columns.length) return;
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  }
+
+  function cycleIcon(c: WorkflowColumn) {
+    const i = COLUMN_ICONS.indexOf(c.icon);
+    patch(c.key, { icon: COLUMN_ICONS[(i + 1) % COLUMN_ICONS.length] });
+  }
+
+  function add() {
+    onChange([
+      ...columns,
+      { key: localId("new"), label: "New column", icon: COLUMN_ICONS[0], color: PROJECT_COLORS[columns.length % PROJECT_COLORS.length], isNew: true },
+    ]);
+  }
+
+  function startDelete(c: WorkflowDraftColumn) {
+    // Unsaved columns cannot hold tasks yet, so they are removed right away.
+    if (c.isNew) {
+      onChange(columns.filter((x) => x.key !== c.key));
+      return;
+    }
+    const target = columns.find((x) => x.key !== c.key);
+    if (target) setDeleting({ key: c.key, target: target.key });
+  }
+
+  function confirmDelete() {
+    if (!deleting) return;
+    onMovesChange({ ...moves, [deleting.key]: deleting.target });
+    onChange(columns.filter((x) => x.key !== deleting.key));
+    setDeleting(null);
+  }
+
+  return (
+    <div>
+      <span className="mb-1.5 block text-xs font-medium text-gray-700 dark:text-gray-300">Workflow</span>
+      <div className="rounded-lg border border-gray-200 dark:border-dark-border divide-y divide-gray-100 dark:divide-dark-border">
+        {columns.map((c, i) => {
+          const count = taskCounts?.[c.key];
+          return (
+            <div key={c.key} className="px-2 py-1.5">
+              <div className="flex items-center gap-1.5">
+                <div className="flex flex-col">
+                  <button type="button" onClick={() => move(i, -1)} disabled={i === 0} className="px-1 text-2xs leading-none text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move up">▲</button>
+                  <button type="button" onClick={() => move(i, 1)} disabled={i === columns.length - 1} className="px-1 text-2xs leading-none text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move down">▼</button>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setColorFor(colorFor === c.key ? null : c.key)}
+                  className="h-4 w-4 shrink-0 rounded-full border border-black/10"
+                  style={{ backgroundColor: c.color }}
+                  title="Column color"
+                />
+                <button
+                  type="button"
+                  onClick={() => cycleIcon(c)}
+                  className="w-5 shrink-0 text-center text-xs"
+                  style={{ color: c.color }}
+                  title="Change icon"
+                >
+                  {c.icon}
+                </button>
+                <input
+                  value={c.label}
+                  onChange={(e) => patch(c.key, { label: e.target.value })}
+                  className="min-w-0 flex-1 rounded-md border border-transparent bg-transparent px-1.5 py-1 text-base sm:text-sm text-gray-900 dark:text-gray-100 hover:border-gray-200 dark:hover:border-dark-border focus:border-accent focus:outline-none"
+                />
+                {count !== undefined && count > 0 && (
+                  <span className="text-2xs text-gray-400">{count}</span>
+                )}
+                <input
+                  type="number"
+                  min={1}
+                  value={c.wipLimit ?? ""}
+                  onChange={(e) => {
+                    const n = parseInt(e.target.value, 10);
+                    patch(c.key, { wipLimit: n > 0 ? n : undefined });
+                  }}
+                  className="w-12 rounded-md border border-gray-200 dark:border-dark-border bg-transparent px-1.5 py-0.5 text-center text-2xs text-gray-700 dark:text-gray-300 placeholder:text-gray-400 focus:border-accent focus:outline-none"
+                  placeholder="WIP"
+                  title="Work-in-progress limit (leave empty for no limit)"
+                />
+                <button
+                  type="button"
+                  onClick={() => patch(c.key, { done: !c.done })}
+                  className={cn(
+                    "rounded-full border px-2 py-0.5 text-2xs font-medium transition-colors",
+                    c.done
+                      ? "border-green-200 bg-green-50 text-green-700 dark:border-green-900/60 dark:bg-green-950/40 dark:text-green-300"
+                      : "border-gray-200 dark:border-dark-border text-gray-400 hover:text-gray-600"
+                  )}
+                  title="Tasks in this column count as completed"
+                >
+                  Done
+                </button>
+                <button
+                  type="button"
+                  onClick={() => startDelete(c)}
+                  disabled={columns.length <= 1}
+                  className="rounded p-1 text-gray-400 hover:bg-red-50 dark:hover:bg-red-500/20 hover:text-red-500 disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Delete column"
+                >
+                  <IconTrash className="h-3 w-3" />
+                </button>
+              </div>
+              {colorFor === c.key && (
+                <div className="mt-1.5 flex flex-wrap gap-1.5 pl-6">
+                  {PROJECT_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => { patch(c.key, { color }); setColorFor(null); }}
+                      className={cn(
+                        "h-5 w-5 rounded-full border-2 transition-all",
+                        c.color === color ? "border-sidebar scale-110" : "border-transparent hover:scale-105"
+                      )}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                </div>
+              )}
+              {deleting?.key === c.key && (
+                <div className="mt-1.5 flex flex-col gap-2 rounded-md bg-red-50 dark:bg-red-950/40 px-2 py-2 sm:flex-row sm:items-center">
+                  <span className="text-2xs text-red-700 dark:text-red-200">
+                    Move {count ? `${count} ` : ""}tasks to
+                  </span>
+                  <div className="w-full sm:w-40">
+                    <CustomSelect
+                      value={deleting.target}
+                      onChange={(target) => setDeleting({ ...deleting, target })}
+                      options={columns.filter((x) => x.key !== c.key).map((x) => ({ value: x.key, label: x.label || "Untitled" }))}
+                      className="h-7 py-0 text-xs"
+                    />
+                  </div>
+                  <div className="flex gap-1.5 sm:ml-auto">
+                    <button type="button" onClick={() => setDeleting(null)} className="rounded-md px-2 py-1 text-2xs font-medium text-gray-600 dark:text-gray-300 hover:bg-white/60 dark:hover:bg-dark-border">
+                      Cancel
+                    </button>
+                    <button type="button" onClick={confirmDelete} className="rounded-md bg-red-600 px-2 py-1 text-2xs font-medium text-white hover:bg-red-700">
+                      Delete column
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <button
+        type="button"
+        onClick={add}
+        className="mt-2 flex items-center gap-1 rounded-md px-1.5 py-1 text-2xs font-medium text-gray-500 hover:text-accent"
+      >
+        <IconPlus className="h-3 w-3" />
+        Add column
+      </button>
+    </div>
+  );
+}
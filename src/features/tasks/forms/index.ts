@@ -1,3 +1,9 @@
 export { TaskForm } from "./TaskForm";
-export type { KnownAssignee } from "./TaskForm";
+export type { KnownAssignee, TaskFormValues } from "./TaskForm";
 export { ProjectForm } from "./ProjectForm";
+export type { ProjectFormValues } from "./ProjectForm";
+export { MoveTaskForm } from "./MoveTaskForm";
+export type { MoveTaskMode, MoveTaskValues } from "./MoveTaskForm";
+export { ImportProjectForm } from "./ImportProjectForm";
+export { RestoreWorkspaceForm } from "./RestoreWorkspaceForm";
+export { MigrateLocalForm } from "./MigrateLocalForm";
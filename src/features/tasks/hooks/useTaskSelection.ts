@@ -0,0 +1,64 @@
+/**
+ * Multi-select state for the board and list views.
+ *
+ * Cmd/Ctrl-click toggles a task, Shift-click selects the range from the last
+ * clicked task, and a plain click clears the selection.
+ */
+
+import { useCallback, useMemo, useRef, useState } from "react";
+
+export type SelectModifiers = { shiftKey?: boolean; metaKey?: boolean; ctrlKey?: boolean };
+
+export function useTaskSelection() {
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+	const anchorRef = useRef<string | null>(null);
+
+	/** `orderedIds` is the on-screen order, used to resolve Shift-click ranges. */
+	const handleSelect = useCallback((id: string, orderedIds: string[], mods: SelectModifiers) => {
+		if (mods.shiftKey && anchorRef.current) {
+			const from = orderedIds.indexOf(anchorRef.current);
+			const to = orderedIds.indexOf(id);
+			if (from !== -1 && to !== -1) {
+				const range = orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+				setSelectedIds((prev) => new Set([...prev, ...range]));
+				return;
+			}
+		}
+		if (mods.shiftKey || mods.metaKey || mods.ctrlKey) {
+			anchorRef.current = id;
+			setSelectedIds((prev) => {
+				const next = new Set(prev);
+				if (next.has(id)) next.delete(id);
+				else next.add(id);
+				return next;
+			});
+			return;
+		}
+		anchorRef.current = null;
+		setSelectedIds((prev) => (prev.size === 0 ? prev : new Set()));
+	}, []);
+
+	/** Replace the selection (or add to it) — used by the list view's lasso. */
+	const selectMany = useCallback((ids: string[], additive = false) => {
+		setSelectedIds((prev) => new Set(additive ? [...prev, ...ids] : ids));
+	}, []);
+
+	const clearSelection = useCallback(() => {
+		anchorRef.current = null;
+		setSelectedIds((prev) => (prev.size === 0 ? prev : new Set()));
+	}, []);
+
+	/** Drop ids that are no longer on screen (deleted, moved or filtered out). */
+	const pruneSelection = useCallback((visibleIds: string[]) => {
+		setSelectedIds((prev) => {
+			const visible = new Set(visibleIds);
+			const next = new Set([...prev].filter((id) => visible.has(id)));
+			return next.size === prev.size ? prev : next;
+		});
+	}, []);
+
+	return useMemo(
+		() => ({ selectedIds, handleSelect, selectMany, clearSelection, pruneSelection }),
+		[selectedIds, handleSelect, selectMany, clearSelection, pruneSelection]
+	);
+}
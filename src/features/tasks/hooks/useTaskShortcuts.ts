@@ -0,0 +1,56 @@
+/**
+ * Keyboard shortcuts for the Tasks page (see SHORTCUTS in commands.ts).
+ *
+ * Cmd/Ctrl+K works anywhere; single-key shortcuts are ignored while typing in
+ * a field or holding a modifier. Nothing fires while `enabled` is false, e.g.
+ * with a dialog open.
+ */
+
+import { useEffect, useRef } from "react";
+import { isTypingTarget } from "../utils";
+
+export interface TaskShortcutHandlers {
+	openPalette: () => void;
+	showHelp: () => void;
+	createTask?: () => void;
+	/** +1 for the next task on screen, -1 for the previous one. */
+	moveFocus?: (delta: 1 | -1) => void;
+	openFocused?: () => void;
+	/** Zero-based column index from the 1–9 keys. */
+	setFocusedStatus?: (column: number) => void;
+	cycleFocusedPriority?: () => void;
+	clearFocus?: () => void;
+}
+
+export function useTaskShortcuts(enabled: boolean, handlers: TaskShortcutHandlers) {
+	// Handlers change every render; the listener reads the latest ones.
+	const handlersRef = useRef(handlers);
+	handlersRef.current = handlers;
+
+	useEffect(() => {
+		if (!enabled) return;
+		const onKey = (e: KeyboardEvent) => {
+			const h = handlersRef.current;
+			if ((e.metaKey || e.ctrlKey) && !e.altKey && e.key.toLowerCase() === "k") {
+				e.preventDefault();
+				h.openPalette();
+				return;
+			}
+			if (e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return;
+			let handler: (() => void) | undefined;
+			if (e.key === "?") handler = h.showHelp;
+			else if (e.key === "c") handler = h.createTask;
+			else if (e.key === "j") handler = h.moveFocus && (() => h.moveFocus!(1));
+			else if (e.key === "k") handler = h.moveFocus && (() => h.moveFocus!(-1));
+			else if (e.key === "Enter" && !(e.target instanceof HTMLButtonElement)) handler = h.openFocused;
+			else if (e.key === "p") handler = h.cycleFocusedPriority;
+			else if (e.key === "Escape") handler = h.clearFocus;
+			else if (/^[1-9]$/.test(e.key)) handler = h.setFocusedStatus && (() => h.setFocusedStatus!(Number(e.key) - 1));
+			if (!handler) return;
+			e.preventDefault();
+			handler();
+		};
+		window.addEventListener("keydown", onKey);
+		return () => window.removeEventListener("keydown", onKey);
+	}, [enabled]);
+}
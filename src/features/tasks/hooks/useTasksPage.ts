@@ -5,15 +5,31 @@
  * so the component only deals with rendering.
  */
 
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { useLocation } from "react-router-dom";
-import type { MemberRole, Project, Task, TaskPriority, TaskStatus, ViewMode } from "../types";
-import { PROJECT_COLORS } from "../types";
-import { getUserRoles, leaveProject } from "../memberStorage";
-import { useDashboardRepo, useProjects, useTasks } from "../store";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { matchPath, useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import type { MemberRole, Project, ProjectMember, SavedView, Task, TaskAttachment, TaskFilters, TaskPriority, TaskSort, TaskStatus, ViewMode } from "../types";
+import { getUserRoles, leaveProject, listProjectMembers } from "../memberStorage";
+import { useDashboardRepo, useProjects, useSyncStatus, useTaskHistory, useTasks, type TaskUpdate } from "../store";
 import { useAuth } from "../../../lib/AuthContext";
-import { nameToInitials } from "../utils";
-import type { KnownAssignee } from "../index";
+import { localId, nameToInitials } from "../utils";
+import { planAssigneeMigration } from "../assignees";
+import { DEFAULT_SORT, compareTasks, filterTasks, isSameView, readFilterParams, writeFilterParams, type FilterState } from "../filters";
+import { getDefaultStatus, getProjectColumns, getWipPolicy, hasStatus, isDoneStatus, isOverWipLimit } from "../workflow";
+import { getDependencyPolicy, getOpenBlockerMap, getOpenBlockers, isFinishingBlocked } from "../dependencies";
+import { bulkPatch, type BulkAction } from "../bulkActions";
+import { tasksToCsv, type ImportDraft } from "../importers";
+import { createBackup, isBackupFile, parseBackup, type RestorePlan, type WorkspaceBackup, type WorkspaceData } from "../backup";
+import { toDateKey } from "../dates";
+import { planLocalMigration, uploadLocalAttachments, type LocalMigrationPlan } from "../migration";
+import { archiveLocalWorkspace, dismissLocalMigration, isAssigneeMigrationDone, isLocalMigrationDismissed, loadLocalWorkspace, markAssigneeMigrationDone } from "../storage";
+import { TRASH_RETENTION_DAYS, type TrashContents } from "../trash";
+import { createIndexedDbAttachmentStore, removedAttachments } from "../attachments";
+import { isNextOccurrence } from "../recurrence";
+import type { Command } from "../commands";
+import { useTaskSelection } from "./useTaskSelection";
+import { useUndoHistory } from "./useUndoHistory";
+import { useTaskShortcuts } from "./useTaskShortcuts";
+import type { KnownAssignee, MoveTaskValues, ProjectFormValues, TaskFormValues } from "../index";
 
 // ── Types ──────────────────────────────────────────────────────────────────────
 
@@ -33,30 +49,111 @@ export interface TaskModalState {
 	mode: "create" | "edit";
 	task?: Task;
 	defaultStatus?: TaskStatus;
+	/** updatedAt of the copy the form was opened with; a newer remote copy means someone else edited it. */
+	baseUpdatedAt?: string;
+}
+
+export type TaskConflict = "changed" | "deleted";
+
+/** A workspace backup picked through Import, waiting for the user to choose how to restore it. */
+export interface RestoreState {
+	fileName: string;
+	backup: WorkspaceBackup;
+	/** Records in the file that failed validation. */
+	problems: string[];
+	/** The workspace as it was when the file was picked, to plan the restore against. */
+	current: WorkspaceData;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+/** The order the P shortcut steps through. */
+const PRIORITY_CYCLE: TaskPriority[] = ["low", "medium", "high", "urgent"];
+
+function downloadBlob(blob: Blob, fileName: string) {
+	const url = URL.createObjectURL(blob);
+	const a = document.createElement("a");
+	a.href = url;
+	a.download = fileName;
+	a.click();
+	URL.revokeObjectURL(url);
+}
+
+/** The fields `patch` changes, as they are on `task`; unset fields come back as undefined so undoing clears them. */
+function inversePatch(task: Task, patch: TaskUpdate): TaskUpdate {
+	const inverse: Record<string, unknown> = {};
+	for (const key of Object.keys(patch)) inverse[key] = task[key as keyof Task];
+	return inverse as TaskUpdate;
+}
+
+function inverseChanges(tasks: Task[], changes: { id: string; patch: TaskUpdate }[]) {
+	const byId = new Map(tasks.map((t) => [t.id, t]));
+	return changes.flatMap(({ id, patch }) => {
+		const task = byId.get(id);
+		return task ? [{ id, patch: inversePatch(task, patch) }] : [];
+	});
+}
+
+/** A task's index in its column, which reorderTask takes to put it back. */
+function columnIndex(task: Task, tasks: Task[]): number {
+	return tasks
+		.filter((t) => t.projectId === task.projectId && t.status === task.status)
+		.sort((a, b) => a.order - b.order)
+		.findIndex((t) => t.id === task.id);
 }
 
 // ── Hook ───────────────────────────────────────────────────────────────────────
 
 export function useTasksPage() {
 	const { pathname } = useLocation();
+	const navigate = useNavigate();
 	const { user } = useAuth();
-	const useMockData = pathname === "/tasks/demo" || pathname === "/demo";
+	const useMockData = pathname === "/demo" || pathname === "/tasks/demo" || pathname.startsWith("/tasks/demo/");
+	const basePath = useMockData ? "/tasks/demo" : "/tasks";
+	const isMyWork = pathname === `${basePath}/my-work`;
+	const isTrash = pathname === `${basePath}/trash`;
+	const taskRoute = matchPath(`${basePath}/:projectId/:taskId`, pathname);
+	const routeProjectId = taskRoute?.params.projectId ?? null;
+	const routeTaskId = taskRoute?.params.taskId ?? null;
 	const repo = useDashboardRepo(useMockData, user?.id);
 	const projectsApi = useProjects(repo);
 	const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
 	const tasksApi = useTasks(repo, activeProjectId);
 
-	const [view, setView] = useState<ViewMode>("kanban");
+	// Filters, sort and view live in the query string so a filtered board can be shared as a link.
+	const [searchParams, setSearchParams] = useSearchParams();
+	const filterState = useMemo(() => readFilterParams(searchParams), [searchParams]);
+	const { filters, sort } = filterState;
+	const view: ViewMode = filterState.view ?? "kanban";
+
+	const setFilterState = useCallback((next: FilterState) => {
+		setSearchParams((prev) => writeFilterParams(prev, next), { replace: true });
+	}, [setSearchParams]);
+	const setFilters = useCallback((f: TaskFilters) => setFilterState({ filters: f, sort, view }), [setFilterState, sort, view]);
+	const setSort = useCallback((s: TaskSort) => setFilterState({ filters, sort: s, view }), [setFilterState, filters, view]);
+	const setView = useCallback((v: ViewMode) => setFilterState({ filters, sort, view: v }), [setFilterState, filters, sort]);
 	const [sidebarOpen, setSidebarOpen] = useState(() =>
 		typeof window !== "undefined" && window.innerWidth >= 1024
 	);
 	const [search, setSearch] = useState("");
+	const [assignedToMe, setAssignedToMe] = useState(false);
 
 	const [projectModal, setProjectModal] = useState<ProjectModalState | null>(null);
 	const [taskModal, setTaskModal] = useState<TaskModalState | null>(null);
 	const [confirmDialog, setConfirmDialog] = useState<ConfirmDialogState | null>(null);
 
 	const activeProject = projectsApi.projects?.find((p) => p.id === activeProjectId) ?? null;
+	const columns = useMemo(() => getProjectColumns(activeProject), [activeProject]);
+	const defaultStatus = getDefaultStatus(columns);
+
+	const taskHistory = useTaskHistory(repo, taskModal?.mode === "edit" ? (taskModal.task?.id ?? null) : null);
+
+	// A task opened from My Work may belong to any project, so the form uses that project's workflow.
+	const taskModalProjectId = taskModal?.task?.projectId ?? activeProjectId;
+	const taskModalColumns = useMemo(
+		() => getProjectColumns(projectsApi.projects?.find((p) => p.id === taskModalProjectId)),
+		[projectsApi.projects, taskModalProjectId]
+	);
 
 	// ── Roles & permissions ────────────────────────────────────────────────────
 
@@ -70,42 +167,206 @@ export function useTasksPage() {
 		return () => { cancelled = true; };
 	}, [user?.id, useMockData, projectsApi.projects]);
 
+	// Archived projects are read-only for everyone until they are unarchived.
+	const archivedIds = useMemo(
+		() => new Set((projectsApi.projects ?? []).filter((p) => p.archivedAt).map((p) => p.id)),
+		[projectsApi.projects]
+	);
 	const myRole = activeProjectId ? (roleMap.get(activeProjectId) ?? null) : null;
-	const canEdit = myRole !== "viewer";
+	const canEdit = myRole !== "viewer" && !(activeProjectId && archivedIds.has(activeProjectId));
+	const canEditProject = useCallback((id: string) => roleMap.get(id) !== "viewer" && !archivedIds.has(id), [roleMap, archivedIds]);
 	const canManageProject = useCallback((id: string) => {
 		const role = roleMap.get(id);
 		return role === undefined || role === 'owner';
 	}, [roleMap]);
 
+	// ── Members ────────────────────────────────────────────────────────────────
+
+	const [members, setMembers] = useState<ProjectMember[]>([]);
+	const [membersVersion, setMembersVersion] = useState(0);
+	useEffect(() => {
+		if (!repo.subscribe || !activeProjectId) return;
+		return repo.subscribe((change) => {
+			if (change.type === "membership" && (!change.projectId || change.projectId === activeProjectId)) {
+				setMembersVersion((v) => v + 1);
+			}
+		});
+	}, [repo, activeProjectId]);
+	useEffect(() => {
+		if (!user?.id || useMockData || !activeProjectId) { setMembers([]); return; }
+		let cancelled = false;
+		listProjectMembers(activeProjectId)
+			.then((list) => { if (!cancelled) setMembers(list); })
+			.catch(() => { if (!cancelled) setMembers([]); });
+		return () => { cancelled = true; };
+	}, [user?.id, useMockData, activeProjectId, membersVersion]);
+
+	// Free-text assignees that match a member are moved onto `assigneeIds`, once per project and browser.
+	// A failed attempt is reported and tried again on the next visit.
+	const migratingProjects = useRef(new Set<string>());
+	useEffect(() => {
+		if (!activeProjectId || !canEdit || members.length === 0 || !tasksApi.tasks || tasksApi.loading) return;
+		if (members[0].projectId !== activeProjectId) return;
+		if (tasksApi.tasks.some((t) => t.projectId !== activeProjectId)) return;
+		if (migratingProjects.current.has(activeProjectId) || isAssigneeMigrationDone(activeProjectId)) return;
+		migratingProjects.current.add(activeProjectId);
+		const projectId = activeProjectId;
+		const changes = planAssigneeMigration(tasksApi.tasks, members).map(({ taskId, assigneeIds }) => ({
+			id: taskId,
+			patch: { assigneeIds, assignee: undefined },
+		}));
+		(changes.length > 0 ? tasksApi.updateMany(changes) : Promise.resolve())
+			.then(() => markAssigneeMigrationDone(projectId))
+			.catch((err) => {
+				console.error("[useTasksPage] Could not link assignees to members", err);
+				setConfirmDialog({
+					title: "Couldn't link assignees",
+					message: `Tasks assigned by name weren't linked to project members: ${err instanceof Error ? err.message : "unknown error"}. This is tried again next time you open the project.`,
+					confirmLabel: "OK",
+					onConfirm: () => setConfirmDialog(null),
+				});
+			});
+	}, [activeProjectId, canEdit, members, tasksApi]);
+
 	// ── Data loading ───────────────────────────────────────────────────────────
 
+	// Switching between My Work and a project keeps the selection; only the data source resets it.
 	useEffect(() => {
 		projectsApi.refresh();
 		setActiveProjectId(null);
-	}, [pathname]);
+	}, [useMockData]);
+
+	// Filters refer to one project's columns and members, so they are dropped when switching.
+	const selectProject = useCallback((id: string) => {
+		setActiveProjectId(id);
+		setTaskModal(null);
+		if (isMyWork || isTrash) navigate(`${basePath}?project=${encodeURIComponent(id)}`);
+		else if (id !== activeProjectId) {
+			const next = writeFilterParams(new URLSearchParams(), { filters: {}, sort: DEFAULT_SORT, view });
+			next.set("project", id);
+			navigate(`${basePath}?${next}`);
+		} else if (routeTaskId) navigate(`${basePath}?${searchParams}`);
+	}, [isMyWork, isTrash, navigate, basePath, activeProjectId, view, routeTaskId, searchParams]);
 
 	useEffect(() => {
 		if (!projectsApi.projects?.length || activeProjectId) return;
-		setActiveProjectId(projectsApi.projects[0].id);
+		const wanted = routeProjectId ?? searchParams.get("project");
+		const fromUrl = projectsApi.projects.find((p) => p.id === wanted);
+		setActiveProjectId((fromUrl ?? projectsApi.projects[0]).id);
 	}, [projectsApi.projects]);
 
+	useEffect(() => {
+		if (!activeProjectId || isMyWork || isTrash || routeTaskId || searchParams.get("project") === activeProjectId) return;
+		setSearchParams((prev) => {
+			const next = new URLSearchParams(prev);
+			next.set("project", activeProjectId);
+			return next;
+		}, { replace: true });
+	}, [activeProjectId, isMyWork, isTrash, searchParams, setSearchParams]);
+
 	useEffect(() => {
 		tasksApi.refresh();
 	}, [activeProjectId]);
 
+	// ── Task links ─────────────────────────────────────────────────────────────
+
+	// The open task and /tasks/:projectId/:taskId follow each other, so a task can be linked from chat,
+	// boards or a bookmark. My Work and the trash keep their own URL while a task is open.
+	const openTaskId = taskModal?.mode === "edit" ? (taskModal.task?.id ?? null) : null;
+	const linkedTaskId = useRef<string | null>(null);
+	const taskPath = useCallback(
+		(task: Pick<Task, "id" | "projectId">) => `${basePath}/${encodeURIComponent(task.projectId)}/${encodeURIComponent(task.id)}`,
+		[basePath]
+	);
+	const taskLink = taskModal?.mode === "edit" && taskModal.task ? `${window.location.origin}${taskPath(taskModal.task)}` : undefined;
+
+	// Opened, switched or closed in the app: update the URL, keeping the filters.
+	useEffect(() => {
+		if (openTaskId === linkedTaskId.current) return;
+		linkedTaskId.current = openTaskId;
+		if (isMyWork || isTrash || openTaskId === routeTaskId) return;
+		const next = new URLSearchParams(searchParams);
+		if (openTaskId && taskModal?.task) {
+			next.delete("project");
+			const query = next.toString();
+			navigate(`${taskPath(taskModal.task)}${query ? `?${query}` : ""}`);
+		} else if (activeProjectId) {
+			next.set("project", activeProjectId);
+			navigate(`${basePath}?${next}`);
+		}
+	}, [openTaskId]);
+
+	// Followed a link or went back/forward: open the task from the URL.
+	useEffect(() => {
+		if (routeTaskId === linkedTaskId.current) return;
+		if (!routeProjectId || !routeTaskId) {
+			linkedTaskId.current = null;
+			setTaskModal((prev) => (prev?.mode === "edit" ? null : prev));
+			return;
+		}
+		if (projectsApi.projects?.some((p) => p.id === routeProjectId)) setActiveProjectId(routeProjectId);
+		let cancelled = false;
+		const notFound = () => {
+			navigate(`${basePath}?project=${encodeURIComponent(routeProjectId)}`, { replace: true });
+			setConfirmDialog({
+				title: "Task not found",
+				message: "The linked task doesn't exist any more, or you don't have access to its project.",
+				confirmLabel: "OK",
+				onConfirm: () => setConfirmDialog(null),
+			});
+		};
+		repo.listTasks(routeProjectId)
+			.then((tasks) => {
+				if (cancelled) return;
+				const task = tasks.find((t) => t.id === routeTaskId);
+				if (!task) return notFound();
+				linkedTaskId.current = task.id;
+				setTaskModal({ mode: "edit", task });
+			})
+			.catch(() => { if (!cancelled) notFound(); });
+		return () => { cancelled = true; };
+	}, [repo, routeProjectId, routeTaskId]);
+
 	// ── Search & derived data ──────────────────────────────────────────────────
 
 	const filteredTasks = useMemo(() => {
 		if (!tasksApi.tasks) return [];
-		if (!search.trim()) return tasksApi.tasks;
-		const q = search.toLowerCase();
-		return tasksApi.tasks.filter(
-			(t) =>
-				t.title.toLowerCase().includes(q) ||
-				t.description?.toLowerCase().includes(q) ||
-				t.tags?.some((tag) => tag.toLowerCase().includes(q))
-		);
-	}, [tasksApi.tasks, search]);
+		const mine = assignedToMe && user?.id
+			? tasksApi.tasks.filter((t) => t.assigneeIds?.includes(user.id))
+			: tasksApi.tasks;
+		return filterTasks(mine, filters, search);
+	}, [tasksApi.tasks, search, assignedToMe, user?.id, filters]);
+
+	// ── Saved views ────────────────────────────────────────────────────────────
+
+	const savedViews = activeProject?.savedViews ?? [];
+	const activeViewId = savedViews.find((v) => isSameView(v, { filters, sort, view }))?.id ?? null;
+	const canManageViews = !!activeProject && canManageProject(activeProject.id);
+
+	const applySavedView = useCallback((v: SavedView) => {
+		setFilterState({ filters: v.filters, sort: v.sort, view: v.view });
+	}, [setFilterState]);
+
+	const handleSaveView = useCallback(async (name: string) => {
+		if (!activeProject) return;
+		const saved: SavedView = { id: localId("v"), name, filters, sort, view };
+		await projectsApi.update(activeProject.id, { savedViews: [...(activeProject.savedViews ?? []), saved] });
+	}, [activeProject, projectsApi, filters, sort, view]);
+
+	const handleDeleteView = useCallback((id: string) => {
+		if (!activeProject) return;
+		const target = activeProject.savedViews?.find((v) => v.id === id);
+		setConfirmDialog({
+			title: "Delete view",
+			message: `"${target?.name ?? "This view"}" will be removed for everyone in the project.`,
+			confirmLabel: "Delete View",
+			onConfirm: async () => {
+				setConfirmDialog(null);
+				const rest = (activeProject.savedViews ?? []).filter((v) => v.id !== id);
+				await projectsApi.update(activeProject.id, { savedViews: rest.length > 0 ? rest : undefined });
+			},
+		});
+	}, [activeProject, projectsApi]);
 
 	const statusCounts = useMemo(() => {
 		const counts: Record<string, number> = {};
@@ -116,15 +377,19 @@ export function useTasksPage() {
 	}, [tasksApi.tasks]);
 
 	const totalTasks = tasksApi.tasks?.length ?? 0;
-	const doneTasks = statusCounts["done"] ?? 0;
+	const doneTasks = columns
+		.filter((c) => isDoneStatus(columns, c.key))
+		.reduce((sum, c) => sum + (statusCounts[c.key] ?? 0), 0);
 
 	// ── Assignees & tags (single query instead of two) ─────────────────────────
 
+	const [allTasks, setAllTasks] = useState<Task[]>([]);
 	const [allAssignees, setAllAssignees] = useState<KnownAssignee[]>([]);
 	const [allTags, setAllTags] = useState<string[]>([]);
 
 	const refreshAssigneesAndTags = useCallback(async () => {
 		const all = await repo.listAllTasks();
+		setAllTasks(all);
 		const assigneeMap = new Map<string, KnownAssignee>();
 		const tagSet = new Set<string>();
 		for (const t of all) {
@@ -139,6 +404,180 @@ export function useTasksPage() {
 
 	useEffect(() => { refreshAssigneesAndTags(); }, [tasksApi.tasks, refreshAssigneesAndTags]);
 
+	// ── Undo ───────────────────────────────────────────────────────────────────
+
+	// Undo steps write to the repo directly, so everything on screen is fetched again afterwards.
+	const undoHistory = useUndoHistory({
+		resetKey: repo,
+		enabled: !taskModal && !projectModal && !confirmDialog,
+		onApplied: () => Promise.all([projectsApi.reload(), tasksApi.reload(), refreshAssigneesAndTags(), isTrash && refreshTrash()]),
+	});
+	const { record: recordUndo } = undoHistory;
+
+	/**
+	 * Run a write that may complete some of `tasks`. Completing a recurring task
+	 * clears its rule and creates the next occurrence in the repo, which undoing
+	 * the status alone would leave behind; the returned function takes both back.
+	 */
+	const writeRolling = useCallback(async (tasks: Task[], write: () => Promise<unknown>): Promise<() => Promise<void>> => {
+		const recurring = tasks.filter((t) => t.recurrence);
+		if (recurring.length === 0) {
+			await write();
+			return async () => {};
+		}
+		const projectIds = [...new Set(recurring.map((t) => t.projectId))];
+		const list = async () => (await Promise.all(projectIds.map((id) => repo.listTasks(id)))).flat();
+		const known = new Set((await list()).map((t) => t.id));
+		await write();
+		const after = await list();
+		const created = after.filter((t) => !known.has(t.id));
+		const rolled = recurring.filter((t) => {
+			const now = after.find((a) => a.id === t.id);
+			return !!now && !now.recurrence;
+		});
+		const spawned: Task[] = [];
+		for (const t of rolled) {
+			const next = created.find((c) => isNextOccurrence(t, c) && !spawned.includes(c));
+			if (next) spawned.push(next);
+		}
+		return async () => {
+			if (spawned.length > 0) await repo.deleteTasks(spawned.map((t) => t.id));
+			for (const t of rolled) await repo.updateTask(t.id, { recurrence: t.recurrence });
+		};
+	}, [repo]);
+
+	// ── Offline sync ───────────────────────────────────────────────────────────
+
+	const syncStatus = useSyncStatus(repo);
+	const syncNow = useCallback(() => { repo.sync?.flush(); }, [repo]);
+	const discardOfflineChanges = useCallback(() => {
+		setConfirmDialog({
+			title: "Discard offline changes",
+			message: `The server won't take ${syncStatus?.pending === 1 ? "1 change" : `${syncStatus?.pending ?? 0} changes`} made offline. Discard them and load the latest data?`,
+			confirmLabel: "Discard",
+			onConfirm: async () => {
+				setConfirmDialog(null);
+				await repo.sync?.discard();
+				await Promise.all([projectsApi.reload(), tasksApi.reload(), refreshAssigneesAndTags()]);
+			},
+		});
+	}, [repo, syncStatus?.pending, projectsApi, tasksApi, refreshAssigneesAndTags]);
+
+	// A finished sync may have replaced offline edits with newer server versions.
+	const lastSyncedAt = syncStatus?.lastSyncedAt;
+	useEffect(() => {
+		if (!lastSyncedAt) return;
+		projectsApi.reload();
+		tasksApi.reload();
+		refreshAssigneesAndTags();
+	}, [lastSyncedAt]);
+
+	// Changes to the active project already arrive through tasksApi; My Work also needs the rest.
+	useEffect(() => {
+		if (!repo.subscribe || !isMyWork) return;
+		return repo.subscribe((change) => {
+			if (change.type === "task") refreshAssigneesAndTags();
+		});
+	}, [repo, isMyWork, refreshAssigneesAndTags]);
+
+	// ── Dependencies ───────────────────────────────────────────────────────────
+
+	// Blockers may live in any project; the active project's copy is the freshest.
+	const dependencyTasks = useMemo(
+		() => [...(tasksApi.tasks ?? []), ...allTasks.filter((t) => t.projectId !== activeProjectId)],
+		[tasksApi.tasks, allTasks, activeProjectId]
+	);
+	const openBlockers = useMemo(
+		() => getOpenBlockerMap(dependencyTasks, projectsApi.projects ?? []),
+		[dependencyTasks, projectsApi.projects]
+	);
+	// `#t-…` references in descriptions resolve against the same tasks.
+	const tasksById = useMemo(() => new Map(dependencyTasks.map((t) => [t.id, t])), [dependencyTasks]);
+
+	/** Tell the user when a task with open blockers is finished; false means the project forbids it. */
+	const checkBlockedFinish = useCallback((task: Task, status: TaskStatus, blockedBy = task.blockedBy): boolean => {
+		if (task.status === status) return true;
+		const projects = projectsApi.projects ?? [];
+		const blockers = getOpenBlockers({ ...task, blockedBy }, dependencyTasks, projects);
+		if (!isFinishingBlocked(task, status, blockers, projects)) return true;
+		const blocked = getDependencyPolicy(projects.find((p) => p.id === task.projectId)) === "block";
+		const names = blockers.map((b) => `"${b.title}"`).join(", ");
+		setConfirmDialog({
+			title: blocked ? "Task is blocked" : "Blocked task completed",
+			message: blocked
+				? `"${task.title}" can't be completed until ${names} ${blockers.length === 1 ? "is" : "are"} done.`
+				: `"${task.title}" was completed while still waiting on ${names}.`,
+			confirmLabel: "OK",
+			onConfirm: () => setConfirmDialog(null),
+		});
+		return !blocked;
+	}, [projectsApi.projects, dependencyTasks]);
+
+	// ── My Work (tasks across every accessible project) ───────────────────────
+
+	const myWorkTasks = useMemo(() => {
+		const projectIds = new Set((projectsApi.projects ?? []).filter((p) => !p.archivedAt).map((p) => p.id));
+		const visible = allTasks.filter(
+			(t) => projectIds.has(t.projectId) && (!assignedToMe || !user?.id || t.assigneeIds?.includes(user.id))
+		);
+		return filterTasks(visible, {}, search);
+	}, [allTasks, projectsApi.projects, search, assignedToMe, user?.id]);
+
+	const refreshAfterCrossProjectChange = useCallback(async (projectId: string) => {
+		await refreshAssigneesAndTags();
+		if (projectId === activeProjectId) await tasksApi.refresh();
+	}, [refreshAssigneesAndTags, activeProjectId, tasksApi]);
+
+	const handleMyWorkUpdate = useCallback(async (taskId: string, patch: TaskUpdate) => {
+		const task = allTasks.find((t) => t.id === taskId);
+		if (!task) return;
+		if (patch.status !== undefined && !checkBlockedFinish(task, patch.status)) return;
+		const completing = patch.status !== undefined ? [task] : [];
+		let unroll = await writeRolling(completing, () => repo.updateTask(taskId, patch));
+		recordUndo({
+			label: "Edit task",
+			undo: async () => {
+				await repo.updateTask(taskId, inversePatch(task, patch));
+				await unroll();
+			},
+			redo: async () => { unroll = await writeRolling(completing, () => repo.updateTask(taskId, patch)); },
+		});
+		await refreshAfterCrossProjectChange(task.projectId);
+	}, [allTasks, repo, refreshAfterCrossProjectChange, checkBlockedFinish, recordUndo, writeRolling]);
+
+	const handleMyWorkMove = useCallback(async (task: Task, status: TaskStatus) => {
+		if (task.status === status) return;
+		if (!checkBlockedFinish(task, status)) return;
+		const project = projectsApi.projects?.find((p) => p.id === task.projectId);
+		const column = getProjectColumns(project).find((c) => c.key === status);
+		const count = allTasks.filter((t) => t.projectId === task.projectId && t.status === status).length;
+		const overLimit = !!column && isOverWipLimit(column, count + 1);
+		const blocked = overLimit && getWipPolicy(project) === "block";
+		if (!blocked) {
+			const from = columnIndex(task, allTasks);
+			let unroll = await writeRolling([task], () => repo.reorderTask(task.id, status, count));
+			recordUndo({
+				label: "Move task",
+				undo: async () => {
+					await repo.reorderTask(task.id, task.status, from);
+					await unroll();
+				},
+				redo: async () => { unroll = await writeRolling([task], () => repo.reorderTask(task.id, status, count)); },
+			});
+			await refreshAfterCrossProjectChange(task.projectId);
+		}
+		if (overLimit && column) {
+			setConfirmDialog({
+				title: blocked ? "Column is full" : "WIP limit exceeded",
+				message: blocked
+					? `"${column.label}" in ${project?.name ?? "this project"} already has ${count} of ${column.wipLimit} tasks. Finish something there first.`
+					: `"${column.label}" in ${project?.name ?? "this project"} now has ${count + 1} tasks, over its limit of ${column.wipLimit}.`,
+				confirmLabel: "OK",
+				onConfirm: () => setConfirmDialog(null),
+			});
+		}
+	}, [projectsApi.projects, allTasks, repo, refreshAfterCrossProjectChange, checkBlockedFinish, recordUndo, writeRolling]);
+
 	// ── Assignee color sync ────────────────────────────────────────────────────
 
 	const syncAssigneeColor = useCallback(async (name: string, color: string) => {
@@ -151,76 +590,130 @@ export function useTasksPage() {
 
 	// ── Project handlers ───────────────────────────────────────────────────────
 
-	const handleCreateProject = useCallback(async (data: { name: string; description: string; color: string }) => {
-		const p = await projectsApi.create(data);
+	const handleCreateProject = useCallback(async (data: ProjectFormValues) => {
+		const { statusMoves: _moves, ...fields } = data;
+		const p = await projectsApi.create(fields);
 		setActiveProjectId(p.id);
 		setProjectModal(null);
 	}, [projectsApi]);
 
-	const handleUpdateProject = useCallback(async (data: { name: string; description: string; color: string }) => {
+	const handleUpdateProject = useCallback(async (data: ProjectFormValues) => {
 		if (!projectModal?.project) return;
-		await projectsApi.update(projectModal.project.id, data);
+		const id = projectModal.project.id;
+		const { statusMoves, ...fields } = data;
+		await projectsApi.update(id, fields);
+		if (Object.keys(statusMoves).length > 0) {
+			await repo.remapStatuses(id, statusMoves);
+			if (id === activeProjectId) await tasksApi.refresh();
+		}
 		setProjectModal(null);
-	}, [projectsApi, projectModal]);
+	}, [projectsApi, projectModal, repo, activeProjectId, tasksApi]);
 
-	const handleExportProject = useCallback(async () => {
+	const handleExportProject = useCallback(async (format: "json" | "csv" = "json") => {
 		if (!activeProject) return;
 		const tasks = await repo.listTasks(activeProject.id);
-		const data = { project: activeProject, tasks };
-		const json = JSON.stringify(data, null, 2);
-		const blob = new Blob([json], { type: "application/json" });
-		const url = URL.createObjectURL(blob);
-		const a = document.createElement("a");
-		a.href = url;
-		a.download = `${activeProject.name.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`;
-		a.click();
-		URL.revokeObjectURL(url);
-	}, [activeProject, repo]);
+		const blob =
+			format === "csv"
+				? new Blob([tasksToCsv(tasks, getProjectColumns(activeProject), members)], { type: "text/csv" })
+				: new Blob([JSON.stringify({ project: activeProject, tasks }, null, 2)], { type: "application/json" });
+		downloadBlob(blob, `${activeProject.name.replace(/[^a-zA-Z0-9_-]/g, "_")}.${format}`);
+	}, [activeProject, repo, members]);
+
+	const handleBackupWorkspace = useCallback(async () => {
+		try {
+			const backup = createBackup(await repo.exportWorkspace());
+			downloadBlob(new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }), `workspace-backup-${toDateKey(new Date())}.json`);
+		} catch (err) {
+			setConfirmDialog({
+				title: "Backup failed",
+				message: err instanceof Error ? err.message : "Could not read the workspace.",
+				confirmLabel: "OK",
+				onConfirm: () => setConfirmDialog(null),
+			});
+		}
+	}, [repo]);
+
+	// The picked file waits here while the import dialog shows its preview.
+	const [importFile, setImportFile] = useState<{ fileName: string; text: string } | null>(null);
+	// A workspace backup picked the same way is restored instead of imported as a project.
+	const [restore, setRestore] = useState<RestoreState | null>(null);
 
 	const handleImportProject = useCallback(() => {
 		const input = document.createElement("input");
 		input.type = "file";
-		input.accept = ".json,application/json";
+		input.accept = ".json,.csv,application/json,text/csv";
 		input.onchange = async () => {
 			const file = input.files?.[0];
 			if (!file) return;
+			const text = await file.text();
+			if (!isBackupFile(text)) {
+				setImportFile({ fileName: file.name, text });
+				return;
+			}
 			try {
-				const text = await file.text();
-				const data = JSON.parse(text);
-				if (!data.project?.name) throw new Error("Invalid project file");
-				const p = await projectsApi.create({
-					name: data.project.name,
-					description: data.project.description || "",
-					color: data.project.color || PROJECT_COLORS[0],
-				});
-				if (Array.isArray(data.tasks)) {
-					for (const t of data.tasks) {
-						await repo.createTask({
-							projectId: p.id,
-							title: t.title || "Untitled",
-							description: t.description || undefined,
-							status: t.status || "todo",
-							priority: t.priority || "medium",
-							assignee: t.assignee || undefined,
-							due: t.due || undefined,
-							tags: t.tags || undefined,
-							order: t.order ?? 0,
-						});
-					}
-				}
-				setActiveProjectId(p.id);
+				const { backup, problems } = parseBackup(text);
+				setRestore({ fileName: file.name, backup, problems, current: await repo.exportWorkspace() });
 			} catch (err) {
 				setConfirmDialog({
-					title: "Import failed",
-					message: err instanceof Error ? err.message : "Could not parse the file.",
+					title: "Restore failed",
+					message: err instanceof Error ? err.message : "Could not read the backup.",
 					confirmLabel: "OK",
 					onConfirm: () => setConfirmDialog(null),
 				});
 			}
 		};
 		input.click();
+	}, [repo]);
+
+	const handleConfirmImport = useCallback(async (draft: ImportDraft) => {
+		setImportFile(null);
+		try {
+			const p = await projectsApi.create({
+				name: draft.project.name,
+				description: draft.project.description || "",
+				color: draft.project.color,
+				columns: draft.project.columns,
+			});
+			for (const row of draft.rows) {
+				await repo.createTask({ ...row.task, projectId: p.id });
+			}
+			setActiveProjectId(p.id);
+		} catch (err) {
+			setConfirmDialog({
+				title: "Import failed",
+				message: err instanceof Error ? err.message : "Could not import the file.",
+				confirmLabel: "OK",
+				onConfirm: () => setConfirmDialog(null),
+			});
+		}
 	}, [projectsApi, repo]);
 
+	const handleConfirmRestore = useCallback(async (plan: RestorePlan) => {
+		setRestore(null);
+		try {
+			const notes = await repo.restoreWorkspace(plan.write, plan.deleteProjectIds);
+			if (plan.projectOrder.length > 0) await repo.reorderProjects(plan.projectOrder);
+			await projectsApi.refresh();
+			await refreshAssigneesAndTags();
+			if (activeProjectId && plan.projectOrder.includes(activeProjectId)) await tasksApi.refresh();
+			else setActiveProjectId(plan.projectOrder[0] ?? null);
+			const { projects, tasks } = plan.counts;
+			setConfirmDialog({
+				title: "Restore complete",
+				message: [`Restored ${projects} project${projects === 1 ? "" : "s"} and ${tasks} task${tasks === 1 ? "" : "s"}.`, ...notes].join(" "),
+				confirmLabel: "OK",
+				onConfirm: () => setConfirmDialog(null),
+			});
+		} catch (err) {
+			setConfirmDialog({
+				title: "Restore failed",
+				message: err instanceof Error ? err.message : "Could not restore the backup.",
+				confirmLabel: "OK",
+				onConfirm: () => setConfirmDialog(null),
+			});
+		}
+	}, [repo, projectsApi, refreshAssigneesAndTags, activeProjectId, tasksApi]);
+
 	const handleLeaveProject = useCallback((id: string) => {
 		const project = projectsApi.projects?.find((p) => p.id === id);
 		setConfirmDialog({
@@ -247,84 +740,618 @@ export function useTasksPage() {
 		const project = projectsApi.projects?.find((p) => p.id === id);
 		setConfirmDialog({
 			title: "Delete project",
-			message: `"${project?.name ?? "This project"}" and all its tasks will be permanently deleted.`,
-			confirmLabel: "Delete Project",
+			message: `"${project?.name ?? "This project"}" and all its tasks will be moved to the trash. You can restore them within ${TRASH_RETENTION_DAYS} days.`,
+			confirmLabel: "Move to Trash",
 			onConfirm: async () => {
 				setConfirmDialog(null);
 				await projectsApi.remove(id);
+				recordUndo(
+					{ label: "Delete project", undo: () => repo.restoreProjects([id]), redo: () => repo.deleteProject(id) },
+					`"${project?.name ?? "Project"}" moved to the trash`
+				);
 				if (activeProjectId === id) {
 					const next = (projectsApi.projects ?? []).filter((p) => p.id !== id)[0];
 					setActiveProjectId(next?.id ?? null);
 				}
 			},
 		});
-	}, [projectsApi, activeProjectId]);
+	}, [projectsApi, activeProjectId, repo, recordUndo]);
+
+	const handleReorderProjects = useCallback(async (ids: string[]) => {
+		const before = (projectsApi.projects ?? []).map((p) => p.id);
+		await projectsApi.reorder(ids);
+		recordUndo({
+			label: "Reorder projects",
+			undo: () => repo.reorderProjects(before),
+			redo: () => repo.reorderProjects(ids),
+		});
+	}, [projectsApi, repo, recordUndo]);
+
+	const handleArchiveProject = useCallback(async (id: string, archived: boolean) => {
+		await projectsApi.archive(id, archived);
+		// My Work leaves out archived projects, and dependencies may point into them.
+		await refreshAssigneesAndTags();
+	}, [projectsApi, refreshAssigneesAndTags]);
+
+	// ── Trash ──────────────────────────────────────────────────────────────────
+
+	const [trash, setTrash] = useState<TrashContents | null>(null);
+	const refreshTrash = useCallback(async () => {
+		setTrash(await repo.listTrash());
+	}, [repo]);
+	useEffect(() => {
+		if (!isTrash) return;
+		setTrash(null);
+		refreshTrash();
+	}, [isTrash, refreshTrash]);
+
+	// Viewers can't restore or purge tasks; the trash only lists what the user can act on.
+	const canRestoreTask = useCallback((t: Task) => roleMap.get(t.projectId) !== "viewer", [roleMap]);
+
+	const handleRestoreProject = useCallback(async (p: Project) => {
+		await repo.restoreProjects([p.id]);
+		await Promise.all([refreshTrash(), projectsApi.refresh(), refreshAssigneesAndTags()]);
+	}, [repo, refreshTrash, projectsApi, refreshAssigneesAndTags]);
+
+	const handleRestoreTask = useCallback(async (t: Task) => {
+		await repo.restoreTasks([t.id]);
+		await refreshTrash();
+		await refreshAfterCrossProjectChange(t.projectId);
+	}, [repo, refreshTrash, refreshAfterCrossProjectChange]);
+
+	const handlePurgeProject = useCallback((p: Project) => {
+		setConfirmDialog({
+			title: "Delete project forever",
+			message: `"${p.name}" and all its tasks will be permanently deleted. This can't be undone.`,
+			confirmLabel: "Delete Forever",
+			onConfirm: async () => {
+				setConfirmDialog(null);
+				await repo.purgeProjects([p.id]);
+				await refreshTrash();
+			},
+		});
+	}, [repo, refreshTrash]);
+
+	const handlePurgeTask = useCallback((t: Task) => {
+		setConfirmDialog({
+			title: "Delete task forever",
+			message: `"${t.title}" will be permanently deleted. This can't be undone.`,
+			confirmLabel: "Delete Forever",
+			onConfirm: async () => {
+				setConfirmDialog(null);
+				await repo.purgeTasks([t.id]);
+				await refreshTrash();
+			},
+		});
+	}, [repo, refreshTrash]);
+
+	const handleEmptyTrash = useCallback(() => {
+		if (!trash) return;
+		const projectIds = trash.projects.map((p) => p.id);
+		const taskIds = trash.tasks.filter(canRestoreTask).map((t) => t.id);
+		const count = projectIds.length + taskIds.length;
+		setConfirmDialog({
+			title: "Empty trash",
+			message: `${count} ${count === 1 ? "item" : "items"} will be permanently deleted. This can't be undone.`,
+			confirmLabel: "Empty Trash",
+			onConfirm: async () => {
+				setConfirmDialog(null);
+				await repo.purgeProjects(projectIds);
+				await repo.purgeTasks(taskIds);
+				await refreshTrash();
+			},
+		});
+	}, [trash, canRestoreTask, repo, refreshTrash]);
+
+	// ── Local data migration ───────────────────────────────────────────────────
+
+	// Offered once after signing in, when the signed-out repo left projects on this device.
+	const [localMigration, setLocalMigration] = useState<LocalMigrationPlan | null>(null);
+	useEffect(() => {
+		if (!user?.id || useMockData || isLocalMigrationDismissed(user.id)) return;
+		const local = loadLocalWorkspace();
+		if (local.projects.length === 0) return;
+		const userId = user.id;
+		let cancelled = false;
+		Promise.all([repo.exportWorkspace(), getUserRoles(userId)])
+			.then(([account, roles]) => {
+				if (cancelled) return;
+				setLocalMigration(planLocalMigration(local, account, { userId, canEdit: (id) => roles.get(id) !== "viewer" }));
+			})
+			.catch((err) => console.error("[useTasksPage] Could not plan local data upload", err));
+		return () => { cancelled = true; };
+	}, [user?.id, useMockData, repo]);
+
+	const handleMigrateLocal = useCallback(async () => {
+		if (!localMigration) return;
+		const plan = localMigration;
+		setLocalMigration(null);
+		try {
+			await repo.restoreWorkspace(plan.write, []);
+			if (plan.write.projects.length > 0) await repo.reorderProjects(plan.projectOrder);
+			const failed = await uploadLocalAttachments(plan, createIndexedDbAttachmentStore(), repo);
+			archiveLocalWorkspace();
+			await projectsApi.refresh();
+			await refreshAssigneesAndTags();
+			if (activeProjectId) await tasksApi.refresh();
+			if (failed.length > 0) {
+				setConfirmDialog({
+					title: "Some attachments weren't uploaded",
+					message: `${failed.join(", ")} couldn't be uploaded. They are still in this browser's storage.`,
+					confirmLabel: "OK",
+					onConfirm: () => setConfirmDialog(null),
+				});
+			}
+		} catch (err) {
+			// Nothing is archived, so the upload is offered again next time.
+			setConfirmDialog({
+				title: "Upload failed",
+				message: err instanceof Error ? err.message : "Could not upload your local projects.",
+				confirmLabel: "OK",
+				onConfirm: () => setConfirmDialog(null),
+			});
+		}
+	}, [localMigration, repo, projectsApi, refreshAssigneesAndTags, activeProjectId, tasksApi]);
+
+	const handleDeclineMigration = useCallback(() => {
+		if (user?.id) dismissLocalMigration(user.id);
+		setLocalMigration(null);
+	}, [user?.id]);
+
+	// ── Edit conflicts ─────────────────────────────────────────────────────────
+
+	const savingRef = useRef(false);
+	const editingId = taskModal?.mode === "edit" ? taskModal.task?.id : undefined;
+	const latestEditingTask = useMemo(() => {
+		if (!editingId) return undefined;
+		const source = taskModal?.task?.projectId === activeProjectId && tasksApi.tasks ? tasksApi.tasks : allTasks;
+		return source.find((t) => t.id === editingId) ?? null;
+	}, [editingId, taskModal?.task?.projectId, activeProjectId, tasksApi.tasks, allTasks]);
+
+	const taskConflict: TaskConflict | null = (() => {
+		if (!taskModal?.task || latestEditingTask === undefined || savingRef.current) return null;
+		if (latestEditingTask === null) return "deleted";
+		const base = taskModal.baseUpdatedAt ?? taskModal.task.updatedAt;
+		return latestEditingTask.updatedAt > base ? "changed" : null;
+	})();
+
+	const handleReloadConflict = useCallback(() => {
+		if (!latestEditingTask) return;
+		setTaskModal({ mode: "edit", task: latestEditingTask });
+	}, [latestEditingTask]);
+
+	const handleKeepMine = useCallback(() => {
+		if (!latestEditingTask) return;
+		setTaskModal((prev) => (prev ? { ...prev, baseUpdatedAt: latestEditingTask.updatedAt } : prev));
+	}, [latestEditingTask]);
 
 	// ── Task handlers ──────────────────────────────────────────────────────────
 
-	const handleCreateTask = useCallback(async (data: { title: string; description: string; priority: TaskPriority; status: TaskStatus; tags: string[]; assignee: string; assigneeColor: string }) => {
+	const handleUploadAttachment = useCallback(async (file: File) => {
+		if (!taskModalProjectId) throw new Error("No project to attach the file to");
+		return repo.uploadAttachment(taskModalProjectId, file);
+	}, [repo, taskModalProjectId]);
+
+	const handleDiscardAttachments = useCallback((attachments: TaskAttachment[]) => {
+		repo.deleteAttachments(attachments).catch((err) => console.error("[useTasksPage] Could not delete attachments", err));
+	}, [repo]);
+
+	const attachmentUrl = useCallback((attachment: TaskAttachment) => repo.getAttachmentUrl(attachment), [repo]);
+
+	const handleCreateTask = useCallback(async (data: TaskFormValues) => {
 		if (!activeProjectId) return;
 		const maxOrder = Math.max(0, ...(tasksApi.tasks ?? []).filter((t) => t.status === data.status).map((t) => t.order));
-		await tasksApi.create({
+		const created = await tasksApi.create({
 			projectId: activeProjectId,
 			title: data.title,
 			description: data.description || undefined,
 			priority: data.priority,
 			status: data.status,
 			tags: data.tags,
+			due: data.due || undefined,
+			subtasks: data.subtasks,
 			order: maxOrder + 1,
 			assignee: data.assignee
 				? { name: data.assignee, initials: nameToInitials(data.assignee), color: data.assigneeColor }
 				: undefined,
+			assigneeIds: data.assigneeIds.length > 0 ? data.assigneeIds : undefined,
+			blockedBy: data.blockedBy.length > 0 ? data.blockedBy : undefined,
+			recurrence: data.recurrence ?? undefined,
+			attachments: data.attachments.length > 0 ? data.attachments : undefined,
+		});
+		recordUndo({
+			label: "Create task",
+			undo: () => repo.deleteTask(created.id),
+			redo: () => repo.restoreTasks([created.id]),
 		});
 		if (data.assignee) await syncAssigneeColor(data.assignee, data.assigneeColor);
 		setTaskModal(null);
-	}, [activeProjectId, tasksApi, syncAssigneeColor]);
+	}, [activeProjectId, tasksApi, syncAssigneeColor, repo, recordUndo]);
 
-	const handleUpdateTask = useCallback(async (data: { title: string; description: string; priority: TaskPriority; status: TaskStatus; tags: string[]; assignee: string; assigneeColor: string }) => {
+	const handleUpdateTask = useCallback(async (data: TaskFormValues) => {
 		if (!taskModal?.task) return;
-		await tasksApi.update(taskModal.task.id, {
-			title: data.title,
-			description: data.description || undefined,
-			priority: data.priority,
-			status: data.status,
-			tags: data.tags,
-			assignee: data.assignee
-				? { name: data.assignee, initials: nameToInitials(data.assignee), color: data.assigneeColor }
-				: undefined,
-		});
-		if (data.assignee) await syncAssigneeColor(data.assignee, data.assigneeColor);
-		setTaskModal(null);
-	}, [tasksApi, taskModal, syncAssigneeColor]);
+		if (!checkBlockedFinish(taskModal.task, data.status, data.blockedBy)) return;
+		const before = latestEditingTask || taskModal.task;
+		savingRef.current = true;
+		try {
+			const patch: TaskUpdate = {
+				title: data.title,
+				description: data.description || undefined,
+				priority: data.priority,
+				status: data.status,
+				tags: data.tags,
+				due: data.due || undefined,
+				subtasks: data.subtasks,
+				assignee: data.assignee
+					? { name: data.assignee, initials: nameToInitials(data.assignee), color: data.assigneeColor }
+					: undefined,
+				assigneeIds: data.assigneeIds.length > 0 ? data.assigneeIds : undefined,
+				blockedBy: data.blockedBy.length > 0 ? data.blockedBy : undefined,
+				recurrence: data.recurrence ?? undefined,
+			};
+			// Attachments stay out of undo: the files of removed ones are deleted right away.
+			const completing = data.status !== before.status ? [before] : [];
+			let unroll = await writeRolling(completing, () =>
+				tasksApi.update(before.id, { ...patch, attachments: data.attachments.length > 0 ? data.attachments : undefined })
+			);
+			recordUndo({
+				label: "Edit task",
+				undo: async () => {
+					await repo.updateTask(before.id, inversePatch(before, patch));
+					await unroll();
+				},
+				redo: async () => { unroll = await writeRolling(completing, () => repo.updateTask(before.id, patch)); },
+			});
+			const removed = removedAttachments(before.attachments, data.attachments);
+			if (removed.length > 0) handleDiscardAttachments(removed);
+			// Completing a recurring task creates its next occurrence in the repo.
+			if (taskModal.task.recurrence && data.status !== taskModal.task.status) await tasksApi.refresh();
+			if (data.assignee) await syncAssigneeColor(data.assignee, data.assigneeColor);
+			if (isMyWork) await refreshAfterCrossProjectChange(taskModal.task.projectId);
+			setTaskModal(null);
+		} finally {
+			savingRef.current = false;
+		}
+	}, [tasksApi, taskModal, latestEditingTask, syncAssigneeColor, isMyWork, refreshAfterCrossProjectChange, checkBlockedFinish, repo, recordUndo, handleDiscardAttachments, writeRolling]);
 
 	const handleDeleteTask = useCallback((t: Task) => {
 		setConfirmDialog({
 			title: "Delete task",
-			message: `"${t.title}" will be permanently deleted.`,
-			confirmLabel: "Delete Task",
+			message: `"${t.title}" will be moved to the trash. You can restore it within ${TRASH_RETENTION_DAYS} days.`,
+			confirmLabel: "Move to Trash",
 			onConfirm: async () => {
 				setConfirmDialog(null);
 				await tasksApi.remove(t.id);
+				recordUndo(
+					{ label: "Delete task", undo: () => repo.restoreTasks([t.id]), redo: () => repo.deleteTask(t.id) },
+					`"${t.title}" moved to the trash`
+				);
+				if (isMyWork) await refreshAfterCrossProjectChange(t.projectId);
 				setTaskModal(null);
 			},
 		});
-	}, [tasksApi]);
+	}, [tasksApi, isMyWork, refreshAfterCrossProjectChange, repo, recordUndo]);
+
+	/** Check a batch landing in `status`; false means the column is full and the project blocks it. */
+	const checkWipForBatch = useCallback((status: TaskStatus, incoming: number): boolean => {
+		const column = columns.find((c) => c.key === status);
+		const count = (statusCounts[status] ?? 0) + incoming;
+		if (!column || incoming === 0 || !isOverWipLimit(column, count)) return true;
+		const blocked = getWipPolicy(activeProject) === "block";
+		setConfirmDialog({
+			title: blocked ? "Column is full" : "WIP limit exceeded",
+			message: blocked
+				? `Moving ${incoming} ${incoming === 1 ? "task" : "tasks"} would put "${column.label}" at ${count}, over its limit of ${column.wipLimit}.`
+				: `"${column.label}" now has ${count} tasks, over its limit of ${column.wipLimit}.`,
+			confirmLabel: "OK",
+			onConfirm: () => setConfirmDialog(null),
+		});
+		return !blocked;
+	}, [columns, statusCounts, activeProject]);
 
 	const handleReorder = useCallback(async (taskId: string, newStatus: TaskStatus, newIndex: number) => {
-		await tasksApi.reorder(taskId, newStatus, newIndex);
-	}, [tasksApi]);
+		const task = tasksApi.tasks?.find((t) => t.id === taskId);
+		if (task && !checkBlockedFinish(task, newStatus)) {
+			// Put the card back where it came from.
+			await tasksApi.refresh();
+			return;
+		}
+		if (!task) {
+			await tasksApi.reorder(taskId, newStatus, newIndex);
+			return;
+		}
+		if (!checkWipForBatch(newStatus, task.status !== newStatus ? 1 : 0)) {
+			await tasksApi.refresh();
+			return;
+		}
+		const from = columnIndex(task, tasksApi.tasks ?? []);
+		const completing = newStatus !== task.status ? [task] : [];
+		let unroll = await writeRolling(completing, () => tasksApi.reorder(taskId, newStatus, newIndex));
+		recordUndo({
+			label: "Move task",
+			undo: async () => {
+				await repo.reorderTask(taskId, task.status, from);
+				await unroll();
+			},
+			redo: async () => { unroll = await writeRolling(completing, () => repo.reorderTask(taskId, newStatus, newIndex)); },
+		});
+	}, [tasksApi, checkBlockedFinish, checkWipForBatch, repo, recordUndo, writeRolling]);
+
+	/** A single edit made on the board itself (calendar drag, keyboard), recorded for undo. */
+	const quickUpdate = useCallback(async (task: Task, patch: TaskUpdate, label: string) => {
+		await tasksApi.update(task.id, patch);
+		recordUndo({
+			label,
+			undo: () => repo.updateTask(task.id, inversePatch(task, patch)),
+			redo: () => repo.updateTask(task.id, patch),
+		});
+	}, [tasksApi, repo, recordUndo]);
+
+	const handleReschedule = useCallback(async (taskId: string, due: string | undefined) => {
+		const task = tasksApi.tasks?.find((t) => t.id === taskId);
+		if (task) await quickUpdate(task, { due }, "Reschedule task");
+	}, [tasksApi, quickUpdate]);
+
+	// ── Bulk selection ─────────────────────────────────────────────────────────
+
+	const selection = useTaskSelection();
+	const { selectedIds, clearSelection, pruneSelection } = selection;
+
+	useEffect(() => { clearSelection(); }, [activeProjectId, isMyWork, clearSelection]);
+	useEffect(() => { pruneSelection(filteredTasks.map((t) => t.id)); }, [filteredTasks, pruneSelection]);
+
+	useEffect(() => {
+		if (selectedIds.size === 0 || taskModal || confirmDialog) return;
+		const onKey = (e: KeyboardEvent) => {
+			if (e.key === "Escape") clearSelection();
+		};
+		window.addEventListener("keydown", onKey);
+		return () => window.removeEventListener("keydown", onKey);
+	}, [selectedIds, taskModal, confirmDialog, clearSelection]);
+
+	const selectedTasks = useMemo(
+		() => filteredTasks.filter((t) => selectedIds.has(t.id)),
+		[filteredTasks, selectedIds]
+	);
+	const bulkMoveTargets = useMemo(
+		() => (projectsApi.projects ?? []).filter((p) => p.id !== activeProjectId && canEditProject(p.id)),
+		[projectsApi.projects, activeProjectId, canEditProject]
+	);
+
+	const handleBulkAction = useCallback(async (action: BulkAction) => {
+		let targets = selectedTasks;
+		let nextOrder = 0;
+		if (action.kind === "status") {
+			// Tasks the project won't let finish stay where they are; the rest still move.
+			targets = targets.filter((t) => checkBlockedFinish(t, action.status));
+			if (!checkWipForBatch(action.status, targets.filter((t) => t.status !== action.status).length)) return;
+			nextOrder = Math.max(-1, ...(tasksApi.tasks ?? []).filter((t) => t.status === action.status).map((t) => t.order)) + 1;
+		}
+		const changes = targets.flatMap((t) => {
+			const patch = bulkPatch(t, action);
+			if (!patch) return [];
+			// Tasks changing column go to its end, in the order they were shown.
+			if (patch.status !== undefined) patch.order = nextOrder++;
+			return [{ id: t.id, patch }];
+		});
+		if (changes.length === 0) return;
+		const completing = targets.filter((t) => changes.some((c) => c.id === t.id && c.patch.status !== undefined));
+		let unroll = await writeRolling(completing, () => tasksApi.updateMany(changes));
+		const inverse = inverseChanges(targets, changes);
+		recordUndo({
+			label: `Edit ${changes.length} ${changes.length === 1 ? "task" : "tasks"}`,
+			undo: async () => {
+				await repo.updateTasks(inverse);
+				await unroll();
+			},
+			redo: async () => { unroll = await writeRolling(completing, () => repo.updateTasks(changes)); },
+		});
+	}, [selectedTasks, tasksApi, checkBlockedFinish, checkWipForBatch, repo, recordUndo, writeRolling]);
+
+	/** Multi-card drop: the dragged tasks land together at `newIndex` of the target column. */
+	const handleMoveMany = useCallback(async (taskIds: string[], newStatus: TaskStatus, newIndex: number) => {
+		const all = tasksApi.tasks ?? [];
+		const moving = taskIds
+			.map((id) => all.find((t) => t.id === id))
+			.filter((t): t is Task => !!t && checkBlockedFinish(t, newStatus));
+		if (moving.length < taskIds.length) {
+			await tasksApi.refresh();
+			if (moving.length === 0) return;
+		}
+		if (!checkWipForBatch(newStatus, moving.filter((t) => t.status !== newStatus).length)) {
+			await tasksApi.refresh();
+			return;
+		}
+		const movingIds = new Set(moving.map((t) => t.id));
+		const column = all
+			.filter((t) => t.status === newStatus && !movingIds.has(t.id))
+			.sort((a, b) => a.order - b.order);
+		column.splice(Math.min(newIndex, column.length), 0, ...moving);
+		const changes = column.flatMap((t, order) => {
+			if (t.order === order && t.status === newStatus) return [];
+			return [{ id: t.id, patch: t.status === newStatus ? { order } : { status: newStatus, order } }];
+		});
+		if (changes.length === 0) return;
+		const completing = moving.filter((t) => t.status !== newStatus);
+		let unroll = await writeRolling(completing, () => tasksApi.updateMany(changes));
+		const inverse = inverseChanges(all, changes);
+		recordUndo({
+			label: moving.length === 1 ? "Move task" : `Move ${moving.length} tasks`,
+			undo: async () => {
+				await repo.updateTasks(inverse);
+				await unroll();
+			},
+			redo: async () => { unroll = await writeRolling(completing, () => repo.updateTasks(changes)); },
+		});
+	}, [tasksApi, checkBlockedFinish, checkWipForBatch, repo, recordUndo, writeRolling]);
+
+	const handleBulkDelete = useCallback(() => {
+		const ids = selectedTasks.map((t) => t.id);
+		setConfirmDialog({
+			title: "Delete tasks",
+			message: `${ids.length} ${ids.length === 1 ? "task" : "tasks"} will be moved to the trash. You can restore them within ${TRASH_RETENTION_DAYS} days.`,
+			confirmLabel: "Move to Trash",
+			onConfirm: async () => {
+				setConfirmDialog(null);
+				await tasksApi.removeMany(ids);
+				const label = `${ids.length} ${ids.length === 1 ? "task" : "tasks"}`;
+				recordUndo(
+					{ label: `Delete ${label}`, undo: () => repo.restoreTasks(ids), redo: () => repo.deleteTasks(ids) },
+					`${label} moved to the trash`
+				);
+				clearSelection();
+			},
+		});
+	}, [selectedTasks, tasksApi, clearSelection, repo, recordUndo]);
+
+	const handleBulkMove = useCallback(async (projectId: string) => {
+		const ids = selectedTasks.map((t) => t.id);
+		if (ids.length === 0) return;
+		await tasksApi.moveMany(ids, projectId);
+		clearSelection();
+		await refreshAssigneesAndTags();
+	}, [selectedTasks, tasksApi, clearSelection, refreshAssigneesAndTags]);
+
+	// ── Move & duplicate ───────────────────────────────────────────────────────
+
+	const [moveTask, setMoveTask] = useState<Task | null>(null);
+	const moveTargets = useMemo(
+		() => (projectsApi.projects ?? []).filter((p) => canEditProject(p.id)),
+		[projectsApi.projects, canEditProject]
+	);
+
+	const handleMoveTask = useCallback(async ({ projectId, mode }: MoveTaskValues) => {
+		if (!moveTask) return;
+		const task = moveTask;
+		setMoveTask(null);
+		try {
+			if (mode === "move") {
+				await tasksApi.moveMany([task.id], projectId);
+				if (taskModal?.task?.id === task.id) setTaskModal(null);
+			} else {
+				await tasksApi.duplicateMany([task.id], projectId);
+			}
+			// The target may be the active project when the task was opened from My Work.
+			await refreshAfterCrossProjectChange(projectId);
+		} catch (err) {
+			setConfirmDialog({
+				title: mode === "move" ? "Move failed" : "Duplicate failed",
+				message: err instanceof Error ? err.message : "The task could not be copied.",
+				confirmLabel: "OK",
+				onConfirm: () => setConfirmDialog(null),
+			});
+		}
+	}, [moveTask, tasksApi, taskModal, refreshAfterCrossProjectChange]);
+
+	// ── Keyboard & command palette ─────────────────────────────────────────────
+
+	const [paletteOpen, setPaletteOpen] = useState(false);
+	const [shortcutHelpOpen, setShortcutHelpOpen] = useState(false);
+	const [focusedTaskId, setFocusedTaskId] = useState<string | null>(null);
+	const isProjectView = !isMyWork && !isTrash && !!activeProject;
+
+	// J/K walk the tasks in on-screen order: column by column, each sorted like the board.
+	const visibleOrder = useMemo(() => {
+		const columnOf = (t: Task) => (hasStatus(columns, t.status) ? t.status : columns[0]?.key);
+		return columns.flatMap((c) => filteredTasks.filter((t) => columnOf(t) === c.key).sort(compareTasks(sort)));
+	}, [filteredTasks, columns, sort]);
+	const focusedTask = visibleOrder.find((t) => t.id === focusedTaskId) ?? null;
+
+	useEffect(() => { setFocusedTaskId(null); }, [activeProjectId, isMyWork, isTrash, view]);
+
+	const moveFocus = useCallback((delta: 1 | -1) => {
+		if (visibleOrder.length === 0) return;
+		const i = visibleOrder.findIndex((t) => t.id === focusedTaskId);
+		const next = i === -1 ? (delta === 1 ? 0 : visibleOrder.length - 1) : Math.min(Math.max(i + delta, 0), visibleOrder.length - 1);
+		setFocusedTaskId(visibleOrder[next].id);
+	}, [visibleOrder, focusedTaskId]);
+
+	const setFocusedStatus = useCallback(async (index: number) => {
+		const column = columns[index];
+		if (!focusedTask || !column || focusedTask.status === column.key) return;
+		await handleReorder(focusedTask.id, column.key, statusCounts[column.key] ?? 0);
+	}, [columns, focusedTask, handleReorder, statusCounts]);
+
+	const cycleFocusedPriority = useCallback(async () => {
+		if (!focusedTask) return;
+		const priority = PRIORITY_CYCLE[(PRIORITY_CYCLE.indexOf(focusedTask.priority) + 1) % PRIORITY_CYCLE.length];
+		await quickUpdate(focusedTask, { priority }, "Change priority");
+	}, [focusedTask, quickUpdate]);
+
+	// My Work can edit tasks from any project in place; elsewhere the task's project is opened first.
+	const openTask = useCallback((task: Task) => {
+		if (isTrash || (!isMyWork && task.projectId !== activeProjectId)) selectProject(task.projectId);
+		setTaskModal({ mode: "edit", task });
+	}, [isMyWork, isTrash, activeProjectId, selectProject]);
+
+	useTaskShortcuts(
+		!taskModal && !projectModal && !confirmDialog && !moveTask && !importFile && !restore && !localMigration && !paletteOpen && !shortcutHelpOpen,
+		{
+			openPalette: () => setPaletteOpen(true),
+			showHelp: () => setShortcutHelpOpen(true),
+			createTask: isProjectView && canEdit ? () => setTaskModal({ mode: "create", defaultStatus }) : undefined,
+			moveFocus: isProjectView && view !== "calendar" ? moveFocus : undefined,
+			openFocused: focusedTask ? () => setTaskModal({ mode: "edit", task: focusedTask }) : undefined,
+			setFocusedStatus: focusedTask && canEdit ? setFocusedStatus : undefined,
+			cycleFocusedPriority: focusedTask && canEdit ? cycleFocusedPriority : undefined,
+			clearFocus: focusedTask ? () => setFocusedTaskId(null) : undefined,
+		}
+	);
+
+	const commands = useMemo(() => {
+		const list: Command[] = [];
+		const action = (id: string, label: string, run: () => void, shortcut?: string) => {
+			list.push({ id: `action:${id}`, group: "Actions", label, run, shortcut });
+		};
+		if (isProjectView && canEdit) action("new-task", "New task", () => setTaskModal({ mode: "create", defaultStatus }), "C");
+		action("new-project", "New project", () => setProjectModal({ mode: "create" }));
+		if (isProjectView) {
+			action("view-kanban", "Show as board", () => setView("kanban"));
+			action("view-list", "Show as list", () => setView("list"));
+			action("view-calendar", "Show as calendar", () => setView("calendar"));
+		}
+		if (!isMyWork) action("my-work", "Go to My Work", () => navigate(`${basePath}/my-work`));
+		if (!isTrash) action("trash", "Go to Trash", () => navigate(`${basePath}/trash`));
+		if (undoHistory.canUndo) action("undo", "Undo", undoHistory.undo, "⌘Z");
+		if (undoHistory.canRedo) action("redo", "Redo", undoHistory.redo, "⇧⌘Z");
+		if (!useMockData) action("backup", "Back up workspace", handleBackupWorkspace);
+		action("shortcuts", "Keyboard shortcuts", () => setShortcutHelpOpen(true), "?");
+
+		const projects = projectsApi.projects ?? [];
+		for (const p of projects) {
+			list.push({ id: `project:${p.id}`, group: "Projects", label: p.name, detail: p.archivedAt ? "Archived" : p.folder, run: () => selectProject(p.id) });
+		}
+		const projectNames = new Map(projects.map((p) => [p.id, p.name]));
+		for (const t of dependencyTasks) {
+			if (!projectNames.has(t.projectId)) continue;
+			list.push({ id: `task:${t.id}`, group: "Tasks", label: t.title, detail: projectNames.get(t.projectId), run: () => openTask(t) });
+		}
+		return list;
+	}, [isProjectView, canEdit, defaultStatus, setView, isMyWork, isTrash, navigate, basePath, undoHistory, useMockData, handleBackupWorkspace, projectsApi.projects, selectProject, dependencyTasks, openTask]);
 
 	return {
 		// State
 		view,
 		setView,
+		filters,
+		setFilters,
+		sort,
+		setSort,
 		sidebarOpen,
 		setSidebarOpen,
 		search,
 		setSearch,
+		assignedToMe,
+		setAssignedToMe,
 		activeProjectId,
 		setActiveProjectId,
+		selectProject,
 		activeProject,
+		isMyWork,
+		isTrash,
+		basePath,
+		columns,
+		defaultStatus,
 		useMockData,
 		user,
 
@@ -332,31 +1359,99 @@ export function useTasksPage() {
 		projectsApi,
 		tasksApi,
 		filteredTasks,
+		statusCounts,
 		totalTasks,
 		doneTasks,
 		allAssignees,
 		allTags,
+		members,
+		myWorkTasks,
+		dependencyTasks,
+		openBlockers,
+		tasksById,
+		taskPath,
+		attachmentUrl,
 		canEdit,
+		canEditProject,
 		canManageProject,
+		savedViews,
+		activeViewId,
+		canManageViews,
+		selection,
+		selectedTasks,
+		bulkMoveTargets,
+		moveTargets,
 
 		// Modals
 		projectModal,
 		setProjectModal,
 		taskModal,
 		setTaskModal,
+		taskLink,
+		taskModalProjectId,
+		taskModalColumns,
+		taskHistory,
 		confirmDialog,
 		setConfirmDialog,
+		undoHistory,
+		syncStatus,
+		syncNow,
+		discardOfflineChanges,
+		paletteOpen,
+		setPaletteOpen,
+		shortcutHelpOpen,
+		setShortcutHelpOpen,
+		commands,
+		focusedTaskId,
+		moveTask,
+		setMoveTask,
+		importFile,
+		setImportFile,
+		restore,
+		setRestore,
+		localMigration,
+		setLocalMigration,
 
 		// Handlers
 		handleCreateProject,
 		handleUpdateProject,
 		handleExportProject,
 		handleImportProject,
+		handleConfirmImport,
+		handleBackupWorkspace,
+		handleConfirmRestore,
+		handleMigrateLocal,
+		handleDeclineMigration,
 		handleLeaveProject,
 		handleDeleteProject,
+		handleReorderProjects,
+		handleArchiveProject,
+		trash,
+		canRestoreTask,
+		handleRestoreProject,
+		handleRestoreTask,
+		handlePurgeProject,
+		handlePurgeTask,
+		handleEmptyTrash,
 		handleCreateTask,
 		handleUpdateTask,
+		handleUploadAttachment,
+		handleDiscardAttachments,
+		taskConflict,
+		handleReloadConflict,
+		handleKeepMine,
 		handleDeleteTask,
 		handleReorder,
+		handleReschedule,
+		handleBulkAction,
+		handleMoveMany,
+		handleBulkDelete,
+		handleBulkMove,
+		handleMoveTask,
+		handleMyWorkUpdate,
+		handleMyWorkMove,
+		applySavedView,
+		handleSaveView,
+		handleDeleteView,
 	};
 }
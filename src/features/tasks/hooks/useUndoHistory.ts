@@ -0,0 +1,124 @@
+/**
+ * Undo/redo stack for the Tasks page.
+ *
+ * Handlers record a change once it has been saved, as a pair of steps that
+ * write straight to the repo. Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z (or
+ * Ctrl+Y) redoes; both are left alone while the user is typing in a field.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { isTypingTarget } from "../utils";
+
+export interface UndoEntry {
+	/** What was done, e.g. "Delete task", for the toast. */
+	label: string;
+	undo: () => Promise<unknown>;
+	redo: () => Promise<unknown>;
+}
+
+export interface UndoToastState {
+	message: string;
+	/** Which step the toast's button runs. */
+	action?: "undo" | "redo";
+}
+
+const MAX_ENTRIES = 50;
+const TOAST_MS = 6000;
+
+/**
+ * `onApplied` reloads whatever the page shows after an undo or redo; the stack
+ * is cleared whenever `resetKey` changes (e.g. a different repo after sign-in).
+ * Shortcuts are ignored while `enabled` is false, e.g. with a dialog open.
+ */
+export function useUndoHistory({ onApplied, resetKey, enabled = true }: { onApplied: () => Promise<unknown>; resetKey?: unknown; enabled?: boolean }) {
+	const pastRef = useRef<UndoEntry[]>([]);
+	const futureRef = useRef<UndoEntry[]>([]);
+	const busyRef = useRef(false);
+	const onAppliedRef = useRef(onApplied);
+	onAppliedRef.current = onApplied;
+	const [sizes, setSizes] = useState({ past: 0, future: 0 });
+	const [toast, setToast] = useState<UndoToastState | null>(null);
+
+	const sync = useCallback(() => {
+		setSizes({ past: pastRef.current.length, future: futureRef.current.length });
+	}, []);
+
+	useEffect(() => {
+		pastRef.current = [];
+		futureRef.current = [];
+		sync();
+		setToast(null);
+	}, [resetKey, sync]);
+
+	useEffect(() => {
+		if (!toast) return;
+		const timer = setTimeout(() => setToast(null), TOAST_MS);
+		return () => clearTimeout(timer);
+	}, [toast]);
+
+	/** Record a change that has just been saved; `notify` shows the Undo toast (for destructive changes). */
+	const record = useCallback((entry: UndoEntry, notify?: string) => {
+		pastRef.current = [...pastRef.current, entry].slice(-MAX_ENTRIES);
+		futureRef.current = [];
+		sync();
+		if (notify) setToast({ message: notify, action: "undo" });
+	}, [sync]);
+
+	const step = useCallback(async (direction: "undo" | "redo") => {
+		const from = direction === "undo" ? pastRef : futureRef;
+		const to = direction === "undo" ? futureRef : pastRef;
+		const entry = from.current[from.current.length - 1];
+		if (!entry || busyRef.current) return;
+		busyRef.current = true;
+		from.current = from.current.slice(0, -1);
+		try {
+			await (direction === "undo" ? entry.undo() : entry.redo());
+			to.current = [...to.current, entry];
+			setToast({
+				message: `${direction === "undo" ? "Undone" : "Redone"}: ${entry.label}`,
+				action: direction === "undo" ? "redo" : "undo",
+			});
+		} catch (e) {
+			// The records may have changed since (edited elsewhere, purged from the trash), so the entry is dropped.
+			setToast({ message: `Couldn't ${direction} "${entry.label}": ${e instanceof Error ? e.message : "unknown error"}` });
+		} finally {
+			busyRef.current = false;
+			sync();
+		}
+		await onAppliedRef.current();
+	}, [sync]);
+
+	const undo = useCallback(() => step("undo"), [step]);
+	const redo = useCallback(() => step("redo"), [step]);
+	const dismissToast = useCallback(() => setToast(null), []);
+
+	useEffect(() => {
+		if (!enabled) return;
+		const onKey = (e: KeyboardEvent) => {
+			if (!(e.metaKey || e.ctrlKey) || e.altKey || isTypingTarget(e.target)) return;
+			const key = e.key.toLowerCase();
+			if (key === "z") {
+				e.preventDefault();
+				step(e.shiftKey ? "redo" : "undo");
+			} else if (key === "y" && e.ctrlKey) {
+				e.preventDefault();
+				step("redo");
+			}
+		};
+		window.addEventListener("keydown", onKey);
+		return () => window.removeEventListener("keydown", onKey);
+	}, [enabled, step]);
+
+	return useMemo(
+		() => ({
+			record,
+			undo,
+			redo,
+			canUndo: sizes.past > 0,
+			canRedo: sizes.future > 0,
+			toast,
+			dismissToast,
+		}),
+		[record, undo, redo, sizes, toast, dismissToast]
+	);
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const ULID = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+// ids.ts remembers the last id it made; each test starts from a fresh copy.
+let ulid: typeof import("./ids").ulid;
+let newId: typeof import("./ids").newId;
+
+beforeEach(async () => {
+  vi.resetModules();
+  ({ ulid, newId } = await import("./ids"));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("ulid", () => {
+  it("makes distinct, well-formed ids", () => {
+    const ids = Array.from({ length: 10_000 }, () => ulid());
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const id of ids) expect(id).toMatch(ULID);
+  });
+
+  it("starts with the time, so later ids sort after earlier ones", () => {
+    const earlier = ulid(1_700_000_000_000);
+    const later = ulid(1_700_000_000_001);
+    expect(earlier.slice(0, 10)).toBe("01HF7YAT00");
+    expect(later > earlier).toBe(true);
+  });
+
+  it("keeps creation order within the same millisecond", () => {
+    const now = 1_800_000_000_000;
+    const ids = Array.from({ length: 1_000 }, () => ulid(now));
+    expect([...ids].sort()).toEqual(ids);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("keeps creation order when the clock steps back", () => {
+    const first = ulid(1_900_000_000_000);
+    const second = ulid(1_899_999_999_000);
+    expect(second > first).toBe(true);
+  });
+
+  it("falls back to Math.random without crypto.getRandomValues", () => {
+    vi.stubGlobal("crypto", undefined);
+    const random = vi.spyOn(Math, "random");
+    const ids = Array.from({ length: 1_000 }, (_, i) => ulid(2_000_000_000_000 + i));
+    expect(random).toHaveBeenCalled();
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const id of ids) expect(id).toMatch(ULID);
+  });
+});
+
+describe("newId", () => {
+  it("prefixes the record kind", () => {
+    expect(newId("t")).toMatch(/^t-[0-9A-HJKMNP-TV-Z]{26}$/);
+    expect(newId("p")).toMatch(/^p-[0-9A-HJKMNP-TV-Z]{26}$/);
+  });
+});
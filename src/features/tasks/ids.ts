@@ -0,0 +1,84 @@
+/**
+ * Record ids.
+ *
+ * New ids are `<prefix>-<ULID>`: 48 bits of millisecond time and 80 random bits,
+ * so clients that never talk to each other (collaborators, tabs, a guest who
+ * signs in later) can create records at the same moment without clashing, and
+ * ids still sort by creation time.
+ *
+ * Older ids look like `p-12-lq3x9k0a` (a per-client counter plus a timestamp).
+ * They stay valid: ids are opaque strings everywhere and are never parsed.
+ */
+
+export type IdPrefix = "p" | "t" | "c" | "a" | "f";
+
+// Crockford's base32: no I, L, O or U.
+const ENCODING = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+function randomBytes(n: number): Uint8Array {
+  const bytes = new Uint8Array(n);
+  if (typeof crypto !== "undefined" && typeof crypto.getRandomValues === "function") {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < n; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return bytes;
+}
+
+function randomChars(): string {
+  // 16 characters × 5 bits = 80 bits, taken from 10 random bytes.
+  const bytes = randomBytes(10);
+  let random = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      random += ENCODING[(buffer >> bits) & 31];
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  return random;
+}
+
+/** `chars` plus one in base32, or null when it is all Zs. */
+function increment(chars: string): string | null {
+  for (let i = chars.length - 1; i >= 0; i--) {
+    const digit = ENCODING.indexOf(chars[i]);
+    if (digit < 31) return chars.slice(0, i) + ENCODING[digit + 1] + "0".repeat(chars.length - i - 1);
+  }
+  return null;
+}
+
+let lastTime = -1;
+let lastRandom = "";
+
+/**
+ * A 26-character ULID: 10 characters of time, then 16 of randomness.
+ *
+ * Ids made in the same millisecond (or after the clock stepped back) reuse the
+ * last time and add one to the last random part, so ids from one client always
+ * sort in the order they were made.
+ */
+export function ulid(now = Date.now()): string {
+  const next = now <= lastTime ? increment(lastRandom) : null;
+  if (next) {
+    lastRandom = next;
+  } else {
+    lastTime = Math.max(now, lastTime);
+    lastRandom = randomChars();
+  }
+  let time = "";
+  let t = lastTime;
+  for (let i = 0; i < 10; i++) {
+    time = ENCODING[t % 32] + time;
+    t = Math.floor(t / 32);
+  }
+  return time + lastRandom;
+}
+
+export function newId(prefix: IdPrefix): string {
+  return `${prefix}-${ulid()}`;
+}
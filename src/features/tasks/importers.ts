@@ -0,0 +1,504 @@
+import type { Project, ProjectMember, Task, TaskPriority, WorkflowColumn } from "./types";
+import { PROJECT_COLORS, STATUS_COLUMNS } from "./types";
+import type { TaskCreate } from "./store";
+import { getDefaultStatus, getProjectColumns, hasStatus, isWorkflowColumn } from "./workflow";
+import { getTaskAssignees } from "./assignees";
+import { toDateKey } from "./dates";
+import { taskProblems } from "./storage";
+import { parseCsv, toCsv, unescapeFormula } from "./csv";
+import { AVATAR_COLORS, localId, nameToInitials } from "./utils";
+
+/** Files the project importer understands. "json" is our own export. */
+export type ImportFormat = "json" | "csv" | "trello" | "github" | "jira";
+
+export const IMPORT_FORMATS: { value: ImportFormat; label: string }[] = [
+  { value: "json", label: "Project JSON" },
+  { value: "csv", label: "CSV" },
+  { value: "trello", label: "Trello board (JSON)" },
+  { value: "github", label: "GitHub issues (JSON)" },
+  { value: "jira", label: "Jira issues (CSV)" },
+];
+
+export type ImportField = "title" | "description" | "status" | "priority" | "assignee" | "tags" | "due" | "subtasks";
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: "title", label: "Title" },
+  { field: "description", label: "Description" },
+  { field: "status", label: "Status" },
+  { field: "priority", label: "Priority" },
+  { field: "assignee", label: "Assignee" },
+  { field: "tags", label: "Tags" },
+  { field: "due", label: "Due" },
+  { field: "subtasks", label: "Subtasks" },
+];
+
+/** CSV column index for each task field; unmapped fields are not imported. */
+export type CsvMapping = Partial<Record<ImportField, number>>;
+
+export type ImportRow = {
+  /** Filled in with the new project's id when the import is confirmed. */
+  task: Omit<TaskCreate, "projectId">;
+  /** Why the row can't be imported; rows with errors are skipped. */
+  errors: string[];
+  warnings: string[];
+};
+
+export type ImportDraft = {
+  project: Pick<Project, "name" | "description" | "color" | "columns">;
+  rows: ImportRow[];
+  /** Problems with the file as a whole, e.g. skipped archived cards. */
+  warnings: string[];
+};
+
+/** A task as read from a file, before statuses, priorities and dates are normalized. */
+type RawTask = {
+  title?: string;
+  description?: string;
+  status?: string;
+  priority?: string;
+  assignees?: string[];
+  tags?: string[];
+  due?: string;
+  subtasks?: { title: string; done: boolean }[];
+  order?: number;
+};
+
+type RawImport = {
+  project: Omit<ImportDraft["project"], "color"> & { color?: string };
+  tasks: RawTask[];
+  warnings: string[];
+};
+
+// ── Detection ──────────────────────────────────────────────────────
+
+export function detectFormat(fileName: string, text: string): ImportFormat {
+  if (/\.csv$/i.test(fileName) || !/^\s*[[{]/.test(text)) {
+    const headers = parseCsv(text.split(/\r?\n/, 1)[0] ?? "")[0] ?? [];
+    return headers.includes("Summary") && (headers.includes("Issue key") || headers.includes("Issue Type")) ? "jira" : "csv";
+  }
+  try {
+    const data: unknown = JSON.parse(text);
+    if (Array.isArray(data)) return "github";
+    const o = data as Record<string, unknown>;
+    if (Array.isArray(o.cards) && Array.isArray(o.lists)) return "trello";
+  } catch {
+    // Reported when the file is read with the chosen format.
+  }
+  return "json";
+}
+
+// ── Normalization ──────────────────────────────────────────────────
+
+/** Best-effort match of another tool's status, list or column name onto a workflow. */
+export function guessStatus(name: string, columns: WorkflowColumn[] = STATUS_COLUMNS): string | null {
+  const n = name.trim().toLowerCase();
+  if (!n) return null;
+  const exact = columns.find((c) => c.key.toLowerCase() === n || c.label.toLowerCase() === n);
+  if (exact) return exact.key;
+  const pick = (key: string) => (hasStatus(columns, key) ? key : null);
+  if (/\b(done|closed|complete[d]?|resolved|finished|shipped)\b/.test(n)) {
+    return pick("done") ?? columns.find((c) => c.done)?.key ?? null;
+  }
+  if (/\b(doing|in[ _-]?progress|started|review|testing|qa)\b/.test(n)) return pick("in_progress");
+  if (/\b(to[ _-]?do|open|next|ready|selected)\b/.test(n)) return pick("todo");
+  if (/\b(backlog|icebox|later|ideas?)\b/.test(n)) return pick("backlog");
+  return null;
+}
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  low: "low",
+  lowest: "low",
+  minor: "low",
+  trivial: "low",
+  p3: "low",
+  p4: "low",
+  medium: "medium",
+  normal: "medium",
+  p2: "medium",
+  high: "high",
+  major: "high",
+  p1: "high",
+  urgent: "urgent",
+  highest: "urgent",
+  critical: "urgent",
+  blocker: "urgent",
+  p0: "urgent",
+};
+
+function parsePriority(value: string): TaskPriority | undefined {
+  return PRIORITY_ALIASES[value.trim().toLowerCase().replace(/^priority[:/\s-]*/, "")];
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/** A `YYYY-MM-DD` key for an ISO date, Jira's `12/Mar/24` or anything `Date` parses; null if unreadable. */
+export function parseDueValue(value: string): string | null {
+  const v = value.trim();
+  const iso = v.match(/^(\d{4})-(\d{2})-(\d{2})(?:$|T|\s)/);
+  if (iso) {
+    // Timestamps (Trello, GitHub) are in UTC; read them in local time like the rest of the app.
+    return v.length > 10 ? toDateKey(new Date(v)) : `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+  const jira = v.match(/^(\d{1,2})\/([A-Za-z]{3})\/(\d{2,4})/);
+  if (jira) {
+    const month = MONTHS.indexOf(jira[2].toLowerCase());
+    const year = jira[3].length === 2 ? 2000 + parseInt(jira[3], 10) : parseInt(jira[3], 10);
+    if (month >= 0) return toDateKey(new Date(year, month, parseInt(jira[1], 10)));
+  }
+  const ms = Date.parse(v);
+  return Number.isNaN(ms) ? null : toDateKey(new Date(ms));
+}
+
+function hashString(value: string): number {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) h = (h * 31 + value.charCodeAt(i)) | 0;
+  return Math.abs(h);
+}
+
+function toAssignee(name: string): NonNullable<Task["assignee"]> {
+  return { name, initials: nameToInitials(name), color: AVATAR_COLORS[hashString(name) % AVATAR_COLORS.length] };
+}
+
+function uniq(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/** Turn a raw task into what will be created, checked with the same rules as stored tasks. */
+function toImportRow(raw: RawTask, columns: WorkflowColumn[]): ImportRow {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let status = getDefaultStatus(columns);
+  if (raw.status?.trim()) {
+    const guessed = guessStatus(raw.status, columns);
+    if (guessed) status = guessed;
+    else warnings.push(`Unknown status "${raw.status}", placed in ${columns.find((c) => c.key === status)?.label ?? status}`);
+  }
+
+  let priority: string = "medium";
+  if (raw.priority?.trim()) priority = parsePriority(raw.priority) ?? raw.priority;
+
+  let due: string | undefined;
+  if (raw.due?.trim()) {
+    const parsed = parseDueValue(raw.due);
+    if (parsed) due = parsed;
+    else warnings.push(`Couldn't read due date "${raw.due}"`);
+  }
+
+  const assignees = uniq((raw.assignees ?? []).map((a) => a.trim()).filter(Boolean));
+  if (assignees.length > 1) warnings.push(`Only the first assignee (${assignees[0]}) is kept`);
+
+  const tags = uniq((raw.tags ?? []).map((t) => t.trim()).filter(Boolean));
+  const subtasks = (raw.subtasks ?? [])
+    .filter((s) => s.title.trim())
+    .map((s) => ({ id: localId("s"), title: s.title.trim(), done: s.done }));
+
+  const task = {
+    title: (raw.title ?? "").trim(),
+    description: raw.description?.trim() || undefined,
+    status,
+    priority: priority as TaskPriority,
+    assignee: assignees[0] ? toAssignee(assignees[0]) : undefined,
+    due,
+    tags: tags.length > 0 ? tags : undefined,
+    subtasks: subtasks.length > 0 ? subtasks : undefined,
+    order: raw.order ?? 0,
+  };
+
+  // Same checks as tasks loaded from storage; id and timestamps are filled in on create.
+  const now = new Date().toISOString();
+  const candidate: Record<string, unknown> = { ...task, id: "preview", projectId: "preview", createdAt: now, updatedAt: now };
+  for (const key of Object.keys(candidate)) if (candidate[key] === undefined) delete candidate[key];
+  errors.push(...taskProblems(candidate));
+  if (!task.title) errors.push("Missing title");
+  if (!hasStatus(columns, task.status)) errors.push(`Unknown status "${task.status}"`);
+
+  return { task, errors: uniq(errors), warnings };
+}
+
+// ── Readers ────────────────────────────────────────────────────────
+
+function projectNameFromFile(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ").trim() || "Imported project";
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === "string" ? value : typeof value === "number" ? String(value) : undefined;
+}
+
+function readProjectJson(data: unknown): RawImport {
+  const o = data as { project?: Record<string, unknown>; tasks?: unknown };
+  if (!o?.project || typeof o.project.name !== "string" || !o.project.name) throw new Error("Invalid project file");
+  const columns =
+    Array.isArray(o.project.columns) && o.project.columns.length > 0 && o.project.columns.every(isWorkflowColumn)
+      ? (o.project.columns as WorkflowColumn[])
+      : undefined;
+  const tasks = (Array.isArray(o.tasks) ? o.tasks : []).map((item): RawTask => {
+    const t = (item ?? {}) as Record<string, unknown>;
+    const assignee = t.assignee as { name?: unknown } | undefined;
+    return {
+      title: str(t.title) ?? "Untitled",
+      description: str(t.description),
+      status: str(t.status),
+      priority: str(t.priority),
+      assignees: typeof assignee?.name === "string" ? [assignee.name] : [],
+      tags: Array.isArray(t.tags) ? t.tags.filter((x): x is string => typeof x === "string") : undefined,
+      due: str(t.due),
+      subtasks: Array.isArray(t.subtasks)
+        ? t.subtasks
+            .filter((s): s is { title: string; done?: unknown } => !!s && typeof s === "object" && typeof s.title === "string")
+            .map((s) => ({ title: s.title, done: s.done === true }))
+        : undefined,
+      order: typeof t.order === "number" ? t.order : undefined,
+    };
+  });
+  return {
+    project: {
+      name: o.project.name,
+      description: str(o.project.description) ?? "",
+      color: str(o.project.color),
+      columns,
+    },
+    tasks,
+    warnings: [],
+  };
+}
+
+type TrelloNamed = { id?: string; name?: string; closed?: boolean };
+
+function readTrello(data: unknown): RawImport {
+  const board = data as {
+    name?: string;
+    desc?: string;
+    lists?: TrelloNamed[];
+    cards?: (TrelloNamed & {
+      desc?: string;
+      idList?: string;
+      due?: string | null;
+      idMembers?: string[];
+      labels?: { name?: string; color?: string }[];
+    })[];
+    members?: { id?: string; fullName?: string; username?: string }[];
+    checklists?: { idCard?: string; checkItems?: { name?: string; state?: string; pos?: number }[] }[];
+  };
+  if (!Array.isArray(board.cards) || !Array.isArray(board.lists)) throw new Error("Not a Trello board export");
+
+  const lists = new Map(board.lists.map((l) => [l.id, l]));
+  const members = new Map((board.members ?? []).map((m) => [m.id, m.fullName || m.username || ""]));
+  const warnings: string[] = [];
+
+  const open = board.cards.filter((c) => !c.closed && !lists.get(c.idList)?.closed);
+  const archived = board.cards.length - open.length;
+  if (archived > 0) warnings.push(`${archived} archived card${archived === 1 ? "" : "s"} skipped`);
+
+  const tasks = open.map((card): RawTask => {
+    const items = (board.checklists ?? [])
+      .filter((cl) => cl.idCard === card.id)
+      .flatMap((cl) => [...(cl.checkItems ?? [])].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0)));
+    return {
+      title: card.name,
+      description: card.desc,
+      status: lists.get(card.idList)?.name,
+      assignees: (card.idMembers ?? []).map((id) => members.get(id) ?? "").filter(Boolean),
+      // Trello allows unnamed labels that only carry a color.
+      tags: (card.labels ?? []).map((l) => l.name || l.color || "").filter(Boolean),
+      due: card.due ?? undefined,
+      subtasks: items.map((i) => ({ title: i.name ?? "", done: i.state === "complete" })),
+    };
+  });
+  return { project: { name: board.name || "Trello board", description: board.desc ?? "" }, tasks, warnings };
+}
+
+function readGitHub(data: unknown, fileName: string): RawImport {
+  if (!Array.isArray(data)) throw new Error("Expected a JSON array of GitHub issues");
+  type Label = string | { name?: string };
+  type User = { login?: string; name?: string };
+  const issues = data as {
+    title?: string;
+    body?: string | null;
+    state?: string;
+    labels?: Label[];
+    assignee?: User | null;
+    assignees?: User[];
+    milestone?: { due_on?: string | null; dueOn?: string | null } | null;
+    pull_request?: unknown;
+  }[];
+  const warnings: string[] = [];
+  const prs = issues.filter((i) => i.pull_request).length;
+  if (prs > 0) warnings.push(`${prs} pull request${prs === 1 ? "" : "s"} skipped`);
+
+  const tasks = issues
+    .filter((i) => !i.pull_request)
+    .map((issue): RawTask => {
+      const labels = (issue.labels ?? []).map((l) => (typeof l === "string" ? l : l.name ?? "")).filter(Boolean);
+      // A "priority: high" or "P1" label sets the priority instead of becoming a tag.
+      const priorityLabel = labels.find((l) => parsePriority(l));
+      const users = issue.assignees?.length ? issue.assignees : issue.assignee ? [issue.assignee] : [];
+      return {
+        title: issue.title,
+        description: issue.body ?? undefined,
+        status: issue.state?.toLowerCase() === "closed" ? "done" : "todo",
+        priority: priorityLabel,
+        assignees: users.map((u) => u.name || u.login || "").filter(Boolean),
+        tags: labels.filter((l) => l !== priorityLabel),
+        due: issue.milestone?.due_on ?? issue.milestone?.dueOn ?? undefined,
+      };
+    });
+  return { project: { name: projectNameFromFile(fileName), description: "Imported from GitHub issues" }, tasks, warnings };
+}
+
+export function csvHeaders(text: string): string[] {
+  return parseCsv(text)[0] ?? [];
+}
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  title: ["title", "name", "summary", "task", "card name"],
+  description: ["description", "desc", "notes", "body", "details"],
+  status: ["status", "state", "list", "list name", "column", "stage"],
+  priority: ["priority", "importance"],
+  assignee: ["assignee", "assignees", "owner", "assigned to", "members"],
+  tags: ["tags", "labels", "label"],
+  due: ["due", "due date", "deadline", "due on"],
+  subtasks: ["subtasks", "checklist", "checklists"],
+};
+
+/** Map CSV headers onto task fields by name; the import dialog lets the user adjust it. */
+export function guessCsvMapping(headers: string[]): CsvMapping {
+  const normalized = headers.map((h) => h.trim().toLowerCase());
+  const mapping: CsvMapping = {};
+  for (const field of Object.keys(HEADER_ALIASES) as ImportField[]) {
+    const index = normalized.findIndex((h) => HEADER_ALIASES[field].includes(h));
+    if (index >= 0) mapping[field] = index;
+  }
+  return mapping;
+}
+
+/** Subtasks in a CSV cell: `; `-separated, done items prefixed with `[x] `. */
+function parseSubtaskCell(value: string): RawTask["subtasks"] {
+  return value
+    .split(/;\s*/)
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => {
+      const m = s.match(/^\[([ xX]?)\]\s*(.*)$/);
+      return m ? { title: m[2], done: m[1].toLowerCase() === "x" } : { title: s, done: false };
+    });
+}
+
+function readCsv(text: string, fileName: string, mapping: CsvMapping): RawImport {
+  const [, ...records] = parseCsv(text);
+  const cell = (record: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined || record[index] === undefined ? undefined : unescapeFormula(record[index]);
+  };
+  const tasks = records.map((r): RawTask => ({
+    title: cell(r, "title"),
+    description: cell(r, "description"),
+    status: cell(r, "status"),
+    priority: cell(r, "priority"),
+    assignees: (cell(r, "assignee") ?? "").split(";"),
+    tags: (cell(r, "tags") ?? "").split(/[;,]/),
+    due: cell(r, "due"),
+    subtasks: parseSubtaskCell(cell(r, "subtasks") ?? ""),
+  }));
+  return { project: { name: projectNameFromFile(fileName), description: "" }, tasks, warnings: [] };
+}
+
+function readJira(text: string, fileName: string): RawImport {
+  const [headers = [], ...records] = parseCsv(text);
+  const col = (name: string) => headers.indexOf(name);
+  // Jira repeats the Labels column once per label.
+  const labelCols = headers.flatMap((h, i) => (h === "Labels" ? [i] : []));
+  const [summary, key, status, priority, assignee, due, description] = [
+    "Summary",
+    "Issue key",
+    "Status",
+    "Priority",
+    "Assignee",
+    "Due Date",
+    "Description",
+  ].map(col);
+  if (summary < 0) throw new Error("Jira export has no Summary column");
+
+  const warnings: string[] = [];
+  const subtaskType = col("Issue Type");
+  const subtaskCount = subtaskType >= 0 ? records.filter((r) => /sub-?task/i.test(r[subtaskType] ?? "")).length : 0;
+  if (subtaskCount > 0) warnings.push(`${subtaskCount} sub-task${subtaskCount === 1 ? "" : "s"} imported as separate tasks`);
+
+  const tasks = records.map((r): RawTask => {
+    const at = (i: number) => (i >= 0 ? r[i] : undefined);
+    const issueKey = at(key)?.trim();
+    return {
+      title: at(summary),
+      description: [issueKey ? `Jira: ${issueKey}` : "", at(description) ?? ""].filter(Boolean).join("\n\n"),
+      status: at(status),
+      priority: at(priority),
+      assignees: at(assignee) ? [at(assignee)!] : [],
+      tags: labelCols.map((i) => r[i] ?? ""),
+      due: at(due),
+    };
+  });
+  const projectCol = col("Project name");
+  const projectName = projectCol >= 0 ? records[0]?.[projectCol] : undefined;
+  return { project: { name: projectName || projectNameFromFile(fileName), description: "Imported from Jira" }, tasks, warnings };
+}
+
+/**
+ * Read a file in the given format and validate every task against the project's
+ * workflow. `mapping` is only used for generic CSV and defaults to a guess from the headers.
+ */
+export function buildImport(format: ImportFormat, fileName: string, text: string, mapping?: CsvMapping): ImportDraft {
+  let raw: RawImport;
+  if (format === "csv") raw = readCsv(text, fileName, mapping ?? guessCsvMapping(csvHeaders(text)));
+  else if (format === "jira") raw = readJira(text, fileName);
+  else {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("The file is not valid JSON.");
+    }
+    raw = format === "trello" ? readTrello(data) : format === "github" ? readGitHub(data, fileName) : readProjectJson(data);
+  }
+
+  const columns = getProjectColumns({ columns: raw.project.columns });
+  // Keep the file's order within each column.
+  const orderByStatus = new Map<string, number>();
+  const rows = raw.tasks.map((t) => {
+    const row = toImportRow(t, columns);
+    if (t.order === undefined) {
+      const next = orderByStatus.get(row.task.status) ?? 0;
+      row.task.order = next;
+      orderByStatus.set(row.task.status, next + 1);
+    }
+    return row;
+  });
+  if (rows.length === 0) raw.warnings.push("The file has no tasks.");
+  return { project: { ...raw.project, color: raw.project.color ?? PROJECT_COLORS[0] }, rows, warnings: raw.warnings };
+}
+
+// ── Export ─────────────────────────────────────────────────────────
+
+/** Header names match the CSV importer's aliases, so an export re-imports without remapping. */
+export function tasksToCsv(tasks: Task[], columns: WorkflowColumn[], members: ProjectMember[] = []): string {
+  const header = ["Title", "Description", "Status", "Priority", "Assignee", "Tags", "Due", "Subtasks", "Created", "Updated"];
+  const rows = [...tasks]
+    .sort((a, b) => {
+      const ai = columns.findIndex((c) => c.key === a.status);
+      const bi = columns.findIndex((c) => c.key === b.status);
+      return ai - bi || a.order - b.order;
+    })
+    .map((t) => [
+      t.title,
+      t.description ?? "",
+      columns.find((c) => c.key === t.status)?.label ?? t.status,
+      t.priority,
+      getTaskAssignees(t, members).map((a) => a.name).join("; "),
+      (t.tags ?? []).join("; "),
+      t.due ?? "",
+      (t.subtasks ?? []).map((s) => `${s.done ? "[x] " : ""}${s.title}`).join("; "),
+      t.createdAt,
+      t.updatedAt,
+    ]);
+  return toCsv([header, ...rows]);
+}
@@ -1,8 +1,17 @@
-export { IconPlus, IconKanban, IconList, IconGrip, IconTrash, IconEdit, IconSearch, IconFolder, IconX, IconMenu } from "./icons";
-export { Modal, CustomSelect, ThemeToggle, PriorityBadge, Avatar, Tag } from "./ui";
-export { TaskForm, ProjectForm } from "./forms";
-export type { KnownAssignee } from "./forms";
+export { IconPlus, IconKanban, IconList, IconGrip, IconTrash, IconEdit, IconSearch, IconFolder, IconX, IconMenu, IconCheck, IconCalendar, IconChevron, IconInbox, IconLock, IconRepeat, IconMove, IconPin, IconArchive, IconPaperclip, IconDocument } from "./icons";
+export { Modal, CustomSelect, ThemeToggle, PriorityBadge, Avatar, Tag, SubtaskProgress, DueBadge, AssigneeList, BlockedBadge, RecurrenceBadge } from "./ui";
+export { TaskForm, ProjectForm, MoveTaskForm, ImportProjectForm, RestoreWorkspaceForm, MigrateLocalForm } from "./forms";
+export type { KnownAssignee, TaskFormValues, ProjectFormValues, MoveTaskValues } from "./forms";
 export { Sidebar } from "./sidebar";
 export { KanbanBoard } from "./kanban";
 export { ListView } from "./list";
+export { CalendarView } from "./calendar";
+export { MyWorkView } from "./mywork";
+export { TrashView } from "./trashview";
+export { CommandPalette, ShortcutHelp } from "./palette";
+export { FilterBar } from "./filterbar";
+export { BulkActionBar } from "./bulk";
+export { TaskDetailPanel, TaskSidePanel } from "./detail";
 export { ConfirmDialog } from "./ConfirmDialog";
+export { UndoToast } from "./UndoToast";
+export { SyncIndicator } from "./SyncIndicator";
@@ -0,0 +1,23 @@
+import { createPortal } from "react-dom";
+import { Markdown } from "../ui";
+
+const WIDTH = 320;
+const MAX_HEIGHT = 360;
+const GAP = 8;
+
+/** The rendered description beside a hovered card; read-only, and out of the way of the pointer. */
+export function DescriptionPreview({ anchor, source }: { anchor: DOMRect; source: string }) {
+  const fitsRight = anchor.right + GAP + WIDTH <= window.innerWidth;
+  const left = fitsRight ? anchor.right + GAP : Math.max(GAP, anchor.left - GAP - WIDTH);
+  const top = Math.max(GAP, Math.min(anchor.top, window.innerHeight - MAX_HEIGHT - GAP));
+
+  return createPortal(
+    <div
+      className="pointer-events-none fixed overflow-hidden rounded-xl border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface px-4 py-3 shadow-overlay animate-fade-in"
+      style={{ top, left, width: WIDTH, maxHeight: MAX_HEIGHT, zIndex: 9999 }}
+    >
+      <Markdown source={source} className="text-xs" />
+    </div>,
+    document.body
+  );
+}
@@ -10,36 +10,71 @@ import {
   type DragOverEvent,
 } from "@dnd-kit/core";
 import { arrayMove } from "@dnd-kit/sortable";
-import type { Task, TaskStatus } from "../types";
-import { STATUS_COLUMNS } from "../types";
+import type { Task, TaskSort, TaskStatus, WipPolicy, WorkflowColumn } from "../types";
 import { KanbanColumn } from "./KanbanColumn";
 import { TaskCardInner } from "./TaskCard";
 import { collisionDetection } from "../utils";
+import { isOverWipLimit } from "../workflow";
+import { DEFAULT_SORT, compareTasks } from "../filters";
+import type { SelectModifiers } from "../hooks/useTaskSelection";
+
+type WipNotice = { label: string; limit: number };
 
 export function KanbanBoard({
   tasks,
+  taskCounts,
+  columns,
+  wipPolicy = "warn",
+  sort = DEFAULT_SORT,
   onEditTask,
+  onMoveTask,
   onDeleteTask,
   onAddTask,
   onReorder,
+  selectedIds,
+  focusedId,
+  onSelectTask,
+  onMoveMany,
 }: {
   tasks: Task[];
+  /** Tasks per status before filtering; WIP limits count these rather than the cards shown. */
+  taskCounts?: Record<string, number>;
+  columns: WorkflowColumn[];
+  wipPolicy?: WipPolicy;
+  sort?: TaskSort;
   onEditTask?: (t: Task) => void;
+  onMoveTask?: (t: Task) => void;
   onDeleteTask?: (t: Task) => void;
   onAddTask?: (status: TaskStatus) => void;
   onReorder?: (taskId: string, newStatus: TaskStatus, newIndex: number) => void;
+  selectedIds?: Set<string>;
+  /** Task the keyboard is on; kept scrolled into view. */
+  focusedId?: string | null;
+  onSelectTask?: (taskId: string, orderedIds: string[], mods: SelectModifiers) => void;
+  /** Drop of several selected cards; they land together at `newIndex` in on-screen order. */
+  onMoveMany?: (taskIds: string[], newStatus: TaskStatus, newIndex: number) => void;
 }) {
   const [activeTask, setActiveTask] = useState<Task | null>(null);
+  const [dragGroup, setDragGroup] = useState<string[] | null>(null);
   const [activeWidth, setActiveWidth] = useState<number | null>(null);
+  const [wipNotice, setWipNotice] = useState<WipNotice | null>(null);
+
+  useEffect(() => {
+    if (!wipNotice) return;
+    const timer = setTimeout(() => setWipNotice(null), 5000);
+    return () => clearTimeout(timer);
+  }, [wipNotice]);
 
   const baseByStatus = useMemo(() => {
-    const map: Record<TaskStatus, Task[]> = { backlog: [], todo: [], in_progress: [], done: [] };
-    for (const t of tasks) map[t.status].push(t);
+    const map: Record<TaskStatus, Task[]> = {};
+    for (const c of columns) map[c.key] = [];
+    // Tasks whose status is not in the workflow land in the first column.
+    for (const t of tasks) (map[t.status] ?? map[columns[0].key])?.push(t);
     for (const key of Object.keys(map) as TaskStatus[]) {
-      map[key].sort((a, b) => a.order - b.order);
+      map[key].sort(compareTasks(sort));
     }
     return map;
-  }, [tasks]);
+  }, [tasks, columns, sort]);
 
   const [liveColumns, setLiveColumns] = useState(baseByStatus);
   const lastOverIdRef = useRef<string | null>(null);
@@ -48,8 +83,15 @@ export function KanbanBoard({
     setLiveColumns(baseByStatus);
   }, [baseByStatus]);
 
+  useEffect(() => {
+    if (!focusedId) return;
+    document
+      .querySelector(`[data-task-id="${CSS.escape(focusedId)}"]`)
+      ?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }, [focusedId]);
+
   const pointerSensor = useSensor(PointerSensor, { activationConstraint: { distance: 5 } });
-  const sensors = useSensors(onReorder ? pointerSensor : undefined);
+  const sensors = useSensors(onReorder && sort.field === "manual" ? pointerSensor : undefined);
 
   function findColumn(cols: Record<TaskStatus, Task[]>, id: string): TaskStatus | null {
     if (typeof id === "string" && id.startsWith("column-"))
@@ -59,13 +101,40 @@ export function KanbanBoard({
     return null;
   }
 
+  /** Tasks in a column, hidden ones included, with the drag in progress applied. */
+  function columnCount(status: TaskStatus): number {
+    const shown = baseByStatus[status]?.length ?? 0;
+    return (taskCounts?.[status] ?? shown) + (liveColumns[status]?.length ?? 0) - shown;
+  }
+
+  const orderedIds = useMemo(
+    () => columns.flatMap((c) => (liveColumns[c.key] ?? []).map((t) => t.id)),
+    [columns, liveColumns]
+  );
+
   function handleDragStart(event: DragStartEvent) {
     document.body.classList.add("is-dragging");
     lastOverIdRef.current = null;
-    const task = tasks.find((t) => t.id === event.active.id);
+    const activeId = event.active.id as string;
+    const task = tasks.find((t) => t.id === activeId);
     setActiveTask(task ?? null);
-    const el = document.querySelector(`[data-task-id="${event.active.id}"]`);
+    const el = document.querySelector(`[data-task-id="${activeId}"]`);
     setActiveWidth(el instanceof HTMLElement ? el.getBoundingClientRect().width : null);
+
+    // Dragging a selected card carries the rest of the selection; the others leave their columns meanwhile.
+    if (onMoveMany && selectedIds && selectedIds.size > 1 && selectedIds.has(activeId)) {
+      const group = orderedIds.filter((id) => selectedIds.has(id));
+      setDragGroup(group);
+      setLiveColumns((prev) => {
+        const next: Record<TaskStatus, Task[]> = {};
+        for (const [status, items] of Object.entries(prev)) {
+          next[status] = items.filter((t) => t.id === activeId || !selectedIds.has(t.id));
+        }
+        return next;
+      });
+    } else {
+      setDragGroup(null);
+    }
   }
 
   function handleDragOver(event: DragOverEvent) {
@@ -112,6 +181,8 @@ export function KanbanBoard({
     lastOverIdRef.current = null;
     const { active, over } = event;
     setActiveTask(null);
+    const group = dragGroup;
+    setDragGroup(null);
 
     if (!over) {
       setLiveColumns(baseByStatus);
@@ -133,13 +204,27 @@ export function KanbanBoard({
 
     if (!finalStatus) return;
 
-    onReorder?.(activeId, finalStatus, finalIndex);
+    // Only moves into a different column can push it over its WIP limit. A full column that blocks
+    // moves puts the cards straight back; warnings are left to onReorder / onMoveMany.
+    const column = columns.find((c) => c.key === finalStatus);
+    const movedIds = group ?? [activeId];
+    const movesIn = tasks.some((t) => movedIds.includes(t.id) && t.status !== finalStatus);
+    const count = columnCount(finalStatus) + movedIds.length - 1;
+    if (column && movesIn && wipPolicy === "block" && isOverWipLimit(column, count)) {
+      setWipNotice({ label: column.label, limit: column.wipLimit! });
+      setLiveColumns(baseByStatus);
+      return;
+    }
+
+    if (group) onMoveMany?.(group, finalStatus, finalIndex);
+    else onReorder?.(activeId, finalStatus, finalIndex);
   }
 
   function handleDragCancel() {
     document.body.classList.remove("is-dragging");
     lastOverIdRef.current = null;
     setActiveTask(null);
+    setDragGroup(null);
     setLiveColumns(baseByStatus);
   }
 
@@ -152,18 +237,33 @@ export function KanbanBoard({
       onDragEnd={handleDragEnd}
       onDragCancel={handleDragCancel}
     >
+      {wipNotice && (
+        <div className="mb-3 flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 animate-fade-in dark:border-red-900/60 dark:bg-red-950/40 dark:text-red-200">
+          <span className="flex-1">{`Move blocked: "${wipNotice.label}" is limited to ${wipNotice.limit} tasks.`}</span>
+          <button onClick={() => setWipNotice(null)} className="font-medium opacity-70 hover:opacity-100">
+            Dismiss
+          </button>
+        </div>
+      )}
       <div className="min-w-0 overflow-x-auto kanban-scroll">
         <div className="flex gap-4 pb-4 w-max min-w-full lg:w-full">
-          {STATUS_COLUMNS.map((col) => (
+          {columns.map((col) => (
             <div key={col.key} className="min-w-[272px] w-[272px] shrink-0 lg:min-w-0 lg:w-auto lg:flex-1">
               <KanbanColumn
                 status={col.key}
                 label={col.label}
                 icon={col.icon}
-                tasks={liveColumns[col.key]}
+                color={col.color}
+                wipLimit={col.wipLimit}
+                count={columnCount(col.key)}
+                tasks={liveColumns[col.key] ?? []}
                 activeTaskId={activeTask?.id ?? null}
+                selectedIds={selectedIds}
+                focusedId={focusedId}
+                onSelectTask={onSelectTask ? (t, e) => onSelectTask(t.id, orderedIds, e) : undefined}
                 onAddTask={onAddTask ? () => onAddTask(col.key) : undefined}
                 onEditTask={onEditTask}
+                onMoveTask={onMoveTask}
                 onDeleteTask={onDeleteTask}
               />
             </div>
@@ -173,7 +273,7 @@ export function KanbanBoard({
       <DragOverlay dropAnimation={{ duration: 200, easing: "ease" }}>
         {activeTask ? (
           <div style={activeWidth ? { width: activeWidth } : { width: 280 }}>
-            <TaskCardInner task={activeTask} onEdit={() => {}} onDelete={() => {}} overlay />
+            <TaskCardInner task={activeTask} onEdit={() => {}} onDelete={() => {}} overlay stackCount={dragGroup?.length} />
           </div>
         ) : null}
       </DragOverlay>
@@ -1,6 +1,7 @@
 import { useDroppable } from "@dnd-kit/core";
 import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
 import type { Task, TaskStatus } from "../types";
+import { cn } from "../utils";
 import { IconPlus } from "../icons";
 import { SortableTaskCard } from "./TaskCard";
 
@@ -8,37 +9,68 @@ export function KanbanColumn({
   status,
   label,
   icon,
+  color,
+  wipLimit,
+  count,
   tasks,
   activeTaskId,
+  selectedIds,
+  focusedId,
+  onSelectTask,
   onAddTask,
   onEditTask,
+  onMoveTask,
   onDeleteTask,
 }: {
   status: TaskStatus;
   label: string;
   icon: string;
+  color: string;
+  wipLimit?: number;
+  /** Tasks in the column, including ones the filters hide; defaults to the cards shown. */
+  count?: number;
   tasks: Task[];
   activeTaskId: string | null;
+  selectedIds?: Set<string>;
+  focusedId?: string | null;
+  onSelectTask?: (t: Task, e: React.MouseEvent) => void;
   onAddTask?: () => void;
   onEditTask?: (t: Task) => void;
+  onMoveTask?: (t: Task) => void;
   onDeleteTask?: (t: Task) => void;
 }) {
   const { setNodeRef } = useDroppable({
     id: `column-${status}`,
     data: { type: "column", status },
   });
+  const total = count ?? tasks.length;
+  const overLimit = wipLimit !== undefined && total > wipLimit;
+  const atLimit = wipLimit !== undefined && total === wipLimit;
 
   return (
     <div
       ref={setNodeRef}
-      className="flex h-full min-w-0 flex-1 flex-col rounded-2xl border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised"
+      className={cn(
+        "flex h-full min-w-0 flex-1 flex-col rounded-2xl border bg-raised dark:bg-dark-raised transition-colors",
+        overLimit ? "border-red-300 dark:border-red-800 bg-red-50/40 dark:bg-red-950/20" : "border-gray-200 dark:border-dark-border"
+      )}
     >
       <div className="flex items-center justify-between px-3.5 py-3">
         <div className="flex items-center gap-2">
-          <span className="text-xs">{icon}</span>
+          <span className="text-xs" style={{ color }}>{icon}</span>
           <span className="text-xs font-semibold text-gray-800 dark:text-gray-100">{label}</span>
-          <span className="flex h-5 min-w-[20px] items-center justify-center rounded-full bg-gray-200/80 dark:bg-dark-border px-1.5 text-2xs font-semibold text-gray-500 dark:text-gray-400">
-            {tasks.length}
+          <span
+            className={cn(
+              "flex h-5 min-w-[20px] items-center justify-center rounded-full px-1.5 text-2xs font-semibold",
+              overLimit
+                ? "bg-red-100 text-red-700 dark:bg-red-950/60 dark:text-red-300"
+                : atLimit
+                  ? "bg-amber-100 text-amber-700 dark:bg-amber-950/60 dark:text-amber-300"
+                  : "bg-gray-200/80 dark:bg-dark-border text-gray-500 dark:text-gray-400"
+            )}
+            title={wipLimit !== undefined ? `WIP limit: ${wipLimit}` : undefined}
+          >
+            {wipLimit !== undefined ? `${total}/${wipLimit}` : tasks.length}
           </span>
         </div>
         {onAddTask && (
@@ -58,7 +90,11 @@ export function KanbanColumn({
               key={t.id}
               task={t}
               isActive={t.id === activeTaskId}
+              selected={selectedIds?.has(t.id)}
+              focused={t.id === focusedId}
+              onSelect={onSelectTask ? (e) => onSelectTask(t, e) : undefined}
               onEdit={onEditTask ? () => onEditTask(t) : undefined}
+              onMove={onMoveTask ? () => onMoveTask(t) : undefined}
               onDelete={onDeleteTask ? () => onDeleteTask(t) : undefined}
             />
           ))}
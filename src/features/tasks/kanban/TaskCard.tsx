@@ -1,20 +1,34 @@
+import { useEffect, useRef, useState } from "react";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import type { Task } from "../types";
-import { IconGrip, IconEdit, IconTrash } from "../icons";
-import { PriorityBadge, Avatar, Tag } from "../ui";
+import { IconGrip, IconEdit, IconTrash, IconMove } from "../icons";
+import { PriorityBadge, Tag, SubtaskProgress, DueBadge, AssigneeList, BlockedBadge, RecurrenceBadge, AttachmentBadge, AttachmentThumb } from "../ui";
 import { stopProp } from "../utils";
 import { cn } from "../utils";
+import { markdownToPlainText } from "../markdown";
+import { isImageAttachment } from "../attachments";
+import { DescriptionPreview } from "./DescriptionPreview";
+
+const PREVIEW_DELAY_MS = 600;
 
 export function SortableTaskCard({
   task,
   isActive,
+  selected,
+  focused,
+  onSelect,
   onEdit,
+  onMove,
   onDelete,
 }: {
   task: Task;
   isActive?: boolean;
+  selected?: boolean;
+  focused?: boolean;
+  onSelect?: (e: React.MouseEvent) => void;
   onEdit?: () => void;
+  onMove?: () => void;
   onDelete?: () => void;
 }) {
   const { attributes, listeners, setNodeRef, transform, transition } = useSortable({ id: task.id });
@@ -27,31 +41,81 @@ export function SortableTaskCard({
 
   return (
     <div ref={setNodeRef} style={style} data-task-id={task.id}>
-      <TaskCardInner task={task} onEdit={onEdit} onDelete={onDelete} dragProps={{ ...attributes, ...listeners }} />
+      <TaskCardInner
+        task={task}
+        selected={selected}
+        focused={focused}
+        onSelect={onSelect}
+        onEdit={onEdit}
+        onMove={onMove}
+        onDelete={onDelete}
+        dragProps={{ ...attributes, ...listeners }}
+      />
     </div>
   );
 }
 
 export function TaskCardInner({
   task,
+  selected,
+  focused,
+  onSelect,
   onEdit,
+  onMove,
   onDelete,
   dragProps,
   overlay,
+  stackCount,
 }: {
   task: Task;
+  selected?: boolean;
+  /** The card j/k keyboard navigation is on. */
+  focused?: boolean;
+  onSelect?: (e: React.MouseEvent) => void;
   onEdit?: () => void;
+  /** Opens the move / duplicate dialog. */
+  onMove?: () => void;
   onDelete?: () => void;
   dragProps?: Record<string, unknown>;
   overlay?: boolean;
+  /** Number of cards being dragged together; shown as a badge on the overlay. */
+  stackCount?: number;
 }) {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const previewTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [previewAt, setPreviewAt] = useState<DOMRect | null>(null);
+  const cover = task.attachments?.find(isImageAttachment);
+
+  function hidePreview() {
+    if (previewTimer.current) clearTimeout(previewTimer.current);
+    previewTimer.current = null;
+    setPreviewAt(null);
+  }
+
+  useEffect(() => hidePreview, []);
+
   return (
     <div
+      ref={cardRef}
+      onClick={onSelect}
+      onMouseEnter={() => {
+        if (!task.description || overlay) return;
+        previewTimer.current = setTimeout(() => setPreviewAt(cardRef.current?.getBoundingClientRect() ?? null), PREVIEW_DELAY_MS);
+      }}
+      onMouseLeave={hidePreview}
+      onMouseDown={hidePreview}
       className={cn(
-        "group rounded-xl border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface p-3.5 transition-all hover:shadow-lifted hover:border-gray-300",
+        "group relative rounded-xl border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface p-3.5 transition-all hover:shadow-lifted hover:border-gray-300",
+        selected && "border-accent/60 ring-2 ring-accent/30 hover:border-accent/60",
+        focused && "ring-2 ring-accent ring-offset-2 ring-offset-raised dark:ring-offset-dark-raised",
         overlay && "shadow-lifted ring-2 ring-accent/25 border-accent/30"
       )}
     >
+      {stackCount !== undefined && stackCount > 1 && (
+        <span className="absolute -right-2 -top-2 flex h-5 min-w-[20px] items-center justify-center rounded-full bg-accent px-1.5 text-2xs font-semibold text-white shadow-card">
+          {stackCount}
+        </span>
+      )}
       <div className="flex items-start gap-2">
         <button
           className="mt-0.5 shrink-0 cursor-grab rounded p-0.5 text-gray-300 hover:text-gray-500 active:cursor-grabbing"
@@ -62,13 +126,18 @@ export function TaskCardInner({
         <div className="min-w-0 flex-1">
           <div className="flex items-start justify-between gap-2">
             <p className="text-sm font-medium text-gray-900 dark:text-gray-100 leading-snug select-none sm:select-text">{task.title}</p>
-            {(onEdit || onDelete) && (
+            {(onEdit || onMove || onDelete) && (
               <div className="flex shrink-0 items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity" onClick={stopProp}>
                 {onEdit && (
                   <button onClick={onEdit} className="rounded p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600 dark:hover:text-gray-200">
                     <IconEdit className="h-3 w-3" />
                   </button>
                 )}
+                {onMove && (
+                  <button onClick={onMove} className="rounded p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600 dark:hover:text-gray-200" title="Move or duplicate">
+                    <IconMove className="h-3 w-3" />
+                  </button>
+                )}
                 {onDelete && (
                   <button onClick={onDelete} className="rounded p-1 text-gray-400 hover:bg-red-50 dark:hover:bg-red-500/20 hover:text-red-500 dark:hover:text-red-400">
                     <IconTrash className="h-3 w-3" />
@@ -78,16 +147,22 @@ export function TaskCardInner({
             )}
           </div>
           {task.description && (
-            <p className="mt-1 text-xs text-gray-500 line-clamp-2 leading-relaxed">{task.description}</p>
+            <p className="mt-1 text-xs text-gray-500 line-clamp-2 leading-relaxed">{markdownToPlainText(task.description)}</p>
           )}
+          {previewAt && task.description && <DescriptionPreview anchor={previewAt} source={task.description} />}
+          {cover && <AttachmentThumb attachment={cover} className="mt-2.5 h-28 rounded-lg" />}
           <div className="mt-2.5 flex flex-wrap items-center gap-1.5">
             <PriorityBadge priority={task.priority} />
+            <BlockedBadge task={task} />
+            <DueBadge task={task} />
+            <RecurrenceBadge task={task} />
+            <SubtaskProgress subtasks={task.subtasks} />
+            <AttachmentBadge task={task} />
             {task.tags?.slice(0, 3).map((t) => <Tag key={t}>{t}</Tag>)}
           </div>
-          {task.assignee && (
-            <div className="mt-2.5 flex items-center gap-1.5">
-              <Avatar initials={task.assignee.initials} color={task.assignee.color} />
-              <span className="text-2xs text-gray-500 dark:text-gray-400">{task.assignee.name}</span>
+          {(task.assignee || (task.assigneeIds && task.assigneeIds.length > 0)) && (
+            <div className="mt-2.5">
+              <AssigneeList task={task} />
             </div>
           )}
         </div>
@@ -1,31 +1,37 @@
 import type { Task } from "../types";
 import { IconGrip } from "../icons";
-import { PriorityBadge, Avatar, Tag } from "../ui";
+import { PriorityBadge, Tag, SubtaskProgress, DueBadge, AssigneeList, BlockedBadge } from "../ui";
+import { markdownToPlainText } from "../markdown";
 
-export function ListOverlayRow({ task }: { task: Task }) {
+export function ListOverlayRow({ task, stackCount }: { task: Task; stackCount?: number }) {
   return (
-    <div className="rounded-xl border border-accent/30 bg-white dark:bg-dark-surface px-4 py-3 shadow-lifted ring-2 ring-accent/20">
+    <div className="relative rounded-xl border border-accent/30 bg-white dark:bg-dark-surface px-4 py-3 shadow-lifted ring-2 ring-accent/20">
+      {stackCount !== undefined && stackCount > 1 && (
+        <span className="absolute -right-2 -top-2 flex h-5 min-w-[20px] items-center justify-center rounded-full bg-accent px-1.5 text-2xs font-semibold text-white shadow-card">
+          {stackCount}
+        </span>
+      )}
       <div className="hidden sm:grid sm:grid-cols-[20px_1fr_100px_140px_80px] sm:items-center sm:gap-3">
         <IconGrip className="h-3.5 w-3.5 text-gray-400" />
         <div className="min-w-0">
           <p className="truncate text-sm font-medium text-gray-900 dark:text-gray-100">{task.title}</p>
-          {task.description && <p className="mt-0.5 truncate text-xs text-gray-500 dark:text-gray-400">{task.description}</p>}
-          {task.tags && task.tags.length > 0 && (
+          {task.description && <p className="mt-0.5 truncate text-xs text-gray-500 dark:text-gray-400">{markdownToPlainText(task.description)}</p>}
+          {(task.due || (task.tags && task.tags.length > 0) || (task.subtasks && task.subtasks.length > 0) || (task.blockedBy && task.blockedBy.length > 0)) && (
             <div className="mt-1.5 flex flex-wrap gap-1">
-              {task.tags.slice(0, 3).map((tag) => <Tag key={tag}>{tag}</Tag>)}
+              <BlockedBadge task={task} />
+              <DueBadge task={task} />
+              <SubtaskProgress subtasks={task.subtasks} />
+              {task.tags?.slice(0, 3).map((tag) => <Tag key={tag}>{tag}</Tag>)}
             </div>
           )}
         </div>
         <div><PriorityBadge priority={task.priority} /></div>
         <div>
-          {task.assignee ? (
-            <div className="flex items-center gap-1.5">
-              <Avatar initials={task.assignee.initials} color={task.assignee.color} />
-              <span className="truncate text-xs text-gray-600 dark:text-gray-400">{task.assignee.name}</span>
-            </div>
-          ) : (
-            <span className="text-xs text-gray-400">Unassigned</span>
-          )}
+          <AssigneeList
+            task={task}
+            nameClassName="text-xs text-gray-600 dark:text-gray-400"
+            fallback={<span className="text-xs text-gray-400">Unassigned</span>}
+          />
         </div>
         <div />
       </div>
@@ -33,16 +39,16 @@ export function ListOverlayRow({ task }: { task: Task }) {
         <IconGrip className="h-3.5 w-3.5 mt-0.5 text-gray-400 shrink-0" />
         <div className="min-w-0 flex-1">
           <p className="text-sm font-medium text-gray-900 dark:text-gray-100 line-clamp-2">{task.title}</p>
-          {task.description && <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 line-clamp-1">{task.description}</p>}
+          {task.description && <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 line-clamp-1">{markdownToPlainText(task.description)}</p>}
           <div className="mt-2 flex flex-wrap items-center gap-1.5">
             <PriorityBadge priority={task.priority} />
+            <BlockedBadge task={task} />
+            <DueBadge task={task} />
+            <SubtaskProgress subtasks={task.subtasks} />
             {task.tags?.slice(0, 2).map((tag) => <Tag key={tag}>{tag}</Tag>)}
-            {task.assignee && (
-              <div className="flex items-center gap-1 ml-auto">
-                <Avatar initials={task.assignee.initials} color={task.assignee.color} />
-                <span className="text-2xs text-gray-500">{task.assignee.name}</span>
-              </div>
-            )}
+            <div className="ml-auto">
+              <AssigneeList task={task} nameClassName="text-2xs text-gray-500" />
+            </div>
           </div>
         </div>
       </div>
@@ -7,17 +7,27 @@ export function ListStatusGroup({
   status,
   label,
   icon,
+  color,
   tasks,
   activeTaskId,
+  selectedIds,
+  focusedId,
+  onSelectTask,
   onEditTask,
+  onMoveTask,
   onDeleteTask,
 }: {
   status: TaskStatus;
   label: string;
   icon: string;
+  color: string;
   tasks: Task[];
   activeTaskId: string | null;
+  selectedIds?: Set<string>;
+  focusedId?: string | null;
+  onSelectTask?: (t: Task, e: React.MouseEvent) => void;
   onEditTask?: (t: Task) => void;
+  onMoveTask?: (t: Task) => void;
   onDeleteTask?: (t: Task) => void;
 }) {
   const { setNodeRef } = useDroppable({
@@ -31,7 +41,7 @@ export function ListStatusGroup({
       className="overflow-hidden rounded-2xl border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface"
     >
       <div className="flex items-center gap-2 border-b border-gray-100 dark:border-dark-border bg-raised dark:bg-dark-raised px-4 py-2.5">
-        <span className="text-xs">{icon}</span>
+        <span className="text-xs" style={{ color }}>{icon}</span>
         <span className="text-xs font-semibold text-gray-800 dark:text-gray-100">{label}</span>
         <span className="flex h-5 min-w-[20px] items-center justify-center rounded-full bg-gray-200/80 dark:bg-dark-border px-1.5 text-2xs font-semibold text-gray-500 dark:text-gray-400">
           {tasks.length}
@@ -44,7 +54,11 @@ export function ListStatusGroup({
               key={t.id}
               task={t}
               isActive={t.id === activeTaskId}
+              selected={selectedIds?.has(t.id)}
+              focused={t.id === focusedId}
+              onSelect={onSelectTask ? (e) => onSelectTask(t, e) : undefined}
               onEdit={onEditTask ? () => onEditTask(t) : undefined}
+              onMove={onMoveTask ? () => onMoveTask(t) : undefined}
               onDelete={onDeleteTask ? () => onDeleteTask(t) : undefined}
             />
           ))}
@@ -10,43 +10,83 @@ import {
   type DragOverEvent,
 } from "@dnd-kit/core";
 import { arrayMove } from "@dnd-kit/sortable";
-import type { Task, TaskStatus } from "../types";
-import { STATUS_COLUMNS } from "../types";
+import type { Task, TaskSort, TaskStatus, WorkflowColumn } from "../types";
 import { IconFolder } from "../icons";
 import { ListStatusGroup } from "./ListStatusGroup";
 import { ListOverlayRow } from "./ListOverlayRow";
-import { collisionDetection } from "../utils";
+import { cn, collisionDetection } from "../utils";
+import { DEFAULT_SORT, compareTasks } from "../filters";
+import type { SelectModifiers } from "../hooks/useTaskSelection";
+
+type Lasso = { x0: number; y0: number; x1: number; y1: number };
+
+/** Pointer travel (px) before a press on a row turns into a lasso. */
+const LASSO_THRESHOLD = 5;
 
 export function ListView({
   tasks,
+  columns,
+  sort = DEFAULT_SORT,
+  filtered,
   onEditTask,
+  onMoveTask,
   onDeleteTask,
   onReorder,
+  selectedIds,
+  focusedId,
+  onSelectTask,
+  onLassoSelect,
+  onMoveMany,
 }: {
   tasks: Task[];
+  columns: WorkflowColumn[];
+  sort?: TaskSort;
+  filtered?: boolean;
   onEditTask?: (t: Task) => void;
+  onMoveTask?: (t: Task) => void;
   onDeleteTask?: (t: Task) => void;
   onReorder?: (taskId: string, newStatus: TaskStatus, newIndex: number) => void;
+  selectedIds?: Set<string>;
+  /** Task the keyboard is on; kept scrolled into view. */
+  focusedId?: string | null;
+  onSelectTask?: (taskId: string, orderedIds: string[], mods: SelectModifiers) => void;
+  onLassoSelect?: (taskIds: string[], additive: boolean) => void;
+  /** Drop of several selected rows; they land together at `newIndex` in on-screen order. */
+  onMoveMany?: (taskIds: string[], newStatus: TaskStatus, newIndex: number) => void;
 }) {
   const [activeTask, setActiveTask] = useState<Task | null>(null);
+  const [dragGroup, setDragGroup] = useState<string[] | null>(null);
+  const [lasso, setLasso] = useState<Lasso | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // The click that ends a lasso must not also count as a plain click on a row.
+  const suppressClickRef = useRef(false);
   const [activeWidth, setActiveWidth] = useState<number | null>(null);
 
   const baseByStatus = useMemo(() => {
-    const map: Record<TaskStatus, Task[]> = { backlog: [], todo: [], in_progress: [], done: [] };
-    for (const t of tasks) map[t.status].push(t);
+    const map: Record<TaskStatus, Task[]> = {};
+    for (const c of columns) map[c.key] = [];
+    // Tasks whose status is not in the workflow land in the first column.
+    for (const t of tasks) (map[t.status] ?? map[columns[0].key])?.push(t);
     for (const key of Object.keys(map) as TaskStatus[]) {
-      map[key].sort((a, b) => a.order - b.order);
+      map[key].sort(compareTasks(sort));
     }
     return map;
-  }, [tasks]);
+  }, [tasks, columns, sort]);
 
   const [liveColumns, setLiveColumns] = useState(baseByStatus);
   const lastOverIdRef = useRef<string | null>(null);
   useEffect(() => { setLiveColumns(baseByStatus); }, [baseByStatus]);
 
+  useEffect(() => {
+    if (!focusedId) return;
+    containerRef.current
+      ?.querySelector(`[data-task-id="${CSS.escape(focusedId)}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [focusedId]);
+
   const pointerSensor = useSensor(PointerSensor, { activationConstraint: { distance: 5 } });
-  const sensors = useSensors(onReorder ? pointerSensor : undefined
-  );
+  // Manual ordering only makes sense when rows are shown in their stored order.
+  const sensors = useSensors(onReorder && sort.field === "manual" ? pointerSensor : undefined);
 
   function findColumn(cols: Record<TaskStatus, Task[]>, id: string): TaskStatus | null {
     if (typeof id === "string" && id.startsWith("list-group-"))
@@ -95,13 +135,32 @@ export function ListView({
     });
   }
 
+  const orderedIds = useMemo(
+    () => columns.flatMap((c) => (liveColumns[c.key] ?? []).map((t) => t.id)),
+    [columns, liveColumns]
+  );
+
   function handleDragStart(event: DragStartEvent) {
     document.body.classList.add("is-dragging");
     lastOverIdRef.current = null;
-    const task = tasks.find((t) => t.id === event.active.id);
+    const activeId = event.active.id as string;
+    const task = tasks.find((t) => t.id === activeId);
     setActiveTask(task ?? null);
-    const el = document.querySelector(`[data-task-id="${event.active.id}"]`);
+    const el = document.querySelector(`[data-task-id="${activeId}"]`);
     setActiveWidth(el instanceof HTMLElement ? el.getBoundingClientRect().width : null);
+
+    if (onMoveMany && selectedIds && selectedIds.size > 1 && selectedIds.has(activeId)) {
+      setDragGroup(orderedIds.filter((id) => selectedIds.has(id)));
+      setLiveColumns((prev) => {
+        const next: Record<TaskStatus, Task[]> = {};
+        for (const [status, items] of Object.entries(prev)) {
+          next[status] = items.filter((t) => t.id === activeId || !selectedIds.has(t.id));
+        }
+        return next;
+      });
+    } else {
+      setDragGroup(null);
+    }
   }
 
   function handleDragEnd(event: DragEndEvent) {
@@ -109,11 +168,16 @@ export function ListView({
     lastOverIdRef.current = null;
     const { active, over } = event;
     setActiveTask(null);
+    const group = dragGroup;
+    setDragGroup(null);
     if (!over) { setLiveColumns(baseByStatus); return; }
     const activeId = active.id as string;
     for (const [status, items] of Object.entries(liveColumns)) {
       const idx = items.findIndex((t) => t.id === activeId);
-      if (idx !== -1) { onReorder?.(activeId, status as TaskStatus, idx); return; }
+      if (idx === -1) continue;
+      if (group) onMoveMany?.(group, status as TaskStatus, idx);
+      else onReorder?.(activeId, status as TaskStatus, idx);
+      return;
     }
   }
 
@@ -121,15 +185,68 @@ export function ListView({
     document.body.classList.remove("is-dragging");
     lastOverIdRef.current = null;
     setActiveTask(null);
+    setDragGroup(null);
     setLiveColumns(baseByStatus);
   }
 
+  function handleSelectRow(t: Task, e: React.MouseEvent) {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    onSelectTask?.(t.id, orderedIds, e);
+  }
+
+  function handleLassoStart(e: React.MouseEvent<HTMLDivElement>) {
+    const container = containerRef.current;
+    if (!onLassoSelect || !container || e.button !== 0) return;
+    if ((e.target as HTMLElement).closest("button, a, input, textarea, select")) return;
+    const additive = e.shiftKey || e.metaKey || e.ctrlKey;
+    const origin = container.getBoundingClientRect();
+    const x0 = e.clientX - origin.left;
+    const y0 = e.clientY - origin.top;
+    let active = false;
+
+    function onMove(ev: MouseEvent) {
+      const x1 = ev.clientX - origin.left;
+      const y1 = ev.clientY - origin.top;
+      if (!active && Math.hypot(x1 - x0, y1 - y0) < LASSO_THRESHOLD) return;
+      active = true;
+      window.getSelection()?.removeAllRanges();
+      setLasso({ x0, y0, x1, y1 });
+      const left = Math.min(x0, x1) + origin.left;
+      const right = Math.max(x0, x1) + origin.left;
+      const top = Math.min(y0, y1) + origin.top;
+      const bottom = Math.max(y0, y1) + origin.top;
+      const hits: string[] = [];
+      container!.querySelectorAll<HTMLElement>("[data-task-id]").forEach((el) => {
+        const r = el.getBoundingClientRect();
+        if (r.right >= left && r.left <= right && r.bottom >= top && r.top <= bottom) hits.push(el.dataset.taskId!);
+      });
+      onLassoSelect!(hits, additive);
+    }
+
+    function onUp() {
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("mouseup", onUp);
+      if (active) {
+        suppressClickRef.current = true;
+        // A lasso that ends outside any row produces no click to swallow.
+        setTimeout(() => { suppressClickRef.current = false; }, 0);
+      }
+      setLasso(null);
+    }
+
+    window.addEventListener("mousemove", onMove);
+    window.addEventListener("mouseup", onUp);
+  }
+
   if (tasks.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center rounded-xl border border-dashed border-gray-300 dark:border-dark-border py-16 text-gray-400">
         <IconFolder className="mb-3 h-8 w-8" />
-        <p className="text-sm font-medium">No tasks yet</p>
-        <p className="mt-1 text-xs">Create a task to get started</p>
+        <p className="text-sm font-medium">{filtered ? "No matching tasks" : "No tasks yet"}</p>
+        <p className="mt-1 text-xs">{filtered ? "Try changing the filters or search" : "Create a task to get started"}</p>
       </div>
     );
   }
@@ -143,16 +260,36 @@ export function ListView({
       onDragEnd={handleDragEnd}
       onDragCancel={handleDragCancel}
     >
-      <div className="space-y-4">
-        {STATUS_COLUMNS.map((col) => (
+      <div
+        ref={containerRef}
+        onMouseDown={handleLassoStart}
+        className={cn("relative space-y-4", lasso && "select-none")}
+      >
+        {lasso && (
+          <div
+            className="pointer-events-none absolute z-10 rounded border border-accent/60 bg-accent/10"
+            style={{
+              left: Math.min(lasso.x0, lasso.x1),
+              top: Math.min(lasso.y0, lasso.y1),
+              width: Math.abs(lasso.x1 - lasso.x0),
+              height: Math.abs(lasso.y1 - lasso.y0),
+            }}
+          />
+        )}
+        {columns.map((col) => (
           <ListStatusGroup
             key={col.key}
             status={col.key}
             label={col.label}
             icon={col.icon}
-            tasks={liveColumns[col.key]}
+            color={col.color}
+            tasks={liveColumns[col.key] ?? []}
             activeTaskId={activeTask?.id ?? null}
+            selectedIds={selectedIds}
+            focusedId={focusedId}
+            onSelectTask={onSelectTask ? handleSelectRow : undefined}
             onEditTask={onEditTask}
+            onMoveTask={onMoveTask}
             onDeleteTask={onDeleteTask}
           />
         ))}
@@ -160,7 +297,7 @@ export function ListView({
       <DragOverlay dropAnimation={{ duration: 200, easing: "ease" }}>
         {activeTask ? (
           <div style={activeWidth ? { width: activeWidth } : undefined}>
-            <ListOverlayRow task={activeTask} />
+            <ListOverlayRow task={activeTask} stackCount={dragGroup?.length} />
           </div>
         ) : null}
       </DragOverlay>
@@ -1,18 +1,29 @@
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import type { Task } from "../types";
-import { IconGrip, IconEdit, IconTrash } from "../icons";
-import { PriorityBadge, Avatar, Tag } from "../ui";
+import { IconGrip, IconEdit, IconTrash, IconMove } from "../icons";
+import { PriorityBadge, Tag, SubtaskProgress, DueBadge, AssigneeList, BlockedBadge } from "../ui";
+import { markdownToPlainText } from "../markdown";
+import { cn, stopProp } from "../utils";
 
 export function SortableListRow({
   task,
   isActive,
+  selected,
+  focused,
+  onSelect,
   onEdit,
+  onMove,
   onDelete,
 }: {
   task: Task;
   isActive?: boolean;
+  selected?: boolean;
+  /** The row j/k keyboard navigation is on. */
+  focused?: boolean;
+  onSelect?: (e: React.MouseEvent) => void;
   onEdit?: () => void;
+  onMove?: () => void;
   onDelete?: () => void;
 }) {
   const { attributes, listeners, setNodeRef, transform, transition } = useSortable({ id: task.id });
@@ -28,7 +39,14 @@ export function SortableListRow({
       ref={setNodeRef}
       style={style}
       data-task-id={task.id}
-      className="group border-b border-gray-100 dark:border-dark-border bg-white dark:bg-dark-surface px-4 py-3 transition-colors hover:bg-gray-50 dark:hover:bg-dark-raised"
+      onClick={onSelect}
+      className={cn(
+        "group border-b border-gray-100 dark:border-dark-border px-4 py-3 transition-colors",
+        selected
+          ? "bg-accent/10 dark:bg-accent/15 hover:bg-accent/15"
+          : "bg-white dark:bg-dark-surface hover:bg-gray-50 dark:hover:bg-dark-raised",
+        focused && "ring-2 ring-inset ring-accent/60"
+      )}
     >
       <div className="hidden sm:grid sm:grid-cols-[20px_1fr_100px_140px_80px] sm:items-center sm:gap-3">
         <button
@@ -40,10 +58,13 @@ export function SortableListRow({
         </button>
         <div className="min-w-0">
           <p className="truncate text-sm font-medium text-gray-900 dark:text-gray-100">{task.title}</p>
-          {task.description && <p className="mt-0.5 truncate text-xs text-gray-500 dark:text-gray-400">{task.description}</p>}
-          {task.tags && task.tags.length > 0 && (
+          {task.description && <p className="mt-0.5 truncate text-xs text-gray-500 dark:text-gray-400">{markdownToPlainText(task.description)}</p>}
+          {(task.due || (task.tags && task.tags.length > 0) || (task.subtasks && task.subtasks.length > 0) || (task.blockedBy && task.blockedBy.length > 0)) && (
             <div className="mt-1.5 flex flex-wrap gap-1">
-              {task.tags.slice(0, 3).map((tag) => <Tag key={tag}>{tag}</Tag>)}
+              <BlockedBadge task={task} />
+              <DueBadge task={task} />
+              <SubtaskProgress subtasks={task.subtasks} />
+              {task.tags?.slice(0, 3).map((tag) => <Tag key={tag}>{tag}</Tag>)}
             </div>
           )}
         </div>
@@ -51,17 +72,14 @@ export function SortableListRow({
           <PriorityBadge priority={task.priority} />
         </div>
         <div>
-          {task.assignee ? (
-            <div className="flex items-center gap-1.5">
-              <Avatar initials={task.assignee.initials} color={task.assignee.color} />
-              <span className="truncate text-xs text-gray-600 dark:text-gray-400">{task.assignee.name}</span>
-            </div>
-          ) : (
-            <span className="text-xs text-gray-400">Unassigned</span>
-          )}
+          <AssigneeList
+            task={task}
+            nameClassName="text-xs text-gray-600 dark:text-gray-400"
+            fallback={<span className="text-xs text-gray-400">Unassigned</span>}
+          />
         </div>
-        {(onEdit || onDelete) && (
-          <div className="flex items-center justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        {(onEdit || onMove || onDelete) && (
+          <div className="flex items-center justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity" onClick={stopProp}>
             {onEdit && (
               <button
                 onClick={onEdit}
@@ -71,6 +89,15 @@ export function SortableListRow({
                 <IconEdit className="h-3.5 w-3.5" />
               </button>
             )}
+            {onMove && (
+              <button
+                onClick={onMove}
+                className="rounded-md p-1.5 text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600 dark:hover:text-gray-200"
+                title="Move or duplicate"
+              >
+                <IconMove className="h-3.5 w-3.5" />
+              </button>
+            )}
             {onDelete && (
               <button
                 onClick={onDelete}
@@ -94,23 +121,24 @@ export function SortableListRow({
         <div className="min-w-0 flex-1">
           <div className="flex items-start justify-between gap-2">
             <p className="text-sm font-medium text-gray-900 dark:text-gray-100 line-clamp-2">{task.title}</p>
-            {(onEdit || onDelete) && (
-              <div className="flex shrink-0 items-center gap-0.5">
+            {(onEdit || onMove || onDelete) && (
+              <div className="flex shrink-0 items-center gap-0.5" onClick={stopProp}>
                 {onEdit && <button onClick={onEdit} className="rounded-md p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600 dark:hover:text-gray-200"><IconEdit className="h-3.5 w-3.5" /></button>}
+                {onMove && <button onClick={onMove} className="rounded-md p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600 dark:hover:text-gray-200"><IconMove className="h-3.5 w-3.5" /></button>}
                 {onDelete && <button onClick={onDelete} className="rounded-md p-1 text-gray-400 hover:bg-red-50 dark:hover:bg-red-500/20 hover:text-red-500 dark:hover:text-red-400"><IconTrash className="h-3.5 w-3.5" /></button>}
               </div>
             )}
           </div>
-          {task.description && <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 line-clamp-1">{task.description}</p>}
+          {task.description && <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 line-clamp-1">{markdownToPlainText(task.description)}</p>}
           <div className="mt-2 flex flex-wrap items-center gap-1.5">
             <PriorityBadge priority={task.priority} />
+            <BlockedBadge task={task} />
+            <DueBadge task={task} />
+            <SubtaskProgress subtasks={task.subtasks} />
             {task.tags?.slice(0, 2).map((tag) => <Tag key={tag}>{tag}</Tag>)}
-            {task.assignee && (
-              <div className="flex items-center gap-1 ml-auto">
-                <Avatar initials={task.assignee.initials} color={task.assignee.color} />
-                <span className="text-2xs text-gray-500">{task.assignee.name}</span>
-              </div>
-            )}
+            <div className="ml-auto">
+              <AssigneeList task={task} nameClassName="text-2xs text-gray-500" />
+            </div>
           </div>
         </div>
       </div>
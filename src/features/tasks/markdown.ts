@@ -0,0 +1,249 @@
+/**
+ * The Markdown subset used in task descriptions.
+ *
+ * Blocks: headings, paragraphs, `-`/`*`/`+` and numbered lists (one level),
+ * `- [ ]` checkboxes, fenced code, `>` quotes and `---` rules. Inline: code,
+ * bold, italic, `[text](url)` and bare http(s) links, `#t-…` task references
+ * and `@name@example.com` mentions.
+ *
+ * The parser only builds a tree; it is rendered as React elements, never as
+ * HTML, so descriptions can't inject markup. Links keep to http(s), mailto and
+ * in-app paths.
+ */
+
+export type MdInline =
+  | { type: "text"; text: string }
+  | { type: "break" }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MdInline[] }
+  | { type: "em"; children: MdInline[] }
+  | { type: "link"; href: string; children: MdInline[] }
+  | { type: "taskRef"; id: string }
+  | { type: "mention"; email: string };
+
+export type MdListItem = {
+  children: MdInline[];
+  /** Set for `- [ ]` / `- [x]` items. */
+  checked?: boolean;
+  /** Source line of the item, for toggling its checkbox. */
+  line: number;
+};
+
+export type MdBlock =
+  | { type: "heading"; level: number; children: MdInline[] }
+  | { type: "paragraph"; children: MdInline[] }
+  | { type: "list"; ordered: boolean; start: number; items: MdListItem[] }
+  | { type: "code"; lang?: string; text: string }
+  | { type: "quote"; children: MdBlock[] }
+  | { type: "rule" };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const ORDERED = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s+(.*)$/;
+
+/** `#t-01J…` — only ids that look like task ids, so `#1` or `#todo` stay text. */
+export const TASK_REF = /(?<![\w#])#(t-[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)/g;
+
+const INLINE = new RegExp(
+  [
+    /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/.source, // 1, 2: code
+    /\*\*(?=\S)([\s\S]*?\S)\*\*/.source, // 3: bold
+    /(?<![\w_])__(?=\S)([\s\S]*?\S)__(?![\w_])/.source, // 4: bold
+    /\*(?=[^\s*])([\s\S]*?[^\s*])\*/.source, // 5: italic
+    /(?<![\w_])_(?=[^\s_])([\s\S]*?[^\s_])_(?![\w_])/.source, // 6: italic
+    /\[([^\]\n]+)\]\(\s*([^)\s]+)\s*\)/.source, // 7, 8: link
+    /(https?:\/\/[^\s<]*[^\s<.,:;!?"')\]])/.source, // 9: bare url
+    TASK_REF.source, // 10: task reference
+    /(?<![\w.+-])@([\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,})/.source, // 11: mention
+  ].join("|"),
+  "g"
+);
+
+/** The href to use for a link, or null when it isn't a kind of URL descriptions may link to. */
+export function safeHref(url: string): string | null {
+  const trimmed = url.trim();
+  if (/^(https?:|mailto:)/i.test(trimmed)) return trimmed;
+  if (/^\/(?!\/)/.test(trimmed) || trimmed.startsWith("#")) return trimmed;
+  return null;
+}
+
+export function parseInline(text: string): MdInline[] {
+  const out: MdInline[] = [];
+  const pushText = (s: string) => {
+    if (!s) return;
+    // A trailing backslash or two spaces before a newline are a hard break; other newlines are spaces.
+    const parts = s.split(/(?:\\| {2,})\n/);
+    parts.forEach((part, i) => {
+      if (i > 0) out.push({ type: "break" });
+      const flat = part.replace(/\s*\n\s*/g, " ");
+      if (!flat) return;
+      const last = out[out.length - 1];
+      if (last?.type === "text") last.text += flat;
+      else out.push({ type: "text", text: flat });
+    });
+  };
+
+  let pos = 0;
+  for (const m of text.matchAll(INLINE)) {
+    const index = m.index ?? 0;
+    pushText(text.slice(pos, index));
+    pos = index + m[0].length;
+    if (m[2] !== undefined) out.push({ type: "code", text: m[2].trim() || m[2] });
+    else if (m[3] !== undefined || m[4] !== undefined) out.push({ type: "strong", children: parseInline(m[3] ?? m[4]) });
+    else if (m[5] !== undefined || m[6] !== undefined) out.push({ type: "em", children: parseInline(m[5] ?? m[6]) });
+    else if (m[7] !== undefined) {
+      const href = safeHref(m[8]);
+      if (href) out.push({ type: "link", href, children: parseInline(m[7]) });
+      else pushText(m[7]);
+    } else if (m[9] !== undefined) out.push({ type: "link", href: m[9], children: [{ type: "text", text: m[9] }] });
+    else if (m[10] !== undefined) out.push({ type: "taskRef", id: m[10] });
+    else if (m[11] !== undefined) out.push({ type: "mention", email: m[11].toLowerCase() });
+  }
+  pushText(text.slice(pos));
+  return out;
+}
+
+function parseLines(lines: string[], offset: number): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !(FENCE.test(lines[i]) && lines[i].trim().startsWith(fence[1]))) body.push(lines[i++]);
+      i++; // closing fence (or the end of the text)
+      blocks.push({ type: "code", lang: fence[2] || undefined, text: body.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const start = i;
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(QUOTE.exec(lines[i++])![1]);
+      blocks.push({ type: "quote", children: parseLines(body, offset + start) });
+      continue;
+    }
+
+    const ordered = ORDERED.exec(line);
+    if (BULLET.test(line) || ordered) {
+      const pattern = ordered ? ORDERED : BULLET;
+      const items: MdListItem[] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        const m = pattern.exec(lines[i])!;
+        const body = ordered ? m[2] : m[1];
+        const check = CHECKBOX.exec(body);
+        const item: MdListItem = check
+          ? { children: parseInline(check[2]), checked: check[1] !== " ", line: offset + i }
+          : { children: parseInline(body), line: offset + i };
+        i++;
+        // Indented lines below an item continue it.
+        while (i < lines.length && /^\s{2,}\S/.test(lines[i]) && !pattern.test(lines[i])) {
+          item.children.push({ type: "break" }, ...parseInline(lines[i++].trim()));
+        }
+        items.push(item);
+      }
+      blocks.push({ type: "list", ordered: !!ordered, start: ordered ? Number(ordered[1]) : 1, items });
+      continue;
+    }
+
+    const para: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !FENCE.test(lines[i]) &&
+      !HEADING.test(lines[i]) &&
+      !QUOTE.test(lines[i]) &&
+      !BULLET.test(lines[i]) &&
+      !ORDERED.test(lines[i]) &&
+      !(para.length > 0 && RULE.test(lines[i]))
+    ) {
+      para.push(lines[i++]);
+    }
+    blocks.push({ type: "paragraph", children: parseInline(para.join("\n")) });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(source: string): MdBlock[] {
+  return parseLines(source.replace(/\r\n?/g, "\n").split("\n"), 0);
+}
+
+/** Tick or untick the checkbox on `line` (an item's `line`); other text is left as it was. */
+export function toggleCheckbox(source: string, line: number): string {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const current = lines[line];
+  if (current === undefined) return source;
+  lines[line] = current.replace(/^(\s*(?:>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+)\[([ xX])\]/, (_, lead: string, mark: string) =>
+    `${lead}[${mark === " " ? "x" : " "}]`
+  );
+  return lines.join("\n");
+}
+
+function inlineText(nodes: MdInline[]): string {
+  return nodes
+    .map((n) => {
+      switch (n.type) {
+        case "text":
+        case "code":
+          return n.text;
+        case "break":
+          return " ";
+        case "taskRef":
+          return `#${n.id}`;
+        case "mention":
+          return `@${n.email}`;
+        default:
+          return inlineText(n.children);
+      }
+    })
+    .join("");
+}
+
+function blocksText(blocks: MdBlock[]): string[] {
+  return blocks.flatMap((b) => {
+    switch (b.type) {
+      case "heading":
+      case "paragraph":
+        return [inlineText(b.children)];
+      case "list":
+        return b.items.map((item) => (item.checked === undefined ? "" : item.checked ? "☑ " : "☐ ") + inlineText(item.children));
+      case "code":
+        return [b.text];
+      case "quote":
+        return blocksText(b.children);
+      case "rule":
+        return [];
+    }
+  });
+}
+
+/** The description as one line of text, for card and row excerpts. */
+export function markdownToPlainText(source: string): string {
+  return blocksText(parseMarkdown(source)).join(" ").replace(/\s+/g, " ").trim();
+}
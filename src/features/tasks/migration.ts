@@ -0,0 +1,157 @@
+import type { Project, Task, TaskAttachment } from "./types";
+import type { WorkspaceData } from "./backup";
+import type { AttachmentStore } from "./attachments";
+import type { DashboardRepo } from "./store";
+import { getProjectColumns, placeInProject } from "./workflow";
+import { newId, type IdPrefix } from "./ids";
+
+/** What uploading the signed-out workspace into an account will do. */
+export type LocalMigrationPlan = {
+  /** Records for DashboardRepo.restoreWorkspace; every id is new to the account. */
+  write: WorkspaceData;
+  /** Every project id, in sidebar order, once the upload is done. */
+  projectOrder: string[];
+  /** Local projects uploaded as new projects. */
+  created: string[];
+  /** Local projects whose tasks go into an account project of the same name. */
+  merged: string[];
+  /** Local tasks already in the account. */
+  duplicates: number;
+  /** Files of uploaded tasks, still in this browser's storage; see uploadLocalAttachments. */
+  attachments: { taskId: string; projectId: string; files: TaskAttachment[] }[];
+};
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Plan the one-time upload of local data into a signed-in account.
+ *
+ * Local data may carry legacy `p-`/`t-` ids from a per-device counter, which can
+ * clash with ids already in the database; every uploaded record gets a fresh id
+ * and all references (task project, dependencies, comments, activity) are rewritten.
+ * A local project with the same name as one the user can edit is merged into it,
+ * and a task already there (same id, or same title and creation time — e.g.
+ * from an earlier upload or restore) is not uploaded again. Anything in the
+ * local trash stays behind.
+ */
+export function planLocalMigration(
+  local: WorkspaceData,
+  account: WorkspaceData,
+  access: { userId: string; canEdit: (projectId: string) => boolean },
+  makeId: (prefix: IdPrefix) => string = newId
+): LocalMigrationPlan {
+  const byName = new Map(account.projects.filter((p) => access.canEdit(p.id)).map((p) => [normalize(p.name), p]));
+  const accountOrder = [...account.projects].sort((a, b) => a.order - b.order);
+  let nextOrder = Math.max(-1, ...account.projects.map((p) => p.order)) + 1;
+
+  const projectIds = new Map<string, string>();
+  const projects: Project[] = [];
+  const created: string[] = [];
+  const merged: string[] = [];
+  for (const p of [...local.projects].filter((p) => !p.deletedAt).sort((a, b) => a.order - b.order)) {
+    const match = byName.get(normalize(p.name));
+    if (match) {
+      projectIds.set(p.id, match.id);
+      merged.push(p.name);
+      continue;
+    }
+    const { ownerId: _owner, ...rest } = p;
+    const id = makeId("p");
+    projectIds.set(p.id, id);
+    projects.push({ ...rest, id, order: nextOrder++ });
+    created.push(p.name);
+  }
+
+  // Tasks that are already in the account keep pointing at the account's copy.
+  const taskIds = new Map<string, string>();
+  const accountKeys = new Map<string, Task>();
+  for (const t of account.tasks) accountKeys.set(`${t.projectId}|${normalize(t.title)}|${t.createdAt}`, t);
+  const accountIds = new Set(account.tasks.map((t) => t.id));
+  const uploading: Task[] = [];
+  const attachments: LocalMigrationPlan["attachments"] = [];
+  let duplicates = 0;
+  for (const t of local.tasks) {
+    const projectId = projectIds.get(t.projectId);
+    if (!projectId || t.deletedAt) continue;
+    const existing = accountIds.has(t.id) ? t.id : accountKeys.get(`${projectId}|${normalize(t.title)}|${t.createdAt}`)?.id;
+    if (existing) {
+      taskIds.set(t.id, existing);
+      duplicates++;
+      continue;
+    }
+    const id = makeId("t");
+    taskIds.set(t.id, id);
+    // Files can only be uploaded into projects that exist, so the tasks go up without them first.
+    uploading.push({ ...t, id, projectId, attachments: undefined });
+    if (t.attachments?.length) attachments.push({ taskId: id, projectId, files: t.attachments });
+  }
+
+  // Tasks merged into an existing project go to the end of its columns, in their local order.
+  const tasks = uploading.map((t) => ({ ...t, blockedBy: t.blockedBy?.map((id) => taskIds.get(id)).filter((id): id is string => !!id) }));
+  for (const project of account.projects) {
+    const incoming = tasks.filter((t) => t.projectId === project.id).sort((a, b) => a.order - b.order);
+    if (incoming.length === 0) continue;
+    const placed = placeInProject(incoming, account.tasks.filter((t) => t.projectId === project.id), getProjectColumns(project));
+    for (const t of incoming) Object.assign(t, placed.get(t.id));
+  }
+  for (const t of tasks) if (t.blockedBy?.length === 0) delete t.blockedBy;
+
+  // History only comes along for tasks that are uploaded; it was all written by this user.
+  const uploaded = new Map(tasks.map((t) => [t.id, t]));
+  const comments = local.comments.flatMap((c) => {
+    const task = uploaded.get(taskIds.get(c.taskId) ?? "");
+    return task ? [{ ...c, id: makeId("c"), taskId: task.id, projectId: task.projectId, authorId: access.userId }] : [];
+  });
+  const activity = local.activity.flatMap((a) => {
+    const task = uploaded.get(taskIds.get(a.taskId) ?? "");
+    return task ? [{ ...a, id: makeId("a"), taskId: task.id, projectId: task.projectId, actorId: access.userId }] : [];
+  });
+
+  return {
+    write: { projects, tasks, comments, activity, members: [] },
+    projectOrder: [...accountOrder.map((p) => p.id), ...projects.map((p) => p.id)],
+    created,
+    merged,
+    duplicates,
+    attachments,
+  };
+}
+
+/**
+ * Upload the files of migrated tasks once the tasks are in the account, and list
+ * them on their tasks. Returns the names of files that didn't make it; the local
+ * copies are kept either way.
+ */
+export async function uploadLocalAttachments(
+  plan: LocalMigrationPlan,
+  local: Pick<AttachmentStore, "get">,
+  repo: Pick<DashboardRepo, "uploadAttachment" | "updateTasks" | "deleteAttachments">
+): Promise<string[]> {
+  const failed: string[] = [];
+  const changes: { id: string; patch: { attachments: TaskAttachment[] } }[] = [];
+  for (const { taskId, projectId, files } of plan.attachments) {
+    const uploaded: TaskAttachment[] = [];
+    for (const a of files) {
+      try {
+        const blob = await local.get(a.path);
+        uploaded.push(await repo.uploadAttachment(projectId, new File([blob], a.name, { type: a.type })));
+      } catch (err) {
+        console.error(`[migration] Could not upload "${a.name}"`, err);
+        failed.push(a.name);
+      }
+    }
+    if (uploaded.length > 0) changes.push({ id: taskId, patch: { attachments: uploaded } });
+  }
+  if (changes.length === 0) return failed;
+  try {
+    await repo.updateTasks(changes);
+  } catch (err) {
+    console.error("[migration] Could not list uploaded attachments on their tasks", err);
+    const uploaded = changes.flatMap((c) => c.patch.attachments);
+    await repo.deleteAttachments(uploaded).catch(() => {});
+    failed.push(...uploaded.map((a) => a.name));
+  }
+  return failed;
+}
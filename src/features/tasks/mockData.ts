@@ -1,6 +1,8 @@
 import type { Project, Task } from "./types";
+import { addDays, toDateKey } from "./dates";
 
 const now = new Date().toISOString();
+const dueIn = (days: number) => toDateKey(addDays(new Date(), days));
 
 export const MOCK_PROJECTS: Project[] = [
   {
@@ -55,6 +57,13 @@ export const MOCK_TASKS: Task[] = [
     priority: "high",
     assignee: { name: "Ken Stanley", initials: "KS", color: "#6366F1" },
     tags: ["design", "ui"],
+    subtasks: [
+      { id: "s-001", title: "Buttons and links", done: true },
+      { id: "s-002", title: "Form inputs", done: true },
+      { id: "s-003", title: "Cards", done: false },
+      { id: "s-004", title: "Modals and dialogs", done: false },
+    ],
+    due: dueIn(3),
     order: 0,
     createdAt: now,
     updatedAt: now,
@@ -68,6 +77,7 @@ export const MOCK_TASKS: Task[] = [
     priority: "medium",
     assignee: { name: "TARS", initials: "TA", color: "#8B5CF6" },
     tags: ["frontend", "animation"],
+    due: dueIn(-1),
     order: 1,
     createdAt: now,
     updatedAt: now,
@@ -93,6 +103,7 @@ export const MOCK_TASKS: Task[] = [
     priority: "medium",
     assignee: { name: "TARS", initials: "TA", color: "#8B5CF6" },
     tags: ["frontend", "backend"],
+    due: dueIn(0),
     order: 0,
     createdAt: now,
     updatedAt: now,
@@ -117,6 +128,7 @@ export const MOCK_TASKS: Task[] = [
     status: "todo",
     priority: "high",
     tags: ["devops", "launch"],
+    due: dueIn(6),
     order: 1,
     createdAt: now,
     updatedAt: now,
@@ -143,6 +155,7 @@ export const MOCK_TASKS: Task[] = [
     priority: "urgent",
     assignee: { name: "Ken Stanley", initials: "KS", color: "#6366F1" },
     tags: ["auth", "security"],
+    due: dueIn(1),
     order: 0,
     createdAt: now,
     updatedAt: now,
@@ -168,6 +181,7 @@ export const MOCK_TASKS: Task[] = [
     priority: "high",
     assignee: { name: "TARS", initials: "TA", color: "#8B5CF6" },
     tags: ["api", "docs"],
+    due: dueIn(10),
     order: 0,
     createdAt: now,
     updatedAt: now,
@@ -0,0 +1,124 @@
+import { useDraggable } from "@dnd-kit/core";
+import type { Project, Task, TaskStatus } from "../types";
+import { getProjectColumns } from "../workflow";
+import { TaskBoardProvider, useTaskBoard } from "../context";
+import { IconEdit, IconFolder, IconGrip } from "../icons";
+import { PriorityBadge, CustomSelect, DueBadge, SubtaskProgress, AssigneeList, BlockedBadge, RecurrenceBadge } from "../ui";
+import { cn } from "../utils";
+
+export function DraggableMyWorkRow({
+  task,
+  isActive,
+  ...rest
+}: {
+  task: Task;
+  project?: Project;
+  isActive?: boolean;
+  showProject?: boolean;
+  onEdit?: () => void;
+  onStatusChange?: (status: TaskStatus) => void;
+}) {
+  const { attributes, listeners, setNodeRef } = useDraggable({ id: task.id });
+  return (
+    <div ref={setNodeRef} data-task-id={task.id} style={isActive ? { visibility: "hidden" } : undefined}>
+      <MyWorkRow task={task} dragHandle={{ ...attributes, ...listeners }} {...rest} />
+    </div>
+  );
+}
+
+export function MyWorkRow({
+  task,
+  project,
+  showProject,
+  dragHandle,
+  overlay,
+  onEdit,
+  onStatusChange,
+}: {
+  task: Task;
+  project?: Project;
+  showProject?: boolean;
+  dragHandle?: React.HTMLAttributes<HTMLButtonElement>;
+  overlay?: boolean;
+  onEdit?: () => void;
+  onStatusChange?: (status: TaskStatus) => void;
+}) {
+  const { members, openBlockers } = useTaskBoard();
+  const columns = getProjectColumns(project);
+  const column = columns.find((c) => c.key === task.status);
+
+  // Badges read "done" from context, so each row carries its own project's workflow.
+  return (
+    <TaskBoardProvider columns={columns} members={members} openBlockers={openBlockers}>
+      <div
+        className={cn(
+          "group flex flex-col gap-2 border-b border-gray-100 dark:border-dark-border bg-white dark:bg-dark-surface px-4 py-3 transition-colors hover:bg-gray-50 dark:hover:bg-dark-raised sm:flex-row sm:items-center sm:gap-3",
+          overlay && "rounded-lg border shadow-lifted ring-2 ring-accent/25"
+        )}
+      >
+        <div className="flex min-w-0 flex-1 items-start gap-2">
+          {dragHandle && (
+            <button
+              className="mt-0.5 cursor-grab rounded p-0.5 text-gray-300 hover:text-gray-500 active:cursor-grabbing"
+              {...dragHandle}
+            >
+              <IconGrip className="h-3.5 w-3.5" />
+            </button>
+          )}
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-medium text-gray-900 dark:text-gray-100">{task.title}</p>
+            <div className="mt-1.5 flex flex-wrap items-center gap-1">
+              {showProject && project && (
+                <span className="inline-flex items-center gap-1 rounded-md px-1.5 py-0.5 text-2xs font-medium" style={{ backgroundColor: project.color + "20", color: project.color }}>
+                  <IconFolder className="h-2.5 w-2.5" />
+                  {project.name}
+                </span>
+              )}
+              <PriorityBadge priority={task.priority} />
+              <BlockedBadge task={task} />
+              <DueBadge task={task} />
+              <RecurrenceBadge task={task} />
+              <SubtaskProgress subtasks={task.subtasks} />
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 sm:shrink-0">
+          <AssigneeList task={task} nameClassName="hidden" />
+          <div className="w-36">
+            {onStatusChange ? (
+              <CustomSelect
+                value={task.status}
+                onChange={onStatusChange}
+                options={columns.map((c) => ({ value: c.key, label: c.label }))}
+                renderOption={(opt) => {
+                  const col = columns.find((c) => c.key === opt.value);
+                  return (
+                    <span className="flex items-center gap-2">
+                      <span className="text-xs" style={{ color: col?.color }}>{col?.icon}</span>
+                      <span>{opt.label}</span>
+                    </span>
+                  );
+                }}
+                className="h-7 py-0 text-xs"
+              />
+            ) : (
+              <span className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400">
+                <span style={{ color: column?.color }}>{column?.icon}</span>
+                {column?.label ?? task.status}
+              </span>
+            )}
+          </div>
+          {onEdit && (
+            <button
+              onClick={onEdit}
+              className="rounded-md p-1.5 text-gray-400 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 hover:bg-gray-100 dark:hover:bg-dark-border hover:text-gray-600 dark:hover:text-gray-200"
+              title="Edit"
+            >
+              <IconEdit className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+    </TaskBoardProvider>
+  );
+}
@@ -0,0 +1,202 @@
+import { useMemo, useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import type { Project, Task, TaskStatus } from "../types";
+import type { TaskUpdate } from "../store";
+import { IconCheck } from "../icons";
+import { groupMyWork, isTaskDone, type MyWorkGroup, type MyWorkGrouping } from "./groups";
+import { DraggableMyWorkRow, MyWorkRow } from "./MyWorkRow";
+import { cn, collisionDetection } from "../utils";
+
+const GROUPINGS: { value: MyWorkGrouping; label: string }[] = [
+  { value: "due", label: "Due date" },
+  { value: "priority", label: "Priority" },
+  { value: "project", label: "Project" },
+];
+
+export function MyWorkView({
+  tasks,
+  projects,
+  canEditProject,
+  onEditTask,
+  onUpdateTask,
+  onMoveTask,
+}: {
+  tasks: Task[];
+  projects: Project[];
+  canEditProject: (projectId: string) => boolean;
+  onEditTask?: (t: Task) => void;
+  onUpdateTask?: (taskId: string, patch: TaskUpdate) => void;
+  onMoveTask?: (t: Task, status: TaskStatus) => void;
+}) {
+  const [grouping, setGrouping] = useState<MyWorkGrouping>("due");
+  const [showDone, setShowDone] = useState(false);
+  const [activeTask, setActiveTask] = useState<Task | null>(null);
+
+  const projectById = useMemo(() => new Map(projects.map((p) => [p.id, p])), [projects]);
+
+  const groups = useMemo(() => {
+    const visible = showDone ? tasks : tasks.filter((t) => !isTaskDone(t, projects));
+    return groupMyWork(visible, projects, grouping);
+  }, [tasks, projects, grouping, showDone]);
+
+  const pointerSensor = useSensor(PointerSensor, { activationConstraint: { distance: 5 } });
+  const sensors = useSensors(onUpdateTask && grouping !== "project" ? pointerSensor : undefined);
+
+  function handleDragStart(event: DragStartEvent) {
+    document.body.classList.add("is-dragging");
+    setActiveTask(tasks.find((t) => t.id === event.active.id) ?? null);
+  }
+
+  function handleDragEnd(event: DragEndEvent) {
+    document.body.classList.remove("is-dragging");
+    setActiveTask(null);
+    const { active, over } = event;
+    if (!over) return;
+    const task = tasks.find((t) => t.id === active.id);
+    const group = groups.find((g) => `mywork-${g.key}` === over.id);
+    if (!task || !group?.dropPatch || group.tasks.some((t) => t.id === task.id)) return;
+    if (!canEditProject(task.projectId)) return;
+    onUpdateTask?.(task.id, group.dropPatch);
+  }
+
+  function handleDragCancel() {
+    document.body.classList.remove("is-dragging");
+    setActiveTask(null);
+  }
+
+  const total = groups.reduce((sum, g) => sum + g.tasks.length, 0);
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={collisionDetection}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
+    >
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <span className="text-2xs font-medium text-gray-500 dark:text-gray-400">Group by</span>
+        <div className="flex rounded-lg border border-gray-200 dark:border-dark-border bg-canvas dark:bg-dark-raised p-0.5">
+          {GROUPINGS.map((g) => (
+            <button
+              key={g.value}
+              onClick={() => setGrouping(g.value)}
+              className={cn(
+                "rounded-md px-2.5 py-1 text-2xs font-medium transition-all",
+                grouping === g.value ? "bg-white dark:bg-dark-surface text-gray-900 dark:text-gray-100 shadow-card" : "text-gray-500 hover:text-gray-700"
+              )}
+            >
+              {g.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setShowDone((v) => !v)}
+          className="ml-auto flex items-center gap-1.5 text-2xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400"
+        >
+          <span
+            className={cn(
+              "flex h-3.5 w-3.5 items-center justify-center rounded border transition-colors",
+              showDone ? "border-accent bg-accent text-white" : "border-gray-300 dark:border-gray-600"
+            )}
+          >
+            {showDone && <IconCheck className="h-2.5 w-2.5" />}
+          </span>
+          Show completed
+        </button>
+      </div>
+
+      {total === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-gray-400">
+          <IconCheck className="mb-4 h-12 w-12" />
+          <p className="text-lg font-medium text-gray-600 dark:text-gray-400">Nothing to do</p>
+          <p className="mt-1 text-sm">Open tasks from all your projects will appear here</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups
+            .filter((g) => g.tasks.length > 0 || (activeTask && g.dropPatch))
+            .map((g) => (
+              <MyWorkGroupSection
+                key={g.key}
+                group={g}
+                activeTaskId={activeTask?.id ?? null}
+                showProject={grouping !== "project"}
+                projectById={projectById}
+                renderActions={(t) => {
+                  const editable = canEditProject(t.projectId);
+                  return {
+                    onEdit: editable && onEditTask ? () => onEditTask(t) : undefined,
+                    onStatusChange: editable && onMoveTask ? (status: TaskStatus) => onMoveTask(t, status) : undefined,
+                  };
+                }}
+              />
+            ))}
+        </div>
+      )}
+
+      <DragOverlay dropAnimation={{ duration: 200, easing: "ease" }}>
+        {activeTask ? (
+          <MyWorkRow task={activeTask} project={projectById.get(activeTask.projectId)} showProject overlay />
+        ) : null}
+      </DragOverlay>
+    </DndContext>
+  );
+}
+
+function MyWorkGroupSection({
+  group,
+  activeTaskId,
+  showProject,
+  projectById,
+  renderActions,
+}: {
+  group: MyWorkGroup;
+  activeTaskId: string | null;
+  showProject: boolean;
+  projectById: Map<string, Project>;
+  renderActions: (t: Task) => { onEdit?: () => void; onStatusChange?: (status: TaskStatus) => void };
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: `mywork-${group.key}`, disabled: !group.dropPatch });
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "overflow-hidden rounded-2xl border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface transition-colors",
+        isOver && "border-accent/40"
+      )}
+    >
+      <div className="flex items-center gap-2 border-b border-gray-100 dark:border-dark-border bg-raised dark:bg-dark-raised px-4 py-2.5">
+        {group.color && <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: group.color }} />}
+        <span className="text-xs font-semibold text-gray-800 dark:text-gray-100">{group.label}</span>
+        <span className="flex h-5 min-w-[20px] items-center justify-center rounded-full bg-gray-200/80 dark:bg-dark-border px-1.5 text-2xs font-semibold text-gray-500 dark:text-gray-400">
+          {group.tasks.length}
+        </span>
+      </div>
+      <div className="min-h-[48px]">
+        {group.tasks.map((t) => (
+          <DraggableMyWorkRow
+            key={t.id}
+            task={t}
+            project={projectById.get(t.projectId)}
+            isActive={t.id === activeTaskId}
+            showProject={showProject}
+            {...renderActions(t)}
+          />
+        ))}
+        {group.tasks.length === 0 && (
+          <p className="px-4 py-3 text-2xs text-gray-400">Drop a task here</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import type { Project, Task, TaskPriority } from "../types";
+import type { TaskUpdate } from "../store";
+import { PRIORITY_CONFIG } from "../types";
+import { addDays, compareDue, getDueState, toDateKey } from "../dates";
+import { getProjectColumns, isDoneStatus } from "../workflow";
+
+export type MyWorkGrouping = "due" | "priority" | "project";
+
+export type MyWorkGroup = {
+  key: string;
+  label: string;
+  color?: string;
+  tasks: Task[];
+  /** What dropping a task into this group changes; groups without one don't accept drops. */
+  dropPatch?: TaskUpdate;
+};
+
+const PRIORITY_ORDER: TaskPriority[] = ["urgent", "high", "medium", "low"];
+
+function comparePriority(a: Task, b: Task): number {
+  return PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority);
+}
+
+export function isTaskDone(task: Task, projects: Project[]): boolean {
+  const project = projects.find((p) => p.id === task.projectId);
+  return isDoneStatus(getProjectColumns(project), task.status);
+}
+
+function groupByDue(tasks: Task[], projects: Project[], today: Date): MyWorkGroup[] {
+  const todayKey = toDateKey(today);
+  const tomorrowKey = toDateKey(addDays(today, 1));
+  const groups: MyWorkGroup[] = [
+    { key: "overdue", label: "Overdue", color: "#ef4444", tasks: [] },
+    { key: "today", label: "Today", color: "#f4a261", tasks: [], dropPatch: { due: todayKey } },
+    { key: "tomorrow", label: "Tomorrow", color: "#4ea8de", tasks: [], dropPatch: { due: tomorrowKey } },
+    { key: "upcoming", label: "Upcoming", color: "#8888a4", tasks: [] },
+    { key: "none", label: "No due date", tasks: [], dropPatch: { due: undefined } },
+  ];
+  const byKey = new Map(groups.map((g) => [g.key, g]));
+  for (const t of tasks) {
+    const state = getDueState(t, isTaskDone(t, projects), today);
+    const key = !t.due
+      ? "none"
+      : t.due.slice(0, 10) === tomorrowKey
+        ? "tomorrow"
+        : state === "overdue" || state === "today"
+          ? state
+          : "upcoming";
+    byKey.get(key)!.tasks.push(t);
+  }
+  for (const g of groups) g.tasks.sort((a, b) => compareDue(a, b) || comparePriority(a, b));
+  return groups;
+}
+
+function groupByPriority(tasks: Task[]): MyWorkGroup[] {
+  return PRIORITY_ORDER.map((priority) => ({
+    key: priority,
+    label: PRIORITY_CONFIG[priority].label,
+    color: PRIORITY_CONFIG[priority].dot,
+    tasks: tasks.filter((t) => t.priority === priority).sort(compareDue),
+    dropPatch: { priority },
+  }));
+}
+
+function groupByProject(tasks: Task[], projects: Project[]): MyWorkGroup[] {
+  return projects.map((p) => {
+    const columns = getProjectColumns(p);
+    const rank = (t: Task) => columns.findIndex((c) => c.key === t.status);
+    return {
+      key: p.id,
+      label: p.name,
+      color: p.color,
+      tasks: tasks.filter((t) => t.projectId === p.id).sort((a, b) => rank(a) - rank(b) || a.order - b.order),
+    };
+  });
+}
+
+/** Split tasks from every project into the groups shown on the My Work page. */
+export function groupMyWork(
+  tasks: Task[],
+  projects: Project[],
+  grouping: MyWorkGrouping,
+  today = new Date()
+): MyWorkGroup[] {
+  if (grouping === "priority") return groupByPriority(tasks);
+  if (grouping === "project") return groupByProject(tasks, projects);
+  return groupByDue(tasks, projects, today);
+}
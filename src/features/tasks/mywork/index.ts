@@ -0,0 +1,4 @@
+export { MyWorkView } from "./MyWorkView";
+export { MyWorkRow, DraggableMyWorkRow } from "./MyWorkRow";
+export { groupMyWork, isTaskDone } from "./groups";
+export type { MyWorkGroup, MyWorkGrouping } from "./groups";
@@ -0,0 +1,420 @@
+import type { DashboardRepo } from "./store";
+import type { Project, Task } from "./types";
+
+/** Where the offline cache and outbox stand, for the sync indicator. */
+export type SyncStatus = {
+  online: boolean;
+  /** Changes made offline that the server hasn't seen yet. */
+  pending: number;
+  syncing: boolean;
+  /** Offline changes dropped at the last sync because the record was changed on the server afterwards. */
+  conflicts: number;
+  lastSyncedAt: string | null;
+  /** Why the last sync failed, or which offline change the server refused. */
+  error: string | null;
+};
+
+export type SyncHandle = {
+  getStatus(): SyncStatus;
+  subscribe(listener: (status: SyncStatus) => void): () => void;
+  /** Send queued changes now; also done on reconnect. */
+  flush(): Promise<void>;
+  /** Drop the queued changes the server won't take, so reads come from it again. */
+  discard(): Promise<void>;
+  /** Follow the browser going on- and offline; returns a function that stops it. */
+  connect(): () => void;
+};
+
+type Snapshot = { projects: Project[]; tasks: Task[] };
+type PersistFn = (projects: Project[], tasks: Task[]) => void;
+
+/** Repo methods whose calls are queued while offline; everything else needs a connection. */
+type QueuedMethod =
+  | "createProject"
+  | "updateProject"
+  | "archiveProject"
+  | "deleteProject"
+  | "restoreProjects"
+  | "reorderProjects"
+  | "setProjectPlacement"
+  | "createTask"
+  | "updateTask"
+  | "updateTasks"
+  | "deleteTask"
+  | "deleteTasks"
+  | "restoreTasks"
+  | "reorderTask";
+
+type OutboxEntry = { seq?: number; method: QueuedMethod; args: unknown[]; queuedAt: string };
+
+const OFFLINE_MESSAGE = "You're offline. This needs a connection.";
+const RETRY_MS = 30_000;
+
+type ErrorFields = { message?: unknown; code?: unknown; status?: unknown };
+
+function isNetworkError(e: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const fields = (e && typeof e === "object" ? e : {}) as ErrorFields;
+  if (fields.status === 0) return true;
+  const message = typeof fields.message === "string" ? fields.message : String(e);
+  // Chrome, Safari and Firefox word a failed fetch differently.
+  return /failed to fetch|load failed|networkerror|fetch failed/i.test(message);
+}
+
+/** Whether the server answered and said no (a database or API error code, or a 4xx), as opposed to not answering. */
+function isRefusal(e: unknown): boolean {
+  if (isNetworkError(e) || !e || typeof e !== "object") return false;
+  const { code, status } = e as ErrorFields;
+  return (typeof code === "string" && code !== "") || (typeof status === "number" && status >= 400 && status < 500);
+}
+
+function openDb(userId: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(`tasks-offline:${userId}`, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore("cache");
+      req.result.createObjectStore("outbox", { keyPath: "seq", autoIncrement: true });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function run<T>(db: IDBDatabase, store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = op(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Wrap the Supabase repo so the app keeps working without a connection.
+ *
+ * Projects and tasks are cached in IndexedDB (one database per user) whenever
+ * they are read. Offline, reads come from the cache and supported writes are
+ * applied to it through `makeLocal` (the in-memory repo) and queued in an
+ * outbox, which is replayed in order on reconnect. A queued edit to a record
+ * that was changed on the server after the edit was made is dropped: the
+ * later `updatedAt` wins. Comments, history, the trash, moves, attachments
+ * and backups need a connection.
+ */
+export function createOfflineRepo(
+  online: DashboardRepo,
+  userId: string,
+  makeLocal: (projects: Project[], tasks: Task[], persist: PersistFn) => DashboardRepo
+): DashboardRepo {
+  const db = openDb(userId).catch((e) => {
+    console.error("[offline] IndexedDB is unavailable", e);
+    return null;
+  });
+  let snapshot: Snapshot | null = null;
+  let local: DashboardRepo | null = null;
+  let flushing: Promise<void> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let status: SyncStatus = {
+    online: navigator.onLine,
+    pending: 0,
+    syncing: false,
+    conflicts: 0,
+    lastSyncedAt: null,
+    error: null,
+  };
+  const listeners = new Set<(status: SyncStatus) => void>();
+
+  function setStatus(patch: Partial<SyncStatus>) {
+    status = { ...status, ...patch };
+    for (const listener of listeners) listener(status);
+  }
+
+  // ── Cache ──────────────────────────────────────────────────────────────────
+
+  async function loadSnapshot(): Promise<Snapshot> {
+    if (snapshot) return snapshot;
+    const d = await db;
+    const [projects, tasks] = d
+      ? await Promise.all([
+          run<Project[] | undefined>(d, "cache", "readonly", (s) => s.get("projects")),
+          run<Task[] | undefined>(d, "cache", "readonly", (s) => s.get("tasks")),
+        ])
+      : [];
+    snapshot ??= { projects: projects ?? [], tasks: tasks ?? [] };
+    return snapshot;
+  }
+
+  function saveSnapshot(next: Snapshot) {
+    snapshot = next;
+    db.then((d) =>
+      d &&
+      Promise.all([
+        run(d, "cache", "readwrite", (s) => s.put(next.projects, "projects")),
+        run(d, "cache", "readwrite", (s) => s.put(next.tasks, "tasks")),
+      ])
+    ).catch((e) => console.error("[offline] Saving the cache failed", e));
+  }
+
+  /** Replace the cache, e.g. with fresh server data; the local repo is rebuilt from it on next use. */
+  function replaceSnapshot(next: Snapshot) {
+    local = null;
+    saveSnapshot(next);
+  }
+
+  async function getLocal(): Promise<DashboardRepo> {
+    const current = await loadSnapshot();
+    local ??= makeLocal(current.projects, current.tasks, (projects, tasks) => saveSnapshot({ projects, tasks }));
+    return local;
+  }
+
+  // ── Outbox ─────────────────────────────────────────────────────────────────
+
+  async function readOutbox(): Promise<OutboxEntry[]> {
+    const d = await db;
+    return d ? run<OutboxEntry[]>(d, "outbox", "readonly", (s) => s.getAll()) : [];
+  }
+
+  async function enqueue(entry: OutboxEntry) {
+    const d = await db;
+    if (!d) throw new Error(OFFLINE_MESSAGE);
+    await run(d, "outbox", "readwrite", (s) => s.add(entry));
+    setStatus({ pending: status.pending + 1 });
+  }
+
+  async function dequeue(seq: number) {
+    const d = await db;
+    if (d) await run(d, "outbox", "readwrite", (s) => s.delete(seq));
+    setStatus({ pending: Math.max(0, status.pending - 1) });
+  }
+
+  function call(repo: DashboardRepo, method: keyof DashboardRepo, args: unknown[]): Promise<any> {
+    return (repo[method] as (...a: unknown[]) => Promise<unknown>)(...args);
+  }
+
+  /** Creates are replayed with the id they were given offline, so later entries still point at them. */
+  function replayArgs(method: QueuedMethod, args: unknown[], result: unknown): unknown[] {
+    if (method === "createProject" || method === "createTask") return [args[0], (result as { id: string }).id];
+    return args;
+  }
+
+  function scheduleRetry() {
+    if (retryTimer || status.pending === 0) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      flush();
+    }, RETRY_MS);
+  }
+
+  function flush(): Promise<void> {
+    flushing ??= (async () => {
+      const entries = await readOutbox();
+      if (entries.length === 0) return;
+      setStatus({ syncing: true, error: null });
+      try {
+        const [projects, tasks] = await Promise.all([online.listProjects(), online.listAllTasks()]);
+        // The server and the browser format ISO times differently, so compare them as times.
+        const serverUpdatedAt = new Map<string, number>([...projects, ...tasks].map((r) => [r.id, Date.parse(r.updatedAt)]));
+        // Records written earlier in this replay carry a newer server time that must not count as a conflict.
+        const touched = new Set<string>();
+        const stale = (id: string, queuedAt: string) =>
+          !touched.has(id) && (!serverUpdatedAt.has(id) || serverUpdatedAt.get(id)! > Date.parse(queuedAt));
+        let conflicts = 0;
+        let refused: string | null = null;
+
+        for (const entry of entries) {
+          let args: unknown[] | null = entry.args;
+          if (["updateProject", "archiveProject", "updateTask", "reorderTask"].includes(entry.method)) {
+            const id = entry.args[0] as string;
+            if (stale(id, entry.queuedAt)) args = null;
+            else touched.add(id);
+          } else if (entry.method === "updateTasks") {
+            const changes = entry.args[0] as { id: string }[];
+            const kept = changes.filter((c) => !stale(c.id, entry.queuedAt));
+            conflicts += changes.length - kept.length;
+            kept.forEach((c) => touched.add(c.id));
+            args = kept.length > 0 ? [kept] : null;
+          } else if (entry.method === "createProject" || entry.method === "createTask") {
+            touched.add(entry.args[1] as string);
+          }
+
+          if (!args) {
+            if (entry.method !== "updateTasks") conflicts++;
+          } else {
+            try {
+              await call(online, entry.method, args);
+            } catch (e) {
+              // Anything else may be a request that never arrived; it stays queued for the next try.
+              if (!isRefusal(e)) throw e;
+              // The server refused it (e.g. access was removed meanwhile); keeping it would block the queue.
+              refused = e instanceof Error ? e.message : String(e);
+            }
+          }
+          await dequeue(entry.seq!);
+        }
+
+        // The server now has everything; start the cache over from it.
+        const [freshProjects, freshTasks] = await Promise.all([online.listProjects(), online.listAllTasks()]);
+        replaceSnapshot({ projects: freshProjects, tasks: freshTasks });
+        setStatus({
+          online: true,
+          conflicts,
+          lastSyncedAt: new Date().toISOString(),
+          error: refused && `An offline change couldn't be saved: ${refused}`,
+        });
+      } catch (e) {
+        if (isNetworkError(e)) {
+          setStatus({ online: navigator.onLine });
+          scheduleRetry();
+        } else {
+          // Left queued and tried again; the sync indicator offers to discard what can't be sent.
+          setStatus({ error: e instanceof Error ? e.message : String(e) });
+          scheduleRetry();
+        }
+      } finally {
+        setStatus({ syncing: false });
+      }
+    })().finally(() => {
+      flushing = null;
+    });
+    return flushing;
+  }
+
+  const ready = readOutbox()
+    .then((entries) => setStatus({ pending: entries.length }))
+    .catch(() => {})
+    .then(() => {
+      if (status.pending > 0 && navigator.onLine) flush();
+    });
+
+  async function discard() {
+    await flushing;
+    const d = await db;
+    if (d) await run(d, "outbox", "readwrite", (s) => s.clear());
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    // The cache still has them; the next read replaces it with server data.
+    setStatus({ pending: 0, error: null });
+  }
+
+  function connect() {
+    const onOnline = () => {
+      setStatus({ online: true });
+      flush();
+    };
+    const onOffline = () => setStatus({ online: false });
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+    };
+  }
+
+  // ── Reads and writes ───────────────────────────────────────────────────────
+
+  /** Read from the server and refresh the cache; fall back to the cache offline or while changes are queued. */
+  async function read<T>(fetch: (repo: DashboardRepo) => Promise<T>, cache: (result: T, current: Snapshot) => Snapshot): Promise<T> {
+    await ready;
+    if (navigator.onLine) {
+      if (status.pending > 0) await flush();
+      if (status.pending === 0) {
+        try {
+          const result = await fetch(online);
+          setStatus({ online: true });
+          replaceSnapshot(cache(result, await loadSnapshot()));
+          return result;
+        } catch (e) {
+          if (!isNetworkError(e)) throw e;
+          setStatus({ online: false });
+        }
+      }
+    }
+    return fetch(await getLocal());
+  }
+
+  /** Write to the server and mirror it in the cache; offline, apply it to the cache and queue it. */
+  async function write<M extends QueuedMethod>(method: M, args: Parameters<DashboardRepo[M]>): Promise<Awaited<ReturnType<DashboardRepo[M]>>> {
+    await ready;
+    if (status.pending === 0 && navigator.onLine) {
+      try {
+        const result = await call(online, method, args);
+        setStatus({ online: true });
+        getLocal()
+          .then((repo) => call(repo, method, replayArgs(method, args, result)))
+          .catch(() => { /* the cache is refreshed on the next read */ });
+        return result;
+      } catch (e) {
+        if (!isNetworkError(e)) throw e;
+        setStatus({ online: false });
+      }
+    }
+    const result = await call(await getLocal(), method, args);
+    await enqueue({ method, args: replayArgs(method, args, result), queuedAt: new Date().toISOString() });
+    scheduleRetry();
+    return result;
+  }
+
+  function needsConnection<K extends keyof DashboardRepo>(method: K): DashboardRepo[K] {
+    return (async (...args: unknown[]) => {
+      try {
+        return await call(online, method, args);
+      } catch (e) {
+        if (!isNetworkError(e)) throw e;
+        setStatus({ online: false });
+        throw new Error(OFFLINE_MESSAGE);
+      }
+    }) as DashboardRepo[K];
+  }
+
+  return {
+    listProjects: () => read((repo) => repo.listProjects(), (projects, current) => ({ ...current, projects })),
+    createProject: (data, presetId) => write("createProject", [data, presetId]),
+    updateProject: (id, patch) => write("updateProject", [id, patch]),
+    archiveProject: (id, archived) => write("archiveProject", [id, archived]),
+    deleteProject: (id) => write("deleteProject", [id]),
+    listAllTasks: () => read((repo) => repo.listAllTasks(), (tasks, current) => ({ ...current, tasks })),
+    listTasks: (projectId) =>
+      read(
+        (repo) => repo.listTasks(projectId),
+        (tasks, current) => ({ ...current, tasks: [...current.tasks.filter((t) => t.projectId !== projectId), ...tasks] })
+      ),
+    createTask: (input, presetId) => write("createTask", [input, presetId]),
+    updateTask: (id, patch) => write("updateTask", [id, patch]),
+    updateTasks: (changes) => write("updateTasks", [changes]),
+    deleteTask: (id) => write("deleteTask", [id]),
+    deleteTasks: (ids) => write("deleteTasks", [ids]),
+    listTrash: needsConnection("listTrash"),
+    restoreProjects: (ids) => write("restoreProjects", [ids]),
+    restoreTasks: (ids) => write("restoreTasks", [ids]),
+    purgeProjects: needsConnection("purgeProjects"),
+    purgeTasks: needsConnection("purgeTasks"),
+    moveTasks: needsConnection("moveTasks"),
+    duplicateTasks: needsConnection("duplicateTasks"),
+    reorderTask: (id, newStatus, newOrder) => write("reorderTask", [id, newStatus, newOrder]),
+    reorderProjects: (ids) => write("reorderProjects", [ids]),
+    setProjectPlacement: (id, placement) => write("setProjectPlacement", [id, placement]),
+    remapStatuses: needsConnection("remapStatuses"),
+    listComments: needsConnection("listComments"),
+    addComment: needsConnection("addComment"),
+    deleteComment: needsConnection("deleteComment"),
+    listActivity: needsConnection("listActivity"),
+    uploadAttachment: needsConnection("uploadAttachment"),
+    getAttachmentUrl: needsConnection("getAttachmentUrl"),
+    deleteAttachments: needsConnection("deleteAttachments"),
+    exportWorkspace: needsConnection("exportWorkspace"),
+    restoreWorkspace: needsConnection("restoreWorkspace"),
+    subscribe: online.subscribe && ((listener) => online.subscribe!(listener)),
+    sync: {
+      getStatus: () => status,
+      subscribe(listener) {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      flush,
+      discard,
+      connect,
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { IconSearch } from "../icons";
+import { cn } from "../utils";
+import { searchCommands, type Command } from "../commands";
+
+export function CommandPalette({
+  open,
+  commands,
+  onClose,
+}: {
+  open: boolean;
+  commands: Command[];
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const results = useMemo(() => searchCommands(commands, query), [commands, query]);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery("");
+    setActiveIndex(0);
+  }, [open]);
+
+  useEffect(() => { setActiveIndex(0); }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  if (!open) return null;
+
+  function run(command: Command | undefined) {
+    if (!command) return;
+    onClose();
+    command.run();
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      run(results[activeIndex]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  }
+
+  return (
+    <div
+      ref={overlayRef}
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-sidebar/60 backdrop-blur-sm px-4 pt-[15vh] animate-fade-in"
+      onMouseDown={(e) => { if (e.target === overlayRef.current) onClose(); }}
+    >
+      <div className="w-full max-w-lg overflow-hidden rounded-2xl border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface shadow-overlay animate-scale-in">
+        <div className="flex items-center gap-2.5 border-b border-gray-100 dark:border-dark-border px-4">
+          <IconSearch className="h-4 w-4 shrink-0 text-gray-400" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search projects, tasks and actions…"
+            className="h-12 flex-1 bg-transparent text-sm text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:outline-none"
+          />
+        </div>
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto p-1.5">
+          {results.length === 0 ? (
+            <p className="px-3 py-6 text-center text-xs text-gray-400">No matches</p>
+          ) : (
+            results.map((c, i) => (
+              <button
+                key={c.id}
+                data-index={i}
+                onClick={() => run(c)}
+                onMouseMove={() => setActiveIndex(i)}
+                className={cn(
+                  "flex w-full items-center gap-3 rounded-lg px-3 py-2 text-left",
+                  i === activeIndex ? "bg-accent/10 dark:bg-accent/15" : "hover:bg-gray-50 dark:hover:bg-dark-raised"
+                )}
+              >
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm text-gray-900 dark:text-gray-100">{c.label}</span>
+                  {c.detail && <span className="block truncate text-2xs text-gray-500 dark:text-gray-400">{c.detail}</span>}
+                </span>
+                {c.shortcut && (
+                  <kbd className="rounded border border-gray-200 dark:border-dark-border px-1.5 py-0.5 font-sans text-2xs text-gray-500">
+                    {c.shortcut}
+                  </kbd>
+                )}
+                <span className="w-14 shrink-0 text-right text-2xs text-gray-400">{c.group}</span>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
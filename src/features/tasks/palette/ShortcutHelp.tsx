@@ -0,0 +1,27 @@
+import { Modal } from "../ui";
+import { SHORTCUTS } from "../commands";
+
+export function ShortcutHelp({ open, onClose }: { open: boolean; onClose: () => void }) {
+  return (
+    <Modal open={open} title="Keyboard shortcuts" onClose={onClose} width="max-w-md">
+      <dl className="space-y-2">
+        {SHORTCUTS.map((s) => (
+          <div key={s.description} className="flex items-center justify-between gap-4">
+            <dt className="text-sm text-gray-700 dark:text-gray-300">{s.description}</dt>
+            <dd className="flex shrink-0 items-center gap-1">
+              {s.keys.map((k) => (
+                <kbd
+                  key={k}
+                  className="min-w-[24px] rounded-md border border-gray-200 dark:border-dark-border bg-raised dark:bg-dark-raised px-1.5 py-0.5 text-center font-sans text-xs text-gray-600 dark:text-gray-300"
+                >
+                  {k}
+                </kbd>
+              ))}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      <p className="mt-4 text-xs text-gray-400">Single-key shortcuts are off while typing in a field.</p>
+    </Modal>
+  );
+}
@@ -0,0 +1,2 @@
+export { CommandPalette } from "./CommandPalette";
+export { ShortcutHelp } from "./ShortcutHelp";
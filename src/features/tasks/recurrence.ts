@@ -0,0 +1,175 @@
+import type { Recurrence, RecurrenceFrequency, Task, WorkflowColumn } from "./types";
+import { addDays, parseDateKey, toDateKey } from "./dates";
+import { getDefaultStatus } from "./workflow";
+import { localId } from "./utils";
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ["daily", "weekly", "monthly", "yearly"];
+
+const RRULE_FREQ: Record<RecurrenceFrequency, string> = {
+  daily: "DAILY",
+  weekly: "WEEKLY",
+  monthly: "MONTHLY",
+  yearly: "YEARLY",
+};
+
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function isRecurrence(obj: unknown): obj is Recurrence {
+  if (!obj || typeof obj !== "object") return false;
+  const o = obj as Record<string, unknown>;
+  return (
+    RECURRENCE_FREQUENCIES.includes(o.freq as RecurrenceFrequency) &&
+    (o.interval === undefined || (typeof o.interval === "number" && o.interval >= 1)) &&
+    (o.byWeekday === undefined ||
+      (Array.isArray(o.byWeekday) && o.byWeekday.every((d) => typeof d === "number" && d >= 0 && d <= 6))) &&
+    (o.until === undefined || typeof o.until === "string") &&
+    (o.count === undefined || (typeof o.count === "number" && o.count >= 1))
+  );
+}
+
+/** Same month arithmetic as most calendars: Jan 31 + 1 month lands on the last day of February. */
+function addMonths(d: Date, months: number): Date {
+  const target = new Date(d.getFullYear(), d.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(d.getDate(), lastDay));
+  return target;
+}
+
+/**
+ * The due date after `from` (`YYYY-MM-DD`). Returns null when the series has
+ * ended, i.e. the next date would fall after `until` or no occurrences are left.
+ */
+export function nextOccurrence(rule: Recurrence, from: string): string | null {
+  if (rule.count !== undefined && rule.count <= 1) return null;
+  const start = parseDateKey(from);
+  if (!start) return null;
+  const interval = rule.interval ?? 1;
+  let next: Date;
+
+  if (rule.freq === "weekly" && rule.byWeekday && rule.byWeekday.length > 0) {
+    // Next listed weekday in the same week, else the first listed weekday `interval` weeks on.
+    const days = [...rule.byWeekday].sort((a, b) => a - b);
+    const later = days.find((d) => d > start.getDay());
+    next =
+      later !== undefined
+        ? addDays(start, later - start.getDay())
+        : addDays(start, 7 * interval - start.getDay() + days[0]);
+  } else if (rule.freq === "daily") {
+    next = addDays(start, interval);
+  } else if (rule.freq === "weekly") {
+    next = addDays(start, 7 * interval);
+  } else if (rule.freq === "monthly") {
+    next = addMonths(start, interval);
+  } else {
+    next = addMonths(start, 12 * interval);
+  }
+
+  const key = toDateKey(next);
+  if (rule.until && key > rule.until.slice(0, 10)) return null;
+  return key;
+}
+
+/**
+ * The task that replaces a recurring task once it is completed, or null when
+ * the series has ended. Tasks without a due date are scheduled from `today`.
+ */
+export function buildNextOccurrence(
+  task: Task,
+  columns: WorkflowColumn[],
+  today = new Date()
+): Omit<Task, "id" | "createdAt" | "updatedAt" | "order"> | null {
+  if (!task.recurrence) return null;
+  const due = nextOccurrence(task.recurrence, task.due ?? toDateKey(today));
+  if (!due) return null;
+  const { count } = task.recurrence;
+  return {
+    projectId: task.projectId,
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    status: getDefaultStatus(columns),
+    assignee: task.assignee,
+    assigneeIds: task.assigneeIds,
+    tags: task.tags,
+    subtasks: task.subtasks?.map((s) => ({ id: localId("s"), title: s.title, done: false })),
+    due,
+    recurrence: count !== undefined ? { ...task.recurrence, count: count - 1 } : task.recurrence,
+  };
+}
+
+/** Whether `candidate` is the occurrence buildNextOccurrence made when `completed` was finished. */
+export function isNextOccurrence(completed: Task, candidate: Task): boolean {
+  return (
+    candidate.id !== completed.id &&
+    candidate.projectId === completed.projectId &&
+    candidate.title === completed.title &&
+    !!completed.recurrence &&
+    candidate.recurrence?.freq === completed.recurrence.freq
+  );
+}
+
+export function describeRecurrence(rule: Recurrence): string {
+  const interval = rule.interval ?? 1;
+  const unit = { daily: "day", weekly: "week", monthly: "month", yearly: "year" }[rule.freq];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  if (rule.freq === "weekly" && rule.byWeekday && rule.byWeekday.length > 0) {
+    text += ` on ${[...rule.byWeekday].sort((a, b) => a - b).map((d) => DAY_LABELS[d]).join(", ")}`;
+  }
+  if (rule.until) text += ` until ${rule.until.slice(0, 10)}`;
+  if (rule.count !== undefined) text += `, ${rule.count} left`;
+  return text;
+}
+
+/** Format as an iCalendar RRULE value, e.g. `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH`. */
+export function formatRRule(rule: Recurrence): string {
+  const parts = [`FREQ=${RRULE_FREQ[rule.freq]}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort((a, b) => a - b).map((d) => RRULE_DAYS[d]).join(",")}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.slice(0, 10).replace(/-/g, "")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+/** Parse the RRULE subset `formatRRule` produces; returns null for anything else. */
+export function parseRRule(value: string): Recurrence | null {
+  const fields = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, "").split(";")) {
+    if (!part) continue;
+    const [key, val] = part.split("=");
+    if (!key || val === undefined) return null;
+    fields.set(key.toUpperCase(), val.toUpperCase());
+  }
+
+  const freq = (Object.keys(RRULE_FREQ) as RecurrenceFrequency[]).find((f) => RRULE_FREQ[f] === fields.get("FREQ"));
+  if (!freq) return null;
+  const rule: Recurrence = { freq };
+
+  const interval = fields.get("INTERVAL");
+  if (interval !== undefined) {
+    const n = parseInt(interval, 10);
+    if (!(n >= 1)) return null;
+    if (n > 1) rule.interval = n;
+  }
+  const byDay = fields.get("BYDAY");
+  if (byDay !== undefined) {
+    const days = byDay.split(",").map((d) => RRULE_DAYS.indexOf(d));
+    if (days.some((d) => d === -1)) return null;
+    rule.byWeekday = days;
+  }
+  const until = fields.get("UNTIL");
+  if (until !== undefined) {
+    const m = until.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    if (!m) return null;
+    rule.until = `${m[1]}-${m[2]}-${m[3]}`;
+  }
+  const count = fields.get("COUNT");
+  if (count !== undefined) {
+    const n = parseInt(count, 10);
+    if (!(n >= 1)) return null;
+    rule.count = n;
+  }
+  return rule;
+}
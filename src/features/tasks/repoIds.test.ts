@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { DashboardRepo } from "./store";
+import { getDefaultStatus, getProjectColumns } from "./workflow";
+
+// The Supabase client needs a URL at import time; these tests only use in-memory repos.
+vi.mock("../../lib/supabase", () => ({ supabase: {} }));
+
+/** A repo as another client would have it: its own copy of the modules, so nothing is shared but the clock. */
+async function createClient(): Promise<DashboardRepo> {
+  vi.resetModules();
+  const { createMockRepo } = await import("./store");
+  return createMockRepo();
+}
+
+async function createTasks(repo: DashboardRepo, label: string, count: number) {
+  const [project] = await repo.listProjects();
+  const status = getDefaultStatus(getProjectColumns(project));
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const task = await repo.createTask({ projectId: project.id, title: `${label} ${i}`, status, priority: "medium", order: i });
+    ids.push(task.id);
+  }
+  return ids;
+}
+
+describe("ids across concurrent creators", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Every task below is created in the same millisecond.
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    return () => vi.useRealTimers();
+  });
+
+  it("don't collide when two clients create tasks in the same project at once", async () => {
+    const alice = await createClient();
+    const bob = await createClient();
+    const [fromAlice, fromBob] = await Promise.all([createTasks(alice, "Alice", 500), createTasks(bob, "Bob", 500)]);
+
+    const all = [...fromAlice, ...fromBob];
+    expect(new Set(all).size).toBe(all.length);
+    for (const id of all) expect(id).toMatch(/^t-[0-9A-HJKMNP-TV-Z]{26}$/);
+  });
+
+  it("sort in each client's creation order", async () => {
+    const alice = await createClient();
+    const bob = await createClient();
+    const [fromAlice, fromBob] = await Promise.all([createTasks(alice, "Alice", 200), createTasks(bob, "Bob", 200)]);
+
+    expect([...fromAlice].sort()).toEqual(fromAlice);
+    expect([...fromBob].sort()).toEqual(fromBob);
+  });
+
+  it("leave legacy ids readable next to new ones", async () => {
+    const repo = await createClient();
+    const [project] = await repo.listProjects();
+    const status = getDefaultStatus(getProjectColumns(project));
+    const legacy = await repo.createTask({ projectId: project.id, title: "Old", status, priority: "low", order: 0 }, "t-12-lq3x9k0a");
+    const [fresh] = await createTasks(repo, "New", 1);
+
+    const tasks = await repo.listTasks(project.id);
+    expect(tasks.map((t) => t.id)).toEqual(expect.arrayContaining([legacy.id, fresh]));
+  });
+});
@@ -7,13 +7,39 @@ import {
 } from "@dnd-kit/core";
 import { arrayMove } from "@dnd-kit/sortable";
 import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { useState } from "react";
 import { Link } from "react-router-dom";
 import type { Project } from "../types";
-import { IconPlus, IconX } from "../icons";
+import type { ProjectPlacement } from "../store";
+import { IconChevron, IconInbox, IconPlus, IconTrash, IconX } from "../icons";
 import { SortableProjectItem } from "./SortableProjectItem";
 import { collisionDetection } from "../utils";
 import { cn } from "../utils";
 
+/** A run of projects in the sidebar; folders and the archive can be collapsed. */
+type ProjectGroup = { key: string; label?: string; collapsible?: boolean; projects: Project[] };
+
+/**
+ * Pinned projects first, then those in no folder, then each folder in order of
+ * its first project, then archived projects.
+ */
+function groupProjects(projects: Project[]): ProjectGroup[] {
+  const active = projects.filter((p) => !p.archivedAt);
+  const folders = new Map<string, Project[]>();
+  for (const p of active) {
+    if (p.pinned || !p.folder) continue;
+    folders.set(p.folder, [...(folders.get(p.folder) ?? []), p]);
+  }
+  const pinned = active.filter((p) => p.pinned);
+  const archived = projects.filter((p) => p.archivedAt);
+  return [
+    ...(pinned.length > 0 ? [{ key: "pinned", label: "Pinned", projects: pinned }] : []),
+    { key: "loose", projects: active.filter((p) => !p.pinned && !p.folder) },
+    ...[...folders].map(([folder, list]) => ({ key: `folder:${folder}`, label: folder, collapsible: true, projects: list })),
+    ...(archived.length > 0 ? [{ key: "archived", label: "Archived", collapsible: true, projects: archived }] : []),
+  ];
+}
+
 export function Sidebar({
   projects,
   activeId,
@@ -21,16 +47,23 @@ export function Sidebar({
   onAdd,
   onEdit,
   onDelete,
+  onArchive,
   onReorder,
+  onPlace,
   collapsed,
   onToggle,
   useMockData,
   canManageProject,
   onExport,
   onImport,
+  onBackup,
   hasActiveProject,
   onLeaveProject,
   currentUserId,
+  myWorkHref,
+  isMyWork,
+  trashHref,
+  isTrash,
 }: {
   projects: Project[];
   activeId: string | null;
@@ -38,17 +71,28 @@ export function Sidebar({
   onAdd: () => void;
   onEdit?: (p: Project) => void;
   onDelete?: (id: string) => void;
+  onArchive?: (id: string, archived: boolean) => void;
   onReorder: (ids: string[]) => void;
+  onPlace?: (id: string, placement: ProjectPlacement) => void;
   collapsed: boolean;
   onToggle: () => void;
   useMockData: boolean;
   canManageProject?: (id: string) => boolean;
-  onExport?: () => void;
+  onExport?: (format: "json" | "csv") => void;
   onImport?: () => void;
+  onBackup?: () => void;
   hasActiveProject?: boolean;
   onLeaveProject?: (id: string) => void;
   currentUserId?: string;
+  myWorkHref?: string;
+  isMyWork?: boolean;
+  trashHref?: string;
+  isTrash?: boolean;
 }) {
+  const [exportOpen, setExportOpen] = useState(false);
+  const [closedGroups, setClosedGroups] = useState<Set<string>>(new Set(["archived"]));
+  const groups = groupProjects(projects);
+  const folderNames = groups.flatMap((g) => (g.key.startsWith("folder:") && g.label ? [g.label] : []));
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 5 } })
   );
@@ -61,11 +105,41 @@ export function Sidebar({
     document.body.classList.remove("is-dragging");
     const { active, over } = event;
     if (!over || active.id === over.id) return;
-    const oldIndex = projects.findIndex((p) => p.id === active.id);
-    const newIndex = projects.findIndex((p) => p.id === over.id);
+    // Projects are reordered within their group; pinning and folders move them between groups.
+    const group = groups.find((g) => g.projects.some((p) => p.id === active.id));
+    if (!group) return;
+    const oldIndex = group.projects.findIndex((p) => p.id === active.id);
+    const newIndex = group.projects.findIndex((p) => p.id === over.id);
     if (oldIndex === -1 || newIndex === -1) return;
-    const reordered = arrayMove(projects, oldIndex, newIndex);
-    onReorder(reordered.map((p: Project) => p.id));
+    const reordered = arrayMove(group.projects, oldIndex, newIndex);
+    onReorder(groups.flatMap((g) => (g === group ? reordered : g.projects)).map((p: Project) => p.id));
+  }
+
+  function toggleGroup(key: string) {
+    setClosedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }
+
+  function renderProject(p: Project) {
+    return (
+      <SortableProjectItem
+        key={p.id}
+        project={p}
+        isActive={p.id === activeId}
+        onSelect={() => onSelect(p.id)}
+        onEdit={onEdit && (!canManageProject || canManageProject(p.id)) ? () => onEdit(p) : undefined}
+        onDelete={onDelete && (!canManageProject || canManageProject(p.id)) ? () => onDelete(p.id) : undefined}
+        onLeave={onLeaveProject && currentUserId && (p as any).ownerId && (p as any).ownerId !== currentUserId ? () => onLeaveProject(p.id) : undefined}
+        onArchive={onArchive && (!canManageProject || canManageProject(p.id)) ? () => onArchive(p.id, !p.archivedAt) : undefined}
+        onTogglePin={onPlace && !p.archivedAt ? () => onPlace(p.id, { pinned: !p.pinned }) : undefined}
+        folders={folderNames}
+        onMoveToFolder={onPlace && !p.archivedAt ? (folder) => onPlace(p.id, { folder }) : undefined}
+      />
+    );
   }
 
   return (
@@ -90,6 +164,34 @@ export function Sidebar({
         </div>
 
         <div className="dark-scroll flex-1 overflow-y-auto px-3 py-4">
+          {myWorkHref && (
+            <Link
+              to={myWorkHref}
+              className={cn(
+                "mb-4 flex items-center gap-2 rounded-lg px-2 py-2 text-sm transition-colors",
+                isMyWork
+                  ? "bg-sidebar-active text-white"
+                  : "text-sidebar-muted hover:bg-sidebar-hover hover:text-white"
+              )}
+            >
+              <IconInbox className="h-4 w-4" />
+              My Work
+            </Link>
+          )}
+          {trashHref && (
+            <Link
+              to={trashHref}
+              className={cn(
+                "-mt-3 mb-4 flex items-center gap-2 rounded-lg px-2 py-2 text-sm transition-colors",
+                isTrash
+                  ? "bg-sidebar-active text-white"
+                  : "text-sidebar-muted hover:bg-sidebar-hover hover:text-white"
+              )}
+            >
+              <IconTrash className="h-4 w-4" />
+              Trash
+            </Link>
+          )}
           <div className="mb-2 flex items-center justify-between px-2">
             <span className="text-2xs font-semibold uppercase tracking-wider text-sidebar-muted">Projects</span>
             <button
@@ -101,28 +203,37 @@ export function Sidebar({
             </button>
           </div>
           <DndContext sensors={sensors} collisionDetection={collisionDetection} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => document.body.classList.remove("is-dragging")}>
-            <SortableContext items={projects.map((p) => p.id)} strategy={verticalListSortingStrategy}>
-              <div className="space-y-0.5">
-                {projects.map((p) => (
-                  <SortableProjectItem
-                    key={p.id}
-                    project={p}
-                    isActive={p.id === activeId}
-                    onSelect={() => onSelect(p.id)}
-                    onEdit={onEdit && (!canManageProject || canManageProject(p.id)) ? () => onEdit(p) : undefined}
-                    onDelete={onDelete && (!canManageProject || canManageProject(p.id)) ? () => onDelete(p.id) : undefined}
-                    onLeave={onLeaveProject && currentUserId && (p as any).ownerId && (p as any).ownerId !== currentUserId ? () => onLeaveProject(p.id) : undefined}
-                  />
-                ))}
-                {projects.length === 0 && (
-                  <div className="px-2 py-6 text-center text-xs text-sidebar-muted">
-                    No projects yet.
-                    <br />
-                    Create one to get started.
-                  </div>
-                )}
-              </div>
-            </SortableContext>
+            <div className="space-y-0.5">
+              {groups.map((g) => (
+                <SortableContext key={g.key} items={g.projects.map((p) => p.id)} strategy={verticalListSortingStrategy}>
+                  {g.collapsible ? (
+                    <div>
+                      <button
+                        onClick={() => toggleGroup(g.key)}
+                        className="flex w-full items-center gap-1.5 rounded-lg px-1.5 py-1.5 text-xs font-medium text-sidebar-muted hover:bg-sidebar-hover hover:text-white"
+                      >
+                        <IconChevron className={cn("h-3 w-3 transition-transform", !closedGroups.has(g.key) && "rotate-90")} />
+                        <span className="flex-1 truncate text-left">{g.label}</span>
+                        <span className="text-2xs text-sidebar-muted/70">{g.projects.length}</span>
+                      </button>
+                      {!closedGroups.has(g.key) && <div className="ml-3 space-y-0.5">{g.projects.map(renderProject)}</div>}
+                    </div>
+                  ) : (
+                    <>
+                      {g.label && <div className="px-2 pb-0.5 pt-1 text-2xs font-medium text-sidebar-muted/70">{g.label}</div>}
+                      {g.projects.map(renderProject)}
+                    </>
+                  )}
+                </SortableContext>
+              ))}
+              {projects.length === 0 && (
+                <div className="px-2 py-6 text-center text-xs text-sidebar-muted">
+                  No projects yet.
+                  <br />
+                  Create one to get started.
+                </div>
+              )}
+            </div>
           </DndContext>
         </div>
 
@@ -147,23 +258,57 @@ export function Sidebar({
         )}
 
         <div className="border-t border-sidebar-border px-3 py-3 shrink-0 flex items-center gap-2">
-          {onExport && hasActiveProject && (
-            <button
-              onClick={onExport}
-              className="flex-1 flex items-center justify-center gap-1.5 rounded-lg border border-sidebar-border bg-sidebar-hover/50 px-2 py-1.5 text-2xs font-medium text-sidebar-muted hover:text-white hover:bg-sidebar-hover transition-colors"
-              title="Export project as JSON"
+          {((onExport && hasActiveProject) || onBackup) && (
+            <div
+              className="relative flex-1"
+              onBlur={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setExportOpen(false);
+              }}
             >
-              <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-              </svg>
-              Export
-            </button>
+              <button
+                onClick={() => setExportOpen((o) => !o)}
+                className="w-full flex items-center justify-center gap-1.5 rounded-lg border border-sidebar-border bg-sidebar-hover/50 px-2 py-1.5 text-2xs font-medium text-sidebar-muted hover:text-white hover:bg-sidebar-hover transition-colors"
+                title="Export the project, or back up the whole workspace"
+              >
+                <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+                Export
+              </button>
+              {exportOpen && (
+                <div className="absolute bottom-full left-0 right-0 mb-1 overflow-hidden rounded-lg border border-sidebar-border bg-sidebar shadow-lg">
+                  {onExport && hasActiveProject && (["json", "csv"] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => {
+                        setExportOpen(false);
+                        onExport(format);
+                      }}
+                      className="block w-full px-3 py-1.5 text-left text-2xs font-medium text-sidebar-muted hover:text-white hover:bg-sidebar-hover transition-colors"
+                    >
+                      {format === "json" ? "Project JSON" : "Tasks CSV"}
+                    </button>
+                  ))}
+                  {onBackup && (
+                    <button
+                      onClick={() => {
+                        setExportOpen(false);
+                        onBackup();
+                      }}
+                      className="block w-full border-t border-sidebar-border px-3 py-1.5 text-left text-2xs font-medium text-sidebar-muted hover:text-white hover:bg-sidebar-hover transition-colors"
+                    >
+                      Workspace backup
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
           )}
           {onImport && (
             <button
               onClick={onImport}
               className="flex-1 flex items-center justify-center gap-1.5 rounded-lg border border-sidebar-border bg-sidebar-hover/50 px-2 py-1.5 text-2xs font-medium text-sidebar-muted hover:text-white hover:bg-sidebar-hover transition-colors"
-              title="Import project from JSON"
+              title="Import a project (JSON, CSV, Trello, GitHub or Jira) or restore a workspace backup"
             >
               <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
@@ -1,7 +1,8 @@
+import { useState } from "react";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import type { Project } from "../types";
-import { IconFolder, IconEdit, IconTrash, IconGrip } from "../icons";
+import { IconFolder, IconEdit, IconTrash, IconGrip, IconPin, IconArchive } from "../icons";
 import { stopProp } from "../utils";
 import { cn } from "../utils";
 
@@ -12,6 +13,10 @@ export function SortableProjectItem({
   onEdit,
   onDelete,
   onLeave,
+  onArchive,
+  onTogglePin,
+  folders = [],
+  onMoveToFolder,
 }: {
   project: Project;
   isActive: boolean;
@@ -19,7 +24,14 @@ export function SortableProjectItem({
   onEdit?: () => void;
   onDelete?: () => void;
   onLeave?: () => void;
+  /** Archive the project, or unarchive it if it already is. */
+  onArchive?: () => void;
+  onTogglePin?: () => void;
+  /** Folder names in use, offered in the "Move to folder" menu. */
+  folders?: string[];
+  onMoveToFolder?: (folder: string | undefined) => void;
 }) {
+  const [folderMenuOpen, setFolderMenuOpen] = useState(false);
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: project.id });
   const style: React.CSSProperties = {
     transform: CSS.Transform.toString(transform),
@@ -32,7 +44,7 @@ export function SortableProjectItem({
       ref={setNodeRef}
       style={style}
       className={cn(
-        "group flex items-center gap-1.5 rounded-lg px-1 py-2 text-sm transition-colors cursor-pointer",
+        "group relative flex items-center gap-1.5 rounded-lg px-1 py-2 text-sm transition-colors cursor-pointer",
         isActive
           ? "bg-sidebar-active text-white"
           : "text-sidebar-muted hover:bg-sidebar-hover hover:text-white"
@@ -54,8 +66,52 @@ export function SortableProjectItem({
         <IconFolder className="h-3.5 w-3.5" />
       </span>
       <span className="flex-1 truncate">{project.name}</span>
-      {(onEdit || onDelete || onLeave) && (
-        <div className="mr-1 flex items-center gap-0.5 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity" onClick={stopProp}>
+      {(onEdit || onDelete || onLeave || onArchive || onTogglePin || onMoveToFolder) && (
+        <div
+          className={cn(
+            "mr-1 flex items-center gap-0.5 transition-opacity",
+            folderMenuOpen ? "opacity-100" : "opacity-100 sm:opacity-0 sm:group-hover:opacity-100"
+          )}
+          onClick={stopProp}
+        >
+          {onTogglePin && (
+            <button
+              onClick={onTogglePin}
+              className={cn(
+                "rounded p-1 hover:bg-sidebar-hover hover:text-white",
+                project.pinned ? "text-white" : "text-sidebar-muted"
+              )}
+              title={project.pinned ? "Unpin" : "Pin to top"}
+            >
+              <IconPin className="h-3 w-3" />
+            </button>
+          )}
+          {onMoveToFolder && (
+            <div
+              onBlur={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setFolderMenuOpen(false);
+              }}
+            >
+              <button
+                onClick={() => setFolderMenuOpen((o) => !o)}
+                className="rounded p-1 text-sidebar-muted hover:bg-sidebar-hover hover:text-white"
+                title="Move to folder"
+              >
+                <IconFolder className="h-3 w-3" />
+              </button>
+              {folderMenuOpen && (
+                <FolderMenu
+                  current={project.folder}
+                  folders={folders}
+                  onMove={(folder) => {
+                    setFolderMenuOpen(false);
+                    if (folder !== project.folder) onMoveToFolder(folder);
+                  }}
+                  onClose={() => setFolderMenuOpen(false)}
+                />
+              )}
+            </div>
+          )}
           {onEdit && (
             <button
               onClick={onEdit}
@@ -65,6 +121,15 @@ export function SortableProjectItem({
               <IconEdit className="h-3 w-3" />
             </button>
           )}
+          {onArchive && (
+            <button
+              onClick={onArchive}
+              className="rounded p-1 text-sidebar-muted hover:bg-sidebar-hover hover:text-white"
+              title={project.archivedAt ? "Unarchive project" : "Archive project"}
+            >
+              <IconArchive className="h-3 w-3" />
+            </button>
+          )}
           {onLeave && (
             <button
               onClick={onLeave}
@@ -90,3 +155,53 @@ export function SortableProjectItem({
     </div>
   );
 }
+
+/** Pick one of the user's folders, take the project out of its folder, or name a new one. */
+function FolderMenu({
+  current,
+  folders,
+  onMove,
+  onClose,
+}: {
+  current?: string;
+  folders: string[];
+  onMove: (folder: string | undefined) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState("");
+  const itemClass = "block w-full truncate px-3 py-1.5 text-left text-2xs font-medium transition-colors hover:bg-sidebar-hover hover:text-white";
+
+  return (
+    <div className="absolute right-1 top-full z-10 mt-1 w-44 overflow-hidden rounded-lg border border-sidebar-border bg-sidebar shadow-lg">
+      {folders.map((f) => (
+        <button key={f} onClick={() => onMove(f)} className={cn(itemClass, f === current ? "text-white" : "text-sidebar-muted")}>
+          {f}
+        </button>
+      ))}
+      {current && (
+        <button onClick={() => onMove(undefined)} className={cn(itemClass, "text-sidebar-muted")}>
+          No folder
+        </button>
+      )}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (name.trim()) onMove(name.trim());
+        }}
+        className={cn("p-1.5", (folders.length > 0 || current) && "border-t border-sidebar-border")}
+      >
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") onClose();
+          }}
+          placeholder="New folder…"
+          maxLength={40}
+          className="w-full rounded-md border border-sidebar-border bg-sidebar-hover/50 px-2 py-1 text-2xs text-white placeholder:text-sidebar-muted focus:outline-none"
+        />
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+-- Per-user sidebar order, pins and folders
+-- Run this in Supabase SQL editor (after project_members.sql).
+--
+-- One row per user and project they have arranged. Every user, owner or
+-- member, keeps their own order, so it follows them to any device and shared
+-- projects no longer fall back to the owner's order. position is NULL until
+-- the user drags the project; such projects are listed after the others.
+-- projects.order is now only the owner's initial order.
+
+CREATE TABLE IF NOT EXISTS project_preferences (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id text NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  position integer,
+  pinned boolean NOT NULL DEFAULT false,
+  folder text CHECK (folder IS NULL OR length(folder) > 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, project_id)
+);
+
+ALTER TABLE project_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see own project preferences"
+  ON project_preferences FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Only for projects the user can see: ones they own or are a member of.
+CREATE POLICY "Users can add own project preferences"
+  ON project_preferences FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      project_id IN (SELECT p.id FROM projects p WHERE p.user_id = auth.uid())
+      OR project_id IN (SELECT m.project_id FROM project_members m WHERE m.user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can update own project preferences"
+  ON project_preferences FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own project preferences"
+  ON project_preferences FOR DELETE
+  USING (user_id = auth.uid());
@@ -0,0 +1,9 @@
+-- Saved task views per project
+-- Run this in Supabase SQL editor.
+--
+-- Stored as a JSON array of { id, name, filters, sort, view }. Filters use
+-- column keys and member user ids, so views are only meaningful within their
+-- own project. Only the project owner can update projects, so only owners
+-- can save or delete views; everyone with access can apply them.
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS saved_views jsonb;
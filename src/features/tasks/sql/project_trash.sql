@@ -0,0 +1,33 @@
+-- Archived projects and the trash
+-- Run this in Supabase SQL editor (after project_members.sql).
+--
+-- archived_at: the project is read-only and listed apart in the sidebar.
+-- deleted_at: the project or task is in the trash. Deleting in the app only
+-- sets it; the row is removed when the trash is emptied or 30 days later
+-- (TRASH_RETENTION_DAYS in trash.ts). A trashed project's tasks keep their own
+-- deleted_at, so restoring the project brings back exactly what it had.
+-- Both are plain updates, so the existing UPDATE policies apply.
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS projects_deleted_idx ON projects (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS tasks_deleted_idx ON tasks (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- The app purges expired items whenever the trash is opened. To purge them
+-- even if nobody looks, schedule this function, e.g. with pg_cron:
+--   SELECT cron.schedule('purge-expired-trash', '0 3 * * *', 'SELECT purge_expired_trash()');
+-- Dependencies on purged tasks are left in blocked_by; the app ignores
+-- blockers it can't find.
+CREATE OR REPLACE FUNCTION purge_expired_trash()
+RETURNS void AS $$
+  DELETE FROM project_members
+    WHERE project_id IN (SELECT id FROM projects WHERE deleted_at < now() - interval '30 days');
+  DELETE FROM tasks
+    WHERE deleted_at < now() - interval '30 days'
+       OR project_id IN (SELECT id FROM projects WHERE deleted_at < now() - interval '30 days');
+  DELETE FROM projects WHERE deleted_at < now() - interval '30 days';
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_trash() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,12 @@
+-- Per-project workflow columns
+-- Run this in Supabase SQL editor.
+--
+-- Stored as a JSON array of { key, label, icon, color, done?, wipLimit? } in display order.
+-- NULL means the project uses the default Backlog / To Do / In Progress / Done workflow.
+-- Task status is now any column key, so drop the old fixed-value check if you added one:
+--   ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS columns jsonb;
+
+-- What happens when a drop exceeds a column's WIP limit: 'warn' (default) or 'block'.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS wip_policy text CHECK (wip_policy IN ('warn', 'block'));
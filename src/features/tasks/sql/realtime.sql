@@ -0,0 +1,11 @@
+-- Realtime updates for tasks, projects and memberships
+-- Run this in Supabase SQL editor (after project_members.sql).
+--
+-- Row level security still applies: clients only receive changes to rows
+-- they can SELECT. DELETE events carry the old row's primary key only,
+-- unless the table uses REPLICA IDENTITY FULL; memberships need the full
+-- row so clients know which project lost a member.
+
+ALTER PUBLICATION supabase_realtime ADD TABLE tasks, projects, project_members;
+
+ALTER TABLE project_members REPLICA IDENTITY FULL;
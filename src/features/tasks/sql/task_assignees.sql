@@ -0,0 +1,10 @@
+-- Task assignees linked to project members
+-- Run this in Supabase SQL editor.
+--
+-- assignee_ids holds project_members.user_id values. The old free-text
+-- `assignee` column is kept so existing tasks can be migrated by the client
+-- (names/emails that match a member are moved over on first load).
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS assignee_ids uuid[];
+
+CREATE INDEX IF NOT EXISTS tasks_assignee_ids_idx ON tasks USING gin (assignee_ids);
@@ -0,0 +1,33 @@
+-- Task attachments
+-- Run this in Supabase SQL editor (after task_history.sql, which defines
+-- can_view_project and can_edit_project).
+--
+-- A task lists its attachments as JSON [{ id, name, type, size, path,
+-- createdAt }]; the files live in the private "task-attachments" bucket under
+-- <project id>/<attachment id>/<file name>. Access follows the project in the
+-- path only, so the app copies a task's files into the new project's folder
+-- when the task moves. It deletes a file when it is removed from its task or
+-- the task is purged from the trash. Keep file_size_limit in step with
+-- MAX_ATTACHMENT_BYTES in attachments.ts.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS attachments jsonb;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('task-attachments', 'task-attachments', false, 10485760)
+ON CONFLICT (id) DO UPDATE SET public = false, file_size_limit = EXCLUDED.file_size_limit;
+
+DROP POLICY IF EXISTS "task_attachments_select" ON storage.objects;
+CREATE POLICY "task_attachments_select" ON storage.objects FOR SELECT
+  USING (bucket_id = 'task-attachments' AND can_view_project((storage.foldername(name))[1], auth.uid()));
+
+DROP POLICY IF EXISTS "task_attachments_insert" ON storage.objects;
+CREATE POLICY "task_attachments_insert" ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'task-attachments' AND can_edit_project((storage.foldername(name))[1], auth.uid()));
+
+DROP POLICY IF EXISTS "task_attachments_delete" ON storage.objects;
+CREATE POLICY "task_attachments_delete" ON storage.objects FOR DELETE
+  USING (bucket_id = 'task-attachments' AND can_edit_project((storage.foldername(name))[1], auth.uid()));
+
+-- purge_expired_trash() (project_trash.sql) deletes rows only, so files of
+-- tasks it purges stay in the bucket. Remove them with the Storage API, e.g.
+-- from a scheduled edge function, if that matters for your storage quota.
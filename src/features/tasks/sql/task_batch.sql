@@ -0,0 +1,43 @@
+-- Batch task updates (bulk actions, multi-card drag, moving between projects)
+-- Run this in Supabase SQL editor (after task_history.sql, task_attachments.sql
+-- and project_trash.sql).
+--
+-- p_rows is a JSON array of complete task rows as read by the client with the
+-- changes applied. Every row is written in one statement; the function runs
+-- as the caller, so the usual UPDATE policies on tasks still apply, and rows
+-- they refuse are left out of the result.
+
+CREATE OR REPLACE FUNCTION update_tasks_batch(p_rows jsonb)
+RETURNS SETOF tasks AS $$
+  UPDATE tasks t SET
+    project_id = r.project_id,
+    title = r.title,
+    description = r.description,
+    status = r.status,
+    priority = r.priority,
+    assignee = r.assignee,
+    assignee_ids = r.assignee_ids,
+    due = r.due,
+    tags = r.tags,
+    subtasks = r.subtasks,
+    blocked_by = r.blocked_by,
+    recurrence = r.recurrence,
+    attachments = r.attachments,
+    deleted_at = r.deleted_at,
+    "order" = r."order",
+    updated_at = r.updated_at
+  FROM jsonb_populate_recordset(NULL::tasks, p_rows) r
+  WHERE t.id = r.id
+  RETURNING t.*;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+-- Comments and activity follow their task when it moves to another project.
+CREATE POLICY "Editors can move comments"
+  ON task_comments FOR UPDATE
+  USING (can_edit_project(project_id, auth.uid()))
+  WITH CHECK (can_edit_project(project_id, auth.uid()));
+
+CREATE POLICY "Editors can move activity"
+  ON task_activity FOR UPDATE
+  USING (can_edit_project(project_id, auth.uid()))
+  WITH CHECK (can_edit_project(project_id, auth.uid()));
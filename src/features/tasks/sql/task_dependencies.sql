@@ -0,0 +1,13 @@
+-- Task dependencies ("blocked by")
+-- Run this in Supabase SQL editor.
+--
+-- blocked_by holds the ids of tasks that must be done first; they may live in
+-- other projects. There is no foreign key, so the client removes an id when
+-- its task is deleted and ignores ids it cannot resolve.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS blocked_by text[];
+
+CREATE INDEX IF NOT EXISTS tasks_blocked_by_idx ON tasks USING gin (blocked_by);
+
+-- What happens when a blocked task is moved to a done column: 'warn' (default) or 'block'.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS dependency_policy text CHECK (dependency_policy IN ('warn', 'block'));
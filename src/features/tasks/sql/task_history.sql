@@ -0,0 +1,73 @@
+-- Task comments and activity log
+-- Run this in Supabase SQL editor (after project_members.sql).
+--
+-- Both tables cascade with their task. project_id is denormalized so the
+-- policies below can check membership without joining through tasks.
+
+CREATE TABLE IF NOT EXISTS task_comments (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id text NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  project_id text NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (length(body) > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_comments_task_idx ON task_comments (task_id, created_at);
+
+-- kind: 'created' | 'status' | 'priority' | 'title' | 'assignees'
+-- from_value / to_value hold a column key, priority, title or array of assignee keys.
+CREATE TABLE IF NOT EXISTS task_activity (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id text NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  project_id text NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('created', 'status', 'priority', 'title', 'assignees')),
+  from_value jsonb,
+  to_value jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_activity_task_idx ON task_activity (task_id, created_at);
+
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_activity ENABLE ROW LEVEL SECURITY;
+
+-- Helper: can the user see the project (owner or any member)?
+CREATE OR REPLACE FUNCTION can_view_project(p_project_id text, p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM projects WHERE id = p_project_id AND user_id = p_user_id)
+      OR EXISTS (SELECT 1 FROM project_members WHERE project_id = p_project_id AND user_id = p_user_id);
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+-- Helper: can the user change tasks in the project (owner, editor or project creator)?
+CREATE OR REPLACE FUNCTION can_edit_project(p_project_id text, p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM projects WHERE id = p_project_id AND user_id = p_user_id)
+      OR EXISTS (
+        SELECT 1 FROM project_members
+        WHERE project_id = p_project_id AND user_id = p_user_id AND role IN ('editor', 'owner')
+      );
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+-- Comments: anyone with access can read and write; authors delete their own.
+CREATE POLICY "Members can view comments"
+  ON task_comments FOR SELECT
+  USING (can_view_project(project_id, auth.uid()));
+
+CREATE POLICY "Members can add comments"
+  ON task_comments FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND can_view_project(project_id, auth.uid()));
+
+CREATE POLICY "Authors can delete comments"
+  ON task_comments FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Activity: written by whoever changed the task; never updated or deleted by clients.
+CREATE POLICY "Members can view activity"
+  ON task_activity FOR SELECT
+  USING (can_view_project(project_id, auth.uid()));
+
+CREATE POLICY "Editors can record activity"
+  ON task_activity FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND can_edit_project(project_id, auth.uid()));
@@ -0,0 +1,21 @@
+-- Moving tasks between projects
+-- Run this in Supabase SQL editor (after project_members.sql and task_history.sql).
+--
+-- The original UPDATE policy has no WITH CHECK, so Postgres reuses USING for
+-- the new row and a task's creator could move it into any project. Moving now
+-- needs edit rights on the source (USING) and on the target (WITH CHECK).
+-- Copies go through the existing INSERT policy, which already requires an
+-- editor or owner role on the target project.
+
+DROP POLICY IF EXISTS "Editors can update tasks on shared projects" ON tasks;
+
+CREATE POLICY "Editors can update tasks on shared projects"
+  ON tasks FOR UPDATE
+  USING (
+    project_id IN (
+      SELECT pm.project_id FROM project_members pm
+      WHERE pm.user_id = auth.uid() AND pm.role IN ('editor', 'owner')
+    )
+    OR user_id = auth.uid()
+  )
+  WITH CHECK (can_edit_project(project_id, auth.uid()));
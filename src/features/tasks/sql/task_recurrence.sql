@@ -0,0 +1,9 @@
+-- Recurring tasks
+-- Run this in Supabase SQL editor.
+--
+-- Stored as JSON { freq, interval?, byWeekday?, until?, count? }, where freq is
+-- 'daily' | 'weekly' | 'monthly' | 'yearly' and byWeekday uses 0 = Sunday.
+-- When a recurring task is completed the client clears this column on it and
+-- inserts the next occurrence with the rule.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence jsonb;
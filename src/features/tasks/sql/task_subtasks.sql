@@ -0,0 +1,6 @@
+-- Subtasks / checklist items on tasks
+-- Run this in Supabase SQL editor.
+--
+-- Stored as a JSON array of { id, title, done } in display order.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS subtasks jsonb;
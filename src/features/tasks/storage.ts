@@ -1,10 +1,19 @@
-import type { Project, Task, TaskStatus } from "./types";
+import type { Project, Task, TaskActivity, TaskComment } from "./types";
+import type { WorkspaceData } from "./backup";
+import { getDefaultStatus, getProjectColumns, hasStatus, isWorkflowColumn } from "./workflow";
+import { isSavedView } from "./filters";
+import { isRecurrence } from "./recurrence";
+import { isTaskAttachment } from "./attachments";
 
 const STORAGE_KEY_PROJECTS = "project-dashboard:projects";
 const STORAGE_KEY_TASKS = "project-dashboard:tasks";
+const STORAGE_KEY_COMMENTS = "project-dashboard:comments";
+const STORAGE_KEY_ACTIVITY = "project-dashboard:activity";
+const STORAGE_KEY_ARCHIVE = "project-dashboard:archive";
+const STORAGE_KEY_MIGRATION_DISMISSED = "project-dashboard:migration-dismissed";
+const STORAGE_KEY_ASSIGNEES_MIGRATED = "project-dashboard:assignees-migrated";
 const STORAGE_VERSION = 1;
 
-const VALID_STATUSES: TaskStatus[] = ["backlog", "todo", "in_progress", "done"];
 const VALID_PRIORITIES = ["low", "medium", "high", "urgent"] as const;
 
 function parseVersionedData<T>(raw: string | null, guard: (obj: unknown) => obj is T): T[] {
@@ -23,7 +32,7 @@ function parseVersionedData<T>(raw: string | null, guard: (obj: unknown) => obj
   }
 }
 
-function isProject(obj: unknown): obj is Project {
+export function isProject(obj: unknown): obj is Project {
   if (!obj || typeof obj !== "object") return false;
   const o = obj as Record<string, unknown>;
   return (
@@ -33,44 +42,130 @@ function isProject(obj: unknown): obj is Project {
     typeof o.color === "string" &&
     typeof o.order === "number" &&
     typeof o.createdAt === "string" &&
-    typeof o.updatedAt === "string"
+    typeof o.updatedAt === "string" &&
+    (o.columns === undefined || (Array.isArray(o.columns) && o.columns.every(isWorkflowColumn))) &&
+    (o.wipPolicy === undefined || o.wipPolicy === "warn" || o.wipPolicy === "block") &&
+    (o.dependencyPolicy === undefined || o.dependencyPolicy === "warn" || o.dependencyPolicy === "block") &&
+    (o.savedViews === undefined || (Array.isArray(o.savedViews) && o.savedViews.every(isSavedView))) &&
+    (o.pinned === undefined || typeof o.pinned === "boolean") &&
+    (o.folder === undefined || typeof o.folder === "string") &&
+    (o.archivedAt === undefined || typeof o.archivedAt === "string") &&
+    (o.deletedAt === undefined || typeof o.deletedAt === "string")
   );
 }
 
-function isTask(obj: unknown): obj is Task {
-  if (!obj || typeof obj !== "object") return false;
+/**
+ * Why `obj` is not a valid stored task, one message per problem; empty when it is.
+ * Whether the status exists in the project's workflow is checked separately
+ * (in loadTasks, and by the import preview).
+ */
+export function taskProblems(obj: unknown): string[] {
+  if (!obj || typeof obj !== "object") return ["Not an object"];
   const o = obj as Record<string, unknown>;
+  const problems: string[] = [];
+  if (typeof o.id !== "string") problems.push("Missing id");
+  if (typeof o.projectId !== "string") problems.push("Missing project");
+  if (typeof o.title !== "string") problems.push("Missing title");
+  if (typeof o.order !== "number") problems.push("Missing order");
+  if (typeof o.createdAt !== "string" || typeof o.updatedAt !== "string") problems.push("Missing timestamps");
+  if (typeof o.status !== "string" || !o.status) problems.push("Missing status");
+  if (!VALID_PRIORITIES.includes(o.priority as (typeof VALID_PRIORITIES)[number])) {
+    problems.push(`Unknown priority "${String(o.priority)}"`);
+  }
+  if (o.description !== undefined && typeof o.description !== "string") problems.push("Description must be text");
+  if (o.due !== undefined && typeof o.due !== "string") problems.push("Due date must be text");
+  if (o.tags !== undefined && (!Array.isArray(o.tags) || o.tags.some((t: unknown) => typeof t !== "string"))) {
+    problems.push("Tags must be a list of text");
+  }
   if (
-    typeof o.id !== "string" ||
-    typeof o.projectId !== "string" ||
-    typeof o.title !== "string" ||
-    typeof o.order !== "number" ||
-    typeof o.createdAt !== "string" ||
-    typeof o.updatedAt !== "string"
-  )
-    return false;
-  if (!VALID_STATUSES.includes(o.status as TaskStatus)) return false;
-  if (!VALID_PRIORITIES.includes(o.priority as (typeof VALID_PRIORITIES)[number])) return false;
-  if (o.description !== undefined && typeof o.description !== "string") return false;
-  if (o.due !== undefined && typeof o.due !== "string") return false;
-  if (o.tags !== undefined && (!Array.isArray(o.tags) || o.tags.some((t: unknown) => typeof t !== "string")))
-    return false;
+    o.assigneeIds !== undefined &&
+    (!Array.isArray(o.assigneeIds) || o.assigneeIds.some((id: unknown) => typeof id !== "string"))
+  ) {
+    problems.push("Assignee ids must be a list of text");
+  }
+  if (
+    o.blockedBy !== undefined &&
+    (!Array.isArray(o.blockedBy) || o.blockedBy.some((id: unknown) => typeof id !== "string"))
+  ) {
+    problems.push("Dependencies must be a list of task ids");
+  }
+  if (o.recurrence !== undefined && !isRecurrence(o.recurrence)) problems.push("Invalid repeat rule");
+  if (o.deletedAt !== undefined && typeof o.deletedAt !== "string") problems.push("Invalid deletion time");
+  if (o.attachments !== undefined && (!Array.isArray(o.attachments) || !o.attachments.every(isTaskAttachment))) {
+    problems.push("Invalid attachments");
+  }
+  if (o.subtasks !== undefined) {
+    const valid =
+      Array.isArray(o.subtasks) &&
+      (o.subtasks as unknown[]).every((item) => {
+        const st = item as Record<string, unknown>;
+        return !!st && typeof st === "object" && typeof st.id === "string" && typeof st.title === "string" && typeof st.done === "boolean";
+      });
+    if (!valid) problems.push("Invalid subtasks");
+  }
   if (o.assignee !== undefined) {
     const a = o.assignee as Record<string, unknown>;
-    if (!a || typeof a !== "object") return false;
-    if (typeof a.name !== "string" || typeof a.initials !== "string" || typeof a.color !== "string") return false;
+    if (!a || typeof a !== "object" || typeof a.name !== "string" || typeof a.initials !== "string" || typeof a.color !== "string") {
+      problems.push("Invalid assignee");
+    }
   }
-  return true;
+  return problems;
+}
+
+export function isTask(obj: unknown): obj is Task {
+  return taskProblems(obj).length === 0;
+}
+
+export function isTaskComment(obj: unknown): obj is TaskComment {
+  if (!obj || typeof obj !== "object") return false;
+  const o = obj as Record<string, unknown>;
+  return (
+    typeof o.id === "string" &&
+    typeof o.taskId === "string" &&
+    typeof o.projectId === "string" &&
+    (o.authorId === undefined || typeof o.authorId === "string") &&
+    typeof o.body === "string" &&
+    typeof o.createdAt === "string"
+  );
+}
+
+const ACTIVITY_KINDS = ["created", "status", "priority", "title", "assignees"] as const;
+
+function isActivityValue(v: unknown): boolean {
+  return v === undefined || v === null || typeof v === "string" || (Array.isArray(v) && v.every((x) => typeof x === "string"));
+}
+
+export function isTaskActivity(obj: unknown): obj is TaskActivity {
+  if (!obj || typeof obj !== "object") return false;
+  const o = obj as Record<string, unknown>;
+  return (
+    typeof o.id === "string" &&
+    typeof o.taskId === "string" &&
+    typeof o.projectId === "string" &&
+    (o.actorId === undefined || typeof o.actorId === "string") &&
+    ACTIVITY_KINDS.includes(o.kind as (typeof ACTIVITY_KINDS)[number]) &&
+    isActivityValue(o.from) &&
+    isActivityValue(o.to) &&
+    typeof o.createdAt === "string"
+  );
 }
 
 export function loadProjects(): Project[] {
   return parseVersionedData(localStorage.getItem(STORAGE_KEY_PROJECTS), isProject);
 }
 
-export function loadTasks(projectIds: Set<string>): Task[] {
-  return parseVersionedData(localStorage.getItem(STORAGE_KEY_TASKS), isTask).filter((t) =>
-    projectIds.has(t.projectId)
-  );
+/**
+ * Tasks of the given projects. A status the workflow no longer has (e.g. after a
+ * column was removed elsewhere) becomes the project's default one rather than
+ * hiding the task; tasks of projects that are gone are left out.
+ */
+export function loadTasks(projects: Project[]): Task[] {
+  const columnsById = new Map(projects.map((p) => [p.id, getProjectColumns(p)]));
+  return parseVersionedData(localStorage.getItem(STORAGE_KEY_TASKS), isTask).flatMap((t) => {
+    const columns = columnsById.get(t.projectId);
+    if (!columns) return [];
+    return [hasStatus(columns, t.status) ? t : { ...t, status: getDefaultStatus(columns) }];
+  });
 }
 
 export function saveDashboardData(projects: Project[], tasks: Task[]): void {
@@ -81,3 +176,76 @@ export function saveDashboardData(projects: Project[], tasks: Task[]): void {
     // Ignore quota/security errors
   }
 }
+
+/** Comments and activity for the local repo; entries for tasks that no longer exist are dropped. */
+export function loadTaskHistory(tasks: Task[]): { comments: TaskComment[]; activity: TaskActivity[] } {
+  const taskIds = new Set(tasks.map((t) => t.id));
+  return {
+    comments: parseVersionedData(localStorage.getItem(STORAGE_KEY_COMMENTS), isTaskComment).filter((c) => taskIds.has(c.taskId)),
+    activity: parseVersionedData(localStorage.getItem(STORAGE_KEY_ACTIVITY), isTaskActivity).filter((a) => taskIds.has(a.taskId)),
+  };
+}
+
+export function saveTaskHistory(comments: TaskComment[], activity: TaskActivity[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY_COMMENTS, JSON.stringify({ v: STORAGE_VERSION, data: comments }));
+    localStorage.setItem(STORAGE_KEY_ACTIVITY, JSON.stringify({ v: STORAGE_VERSION, data: activity }));
+  } catch {
+    // Ignore quota/security errors
+  }
+}
+
+/** Everything the signed-out repo has stored on this device. */
+export function loadLocalWorkspace(): WorkspaceData {
+  const projects = loadProjects();
+  const tasks = loadTasks(projects);
+  return { projects, tasks, ...loadTaskHistory(tasks), members: [] };
+}
+
+/**
+ * Move the signed-out data aside once it has been uploaded to an account, so
+ * it isn't offered again. The archive is kept rather than deleted.
+ */
+export function archiveLocalWorkspace(): void {
+  try {
+    const data = loadLocalWorkspace();
+    localStorage.setItem(STORAGE_KEY_ARCHIVE, JSON.stringify({ v: STORAGE_VERSION, archivedAt: new Date().toISOString(), data }));
+    for (const key of [STORAGE_KEY_PROJECTS, STORAGE_KEY_TASKS, STORAGE_KEY_COMMENTS, STORAGE_KEY_ACTIVITY]) localStorage.removeItem(key);
+  } catch {
+    // Ignore quota/security errors
+  }
+}
+
+/** Whether this user said no to uploading the signed-out data. */
+export function isLocalMigrationDismissed(userId: string): boolean {
+  try {
+    return localStorage.getItem(`${STORAGE_KEY_MIGRATION_DISMISSED}:${userId}`) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function dismissLocalMigration(userId: string): void {
+  try {
+    localStorage.setItem(`${STORAGE_KEY_MIGRATION_DISMISSED}:${userId}`, "1");
+  } catch {
+    // Ignore quota/security errors
+  }
+}
+
+/** Whether free-text assignees in this project were already matched to members from this browser. */
+export function isAssigneeMigrationDone(projectId: string): boolean {
+  try {
+    return localStorage.getItem(`${STORAGE_KEY_ASSIGNEES_MIGRATED}:${projectId}`) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function markAssigneeMigrationDone(projectId: string): void {
+  try {
+    localStorage.setItem(`${STORAGE_KEY_ASSIGNEES_MIGRATED}:${projectId}`, "1");
+  } catch {
+    // Ignore quota/security errors
+  }
+}
@@ -1,49 +1,113 @@
-import { useMemo, useState } from "react";
-import type { Project, Task, TaskStatus } from "./types";
+import { useEffect, useMemo, useState } from "react";
+import type { Project, Task, TaskActivity, TaskAttachment, TaskComment, TaskStatus } from "./types";
 import { MOCK_PROJECTS, MOCK_TASKS } from "./mockData";
-import { loadProjects, loadTasks, saveDashboardData } from "./storage";
+import { loadProjects, loadTaskHistory, loadTasks, saveDashboardData, saveTaskHistory } from "./storage";
 import { createSupabaseRepo } from "./supabaseStorage";
+import { getProjectColumns, hasStatus, isDoneStatus, placeInProject } from "./workflow";
+import { diffTaskActivity, type ActivityChange } from "./activity";
+import { buildNextOccurrence } from "./recurrence";
+import { findDependencyCycle, getDependencyPolicy, getOpenBlockers, isFinishingBlocked } from "./dependencies";
+import type { WorkspaceData } from "./backup";
+import { newId, type IdPrefix } from "./ids";
+import { isTrashExpired, type TrashContents } from "./trash";
+import { createOfflineRepo, type SyncHandle, type SyncStatus } from "./offline";
+import {
+  attachmentPath,
+  attachmentProblem,
+  createIndexedDbAttachmentStore,
+  createMemoryAttachmentStore,
+  type AttachmentStore,
+} from "./attachments";
 
-export type TaskCreate = Omit<Task, "id" | "createdAt" | "updatedAt">;
-export type TaskUpdate = Partial<Omit<Task, "id" | "createdAt" | "projectId">>;
-type ProjectUpdate = Partial<Omit<Project, "id" | "createdAt">>;
+export type TaskCreate = Omit<Task, "id" | "createdAt" | "updatedAt" | "deletedAt">;
+export type TaskUpdate = Partial<Omit<Task, "id" | "createdAt" | "projectId" | "deletedAt">>;
+type ProjectUpdate = Partial<Omit<Project, "id" | "createdAt" | "pinned" | "folder" | "archivedAt" | "deletedAt">>;
+/** Where a project sits in the current user's sidebar; a key that is present but undefined clears it. */
+export type ProjectPlacement = Partial<Pick<Project, "pinned" | "folder">>;
+
+/** A change made elsewhere (another user or tab), pushed by repos that support live updates. */
+export type RepoChange =
+  | { type: "task"; event: "upsert"; task: Task }
+  | { type: "task"; event: "delete"; id: string }
+  | { type: "project"; event: "upsert"; project: Project }
+  | { type: "project"; event: "delete"; id: string }
+  | { type: "membership"; projectId?: string; userId?: string };
 
 export type DashboardRepo = {
+  /** Projects not in the trash, archived ones included. */
   listProjects(): Promise<Project[]>;
-  createProject(data: Omit<Project, "id" | "createdAt" | "updatedAt">): Promise<Project>;
+  /** `presetId` is only given when replaying a change made offline, so the record keeps the id it got then. */
+  createProject(data: Omit<Project, "id" | "createdAt" | "updatedAt">, presetId?: string): Promise<Project>;
   updateProject(id: string, patch: ProjectUpdate): Promise<Project>;
+  archiveProject(id: string, archived: boolean): Promise<Project>;
+  /** Move a project, with its tasks, to the trash. */
   deleteProject(id: string): Promise<void>;
+  /** Tasks not in the trash, in projects not in the trash. */
   listAllTasks(): Promise<Task[]>;
   listTasks(projectId: string): Promise<Task[]>;
-  createTask(input: TaskCreate): Promise<Task>;
+  createTask(input: TaskCreate, presetId?: string): Promise<Task>;
   updateTask(id: string, patch: TaskUpdate): Promise<Task>;
+  /** Apply several patches as one batch; nothing is written if any of them is invalid. */
+  updateTasks(changes: { id: string; patch: TaskUpdate }[]): Promise<Task[]>;
+  /** Move tasks to the trash. */
   deleteTask(id: string): Promise<void>;
+  deleteTasks(ids: string[]): Promise<void>;
+  /** What the user can restore; anything past TRASH_RETENTION_DAYS is deleted for good first. */
+  listTrash(): Promise<TrashContents>;
+  restoreProjects(ids: string[]): Promise<void>;
+  restoreTasks(ids: string[]): Promise<void>;
+  /** Delete trashed projects (with their tasks and history) for good. */
+  purgeProjects(ids: string[]): Promise<void>;
+  /** Delete trashed tasks (with their history) for good; dependencies on them are dropped. */
+  purgeTasks(ids: string[]): Promise<void>;
+  /** Move tasks (with their comments and activity) to another project, appended to its columns. */
+  moveTasks(ids: string[], projectId: string): Promise<Task[]>;
+  /** Copy tasks into a project (the same one or another), appended to its columns; history is not copied. */
+  duplicateTasks(ids: string[], projectId: string): Promise<Task[]>;
   reorderTask(id: string, newStatus: TaskStatus, newOrder: number): Promise<Task>;
+  /** Save the user's sidebar order; shared projects included. */
   reorderProjects(ids: string[]): Promise<void>;
+  /** Pin a project or put it in a folder, for the current user only. */
+  setProjectPlacement(id: string, placement: ProjectPlacement): Promise<void>;
+  /** Move every task in a project from one status to another (used when workflow columns are deleted). */
+  remapStatuses(projectId: string, moves: Record<TaskStatus, TaskStatus>): Promise<void>;
+  listComments(taskId: string): Promise<TaskComment[]>;
+  addComment(taskId: string, body: string): Promise<TaskComment>;
+  deleteComment(id: string): Promise<void>;
+  /** Changes recorded by createTask / updateTask / reorderTask, oldest first. */
+  listActivity(taskId: string): Promise<TaskActivity[]>;
+  /** Store a file for a task in the project; it belongs to the task once the task is saved listing the returned record. */
+  uploadAttachment(projectId: string, file: File): Promise<TaskAttachment>;
+  /** A URL to show or download the file from; it may stop working after a while. */
+  getAttachmentUrl(attachment: TaskAttachment): Promise<string>;
+  /** Delete stored files, e.g. ones removed from a task. Files of purged tasks are deleted by the purge. */
+  deleteAttachments(attachments: TaskAttachment[]): Promise<void>;
+  /** Every record the user can see, for a workspace backup. */
+  exportWorkspace(): Promise<WorkspaceData>;
+  /**
+   * Delete the given projects, then write records keeping their ids, order and
+   * timestamps (see planRestore). Returns notes on anything that couldn't be restored.
+   */
+  restoreWorkspace(write: WorkspaceData, deleteProjectIds: string[]): Promise<string[]>;
+  /** Listen for remote changes; returns an unsubscribe function. Local repos have nothing to push. */
+  subscribe?(listener: (change: RepoChange) => void): () => void;
+  /** Offline cache and outbox state; only repos that work offline have it. */
+  sync?: SyncHandle;
 };
 
-type UidFactory = (prefix: string) => string;
-
-function createUidFactory(initialCounter = 0): UidFactory {
-  let counter = initialCounter;
-  return (prefix: string) => `${prefix}-${++counter}-${Date.now().toString(36)}`;
-}
-
-function getMaxIdCounter(projects: Project[], tasks: Task[]): number {
-  const ids = [...projects.map((p) => p.id), ...tasks.map((t) => t.id)];
-  let max = 0;
-  for (const id of ids) {
-    const m = id.match(/^[pt]-(\d+)/);
-    if (m) max = Math.max(max, parseInt(m[1], 10));
-  }
-  return max;
-}
+/** Makes record ids; see ids.ts. Swappable so a repo can be given predictable ids. */
+type UidFactory = (prefix: IdPrefix) => string;
 
 type PersistFn = (projects: Project[], tasks: Task[]) => void;
+type PersistHistoryFn = (comments: TaskComment[], activity: TaskActivity[]) => void;
 
 type CreateRepoOptions = {
   persist?: PersistFn;
+  history?: { comments: TaskComment[]; activity: TaskActivity[] };
+  persistHistory?: PersistHistoryFn;
   uid?: UidFactory;
+  /** Where attachment files go; kept in memory if not given. */
+  attachments?: AttachmentStore;
 };
 
 function createRepo(
@@ -53,18 +117,146 @@ function createRepo(
 ): DashboardRepo {
   let projects = [...initialProjects];
   let tasks = [...initialTasks];
-  const uid = options?.uid ?? createUidFactory();
+  const uid = options?.uid ?? newId;
   const save = () => options?.persist?.(projects, tasks);
+  let comments = [...(options?.history?.comments ?? [])];
+  let activity = [...(options?.history?.activity ?? [])];
+  const saveHistory = () => options?.persistHistory?.(comments, activity);
+  const files = options?.attachments ?? createMemoryAttachmentStore();
+
+  function record(task: Task, changes: ActivityChange[]) {
+    if (changes.length === 0) return;
+    const now = new Date().toISOString();
+    activity = [
+      ...activity,
+      ...changes.map((c) => ({ ...c, id: uid("a"), taskId: task.id, projectId: task.projectId, createdAt: now })),
+    ];
+    saveHistory();
+  }
+
+  function dropHistory(keep: (taskId: string) => boolean) {
+    comments = comments.filter((c) => keep(c.taskId));
+    activity = activity.filter((a) => keep(a.taskId));
+    saveHistory();
+  }
+
+  function assertStatus(projectId: string, status: TaskStatus) {
+    const columns = getProjectColumns(projects.find((p) => p.id === projectId));
+    if (!hasStatus(columns, status)) throw new Error(`Unknown status "${status}"`);
+  }
+
+  function assertNoCycle(taskId: string, blockedBy: string[] | undefined, list = tasks) {
+    if (blockedBy && findDependencyCycle(list, taskId, blockedBy)) throw new Error("Dependency would create a cycle");
+  }
+
+  function assertCanFinish(task: Task, status: TaskStatus, list = tasks) {
+    if (getDependencyPolicy(projects.find((p) => p.id === task.projectId)) !== "block") return;
+    const open = getOpenBlockers(task, liveTasks(list), projects);
+    if (isFinishingBlocked(task, status, open, projects)) throw new Error("Task is blocked by unfinished tasks");
+  }
+
+  /** Throw if `patch` can't be applied to task `id` in `list` (the stored tasks unless a batch has staged others). */
+  function assertCanUpdate(id: string, patch: TaskUpdate, list = tasks) {
+    const before = list.find((t) => t.id === id);
+    if (!before) throw new Error("Task not found");
+    if (patch.status !== undefined) assertStatus(before.projectId, patch.status);
+    if ("blockedBy" in patch) assertNoCycle(id, patch.blockedBy, list);
+    if (patch.status !== undefined && patch.status !== before.status) {
+      assertCanFinish({ ...before, blockedBy: "blockedBy" in patch ? patch.blockedBy : before.blockedBy }, patch.status, list);
+    }
+  }
+
+  /** Apply an already validated patch and record its activity; the caller saves. */
+  function applyUpdate(id: string, patch: TaskUpdate): Task {
+    const idx = tasks.findIndex((t) => t.id === id);
+    const before = tasks[idx];
+    tasks[idx] = { ...before, ...patch, updatedAt: new Date().toISOString() };
+    const updated = tasks[idx];
+    rollRecurrence(idx, before);
+    record(updated, diffTaskActivity(before, updated));
+    return tasks.find((t) => t.id === id)!;
+  }
+
+  /** The project tasks are moved or copied into; archived and trashed projects don't take any. */
+  function findTargetProject(projectId: string): Project {
+    const target = projects.find((p) => p.id === projectId);
+    if (!target) throw new Error("Project not found");
+    if (target.deletedAt) throw new Error("That project is in the trash");
+    if (target.archivedAt) throw new Error("That project is archived");
+    return target;
+  }
+
+  /** Tasks not in the trash, themselves or with their project. */
+  function liveTasks(list = tasks): Task[] {
+    const trashed = new Set(projects.filter((p) => p.deletedAt).map((p) => p.id));
+    return list.filter((t) => !t.deletedAt && !trashed.has(t.projectId));
+  }
+
+  function setDeletedAt<T extends { id: string; deletedAt?: string }>(list: T[], ids: Set<string>, deletedAt: string | undefined): T[] {
+    return list.map((x) => {
+      if (!ids.has(x.id)) return x;
+      const { deletedAt: _d, ...rest } = x;
+      return (deletedAt ? { ...rest, deletedAt } : rest) as T;
+    });
+  }
+
+  /** Delete projects (with their tasks) and tasks for good. */
+  function purge(projectIds: Set<string>, taskIds: Set<string>) {
+    projects = projects.filter((p) => !projectIds.has(p.id));
+    const ids = new Set([...taskIds, ...tasks.filter((t) => projectIds.has(t.projectId)).map((t) => t.id)]);
+    const paths = tasks.filter((t) => ids.has(t.id)).flatMap((t) => (t.attachments ?? []).map((a) => a.path));
+    removeTasks(ids);
+    files.remove(paths).catch((e) => console.error("Failed to delete attachments of purged tasks", e));
+  }
+
+  function purgeExpired() {
+    const now = new Date();
+    const expired = (x: { id: string; deletedAt?: string }) => !!x.deletedAt && isTrashExpired(x.deletedAt, now);
+    const projectIds = new Set(projects.filter(expired).map((p) => p.id));
+    const taskIds = new Set(tasks.filter(expired).map((t) => t.id));
+    if (projectIds.size > 0 || taskIds.size > 0) purge(projectIds, taskIds);
+  }
+
+  function removeTasks(ids: Set<string>) {
+    tasks = tasks
+      .filter((t) => !ids.has(t.id))
+      .map((t) =>
+        t.blockedBy?.some((b) => ids.has(b)) ? { ...t, blockedBy: t.blockedBy.filter((b) => !ids.has(b)) } : t
+      );
+    save();
+    dropHistory((taskId) => !ids.has(taskId));
+  }
+
+  /**
+   * When a recurring task at `idx` has just been completed, hand its rule over
+   * to a fresh copy due on the next date (appended to the first open column).
+   */
+  function rollRecurrence(idx: number, before: Task) {
+    const done = tasks[idx];
+    if (!done.recurrence) return;
+    const columns = getProjectColumns(projects.find((p) => p.id === done.projectId));
+    if (isDoneStatus(columns, before.status) || !isDoneStatus(columns, done.status)) return;
+    const next = buildNextOccurrence(done, columns);
+    tasks[idx] = { ...done, recurrence: undefined };
+    if (next) {
+      const order = Math.max(-1, ...tasks.filter((t) => t.projectId === next.projectId && t.status === next.status).map((t) => t.order)) + 1;
+      const now = new Date().toISOString();
+      const t: Task = { ...next, id: uid("t"), order, createdAt: now, updatedAt: now };
+      tasks = [t, ...tasks];
+      record(t, [{ kind: "created" }]);
+    }
+  }
 
   return {
     async listProjects() {
-      return [...projects].sort((a, b) => a.order - b.order);
+      purgeExpired();
+      return projects.filter((p) => !p.deletedAt).sort((a, b) => a.order - b.order);
     },
-    async createProject(data) {
+    async createProject(data, presetId) {
       const maxOrder = projects.length > 0 ? Math.max(...projects.map((p) => p.order)) : -1;
       const p: Project = {
         ...data,
-        id: uid("p"),
+        id: presetId ?? uid("p"),
         order: maxOrder + 1,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -80,50 +272,142 @@ function createRepo(
       save();
       return projects[idx];
     },
+    async archiveProject(id, archived) {
+      const idx = projects.findIndex((p) => p.id === id);
+      if (idx === -1) throw new Error("Project not found");
+      const now = new Date().toISOString();
+      const { archivedAt: _a, ...rest } = projects[idx];
+      projects[idx] = { ...rest, ...(archived ? { archivedAt: now } : {}), updatedAt: now };
+      save();
+      return projects[idx];
+    },
     async deleteProject(id) {
-      projects = projects.filter((p) => p.id !== id);
-      tasks = tasks.filter((t) => t.projectId !== id);
+      if (!projects.some((p) => p.id === id)) throw new Error("Project not found");
+      projects = setDeletedAt(projects, new Set([id]), new Date().toISOString());
       save();
     },
     async listAllTasks() {
-      return [...tasks];
+      return liveTasks();
     },
     async listTasks(projectId) {
-      return tasks
+      return liveTasks()
         .filter((t) => t.projectId === projectId)
         .sort((a, b) => a.order - b.order || b.updatedAt.localeCompare(a.updatedAt));
     },
-    async createTask(input) {
+    async createTask(input, presetId) {
+      assertStatus(input.projectId, input.status);
+      const id = presetId ?? uid("t");
+      assertNoCycle(id, input.blockedBy);
       const t: Task = {
         ...input,
-        id: uid("t"),
+        id,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
       tasks = [t, ...tasks];
       save();
+      record(t, [{ kind: "created" }]);
       return t;
     },
     async updateTask(id, patch) {
-      const idx = tasks.findIndex((t) => t.id === id);
-      if (idx === -1) throw new Error("Task not found");
-      tasks[idx] = { ...tasks[idx], ...patch, updatedAt: new Date().toISOString() };
+      assertCanUpdate(id, patch);
+      const updated = applyUpdate(id, patch);
       save();
-      return tasks[idx];
+      return updated;
+    },
+    async updateTasks(changes) {
+      // Validate the whole batch first so a bad entry leaves nothing half-applied. Each patch is
+      // checked with the earlier ones applied, so two entries can't build a cycle between them.
+      let staged = tasks;
+      for (const { id, patch } of changes) {
+        assertCanUpdate(id, patch, staged);
+        staged = staged.map((t) => (t.id === id ? { ...t, ...patch } : t));
+      }
+      const updated = changes.map(({ id, patch }) => applyUpdate(id, patch));
+      save();
+      return updated;
     },
     async deleteTask(id) {
-      tasks = tasks.filter((t) => t.id !== id);
+      tasks = setDeletedAt(tasks, new Set([id]), new Date().toISOString());
+      save();
+    },
+    async deleteTasks(ids) {
+      tasks = setDeletedAt(tasks, new Set(ids), new Date().toISOString());
+      save();
+    },
+    async listTrash() {
+      purgeExpired();
+      const newestFirst = (a: { deletedAt?: string }, b: { deletedAt?: string }) => (b.deletedAt ?? "").localeCompare(a.deletedAt ?? "");
+      const trashedProjects = projects.filter((p) => p.deletedAt);
+      const inTrashedProject = new Set(trashedProjects.map((p) => p.id));
+      return {
+        projects: trashedProjects.sort(newestFirst),
+        tasks: tasks.filter((t) => t.deletedAt && !inTrashedProject.has(t.projectId)).sort(newestFirst),
+      };
+    },
+    async restoreProjects(ids) {
+      projects = setDeletedAt(projects, new Set(ids), undefined);
       save();
     },
+    async restoreTasks(ids) {
+      tasks = setDeletedAt(tasks, new Set(ids), undefined);
+      save();
+    },
+    async purgeProjects(ids) {
+      purge(new Set(ids), new Set());
+    },
+    async purgeTasks(ids) {
+      purge(new Set(), new Set(ids));
+    },
+    async moveTasks(ids, projectId) {
+      const target = findTargetProject(projectId);
+      const moving = new Set(ids);
+      const sources = ids.map((id) => {
+        const t = tasks.find((x) => x.id === id);
+        if (!t) throw new Error("Task not found");
+        return t;
+      });
+      const placed = placeInProject(sources, tasks.filter((t) => t.projectId === projectId), getProjectColumns(target));
+      const now = new Date().toISOString();
+      const moved: Task[] = [];
+      for (const id of ids) {
+        const idx = tasks.findIndex((t) => t.id === id);
+        tasks[idx] = { ...tasks[idx], projectId, ...placed.get(id)!, updatedAt: now };
+        moved.push(tasks[idx]);
+      }
+      comments = comments.map((c) => (moving.has(c.taskId) ? { ...c, projectId } : c));
+      activity = activity.map((a) => (moving.has(a.taskId) ? { ...a, projectId } : a));
+      save();
+      saveHistory();
+      return moved;
+    },
+    async duplicateTasks(ids, projectId) {
+      const target = findTargetProject(projectId);
+      const now = new Date().toISOString();
+      const copies = ids.map((id) => {
+        const source = tasks.find((t) => t.id === id);
+        if (!source) throw new Error("Task not found");
+        // Files are deleted with their task, so copies don't share them.
+        return { ...source, id: uid("t"), projectId, attachments: undefined, createdAt: now, updatedAt: now };
+      });
+      const placed = placeInProject(copies, tasks.filter((t) => t.projectId === projectId), getProjectColumns(target));
+      const created = copies.map((c) => ({ ...c, ...placed.get(c.id)! }));
+      tasks = [...created, ...tasks];
+      save();
+      for (const t of created) record(t, [{ kind: "created" }]);
+      return created;
+    },
     async reorderTask(id, newStatus, newOrder) {
       const idx = tasks.findIndex((t) => t.id === id);
       if (idx === -1) throw new Error("Task not found");
       const task = tasks[idx];
       const oldStatus = task.status;
+      assertStatus(task.projectId, newStatus);
+      if (oldStatus !== newStatus) assertCanFinish(task, newStatus);
 
       // Update orders in the target column
       const targetTasks = tasks
-        .filter((t) => t.id !== id && t.projectId === task.projectId && t.status === newStatus)
+        .filter((t) => t.id !== id && !t.deletedAt && t.projectId === task.projectId && t.status === newStatus)
         .sort((a, b) => a.order - b.order);
 
       targetTasks.splice(newOrder, 0, { ...task, status: newStatus });
@@ -135,7 +419,7 @@ function createRepo(
       // If moved to a different column, reorder the old column
       if (oldStatus !== newStatus) {
         const oldTasks = tasks
-          .filter((t) => t.projectId === task.projectId && t.status === oldStatus)
+          .filter((t) => !t.deletedAt && t.projectId === task.projectId && t.status === oldStatus)
           .sort((a, b) => a.order - b.order);
         oldTasks.forEach((t, i) => {
           const ti = tasks.findIndex((x) => x.id === t.id);
@@ -143,16 +427,116 @@ function createRepo(
         });
       }
 
+      rollRecurrence(idx, task);
       save();
-      return tasks[idx];
+      const moved = tasks.find((t) => t.id === id)!;
+      record(moved, diffTaskActivity(task, moved));
+      return moved;
     },
     async reorderProjects(ids) {
-      const map = new Map(projects.map((p) => [p.id, p]));
-      projects = ids.map((id, i) => {
-        const p = map.get(id)!;
-        return { ...p, order: i };
-      });
+      // Only listed projects move; trashed ones aren't shown in the sidebar, so they are never in `ids`.
+      const order = new Map(ids.map((id, i) => [id, i]));
+      projects = projects.map((p) => (order.has(p.id) ? { ...p, order: order.get(p.id)! } : p));
+      save();
+    },
+    async setProjectPlacement(id, placement) {
+      const idx = projects.findIndex((p) => p.id === id);
+      if (idx === -1) throw new Error("Project not found");
+      // Placement is a sidebar preference, not an edit, so updatedAt is left alone.
+      const next = { ...projects[idx], ...placement };
+      if (!next.pinned) delete next.pinned;
+      if (!next.folder) delete next.folder;
+      projects[idx] = next;
+      save();
+    },
+    async remapStatuses(projectId, moves) {
+      const now = new Date().toISOString();
+      // Moved tasks are appended after the tasks already in the target column.
+      const nextOrder = new Map<TaskStatus, number>();
+      for (const t of tasks) {
+        if (t.projectId !== projectId || moves[t.status] !== undefined) continue;
+        nextOrder.set(t.status, Math.max(nextOrder.get(t.status) ?? 0, t.order + 1));
+      }
+      const moved = tasks
+        .filter((t) => t.projectId === projectId && moves[t.status] !== undefined)
+        .sort((a, b) => a.order - b.order);
+      for (const t of moved) {
+        const status = moves[t.status];
+        const order = nextOrder.get(status) ?? 0;
+        nextOrder.set(status, order + 1);
+        const ti = tasks.findIndex((x) => x.id === t.id);
+        tasks[ti] = { ...tasks[ti], status, order, updatedAt: now };
+      }
+      save();
+    },
+    async listComments(taskId) {
+      return comments.filter((c) => c.taskId === taskId).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+    async addComment(taskId, body) {
+      const task = tasks.find((t) => t.id === taskId);
+      if (!task) throw new Error("Task not found");
+      const c: TaskComment = { id: uid("c"), taskId, projectId: task.projectId, body, createdAt: new Date().toISOString() };
+      comments = [...comments, c];
+      saveHistory();
+      return c;
+    },
+    async deleteComment(id) {
+      comments = comments.filter((c) => c.id !== id);
+      saveHistory();
+    },
+    async listActivity(taskId) {
+      return activity.filter((a) => a.taskId === taskId).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+    async uploadAttachment(projectId, file) {
+      const problem = attachmentProblem([file], 0);
+      if (problem) throw new Error(problem);
+      const id = uid("f");
+      const path = attachmentPath(projectId, id, file.name);
+      await files.put(path, file);
+      return { id, name: file.name, type: file.type || "application/octet-stream", size: file.size, path, createdAt: new Date().toISOString() };
+    },
+    async getAttachmentUrl(attachment) {
+      return files.url(attachment.path);
+    },
+    async deleteAttachments(attachments) {
+      await files.remove(attachments.map((a) => a.path));
+    },
+    async exportWorkspace() {
+      // The trash isn't backed up.
+      const live = liveTasks();
+      const ids = new Set(live.map((t) => t.id));
+      return {
+        projects: projects.filter((p) => !p.deletedAt),
+        tasks: live,
+        comments: comments.filter((c) => ids.has(c.taskId)),
+        activity: activity.filter((a) => ids.has(a.taskId)),
+        members: [],
+      };
+    },
+    async restoreWorkspace(write, deleteProjectIds) {
+      const removed = new Set(deleteProjectIds);
+      const kept = new Set(write.tasks.flatMap((t) => (t.attachments ?? []).map((a) => a.path)));
+      const paths = tasks
+        .filter((t) => removed.has(t.projectId))
+        .flatMap((t) => (t.attachments ?? []).map((a) => a.path))
+        .filter((path) => !kept.has(path));
+      files.remove(paths).catch((e) => console.error("Failed to delete attachments of replaced projects", e));
+      projects = projects.filter((p) => !removed.has(p.id));
+      tasks = tasks.filter((t) => !removed.has(t.projectId));
+      const upsert = <T extends { id: string }>(list: T[], incoming: T[]) => {
+        const byId = new Map(incoming.map((x) => [x.id, x]));
+        const present = new Set(list.map((x) => x.id));
+        return [...list.map((x) => byId.get(x.id) ?? x), ...incoming.filter((x) => !present.has(x.id))];
+      };
+      // Restored records leave the trash.
+      projects = upsert(projects, write.projects.map(({ deletedAt: _deleted, ...p }) => p));
+      tasks = upsert(tasks, write.tasks.map(({ deletedAt: _deleted, ...t }) => t));
       save();
+      const remaining = new Set(tasks.map((t) => t.id));
+      comments = upsert(comments.filter((c) => remaining.has(c.taskId)), write.comments);
+      activity = upsert(activity.filter((a) => remaining.has(a.taskId)), write.activity);
+      saveHistory();
+      return write.members.length > 0 ? ["Member roles are only restored when signed in."] : [];
     },
   };
 }
@@ -163,21 +547,47 @@ export function createMockRepo(): DashboardRepo {
 
 function createLocalStorageRepo(): DashboardRepo {
   const projects = loadProjects();
-  const projectIds = new Set(projects.map((p) => p.id));
-  const tasks = loadTasks(projectIds);
-  const uid = createUidFactory(getMaxIdCounter(projects, tasks));
+  const tasks = loadTasks(projects);
   return createRepo(projects, tasks, {
-    uid,
     persist: saveDashboardData,
+    history: loadTaskHistory(tasks),
+    persistHistory: saveTaskHistory,
+    attachments: createIndexedDbAttachmentStore(),
   });
 }
 
 export function useDashboardRepo(useMockData = false, userId?: string | null) {
-  return useMemo(() => {
+  const repo = useMemo(() => {
     if (useMockData) return createMockRepo();
-    if (userId) return createSupabaseRepo(userId);
+    if (userId) {
+      return createOfflineRepo(createSupabaseRepo(userId), userId, (projects, tasks, persist) =>
+        createRepo(projects, tasks, { persist })
+      );
+    }
     return createLocalStorageRepo();
   }, [useMockData, userId]);
+
+  // A replaced repo stops reacting to the connection.
+  useEffect(() => repo.sync?.connect(), [repo]);
+
+  return repo;
+}
+
+/** Live sync state of an offline-capable repo, or null for repos without one. */
+export function useSyncStatus(repo: DashboardRepo): SyncStatus | null {
+  const [status, setStatus] = useState<SyncStatus | null>(() => repo.sync?.getStatus() ?? null);
+
+  useEffect(() => {
+    setStatus(repo.sync?.getStatus() ?? null);
+    return repo.sync?.subscribe(setStatus);
+  }, [repo]);
+
+  return status;
+}
+
+/** A project as sent by the server, kept where the user placed it in their sidebar. */
+function keepPlacement(incoming: Project, current: Project): Project {
+  return { ...incoming, order: current.order, pinned: current.pinned, folder: current.folder };
 }
 
 export function useProjects(repo: DashboardRepo) {
@@ -197,6 +607,11 @@ export function useProjects(repo: DashboardRepo) {
     }
   }
 
+  /** Fetch again without the loading state, e.g. after an undo. */
+  async function reload() {
+    setProjects(await repo.listProjects());
+  }
+
   async function create(data: Omit<Project, "id" | "createdAt" | "updatedAt" | "order">) {
     const p = await repo.createProject(data as any);
     setProjects((prev) => (prev ? [...prev, p] : [p]));
@@ -205,7 +620,13 @@ export function useProjects(repo: DashboardRepo) {
 
   async function update(id: string, patch: ProjectUpdate) {
     const p = await repo.updateProject(id, patch);
-    setProjects((prev) => (prev ? prev.map((x) => (x.id === id ? p : x)) : prev));
+    setProjects((prev) => (prev ? prev.map((x) => (x.id === id ? keepPlacement(p, x) : x)) : prev));
+    return p;
+  }
+
+  async function archive(id: string, archived: boolean) {
+    const p = await repo.archiveProject(id, archived);
+    setProjects((prev) => (prev ? prev.map((x) => (x.id === id ? keepPlacement(p, x) : x)) : prev));
     return p;
   }
 
@@ -214,6 +635,26 @@ export function useProjects(repo: DashboardRepo) {
     setProjects((prev) => (prev ? prev.filter((x) => x.id !== id) : prev));
   }
 
+  useEffect(() => {
+    if (!repo.subscribe) return;
+    return repo.subscribe((change) => {
+      if (change.type === "membership") {
+        refresh();
+      } else if (change.type === "project" && change.event === "upsert") {
+        const incoming = change.project;
+        setProjects((prev) => {
+          if (!prev) return prev;
+          const existing = prev.find((p) => p.id === incoming.id);
+          // The sidebar position, pin and folder are the user's own, not part of the project row.
+          if (existing) return prev.map((p) => (p.id === incoming.id ? keepPlacement(incoming, p) : p));
+          return [...prev, incoming];
+        });
+      } else if (change.type === "project" && change.event === "delete") {
+        setProjects((prev) => (prev ? prev.filter((p) => p.id !== change.id) : prev));
+      }
+    });
+  }, [repo]);
+
   async function reorder(ids: string[]) {
     // Optimistic update: reorder locally first, then persist
     setProjects((prev) => {
@@ -224,7 +665,12 @@ export function useProjects(repo: DashboardRepo) {
     await repo.reorderProjects(ids);
   }
 
-  return { projects, loading, error, refresh, create, update, remove, reorder };
+  async function place(id: string, placement: ProjectPlacement) {
+    setProjects((prev) => (prev ? prev.map((p) => (p.id === id ? { ...p, ...placement } : p)) : prev));
+    await repo.setProjectPlacement(id, placement);
+  }
+
+  return { projects, loading, error, refresh, reload, create, update, archive, remove, reorder, place };
 }
 
 export function useTasks(repo: DashboardRepo, projectId: string | null) {
@@ -245,6 +691,11 @@ export function useTasks(repo: DashboardRepo, projectId: string | null) {
     }
   }
 
+  /** Fetch again without the loading state, e.g. after an undo. */
+  async function reload() {
+    if (projectId) setTasks(await repo.listTasks(projectId));
+  }
+
   async function create(input: TaskCreate) {
     const t = await repo.createTask(input);
     setTasks((prev) => (prev ? [t, ...prev] : [t]));
@@ -262,6 +713,53 @@ export function useTasks(repo: DashboardRepo, projectId: string | null) {
     setTasks((prev) => (prev ? prev.filter((x) => x.id !== id) : prev));
   }
 
+  async function updateMany(changes: { id: string; patch: TaskUpdate }[]) {
+    const updated = await repo.updateTasks(changes);
+    // Completing recurring tasks may have created new ones, so reload rather than merge.
+    if (projectId) setTasks(await repo.listTasks(projectId));
+    return updated;
+  }
+
+  async function removeMany(ids: string[]) {
+    await repo.deleteTasks(ids);
+    const gone = new Set(ids);
+    setTasks((prev) => (prev ? prev.filter((x) => !gone.has(x.id)) : prev));
+  }
+
+  async function moveMany(ids: string[], targetProjectId: string) {
+    const moved = await repo.moveTasks(ids, targetProjectId);
+    const gone = new Set(ids);
+    setTasks((prev) => (prev ? prev.filter((x) => !gone.has(x.id)) : prev));
+    return moved;
+  }
+
+  async function duplicateMany(ids: string[], targetProjectId: string) {
+    const created = await repo.duplicateTasks(ids, targetProjectId);
+    if (targetProjectId === projectId) setTasks((prev) => (prev ? [...created, ...prev] : created));
+    return created;
+  }
+
+  useEffect(() => {
+    if (!repo.subscribe || !projectId) return;
+    return repo.subscribe((change) => {
+      if (change.type !== "task") return;
+      if (change.event === "delete") {
+        setTasks((prev) => (prev ? prev.filter((t) => t.id !== change.id) : prev));
+        return;
+      }
+      const incoming = change.task;
+      setTasks((prev) => {
+        if (!prev) return prev;
+        const existing = prev.find((t) => t.id === incoming.id);
+        if (incoming.projectId !== projectId) return existing ? prev.filter((t) => t.id !== incoming.id) : prev;
+        if (!existing) return [incoming, ...prev];
+        // Ignore events older than what we already have (e.g. echoes of a reorder in flight).
+        if (incoming.updatedAt < existing.updatedAt) return prev;
+        return prev.map((t) => (t.id === incoming.id ? incoming : t));
+      });
+    });
+  }, [repo, projectId]);
+
   async function reorder(id: string, newStatus: TaskStatus, newOrder: number) {
     await repo.reorderTask(id, newStatus, newOrder);
     if (projectId) {
@@ -269,5 +767,47 @@ export function useTasks(repo: DashboardRepo, projectId: string | null) {
     }
   }
 
-  return { tasks, loading, error, refresh, create, update, remove, reorder };
+  return { tasks, loading, error, refresh, reload, create, update, remove, reorder, updateMany, removeMany, moveMany, duplicateMany };
+}
+
+export function useTaskHistory(repo: DashboardRepo, taskId: string | null) {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [activity, setActivity] = useState<TaskActivity[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function refresh() {
+    if (!taskId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const [c, a] = await Promise.all([repo.listComments(taskId), repo.listActivity(taskId)]);
+      setComments(c);
+      setActivity(a);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    setComments([]);
+    setActivity([]);
+    refresh();
+  }, [repo, taskId]);
+
+  async function addComment(body: string) {
+    if (!taskId) return;
+    const c = await repo.addComment(taskId, body);
+    setComments((prev) => [...prev, c]);
+    return c;
+  }
+
+  async function removeComment(id: string) {
+    await repo.deleteComment(id);
+    setComments((prev) => prev.filter((c) => c.id !== id));
+  }
+
+  return { comments, activity, loading, error, refresh, addComment, removeComment };
 }
@@ -1,6 +1,17 @@
 import { supabase } from "../../lib/supabase";
-import type { DashboardRepo, TaskCreate, TaskUpdate } from "./store";
-import type { Project, Task, TaskStatus } from "./types";
+import type { DashboardRepo, RepoChange, TaskCreate, TaskUpdate } from "./store";
+import type { ActivityKind, ActivityValue, DependencyPolicy, Project, Recurrence, SavedView, Task, TaskActivity, TaskAttachment, TaskComment, TaskStatus, WipPolicy, WorkflowColumn } from "./types";
+import { getProjectColumns, hasStatus, isDoneStatus, placeInProject } from "./workflow";
+import { buildNextOccurrence } from "./recurrence";
+import { diffTaskActivity, type ActivityChange } from "./activity";
+import { addProjectMember, listProjectMembers } from "./memberStorage";
+import { newId } from "./ids";
+import { isTrashExpired } from "./trash";
+import { attachmentPath, attachmentProblem } from "./attachments";
+
+const PROJECT_COLUMNS = "id,user_id,name,description,color,columns,wip_policy,dependency_policy,saved_views,order,archived_at,deleted_at,created_at,updated_at";
+const TASK_COLUMNS =
+  "id,project_id,user_id,title,description,status,priority,assignee,assignee_ids,due,tags,subtasks,blocked_by,recurrence,attachments,order,deleted_at,created_at,updated_at";
 
 type ProjectRow = {
   id: string;
@@ -8,7 +19,13 @@ type ProjectRow = {
   name: string;
   description: string | null;
   color: string;
+  columns: WorkflowColumn[] | null;
+  wip_policy: WipPolicy | null;
+  dependency_policy: DependencyPolicy | null;
+  saved_views: SavedView[] | null;
   order: number;
+  archived_at: string | null;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -22,20 +39,68 @@ type TaskRow = {
   status: TaskStatus;
   priority: Task["priority"];
   assignee: Task["assignee"] | null;
+  assignee_ids: string[] | null;
   due: string | null;
   tags: string[] | null;
+  subtasks: Task["subtasks"] | null;
+  blocked_by: string[] | null;
+  recurrence: Recurrence | null;
+  attachments: TaskAttachment[] | null;
   order: number;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 };
 
+const COMMENT_COLUMNS = "id,task_id,project_id,user_id,body,created_at";
+const ACTIVITY_COLUMNS = "id,task_id,project_id,user_id,kind,from_value,to_value,created_at";
+
+type CommentRow = {
+  id: string;
+  task_id: string;
+  project_id: string;
+  user_id: string;
+  body: string;
+  created_at: string;
+};
+
+type ActivityRow = {
+  id: string;
+  task_id: string;
+  project_id: string;
+  user_id: string;
+  kind: ActivityKind;
+  from_value: ActivityValue;
+  to_value: ActivityValue;
+  created_at: string;
+};
+
+const PREFERENCE_COLUMNS = "project_id,position,pinned,folder";
+
+/** Private bucket; see sql/task_attachments.sql. */
+const ATTACHMENT_BUCKET = "task-attachments";
+const SIGNED_URL_SECONDS = 60 * 60;
+
+type PreferenceRow = {
+  project_id: string;
+  position: number | null;
+  pinned: boolean;
+  folder: string | null;
+};
+
 function mapProjectRow(row: ProjectRow): Project {
   return {
     id: row.id,
     name: row.name,
     description: row.description ?? undefined,
     color: row.color,
+    columns: row.columns ?? undefined,
+    wipPolicy: row.wip_policy ?? undefined,
+    dependencyPolicy: row.dependency_policy ?? undefined,
+    savedViews: row.saved_views ?? undefined,
     order: row.order,
+    archivedAt: row.archived_at ?? undefined,
+    deletedAt: row.deleted_at ?? undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     ownerId: row.user_id,
@@ -51,67 +116,448 @@ function mapTaskRow(row: TaskRow): Task {
     status: row.status,
     priority: row.priority,
     assignee: row.assignee ?? undefined,
+    assigneeIds: row.assignee_ids ?? undefined,
     due: row.due ?? undefined,
     tags: row.tags ?? undefined,
+    subtasks: row.subtasks ?? undefined,
+    blockedBy: row.blocked_by ?? undefined,
+    recurrence: row.recurrence ?? undefined,
+    attachments: row.attachments ?? undefined,
     order: row.order,
+    deletedAt: row.deleted_at ?? undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
+function mapCommentRow(row: CommentRow): TaskComment {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    projectId: row.project_id,
+    authorId: row.user_id,
+    body: row.body,
+    createdAt: row.created_at,
+  };
+}
+
+function mapActivityRow(row: ActivityRow): TaskActivity {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    projectId: row.project_id,
+    actorId: row.user_id,
+    kind: row.kind,
+    from: row.from_value ?? undefined,
+    to: row.to_value ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/** Column values for the fields present in `patch`; validation is up to the caller. */
+function taskPatchToRow(patch: TaskUpdate): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  if (patch.title !== undefined) row.title = patch.title;
+  if ("description" in patch) row.description = patch.description ?? null;
+  if (patch.status !== undefined) row.status = patch.status;
+  if (patch.priority !== undefined) row.priority = patch.priority;
+  if ("assignee" in patch) row.assignee = patch.assignee ?? null;
+  if ("assigneeIds" in patch) row.assignee_ids = patch.assigneeIds ?? null;
+  if ("due" in patch) row.due = patch.due ?? null;
+  if ("tags" in patch) row.tags = patch.tags ?? null;
+  if ("subtasks" in patch) row.subtasks = patch.subtasks ?? null;
+  if ("blockedBy" in patch) row.blocked_by = patch.blockedBy ?? null;
+  if ("recurrence" in patch) row.recurrence = patch.recurrence ?? null;
+  if ("attachments" in patch) row.attachments = patch.attachments ?? null;
+  if (patch.order !== undefined) row.order = patch.order;
+  return row;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Throw if tasks can't be moved or copied into this project because it is archived or in the trash. */
+function assertCanReceiveTasks(project: Pick<ProjectRow, "archived_at" | "deleted_at">) {
+  if (project.deleted_at) throw new Error("That project is in the trash");
+  if (project.archived_at) throw new Error("That project is archived");
+}
+
+/**
+ * update_tasks_batch leaves out rows the update policies refused. The others are saved, so say
+ * how many weren't; the code marks it as a refusal, so the offline outbox doesn't retry it.
+ */
+function assertBatchSaved(expected: number, saved: number) {
+  const skipped = expected - saved;
+  if (skipped === 0) return;
+  const message = skipped === 1 ? "1 task wasn't saved; you may not have permission to change it." : `${skipped} tasks weren't saved; you may not have permission to change them.`;
+  throw Object.assign(new Error(message), { code: "42501" });
+}
+
 function logAndThrow(context: string, error: unknown): never {
   // Keep console output concise but useful.
   console.error(`[supabaseStorage] ${context}`, error);
-  throw error instanceof Error ? error : new Error(String(error));
-}
-
-function getMaxIdCounterFromIds(ids: string[]): number {
-  let max = 0;
-  for (const id of ids) {
-    const m = id.match(/^[pt]-(\d+)/);
-    if (m) max = Math.max(max, parseInt(m[1], 10));
+  if (error instanceof Error) throw error;
+  // PostgREST and Storage errors are plain objects; keep their message and codes so callers can tell
+  // a refused write from a failed request.
+  if (error && typeof error === "object" && typeof (error as { message?: unknown }).message === "string") {
+    const { message, code, status, statusCode } = error as { message: string; code?: unknown; status?: unknown; statusCode?: unknown };
+    throw Object.assign(new Error(message), { code, status: status ?? statusCode });
   }
-  return max;
+  throw new Error(String(error));
 }
 
 export function createSupabaseRepo(userId: string): DashboardRepo {
-  /** Get all project IDs this user can access (owned + member of) */
+  /** Get all project IDs this user can access (owned + member of), leaving out projects in the trash */
   async function getAccessibleProjectIds(): Promise<string[]> {
-    const [{ data: owned }, { data: memberships }] = await Promise.all([
+    const [{ data: owned }, { data: memberships }, { data: trashed }] = await Promise.all([
       supabase.from("projects").select("id").eq("user_id", userId),
       supabase.from("project_members").select("project_id").eq("user_id", userId),
+      supabase.from("projects").select("id").not("deleted_at", "is", null),
     ]);
     const ids = new Set<string>();
     for (const p of owned ?? []) ids.add((p as any).id);
     for (const m of memberships ?? []) ids.add((m as any).project_id);
+    for (const p of trashed ?? []) ids.delete((p as any).id);
     return [...ids];
   }
 
-  let uidCounter: number | null = null;
+  /**
+   * Sort by the user's own sidebar order (see project_preferences.sql) and add
+   * their pins and folders. Projects they haven't placed yet keep the order given.
+   */
+  async function applyPreferences(all: Project[]): Promise<Project[]> {
+    const { data, error } = await supabase.from("project_preferences").select(PREFERENCE_COLUMNS).eq("user_id", userId);
+    if (error) throw error;
+    let rows = (data ?? []) as PreferenceRow[];
+    if (rows.length === 0) rows = await uploadLegacyOrder(all);
+    const prefs = new Map(rows.map((r) => [r.project_id, r]));
+    const rank = (p: Project) => prefs.get(p.id)?.position ?? Number.MAX_SAFE_INTEGER;
+    return [...all]
+      .sort((a, b) => rank(a) - rank(b))
+      .map((p, order) => {
+        const pref = prefs.get(p.id);
+        return { ...p, order, ...(pref?.pinned ? { pinned: true } : {}), ...(pref?.folder ? { folder: pref.folder } : {}) };
+      });
+  }
 
-  async function ensureUidCounter() {
-    if (uidCounter !== null) return;
+  /** Earlier versions kept the order in this browser's localStorage; upload it once. */
+  async function uploadLegacyOrder(all: Project[]): Promise<PreferenceRow[]> {
+    const key = `project-order:${userId}`;
+    let ids: unknown;
     try {
-      const [{ data: projects, error: pErr }, { data: tasks, error: tErr }] = await Promise.all([
-        supabase.from("projects").select("id").eq("user_id", userId),
-        supabase.from("tasks").select("id").eq("user_id", userId),
-      ]);
-      if (pErr) throw pErr;
-      if (tErr) throw tErr;
-      const ids = [
-        ...(projects ?? []).map((x: any) => x.id as string),
-        ...(tasks ?? []).map((x: any) => x.id as string),
-      ];
-      uidCounter = getMaxIdCounterFromIds(ids);
-    } catch (e) {
-      logAndThrow("Failed to initialize UID counter", e);
+      ids = JSON.parse(localStorage.getItem(key) ?? "[]");
+    } catch {
+      return [];
+    }
+    if (!Array.isArray(ids)) return [];
+    const visible = new Set(all.map((p) => p.id));
+    const rows: PreferenceRow[] = ids
+      .filter((id): id is string => visible.has(id))
+      .map((id, position) => ({ project_id: id, position, pinned: false, folder: null }));
+    if (rows.length === 0) return [];
+    const { error } = await supabase
+      .from("project_preferences")
+      .upsert(rows.map((r) => ({ ...r, user_id: userId })), { onConflict: "user_id,project_id" });
+    if (error) throw error;
+    localStorage.removeItem(key);
+    return rows;
+  }
+
+  /** Throw if `status` is not a column in the project's workflow. */
+  async function assertStatus(projectId: string, status: TaskStatus) {
+    const { data, error } = await supabase.from("projects").select("columns").eq("id", projectId).single();
+    if (error) throw error;
+    const columns = getProjectColumns({ columns: (data as any)?.columns ?? undefined });
+    if (!hasStatus(columns, status)) throw new Error(`Unknown status "${status}"`);
+  }
+
+  /**
+   * Throw if giving `taskId` these blockers would close a loop among the tasks the user can see.
+   * `before` is what it waited on until now; only blockers added since then are followed.
+   */
+  async function assertNoCycle(taskId: string, blockedBy: string[] | undefined, before?: string[]) {
+    await assertNoCycles([{ id: taskId, blockedBy, before }]);
+  }
+
+  /**
+   * assertNoCycle for a batch, each change checked with the earlier ones applied. Only tasks
+   * reachable from added blockers are read, a level at a time, and each at most once.
+   */
+  async function assertNoCycles(changes: { id: string; blockedBy: string[] | undefined; before?: string[] }[]) {
+    const known = new Map<string, string[]>();
+    for (const { id, blockedBy, before } of changes) {
+      const added = (blockedBy ?? []).filter((b) => !before?.includes(b));
+      const seen = new Set<string>();
+      let frontier = [...new Set(added)];
+      while (frontier.length > 0) {
+        if (frontier.includes(id)) throw new Error("Dependency would create a cycle");
+        const unread = frontier.filter((t) => !known.has(t));
+        if (unread.length > 0) {
+          const { data, error } = await supabase.from("tasks").select("id,blocked_by").in("id", unread);
+          if (error) throw error;
+          for (const t of unread) known.set(t, []);
+          for (const r of (data ?? []) as any[]) known.set(r.id as string, (r.blocked_by ?? []) as string[]);
+        }
+        for (const t of frontier) seen.add(t);
+        frontier = [...new Set(frontier.flatMap((t) => known.get(t)!))].filter((t) => !seen.has(t));
+      }
+      known.set(id, blockedBy ?? []);
+    }
+  }
+
+  /** Throw if the project blocks finishing tasks with open blockers and `task` has some. */
+  async function assertCanFinish(task: Task, status: TaskStatus) {
+    await assertCanFinishAll([{ task, status }]);
+  }
+
+  /**
+   * assertCanFinish for a batch, with one query for the blockers and one for their projects.
+   * `planned` holds statuses the same batch gives to tasks, which count over the stored ones.
+   */
+  async function assertCanFinishAll(items: { task: Task; status: TaskStatus }[], planned = new Map<string, TaskStatus>()) {
+    const finishing = items.filter(({ task }) => task.blockedBy && task.blockedBy.length > 0);
+    if (finishing.length === 0) return;
+    const { data: blockers, error: blockersErr } = await supabase
+      .from("tasks")
+      .select("id,project_id,status")
+      .in("id", [...new Set(finishing.flatMap(({ task }) => task.blockedBy!))])
+      .is("deleted_at", null);
+    if (blockersErr) throw blockersErr;
+    const projectIds = [...new Set([...finishing.map(({ task }) => task.projectId), ...(blockers ?? []).map((b: any) => b.project_id as string)])];
+    const { data: projects, error: projectsErr } = await supabase
+      .from("projects")
+      .select("id,columns,dependency_policy")
+      .in("id", projectIds);
+    if (projectsErr) throw projectsErr;
+    const projectsById = new Map((projects ?? []).map((p: any) => [p.id as string, p]));
+    const columnsOf = (projectId: string) => getProjectColumns({ columns: projectsById.get(projectId)?.columns ?? undefined });
+    const blockersById = new Map((blockers ?? []).map((b: any) => [b.id as string, b]));
+    for (const { task, status } of finishing) {
+      if (projectsById.get(task.projectId)?.dependency_policy !== "block") continue;
+      if (!isDoneStatus(columnsOf(task.projectId), status)) continue;
+      const open = task.blockedBy!.some((id) => {
+        const b = blockersById.get(id);
+        return b && !isDoneStatus(columnsOf(b.project_id), planned.get(id) ?? b.status);
+      });
+      if (open) throw new Error("Task is blocked by unfinished tasks");
+    }
+  }
+
+  /** Throw unless the user owns, or is an editor or owner of, every one of these projects. */
+  async function assertCanEdit(projectIds: string[]) {
+    const ids = [...new Set(projectIds)];
+    const [owned, memberships] = await Promise.all([
+      supabase.from("projects").select("id").eq("user_id", userId).in("id", ids),
+      supabase.from("project_members").select("project_id,role").eq("user_id", userId).in("project_id", ids),
+    ]);
+    if (owned.error) throw owned.error;
+    if (memberships.error) throw memberships.error;
+    const editable = new Set<string>((owned.data ?? []).map((p: any) => p.id));
+    for (const m of (memberships.data ?? []) as any[]) {
+      if (m.role === "editor" || m.role === "owner") editable.add(m.project_id);
+    }
+    if (ids.some((id) => !editable.has(id))) throw new Error("You don't have permission to change tasks in that project");
+  }
+
+  function taskCreateToRow(id: string, input: TaskCreate, now: string) {
+    return {
+      id,
+      user_id: userId,
+      project_id: input.projectId,
+      title: input.title,
+      description: input.description ?? null,
+      status: input.status,
+      priority: input.priority,
+      assignee: input.assignee ?? null,
+      assignee_ids: input.assigneeIds ?? null,
+      due: input.due ?? null,
+      tags: input.tags ?? null,
+      subtasks: input.subtasks ?? null,
+      blocked_by: input.blockedBy ?? null,
+      recurrence: input.recurrence ?? null,
+      attachments: input.attachments ?? null,
+      order: input.order,
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  async function insertTask(id: string, input: TaskCreate): Promise<Task> {
+    const { data, error } = await supabase
+      .from("tasks")
+      .insert(taskCreateToRow(id, input, new Date().toISOString()))
+      .select(TASK_COLUMNS)
+      .single();
+    if (error) throw error;
+    const task = mapTaskRow(data as any);
+    await recordActivity(task, [{ kind: "created" }]);
+    return task;
+  }
+
+  /**
+   * When `after` is a recurring task that was just completed, hand its rule
+   * over to a fresh copy due on the next date. Returns the completed task as stored.
+   * The project's columns are read unless the caller already has them.
+   */
+  async function rollRecurrence(before: Task, after: Task, projectColumns?: WorkflowColumn[]): Promise<Task> {
+    if (!after.recurrence) return after;
+    let columns = projectColumns;
+    if (!columns) {
+      const { data: project, error } = await supabase.from("projects").select("columns").eq("id", after.projectId).single();
+      if (error) throw error;
+      columns = getProjectColumns({ columns: (project as any)?.columns ?? undefined });
+    }
+    if (isDoneStatus(columns, before.status) || !isDoneStatus(columns, after.status)) return after;
+
+    const { data: doneRow, error: doneErr } = await supabase
+      .from("tasks")
+      .update({ recurrence: null })
+      .eq("id", after.id)
+      .select(TASK_COLUMNS)
+      .single();
+    if (doneErr) throw doneErr;
+
+    const next = buildNextOccurrence(after, columns);
+    if (next) {
+      const { data: last } = await supabase
+        .from("tasks")
+        .select("order")
+        .eq("project_id", next.projectId)
+        .eq("status", next.status)
+        .order("order", { ascending: false })
+        .limit(1);
+      const order = last && last.length > 0 ? (last[0] as any).order + 1 : 0;
+      await insertTask(newId("t"), { ...next, order });
+    }
+    return mapTaskRow(doneRow as any);
+  }
+
+  /**
+   * Append entries to the activity log. The task change itself has already
+   * been saved, so a failure here is logged rather than surfaced.
+   */
+  async function recordActivity(task: Task, changes: ActivityChange[]) {
+    await recordActivityBatch([{ task, changes }]);
+  }
+
+  async function recordActivityBatch(entries: { task: Task; changes: ActivityChange[] }[]) {
+    const rows = entries.flatMap(({ task, changes }) =>
+      changes.map((c) => ({
+        task_id: task.id,
+        project_id: task.projectId,
+        user_id: userId,
+        kind: c.kind,
+        from_value: c.from ?? null,
+        to_value: c.to ?? null,
+      }))
+    );
+    if (rows.length === 0) return;
+    const { error } = await supabase.from("task_activity").insert(rows);
+    if (error) console.error("[supabaseStorage] recordActivity failed", error);
+  }
+
+  /** blocked_by has no foreign key, so drop deleted ids from tasks that waited on them. */
+  async function removeFromBlockedBy(ids: string[]) {
+    const gone = new Set(ids);
+    const { data: dependents } = await supabase.from("tasks").select("id,blocked_by").overlaps("blocked_by", ids);
+    await Promise.all(
+      (dependents ?? []).map((r: any) =>
+        supabase
+          .from("tasks")
+          .update({ blocked_by: (r.blocked_by as string[]).filter((b) => !gone.has(b)) })
+          .eq("id", r.id as string)
+      )
+    );
+  }
+
+  /** Delete projects, with their members and tasks, for good. Only the owner can. */
+  async function purgeProjectRows(ids: string[]) {
+    if (ids.length === 0) return;
+    const { data: owned, error: ownedErr } = await supabase.from("projects").select("id").in("id", ids).eq("user_id", userId);
+    if (ownedErr) throw ownedErr;
+    const ownedIds = (owned ?? []).map((r: any) => r.id as string);
+    if (ownedIds.length === 0) return;
+    const { data: taskRows, error: listErr } = await supabase.from("tasks").select("id,attachments").in("project_id", ownedIds);
+    if (listErr) throw listErr;
+    await removeAttachmentFiles((taskRows ?? []) as Pick<TaskRow, "attachments">[]);
+    const { error: mErr } = await supabase.from("project_members").delete().in("project_id", ownedIds);
+    if (mErr) console.warn("Failed to delete project members, continuing...", mErr);
+    const { error: tErr } = await supabase.from("tasks").delete().in("project_id", ownedIds);
+    if (tErr) throw tErr;
+    const { error: pErr } = await supabase.from("projects").delete().in("id", ownedIds).eq("user_id", userId);
+    if (pErr) throw pErr;
+    await removeFromBlockedBy((taskRows ?? []).map((r: any) => r.id as string));
+  }
+
+  /** Delete the files of tasks about to be purged. A failure leaves files behind rather than keeping the tasks. */
+  async function removeAttachmentFiles(rows: Pick<TaskRow, "attachments">[]) {
+    const paths = rows.flatMap((r) => (r.attachments ?? []).map((a) => a.path));
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths);
+    if (error) console.warn("Failed to delete attachments, continuing...", error);
+    for (const path of paths) signedUrls.delete(path);
+  }
+
+  /**
+   * Copy the files of tasks moving to another project into its folder, which is what the storage
+   * policies check. Returns old path → new path; copies already made are removed if one fails.
+   */
+  async function copyAttachmentFiles(rows: Pick<TaskRow, "attachments">[], projectId: string) {
+    const copied = new Map<string, string>();
+    for (const a of rows.flatMap((r) => r.attachments ?? [])) {
+      const path = `${projectId}/${a.path.slice(a.path.indexOf("/") + 1)}`;
+      if (path === a.path) continue;
+      const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).copy(a.path, path);
+      if (error) {
+        if (copied.size > 0) await supabase.storage.from(ATTACHMENT_BUCKET).remove([...copied.values()]);
+        throw error;
+      }
+      copied.set(a.path, path);
     }
+    return copied;
+  }
+
+  // Signed URLs are reused until shortly before they expire, so cards don't re-sign on every render.
+  const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+
+  /** Delete tasks for good and drop dependencies on them. */
+  async function purgeTaskRows(ids: string[]) {
+    if (ids.length === 0) return;
+    const { data: rows, error: listErr } = await supabase.from("tasks").select("attachments").in("id", ids);
+    if (listErr) throw listErr;
+    await removeAttachmentFiles((rows ?? []) as Pick<TaskRow, "attachments">[]);
+    const { error } = await supabase.from("tasks").delete().in("id", ids);
+    if (error) throw error;
+    await removeFromBlockedBy(ids);
   }
 
-  async function uid(prefix: "p" | "t") {
-    await ensureUidCounter();
-    uidCounter = (uidCounter ?? 0) + 1;
-    return `${prefix}-${uidCounter}-${Date.now().toString(36)}`;
+  // One realtime channel per repo, shared by every subscriber and closed with the last one.
+  const listeners = new Set<(change: RepoChange) => void>();
+  let channel: ReturnType<typeof supabase.channel> | null = null;
+
+  function emit(change: RepoChange) {
+    for (const listener of listeners) listener(change);
+  }
+
+  function openChannel() {
+    if (channel) return;
+    channel = supabase
+      .channel(`dashboard:${userId}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "tasks" }, (payload: any) => {
+        // Moving to the trash is an update; to everyone watching, the task is gone.
+        if (payload.eventType === "DELETE") emit({ type: "task", event: "delete", id: payload.old.id });
+        else if (payload.new.deleted_at) emit({ type: "task", event: "delete", id: payload.new.id });
+        else emit({ type: "task", event: "upsert", task: mapTaskRow(payload.new as TaskRow) });
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "projects" }, (payload: any) => {
+        if (payload.eventType === "DELETE") emit({ type: "project", event: "delete", id: payload.old.id });
+        else if (payload.new.deleted_at) emit({ type: "project", event: "delete", id: payload.new.id });
+        else emit({ type: "project", event: "upsert", project: mapProjectRow(payload.new as ProjectRow) });
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "project_members" }, (payload: any) => {
+        const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+        emit({ type: "membership", projectId: row?.project_id, userId: row?.user_id });
+      })
+      .subscribe();
   }
 
   return {
@@ -120,8 +566,9 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
         // Fetch projects the user owns
         const { data: owned, error: ownedErr } = await supabase
           .from("projects")
-          .select("id,user_id,name,description,color,order,created_at,updated_at")
+          .select(PROJECT_COLUMNS)
           .eq("user_id", userId)
+          .is("deleted_at", null)
           .order("order", { ascending: true });
         if (ownedErr) throw ownedErr;
 
@@ -141,39 +588,24 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
         if (sharedIds.length > 0) {
           const { data: sharedData, error: sharedErr } = await supabase
             .from("projects")
-            .select("id,user_id,name,description,color,order,created_at,updated_at")
+            .select(PROJECT_COLUMNS)
             .in("id", sharedIds)
+            .is("deleted_at", null)
             .order("order", { ascending: true });
           if (sharedErr) throw sharedErr;
           shared = sharedData ?? [];
         }
 
-        const all = [...(owned ?? []), ...shared].map((r: any) => mapProjectRow(r as ProjectRow));
-
-        // Apply saved order (includes shared projects) if available
-        try {
-          const savedOrder = localStorage.getItem(`project-order:${userId}`);
-          if (savedOrder) {
-            const orderIds: string[] = JSON.parse(savedOrder);
-            const orderMap = new Map(orderIds.map((id, i) => [id, i]));
-            all.sort((a, b) => {
-              const ai = orderMap.get(a.id) ?? 9999;
-              const bi = orderMap.get(b.id) ?? 9999;
-              return ai - bi;
-            });
-          }
-        } catch { /* ignore */ }
-
-        return all;
+        return await applyPreferences([...(owned ?? []), ...shared].map((r: any) => mapProjectRow(r as ProjectRow)));
       } catch (e) {
         logAndThrow("listProjects failed", e);
       }
     },
 
-    async createProject(data) {
+    async createProject(data, presetId) {
       try {
         const now = new Date().toISOString();
-        const id = await uid("p");
+        const id = presetId ?? newId("p");
         const { data: existing, error: listErr } = await supabase
           .from("projects")
           .select("order")
@@ -189,6 +621,10 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
           name: data.name,
           description: data.description ?? null,
           color: data.color,
+          columns: data.columns ?? null,
+          wip_policy: data.wipPolicy ?? null,
+          dependency_policy: data.dependencyPolicy ?? null,
+          saved_views: data.savedViews ?? null,
           order: maxOrder + 1,
           created_at: now,
           updated_at: now,
@@ -197,7 +633,7 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
         const { data: inserted, error } = await supabase
           .from("projects")
           .insert(row)
-          .select("id,user_id,name,description,color,order,created_at,updated_at")
+          .select(PROJECT_COLUMNS)
           .single();
         if (error) throw error;
 
@@ -219,8 +655,12 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
         const now = new Date().toISOString();
         const update: any = { updated_at: now };
         if (patch.name !== undefined) update.name = patch.name;
-        if (patch.description !== undefined) update.description = patch.description ?? null;
+        if ("description" in patch) update.description = patch.description ?? null;
         if (patch.color !== undefined) update.color = patch.color;
+        if ("columns" in patch) update.columns = patch.columns ?? null;
+        if ("wipPolicy" in patch) update.wip_policy = patch.wipPolicy ?? null;
+        if ("dependencyPolicy" in patch) update.dependency_policy = patch.dependencyPolicy ?? null;
+        if ("savedViews" in patch) update.saved_views = patch.savedViews ?? null;
         if (patch.order !== undefined) update.order = patch.order;
 
         const { data, error } = await supabase
@@ -228,7 +668,7 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
           .update(update)
           .eq("id", id)
           .eq("user_id", userId)
-          .select("id,user_id,name,description,color,order,created_at,updated_at")
+          .select(PROJECT_COLUMNS)
           .single();
         if (error) throw error;
         return mapProjectRow(data as any);
@@ -237,38 +677,33 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
       }
     },
 
-    async deleteProject(id) {
+    async archiveProject(id, archived) {
       try {
-        // First delete project members
-        const { error: mErr } = await supabase
-          .from("project_members")
-          .delete()
-          .eq("project_id", id);
-        
-        if (mErr) {
-          console.warn("Failed to delete project members, continuing...", mErr);
-        }
-
-        // Delete all tasks in the project (regardless of who created them)
-        const { error: tErr } = await supabase
-          .from("tasks")
-          .delete()
-          .eq("project_id", id);
-        
-        if (tErr) throw tErr;
+        const now = new Date().toISOString();
+        const { data, error } = await supabase
+          .from("projects")
+          .update({ archived_at: archived ? now : null, updated_at: now })
+          .eq("id", id)
+          .eq("user_id", userId)
+          .select(PROJECT_COLUMNS)
+          .single();
+        if (error) throw error;
+        return mapProjectRow(data as any);
+      } catch (e) {
+        logAndThrow("archiveProject failed", e);
+      }
+    },
 
-        // Finally delete the project
-        const { error: pErr } = await supabase
+    async deleteProject(id) {
+      try {
+        // Tasks stay as they are; they leave and return with the project.
+        const { error } = await supabase
           .from("projects")
-          .delete()
+          .update({ deleted_at: new Date().toISOString() })
           .eq("id", id)
           .eq("user_id", userId); // Security: ensure user owns the project
-        
-        if (pErr) throw pErr;
+        if (error) throw error;
       } catch (e) {
-        // If we failed to delete the project but deleted tasks, that's bad state.
-        // But in this specific case, the project delete likely failed due to FK constraints
-        // from tasks or members that weren't cleaned up.
         logAndThrow("deleteProject failed", e);
       }
     },
@@ -279,10 +714,9 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
         if (projectIds.length === 0) return [];
         const { data, error } = await supabase
           .from("tasks")
-          .select(
-            "id,project_id,user_id,title,description,status,priority,assignee,due,tags,order,created_at,updated_at"
-          )
-          .in("project_id", projectIds);
+          .select(TASK_COLUMNS)
+          .in("project_id", projectIds)
+          .is("deleted_at", null);
         if (error) throw error;
         return (data ?? []).map((r: any) => mapTaskRow(r as TaskRow));
       } catch (e) {
@@ -294,10 +728,9 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
       try {
         const { data, error } = await supabase
           .from("tasks")
-          .select(
-            "id,project_id,user_id,title,description,status,priority,assignee,due,tags,order,created_at,updated_at"
-          )
+          .select(TASK_COLUMNS)
           .eq("project_id", projectId)
+          .is("deleted_at", null)
           .order("order", { ascending: true });
         if (error) throw error;
         return (data ?? []).map((r: any) => mapTaskRow(r as TaskRow));
@@ -306,35 +739,12 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
       }
     },
 
-    async createTask(input: TaskCreate) {
+    async createTask(input: TaskCreate, presetId?: string) {
       try {
-        const now = new Date().toISOString();
-        const id = await uid("t");
-        const row = {
-          id,
-          user_id: userId,
-          project_id: input.projectId,
-          title: input.title,
-          description: input.description ?? null,
-          status: input.status,
-          priority: input.priority,
-          assignee: input.assignee ?? null,
-          due: input.due ?? null,
-          tags: input.tags ?? null,
-          order: input.order,
-          created_at: now,
-          updated_at: now,
-        };
-
-        const { data, error } = await supabase
-          .from("tasks")
-          .insert(row)
-          .select(
-            "id,project_id,user_id,title,description,status,priority,assignee,due,tags,order,created_at,updated_at"
-          )
-          .single();
-        if (error) throw error;
-        return mapTaskRow(data as any);
+        await assertStatus(input.projectId, input.status);
+        const id = presetId ?? newId("t");
+        await assertNoCycle(id, input.blockedBy);
+        return await insertTask(id, input);
       } catch (e) {
         logAndThrow("createTask failed", e);
       }
@@ -342,27 +752,29 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
 
     async updateTask(id: string, patch: TaskUpdate) {
       try {
-        const now = new Date().toISOString();
-        const update: any = { updated_at: now };
-        if (patch.title !== undefined) update.title = patch.title;
-        if (patch.description !== undefined) update.description = patch.description ?? null;
-        if (patch.status !== undefined) update.status = patch.status;
-        if (patch.priority !== undefined) update.priority = patch.priority;
-        if (patch.assignee !== undefined) update.assignee = patch.assignee ?? null;
-        if (patch.due !== undefined) update.due = patch.due ?? null;
-        if (patch.tags !== undefined) update.tags = patch.tags ?? null;
-        if ((patch as any).order !== undefined) update.order = (patch as any).order;
+        const { data: current, error: curErr } = await supabase.from("tasks").select(TASK_COLUMNS).eq("id", id).single();
+        if (curErr) throw curErr;
+        const before = mapTaskRow(current as any);
+
+        if ("blockedBy" in patch) await assertNoCycle(id, patch.blockedBy, before.blockedBy);
+        if (patch.status !== undefined) {
+          await assertStatus(before.projectId, patch.status);
+          if (patch.status !== before.status) {
+            await assertCanFinish({ ...before, blockedBy: patch.blockedBy ?? before.blockedBy }, patch.status);
+          }
+        }
+        const update = { ...taskPatchToRow(patch), updated_at: new Date().toISOString() };
 
         const { data, error } = await supabase
           .from("tasks")
           .update(update)
           .eq("id", id)
-          .select(
-            "id,project_id,user_id,title,description,status,priority,assignee,due,tags,order,created_at,updated_at"
-          )
+          .select(TASK_COLUMNS)
           .single();
         if (error) throw error;
-        return mapTaskRow(data as any);
+        const task = mapTaskRow(data as any);
+        await recordActivity(task, diffTaskActivity(before, task));
+        return await rollRecurrence(before, task);
       } catch (e) {
         logAndThrow("updateTask failed", e);
       }
@@ -370,26 +782,303 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
 
     async deleteTask(id: string) {
       try {
-        const { error } = await supabase.from("tasks").delete().eq("id", id);
+        // Dependencies on a trashed task are kept so restoring it brings them back.
+        const { error } = await supabase.from("tasks").update({ deleted_at: new Date().toISOString() }).eq("id", id);
         if (error) throw error;
       } catch (e) {
         logAndThrow("deleteTask failed", e);
       }
     },
 
+    async updateTasks(changes) {
+      try {
+        if (changes.length === 0) return [];
+        const { data: currentRows, error: curErr } = await supabase
+          .from("tasks")
+          .select(TASK_COLUMNS)
+          .in("id", changes.map((c) => c.id));
+        if (curErr) throw curErr;
+        const rowsById = new Map((currentRows ?? []).map((r: any) => [r.id as string, r as TaskRow]));
+
+        // Check every status against its project's workflow with a single query.
+        const projectIds = [...new Set([...rowsById.values()].map((r) => r.project_id))];
+        const { data: projectRows, error: projectsErr } = await supabase
+          .from("projects")
+          .select("id,columns")
+          .in("id", projectIds);
+        if (projectsErr) throw projectsErr;
+        const columnsById = new Map(
+          (projectRows ?? []).map((p: any) => [p.id as string, getProjectColumns({ columns: p.columns ?? undefined })])
+        );
+        for (const { id, patch } of changes) {
+          const row = rowsById.get(id);
+          if (!row) throw new Error("Task not found");
+          if (patch.status !== undefined && !hasStatus(columnsById.get(row.project_id) ?? getProjectColumns(null), patch.status)) {
+            throw new Error(`Unknown status "${patch.status}"`);
+          }
+        }
+        // Dependencies are read once for the whole batch; each change sees the ones before it.
+        await assertNoCycles(
+          changes
+            .filter(({ patch }) => "blockedBy" in patch)
+            .map(({ id, patch }) => ({ id, blockedBy: patch.blockedBy, before: rowsById.get(id)!.blocked_by ?? undefined }))
+        );
+        const planned = new Map(changes.flatMap(({ id, patch }) => (patch.status !== undefined ? [[id, patch.status] as const] : [])));
+        await assertCanFinishAll(
+          changes.flatMap(({ id, patch }) => {
+            const row = rowsById.get(id)!;
+            if (patch.status === undefined || patch.status === row.status) return [];
+            const before = mapTaskRow(row);
+            return [{ task: { ...before, blockedBy: "blockedBy" in patch ? patch.blockedBy : before.blockedBy }, status: patch.status }];
+          }),
+          planned
+        );
+
+        const now = new Date().toISOString();
+        const { data, error } = await supabase
+          .rpc("update_tasks_batch", {
+            p_rows: changes.map(({ id, patch }) => ({ ...rowsById.get(id)!, ...taskPatchToRow(patch), updated_at: now })),
+          })
+          .select(TASK_COLUMNS);
+        if (error) throw error;
+        const updatedById = new Map(((data ?? []) as any[]).map((r) => [r.id as string, mapTaskRow(r as TaskRow)]));
+        const pairs = changes.flatMap(({ id }) => {
+          const after = updatedById.get(id);
+          return after ? [{ before: mapTaskRow(rowsById.get(id)!), after }] : [];
+        });
+        await recordActivityBatch(pairs.map(({ before, after }) => ({ task: after, changes: diffTaskActivity(before, after) })));
+
+        // Only completed recurring tasks need another round trip.
+        const result: Task[] = [];
+        for (const { before, after } of pairs) {
+          result.push(after.recurrence ? await rollRecurrence(before, after, columnsById.get(after.projectId)) : after);
+        }
+        assertBatchSaved(changes.length, pairs.length);
+        return result;
+      } catch (e) {
+        logAndThrow("updateTasks failed", e);
+      }
+    },
+
+    async deleteTasks(ids) {
+      try {
+        if (ids.length === 0) return;
+        const { error } = await supabase.from("tasks").update({ deleted_at: new Date().toISOString() }).in("id", ids);
+        if (error) throw error;
+      } catch (e) {
+        logAndThrow("deleteTasks failed", e);
+      }
+    },
+
+    async listTrash() {
+      try {
+        const [{ data: projectRows, error: pErr }, liveIds] = await Promise.all([
+          supabase.from("projects").select(PROJECT_COLUMNS).eq("user_id", userId).not("deleted_at", "is", null),
+          getAccessibleProjectIds(),
+        ]);
+        if (pErr) throw pErr;
+        let taskRows: TaskRow[] = [];
+        if (liveIds.length > 0) {
+          const { data, error } = await supabase
+            .from("tasks")
+            .select(TASK_COLUMNS)
+            .in("project_id", liveIds)
+            .not("deleted_at", "is", null);
+          if (error) throw error;
+          taskRows = (data ?? []) as TaskRow[];
+        }
+        const projects = (projectRows ?? []).map((r: any) => mapProjectRow(r as ProjectRow));
+        const tasks = taskRows.map(mapTaskRow);
+
+        // Past the retention window: delete for good now (sql/project_trash.sql can also do this on a schedule).
+        const now = new Date();
+        const expired = (x: { deletedAt?: string }) => !!x.deletedAt && isTrashExpired(x.deletedAt, now);
+        await purgeProjectRows(projects.filter(expired).map((p) => p.id));
+        await purgeTaskRows(tasks.filter(expired).map((t) => t.id));
+
+        const newestFirst = (a: { deletedAt?: string }, b: { deletedAt?: string }) => (b.deletedAt ?? "").localeCompare(a.deletedAt ?? "");
+        return {
+          projects: projects.filter((p) => !expired(p)).sort(newestFirst),
+          tasks: tasks.filter((t) => !expired(t)).sort(newestFirst),
+        };
+      } catch (e) {
+        logAndThrow("listTrash failed", e);
+      }
+    },
+
+    async restoreProjects(ids) {
+      try {
+        if (ids.length === 0) return;
+        const { error } = await supabase.from("projects").update({ deleted_at: null }).in("id", ids).eq("user_id", userId);
+        if (error) throw error;
+      } catch (e) {
+        logAndThrow("restoreProjects failed", e);
+      }
+    },
+
+    async restoreTasks(ids) {
+      try {
+        if (ids.length === 0) return;
+        const { error } = await supabase.from("tasks").update({ deleted_at: null }).in("id", ids);
+        if (error) throw error;
+      } catch (e) {
+        logAndThrow("restoreTasks failed", e);
+      }
+    },
+
+    async purgeProjects(ids) {
+      try {
+        await purgeProjectRows(ids);
+      } catch (e) {
+        logAndThrow("purgeProjects failed", e);
+      }
+    },
+
+    async purgeTasks(ids) {
+      try {
+        await purgeTaskRows(ids);
+      } catch (e) {
+        logAndThrow("purgeTasks failed", e);
+      }
+    },
+
+    async moveTasks(ids, projectId) {
+      try {
+        if (ids.length === 0) return [];
+        const [current, target, existing, targetMembers] = await Promise.all([
+          supabase.from("tasks").select(TASK_COLUMNS).in("id", ids),
+          supabase.from("projects").select("columns,archived_at,deleted_at").eq("id", projectId).single(),
+          supabase.from("tasks").select("id,status,order").eq("project_id", projectId),
+          supabase.from("project_members").select("user_id").eq("project_id", projectId),
+        ]);
+        if (current.error) throw current.error;
+        if (target.error) throw target.error;
+        if (existing.error) throw existing.error;
+        if (targetMembers.error) throw targetMembers.error;
+        assertCanReceiveTasks(target.data as Pick<ProjectRow, "archived_at" | "deleted_at">);
+        const memberIds = new Set((targetMembers.data ?? []).map((m: any) => m.user_id as string));
+        const columns = getProjectColumns({ columns: (target.data as any)?.columns ?? undefined });
+        const rowsById = new Map((current.data ?? []).map((r: any) => [r.id as string, r as TaskRow]));
+        const sources = ids.map((id) => {
+          const row = rowsById.get(id);
+          if (!row) throw new Error("Task not found");
+          return row;
+        });
+        // Moving takes edit rights on both ends; RLS checks the same on the server.
+        await assertCanEdit([...sources.map((r) => r.project_id), projectId]);
+
+        const placed = placeInProject(sources, (existing.data ?? []) as any[], columns);
+        const copied = await copyAttachmentFiles(sources, projectId);
+        const now = new Date().toISOString();
+        // Assignees who are not members of the target project are dropped, as for copies.
+        const keptAssignees = (row: TaskRow) => {
+          const kept = row.assignee_ids?.filter((a) => row.project_id === projectId || memberIds.has(a));
+          return kept && kept.length > 0 ? kept : null;
+        };
+        const rows = sources.map((row) => ({
+          ...row,
+          project_id: projectId,
+          assignee_ids: keptAssignees(row),
+          ...placed.get(row.id)!,
+          attachments: row.attachments?.map((a) => ({ ...a, path: copied.get(a.path) ?? a.path })) ?? null,
+          updated_at: now,
+        }));
+        const { data, error } = await supabase.rpc("update_tasks_batch", { p_rows: rows }).select(TASK_COLUMNS);
+        if (error) {
+          if (copied.size > 0) await supabase.storage.from(ATTACHMENT_BUCKET).remove([...copied.values()]);
+          throw error;
+        }
+        const movedById = new Map(((data ?? []) as any[]).map((r) => [r.id as string, mapTaskRow(r as TaskRow)]));
+        const movedIds = ids.filter((id) => movedById.has(id));
+        // Moved tasks now list the copies, so their old files can go; tasks left behind keep theirs.
+        const moved = sources.filter((r) => movedById.has(r.id));
+        const stayed = sources.filter((r) => !movedById.has(r.id));
+        await removeAttachmentFiles(moved.map((r) => ({ attachments: r.attachments?.filter((a) => copied.has(a.path)) ?? null })));
+        await removeAttachmentFiles(
+          stayed.map((r) => ({ attachments: r.attachments?.flatMap((a) => (copied.has(a.path) ? [{ ...a, path: copied.get(a.path)! }] : [])) ?? null }))
+        );
+
+        // Comments and activity carry project_id for their access policies.
+        const history = await Promise.all([
+          supabase.from("task_comments").update({ project_id: projectId }).in("task_id", movedIds),
+          supabase.from("task_activity").update({ project_id: projectId }).in("task_id", movedIds),
+        ]);
+        for (const { error: historyErr } of history) {
+          if (historyErr) console.error("[supabaseStorage] moveTasks history update failed", historyErr);
+        }
+
+        assertBatchSaved(ids.length, movedIds.length);
+        return ids.map((id) => movedById.get(id)!);
+      } catch (e) {
+        logAndThrow("moveTasks failed", e);
+      }
+    },
+
+    async duplicateTasks(ids, projectId) {
+      try {
+        if (ids.length === 0) return [];
+        // Rows the user can read are the ones they may copy; writing needs edit rights on the target.
+        const [current, target, existing, targetMembers] = await Promise.all([
+          supabase.from("tasks").select(TASK_COLUMNS).in("id", ids),
+          supabase.from("projects").select("columns,archived_at,deleted_at").eq("id", projectId).single(),
+          supabase.from("tasks").select("id,status,order").eq("project_id", projectId),
+          supabase.from("project_members").select("user_id").eq("project_id", projectId),
+        ]);
+        if (current.error) throw current.error;
+        if (target.error) throw target.error;
+        if (existing.error) throw existing.error;
+        if (targetMembers.error) throw targetMembers.error;
+        assertCanReceiveTasks(target.data as Pick<ProjectRow, "archived_at" | "deleted_at">);
+        await assertCanEdit([projectId]);
+
+        const columns = getProjectColumns({ columns: (target.data as any)?.columns ?? undefined });
+        const memberIds = new Set((targetMembers.data ?? []).map((m: any) => m.user_id as string));
+        const tasksById = new Map((current.data ?? []).map((r: any) => [r.id as string, mapTaskRow(r as TaskRow)]));
+        const copies: Task[] = [];
+        for (const id of ids) {
+          const source = tasksById.get(id);
+          if (!source) throw new Error("Task not found");
+          // Assignees who are not members of the target project are dropped from the copy.
+          const assigneeIds = source.assigneeIds?.filter((a) => source.projectId === projectId || memberIds.has(a));
+          copies.push({
+            ...source,
+            id: newId("t"),
+            projectId,
+            assigneeIds: assigneeIds && assigneeIds.length > 0 ? assigneeIds : undefined,
+            // Files are deleted with their task, so copies don't share them.
+            attachments: undefined,
+          });
+        }
+
+        const placed = placeInProject(copies, (existing.data ?? []) as any[], columns);
+        const now = new Date().toISOString();
+        const { data, error } = await supabase
+          .from("tasks")
+          .insert(copies.map((c) => taskCreateToRow(c.id, { ...c, ...placed.get(c.id)! }, now)))
+          .select(TASK_COLUMNS);
+        if (error) throw error;
+        const createdById = new Map(((data ?? []) as any[]).map((r) => [r.id as string, mapTaskRow(r as TaskRow)]));
+        const created = copies.map((c) => createdById.get(c.id)!);
+        await recordActivityBatch(created.map((task) => ({ task, changes: [{ kind: "created" as const }] })));
+        return created;
+      } catch (e) {
+        logAndThrow("duplicateTasks failed", e);
+      }
+    },
+
     async reorderTask(id: string, newStatus: TaskStatus, newOrder: number) {
       try {
         // Load current task.
         const { data: taskRow, error: loadErr } = await supabase
           .from("tasks")
-          .select(
-            "id,project_id,user_id,title,description,status,priority,assignee,due,tags,order,created_at,updated_at"
-          )
+          .select(TASK_COLUMNS)
           .eq("id", id)
           .single();
         if (loadErr) throw loadErr;
         const task = mapTaskRow(taskRow as any);
         const oldStatus = task.status;
+        await assertStatus(task.projectId, newStatus);
+        if (oldStatus !== newStatus) await assertCanFinish(task, newStatus);
 
         // Load tasks in target column (excluding the moved task).
         const { data: targetRows, error: targetErr } = await supabase
@@ -398,6 +1087,7 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
           .eq("project_id", task.projectId)
           .eq("status", newStatus)
           .neq("id", id)
+          .is("deleted_at", null)
           .order("order", { ascending: true });
         if (targetErr) throw targetErr;
 
@@ -423,6 +1113,7 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
             .select("id")
             .eq("project_id", task.projectId)
             .eq("status", oldStatus)
+            .is("deleted_at", null)
             .order("order", { ascending: true });
           if (oldErr) throw oldErr;
 
@@ -439,13 +1130,13 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
         // Return the updated task.
         const { data: updatedRow, error: updatedErr } = await supabase
           .from("tasks")
-          .select(
-            "id,project_id,user_id,title,description,status,priority,assignee,due,tags,order,created_at,updated_at"
-          )
+          .select(TASK_COLUMNS)
           .eq("id", id)
           .single();
         if (updatedErr) throw updatedErr;
-        return mapTaskRow(updatedRow as any);
+        const updated = mapTaskRow(updatedRow as any);
+        await recordActivity(updated, diffTaskActivity(task, updated));
+        return await rollRecurrence(task, updated);
       } catch (e) {
         logAndThrow("reorderTask failed", e);
       }
@@ -453,33 +1144,371 @@ export function createSupabaseRepo(userId: string): DashboardRepo {
 
     async reorderProjects(ids: string[]) {
       try {
-        // Only update order on projects the user owns; shared projects
-        // get their visual order from the ids array (client-side).
-        const { data: owned } = await supabase
-          .from("projects")
-          .select("id")
-          .eq("user_id", userId);
-        const ownedIds = new Set((owned ?? []).map((r: any) => r.id as string));
+        // Each user has their own order, shared projects included. Pins and
+        // folders are left as they are; new rows get the column defaults.
+        const now = new Date().toISOString();
+        const { error } = await supabase
+          .from("project_preferences")
+          .upsert(
+            ids.map((id, position) => ({ user_id: userId, project_id: id, position, updated_at: now })),
+            { onConflict: "user_id,project_id" }
+          );
+        if (error) throw error;
+      } catch (e) {
+        logAndThrow("reorderProjects failed", e);
+      }
+    },
+
+    async setProjectPlacement(id, placement) {
+      try {
+        const row: Record<string, unknown> = { user_id: userId, project_id: id, updated_at: new Date().toISOString() };
+        if ("pinned" in placement) row.pinned = !!placement.pinned;
+        if ("folder" in placement) row.folder = placement.folder?.trim() || null;
+        const { error } = await supabase.from("project_preferences").upsert(row, { onConflict: "user_id,project_id" });
+        if (error) throw error;
+      } catch (e) {
+        logAndThrow("setProjectPlacement failed", e);
+      }
+    },
+
+    async remapStatuses(projectId: string, moves: Record<TaskStatus, TaskStatus>) {
+      try {
+        const { data: rows, error } = await supabase
+          .from("tasks")
+          .select("id,status,order")
+          .eq("project_id", projectId)
+          .order("order", { ascending: true });
+        if (error) throw error;
+
+        // Moved tasks are appended after the tasks already in the target column.
+        const nextOrder = new Map<TaskStatus, number>();
+        for (const r of (rows ?? []) as any[]) {
+          if (moves[r.status] !== undefined) continue;
+          nextOrder.set(r.status, Math.max(nextOrder.get(r.status) ?? 0, r.order + 1));
+        }
 
         const now = new Date().toISOString();
         await Promise.all(
-          ids
-            .filter((id) => ownedIds.has(id))
-            .map((id, i) =>
-              supabase
-                .from("projects")
-                .update({ order: ids.indexOf(id), updated_at: now })
-                .eq("id", id)
-                .eq("user_id", userId)
-            )
+          ((rows ?? []) as any[])
+            .filter((r) => moves[r.status] !== undefined)
+            .map((r) => {
+              const status = moves[r.status];
+              const order = nextOrder.get(status) ?? 0;
+              nextOrder.set(status, order + 1);
+              return supabase
+                .from("tasks")
+                .update({ status, order, updated_at: now })
+                .eq("id", r.id as string);
+            })
+        );
+      } catch (e) {
+        logAndThrow("remapStatuses failed", e);
+      }
+    },
+
+    subscribe(listener: (change: RepoChange) => void) {
+      listeners.add(listener);
+      openChannel();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && channel) {
+          supabase.removeChannel(channel);
+          channel = null;
+        }
+      };
+    },
+
+    async listComments(taskId: string) {
+      try {
+        const { data, error } = await supabase
+          .from("task_comments")
+          .select(COMMENT_COLUMNS)
+          .eq("task_id", taskId)
+          .order("created_at", { ascending: true });
+        if (error) throw error;
+        return (data ?? []).map((r: any) => mapCommentRow(r as CommentRow));
+      } catch (e) {
+        logAndThrow("listComments failed", e);
+      }
+    },
+
+    async addComment(taskId: string, body: string) {
+      try {
+        const { data: taskRow, error: taskErr } = await supabase.from("tasks").select("project_id").eq("id", taskId).single();
+        if (taskErr) throw taskErr;
+        const { data, error } = await supabase
+          .from("task_comments")
+          .insert({ task_id: taskId, project_id: (taskRow as any).project_id, user_id: userId, body })
+          .select(COMMENT_COLUMNS)
+          .single();
+        if (error) throw error;
+        return mapCommentRow(data as any);
+      } catch (e) {
+        logAndThrow("addComment failed", e);
+      }
+    },
+
+    async deleteComment(id: string) {
+      try {
+        const { error } = await supabase.from("task_comments").delete().eq("id", id).eq("user_id", userId);
+        if (error) throw error;
+      } catch (e) {
+        logAndThrow("deleteComment failed", e);
+      }
+    },
+
+    async listActivity(taskId: string) {
+      try {
+        const { data, error } = await supabase
+          .from("task_activity")
+          .select(ACTIVITY_COLUMNS)
+          .eq("task_id", taskId)
+          .order("created_at", { ascending: true });
+        if (error) throw error;
+        return (data ?? []).map((r: any) => mapActivityRow(r as ActivityRow));
+      } catch (e) {
+        logAndThrow("listActivity failed", e);
+      }
+    },
+
+    async uploadAttachment(projectId: string, file: File) {
+      try {
+        const problem = attachmentProblem([file], 0);
+        if (problem) throw new Error(problem);
+        const id = newId("f");
+        const path = attachmentPath(projectId, id, file.name);
+        const { error } = await supabase.storage
+          .from(ATTACHMENT_BUCKET)
+          .upload(path, file, { contentType: file.type || undefined, upsert: false });
+        if (error) throw error;
+        return { id, name: file.name, type: file.type || "application/octet-stream", size: file.size, path, createdAt: new Date().toISOString() };
+      } catch (e) {
+        logAndThrow("uploadAttachment failed", e);
+      }
+    },
+
+    async getAttachmentUrl(attachment: TaskAttachment) {
+      try {
+        const cached = signedUrls.get(attachment.path);
+        if (cached && cached.expiresAt > Date.now() + 60_000) return cached.url;
+        const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).createSignedUrl(attachment.path, SIGNED_URL_SECONDS);
+        if (error) throw error;
+        signedUrls.set(attachment.path, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_SECONDS * 1000 });
+        return data.signedUrl;
+      } catch (e) {
+        logAndThrow("getAttachmentUrl failed", e);
+      }
+    },
+
+    async deleteAttachments(attachments: TaskAttachment[]) {
+      if (attachments.length === 0) return;
+      try {
+        const paths = attachments.map((a) => a.path);
+        const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths);
+        if (error) throw error;
+        for (const path of paths) signedUrls.delete(path);
+      } catch (e) {
+        logAndThrow("deleteAttachments failed", e);
+      }
+    },
+
+    async exportWorkspace() {
+      try {
+        const projectIds = await getAccessibleProjectIds();
+        if (projectIds.length === 0) return { projects: [], tasks: [], comments: [], activity: [], members: [] };
+        const [projectsRes, tasksRes, commentsRes, activityRes] = await Promise.all([
+          supabase.from("projects").select(PROJECT_COLUMNS).in("id", projectIds).order("order", { ascending: true }),
+          supabase.from("tasks").select(TASK_COLUMNS).in("project_id", projectIds).is("deleted_at", null),
+          supabase.from("task_comments").select(COMMENT_COLUMNS).in("project_id", projectIds),
+          supabase.from("task_activity").select(ACTIVITY_COLUMNS).in("project_id", projectIds),
+        ]);
+        for (const res of [projectsRes, tasksRes, commentsRes, activityRes]) if (res.error) throw res.error;
+        // The backup's order is the user's sidebar order, shared projects included.
+        const projects = await applyPreferences((projectsRes.data ?? []).map((r: any) => mapProjectRow(r as ProjectRow)));
+        const memberLists = await Promise.all(projectIds.map((id) => listProjectMembers(id).catch(() => [])));
+        return {
+          projects,
+          tasks: (tasksRes.data ?? []).map((r: any) => mapTaskRow(r as TaskRow)),
+          comments: (commentsRes.data ?? []).map((r: any) => mapCommentRow(r as CommentRow)),
+          activity: (activityRes.data ?? []).map((r: any) => mapActivityRow(r as ActivityRow)),
+          members: memberLists.flat().map((m) => ({ projectId: m.projectId, email: m.email, role: m.role })),
+        };
+      } catch (e) {
+        logAndThrow("exportWorkspace failed", e);
+      }
+    },
+
+    async restoreWorkspace(write, deleteProjectIds) {
+      try {
+        const notes: string[] = [];
+        // Only projects the user owns are replaced; shared ones keep their members and tasks.
+        let ownedIds: string[] = [];
+        if (deleteProjectIds.length > 0) {
+          const { data: owned, error: ownedErr } = await supabase.from("projects").select("id").in("id", deleteProjectIds).eq("user_id", userId);
+          if (ownedErr) throw ownedErr;
+          ownedIds = (owned ?? []).map((r: any) => r.id as string);
+          const skipped = deleteProjectIds.length - ownedIds.length;
+          if (skipped > 0) notes.push(skipped === 1 ? "A shared project you don't own wasn't replaced." : `${skipped} shared projects you don't own weren't replaced.`);
+        }
+
+        const projectRow = (p: Project) => ({
+          name: p.name,
+          description: p.description ?? null,
+          color: p.color,
+          columns: p.columns ?? null,
+          wip_policy: p.wipPolicy ?? null,
+          dependency_policy: p.dependencyPolicy ?? null,
+          saved_views: p.savedViews ?? null,
+          order: p.order,
+          archived_at: p.archivedAt ?? null,
+          deleted_at: null,
+          created_at: p.createdAt,
+          updated_at: p.updatedAt,
+        });
+        const { data: foundProjects, error: findErr } = await supabase
+          .from("projects")
+          .select("id")
+          .in("id", write.projects.map((p) => p.id));
+        if (findErr) throw findErr;
+        const existingProjects = new Set((foundProjects ?? []).map((r: any) => r.id as string));
+        const newProjects = write.projects.filter((p) => !existingProjects.has(p.id));
+        if (newProjects.length > 0) {
+          const { error } = await supabase.from("projects").insert(newProjects.map((p) => ({ id: p.id, user_id: userId, ...projectRow(p) })));
+          if (error) throw error;
+          const { error: ownerErr } = await supabase
+            .from("project_members")
+            .insert(newProjects.map((p) => ({ project_id: p.id, user_id: userId, role: "owner" })));
+          if (ownerErr) throw ownerErr;
+        }
+        const projectUpdates = await Promise.all(
+          write.projects
+            .filter((p) => existingProjects.has(p.id))
+            .map((p) => supabase.from("projects").update(projectRow(p)).eq("id", p.id).eq("user_id", userId))
+        );
+        for (const res of projectUpdates) if (res.error) throw res.error;
+        const placed = write.projects.filter((p) => p.pinned || p.folder);
+        if (placed.length > 0) {
+          const { error } = await supabase
+            .from("project_preferences")
+            .upsert(
+              placed.map((p) => ({ user_id: userId, project_id: p.id, pinned: !!p.pinned, folder: p.folder ?? null })),
+              { onConflict: "user_id,project_id" }
+            );
+          if (error) throw error;
+        }
+
+        // Restored tasks keep their timestamps; new rows are created by the restoring user.
+        const taskRow = (t: Task) => ({ ...taskCreateToRow(t.id, t, t.createdAt), deleted_at: null, updated_at: t.updatedAt });
+        const { data: foundTasks, error: findTasksErr } = await supabase
+          .from("tasks")
+          .select("id")
+          .in("id", write.tasks.map((t) => t.id));
+        if (findTasksErr) throw findTasksErr;
+        const existingTasks = new Set((foundTasks ?? []).map((r: any) => r.id as string));
+        const newTasks = write.tasks.filter((t) => !existingTasks.has(t.id));
+        if (newTasks.length > 0) {
+          const { error } = await supabase.from("tasks").insert(newTasks.map(taskRow));
+          if (error) throw error;
+        }
+        const taskUpdates = await Promise.all(
+          write.tasks
+            .filter((t) => existingTasks.has(t.id))
+            .map((t) => {
+              const { id, user_id: _creator, created_at: _created, ...row } = taskRow(t);
+              return supabase.from("tasks").update(row).eq("id", id);
+            })
         );
+        for (const res of taskUpdates) if (res.error) throw res.error;
 
-        // Persist full ordering (including shared) in localStorage
-        try {
-          localStorage.setItem(`project-order:${userId}`, JSON.stringify(ids));
-        } catch { /* ignore */ }
+        // Comment and activity ids are uuids here; ids from the local repo are replaced.
+        const keepId = (id: string) => (UUID_RE.test(id) ? { id } : {});
+        // Tasks of replaced projects still have their history until the cleanup below; don't add it twice.
+        const present = async (table: "task_comments" | "task_activity", ids: string[]) => {
+          const uuids = ids.filter((id) => UUID_RE.test(id));
+          if (uuids.length === 0) return new Set<string>();
+          const { data, error } = await supabase.from(table).select("id").in("id", uuids);
+          if (error) throw error;
+          return new Set((data ?? []).map((r: any) => r.id as string));
+        };
+        const presentComments = await present("task_comments", write.comments.map((c) => c.id));
+        const comments = write.comments.filter((c) => !presentComments.has(c.id));
+        const presentActivity = await present("task_activity", write.activity.map((a) => a.id));
+        const activity = write.activity.filter((a) => !presentActivity.has(a.id));
+        if (comments.length > 0) {
+          const { error } = await supabase.from("task_comments").insert(
+            comments.map((c) => ({ ...keepId(c.id), task_id: c.taskId, project_id: c.projectId, user_id: userId, body: c.body, created_at: c.createdAt }))
+          );
+          if (error) throw error;
+        }
+        if (activity.length > 0) {
+          const { error } = await supabase.from("task_activity").insert(
+            activity.map((a) => ({
+              ...keepId(a.id),
+              task_id: a.taskId,
+              project_id: a.projectId,
+              user_id: userId,
+              kind: a.kind,
+              from_value: a.from ?? null,
+              to_value: a.to ?? null,
+              created_at: a.createdAt,
+            }))
+          );
+          if (error) throw error;
+        }
+        if (write.comments.some((c) => c.authorId !== userId) || write.activity.some((a) => a.actorId !== userId)) {
+          notes.push("Restored comments and activity are shown as yours.");
+        }
+
+        for (const m of write.members) {
+          try {
+            await addProjectMember(m.projectId, m.email, m.role);
+          } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            // The restoring user was already added as owner.
+            if (!message.startsWith("That user is already a member")) notes.push(`${m.email}: ${message}`);
+          }
+        }
+
+        // Replaced projects are cleared last, so a write that fails above leaves the workspace as it was.
+        if (ownedIds.length > 0) {
+          const restoredTasks = new Set(write.tasks.map((t) => t.id));
+          const { data: taskRows, error: listErr } = await supabase.from("tasks").select("id,attachments").in("project_id", ownedIds);
+          if (listErr) throw listErr;
+          const staleTasks = ((taskRows ?? []) as Pick<TaskRow, "id" | "attachments">[]).filter((r) => !restoredTasks.has(r.id));
+          // Files the backup lists again are kept for the restored tasks.
+          const keptPaths = new Set(write.tasks.flatMap((t) => (t.attachments ?? []).map((a) => a.path)));
+          await removeAttachmentFiles(staleTasks.map((r) => ({ attachments: r.attachments?.filter((a) => !keptPaths.has(a.path)) ?? null })));
+          if (staleTasks.length > 0) {
+            const { error: tErr } = await supabase.from("tasks").delete().in("id", staleTasks.map((r) => r.id));
+            if (tErr) throw tErr;
+            await removeFromBlockedBy(staleTasks.map((r) => r.id));
+          }
+
+          const restoredProjects = new Set(write.projects.map((p) => p.id));
+          const backupMembers = new Set(write.members.map((m) => `${m.projectId}|${m.email.toLowerCase()}`));
+          const memberLists = await Promise.all(ownedIds.filter((id) => restoredProjects.has(id)).map((id) => listProjectMembers(id)));
+          const staleMembers = memberLists
+            .flat()
+            .filter((m) => m.userId !== userId && !backupMembers.has(`${m.projectId}|${m.email.toLowerCase()}`))
+            .map((m) => m.id);
+          if (staleMembers.length > 0) {
+            const { error: smErr } = await supabase.from("project_members").delete().in("id", staleMembers);
+            if (smErr) throw smErr;
+          }
+
+          // Same order as deleteProject: members, tasks, then the projects.
+          const dropped = ownedIds.filter((id) => !restoredProjects.has(id));
+          if (dropped.length > 0) {
+            const { error: mErr } = await supabase.from("project_members").delete().in("project_id", dropped);
+            if (mErr) throw mErr;
+            const { error: pErr } = await supabase.from("projects").delete().in("id", dropped).eq("user_id", userId);
+            if (pErr) throw pErr;
+          }
+        }
+
+        return notes;
       } catch (e) {
-        logAndThrow("reorderProjects failed", e);
+        logAndThrow("restoreWorkspace failed", e);
       }
     },
   };
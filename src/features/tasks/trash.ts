@@ -0,0 +1,19 @@
+import type { Project, Task } from "./types";
+
+/** Days a project or task stays in the trash before it is deleted for good (see sql/project_trash.sql). */
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** What the trash view lists. Tasks of a trashed project come back with it, so they aren't listed. */
+export type TrashContents = { projects: Project[]; tasks: Task[] };
+
+export function isTrashExpired(deletedAt: string, now = new Date()): boolean {
+  return now.getTime() - new Date(deletedAt).getTime() >= TRASH_RETENTION_DAYS * DAY_MS;
+}
+
+/** Whole days until something trashed at `deletedAt` is deleted for good; 0 on the last day. */
+export function daysLeftInTrash(deletedAt: string, now = new Date()): number {
+  const left = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS - now.getTime();
+  return Math.max(0, Math.floor(left / DAY_MS));
+}
@@ -0,0 +1,172 @@
+import { useMemo } from "react";
+import type { Project, Task } from "../types";
+import { TRASH_RETENTION_DAYS, daysLeftInTrash, type TrashContents } from "../trash";
+import { formatRelativeTime } from "../dates";
+import { IconFolder, IconTrash } from "../icons";
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+/** Projects and tasks in the trash, with restore and delete-forever actions. */
+export function TrashView({
+  trash,
+  projects,
+  canRestoreTask,
+  onRestoreProject,
+  onPurgeProject,
+  onRestoreTask,
+  onPurgeTask,
+  onEmptyTrash,
+}: {
+  /** null while loading. */
+  trash: TrashContents | null;
+  /** Projects not in the trash, to show which one a task belongs to. */
+  projects: Project[];
+  canRestoreTask: (t: Task) => boolean;
+  onRestoreProject: (p: Project) => void;
+  onPurgeProject: (p: Project) => void;
+  onRestoreTask: (t: Task) => void;
+  onPurgeTask: (t: Task) => void;
+  onEmptyTrash: () => void;
+}) {
+  const projectById = useMemo(() => new Map(projects.map((p) => [p.id, p])), [projects]);
+  const tasks = useMemo(() => (trash?.tasks ?? []).filter(canRestoreTask), [trash, canRestoreTask]);
+
+  if (!trash) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-accent" />
+      </div>
+    );
+  }
+
+  if (trash.projects.length === 0 && tasks.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-gray-400">
+        <IconTrash className="mb-4 h-12 w-12" />
+        <p className="text-lg font-medium text-gray-600 dark:text-gray-400">Trash is empty</p>
+        <p className="mt-1 text-sm">Deleted projects and tasks stay here for {TRASH_RETENTION_DAYS} days</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <span className="text-2xs text-gray-500 dark:text-gray-400">
+          Items are deleted for good {TRASH_RETENTION_DAYS} days after they were moved here.
+        </span>
+        <button
+          onClick={onEmptyTrash}
+          className="ml-auto rounded-lg border border-red-200 dark:border-red-800 px-2.5 py-1 text-2xs font-medium text-red-600 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-950/50"
+        >
+          Empty trash
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {trash.projects.length > 0 && (
+          <TrashSection title="Projects" count={trash.projects.length}>
+            {trash.projects.map((p) => (
+              <TrashRow
+                key={p.id}
+                title={p.name}
+                deletedAt={p.deletedAt!}
+                badge={
+                  <span className="inline-flex items-center gap-1 rounded-md px-1.5 py-0.5 text-2xs font-medium" style={{ backgroundColor: p.color + "20", color: p.color }}>
+                    <IconFolder className="h-2.5 w-2.5" />
+                    Project and its tasks
+                  </span>
+                }
+                onRestore={() => onRestoreProject(p)}
+                onPurge={() => onPurgeProject(p)}
+              />
+            ))}
+          </TrashSection>
+        )}
+        {tasks.length > 0 && (
+          <TrashSection title="Tasks" count={tasks.length}>
+            {tasks.map((t) => {
+              const project = projectById.get(t.projectId);
+              return (
+                <TrashRow
+                  key={t.id}
+                  title={t.title}
+                  deletedAt={t.deletedAt!}
+                  badge={
+                    project && (
+                      <span className="inline-flex items-center gap-1 rounded-md px-1.5 py-0.5 text-2xs font-medium" style={{ backgroundColor: project.color + "20", color: project.color }}>
+                        <IconFolder className="h-2.5 w-2.5" />
+                        {project.name}
+                      </span>
+                    )
+                  }
+                  onRestore={() => onRestoreTask(t)}
+                  onPurge={() => onPurgeTask(t)}
+                />
+              );
+            })}
+          </TrashSection>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TrashSection({ title, count, children }: { title: string; count: number; children: React.ReactNode }) {
+  return (
+    <div className="overflow-hidden rounded-2xl border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface">
+      <div className="flex items-center gap-2 border-b border-gray-100 dark:border-dark-border bg-raised dark:bg-dark-raised px-4 py-2.5">
+        <span className="text-xs font-semibold text-gray-800 dark:text-gray-100">{title}</span>
+        <span className="flex h-5 min-w-[20px] items-center justify-center rounded-full bg-gray-200/80 dark:bg-dark-border px-1.5 text-2xs font-semibold text-gray-500 dark:text-gray-400">
+          {count}
+        </span>
+      </div>
+      <div>{children}</div>
+    </div>
+  );
+}
+
+function TrashRow({
+  title,
+  deletedAt,
+  badge,
+  onRestore,
+  onPurge,
+}: {
+  title: string;
+  deletedAt: string;
+  badge?: React.ReactNode;
+  onRestore: () => void;
+  onPurge: () => void;
+}) {
+  const daysLeft = daysLeftInTrash(deletedAt);
+  return (
+    <div className="flex flex-col gap-2 border-b border-gray-100 dark:border-dark-border px-4 py-3 last:border-b-0 sm:flex-row sm:items-center sm:gap-3">
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium text-gray-900 dark:text-gray-100">{title}</p>
+        <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+          {badge}
+          <span className="text-2xs text-gray-500 dark:text-gray-400">
+            Deleted {formatRelativeTime(deletedAt)} · {daysLeft === 0 ? "deleted for good today" : `${plural(daysLeft, "day")} left`}
+          </span>
+        </div>
+      </div>
+      <div className="flex items-center gap-2 sm:shrink-0">
+        <button
+          onClick={onRestore}
+          className="rounded-md border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-dark-border"
+        >
+          Restore
+        </button>
+        <button
+          onClick={onPurge}
+          className="rounded-md px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-950/50"
+        >
+          Delete forever
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { TrashView } from "./TrashView";
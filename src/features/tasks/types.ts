@@ -5,16 +5,65 @@ export type Project = {
   name: string;
   description?: string;
   color: string; // hex color for the project accent
-  order: number;
+  order: number; // position in the user's sidebar
   createdAt: string;
   updatedAt: string;
   ownerId?: string; // user_id of the project creator (from Supabase)
+  columns?: WorkflowColumn[]; // custom workflow; falls back to STATUS_COLUMNS
+  wipPolicy?: WipPolicy; // what happens when a drop exceeds a column's WIP limit (default "warn")
+  savedViews?: SavedView[]; // named filter + sort + view presets, managed by the owner
+  dependencyPolicy?: DependencyPolicy; // what happens when a blocked task is moved to a done column (default "warn")
+  pinned?: boolean; // per user: listed above the other projects in the sidebar
+  folder?: string; // per user: sidebar folder the project is grouped under
+  archivedAt?: string; // read-only and listed apart in the sidebar
+  deletedAt?: string; // in the trash since then, with all its tasks
 };
 
-export type TaskStatus = "backlog" | "todo" | "in_progress" | "done";
+/** Key of a column in the project's workflow. */
+export type TaskStatus = string;
+
+export type WorkflowColumn = {
+  key: TaskStatus;
+  label: string;
+  icon: string;
+  color: string;
+  done?: boolean; // tasks in this column count as completed
+  wipLimit?: number; // max tasks in the column; unset means unlimited
+};
+
+export type WipPolicy = "warn" | "block";
+
+export type DependencyPolicy = "warn" | "block";
 
 export type TaskPriority = "low" | "medium" | "high" | "urgent";
 
+export type Subtask = {
+  id: Id;
+  title: string;
+  done: boolean;
+};
+
+/** A file attached to a task; the repo keeps the file itself under `path` (see attachments.ts). */
+export type TaskAttachment = {
+  id: Id;
+  name: string;
+  type: string; // MIME type as given by the browser
+  size: number; // bytes
+  path: string;
+  createdAt: string;
+};
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+/** RRULE-style repeat rule. Completing the task creates the next occurrence. */
+export type Recurrence = {
+  freq: RecurrenceFrequency;
+  interval?: number; // every N days/weeks/…; default 1
+  byWeekday?: number[]; // weekly only: 0 = Sunday … 6 = Saturday
+  until?: string; // YYYY-MM-DD, last allowed due date
+  count?: number; // occurrences left, including this one
+};
+
 export type Task = {
   id: Id;
   projectId: Id;
@@ -23,26 +72,62 @@ export type Task = {
   status: TaskStatus;
   priority: TaskPriority;
   assignee?: {
+    // Legacy free-text assignee; used by the local repo where there are no members.
     name: string;
     initials: string;
     color: string;
   };
-  due?: string;
+  assigneeIds?: string[]; // ProjectMember.userId of each assignee
+  due?: string; // local calendar date, YYYY-MM-DD
   tags?: string[];
+  subtasks?: Subtask[]; // checklist items, in display order
+  blockedBy?: Id[]; // ids of tasks (in any project) that must be done before this one
+  recurrence?: Recurrence; // moves to the next occurrence when this one is completed
+  attachments?: TaskAttachment[]; // in the order they were added
   order: number; // sort order within status column
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string; // in the trash since then
 };
 
-export type ViewMode = "kanban" | "list";
+export type ViewMode = "kanban" | "list" | "calendar";
+
+/** Date range filter; either end may be left open. Values are `YYYY-MM-DD`. */
+export type DateRange = { from?: string; to?: string };
+
+/** Combinable task filters. Empty/undefined fields do not filter. */
+export type TaskFilters = {
+  statuses?: TaskStatus[];
+  priorities?: TaskPriority[];
+  assignees?: string[]; // member userIds, `legacy:<name>` or "none" for unassigned
+  tags?: string[];
+  due?: DateRange;
+  created?: DateRange;
+  updated?: DateRange;
+};
 
-export const STATUS_COLUMNS: { key: TaskStatus; label: string; icon: string }[] = [
-  { key: "backlog", label: "Backlog", icon: "○" },
-  { key: "todo", label: "To Do", icon: "◎" },
-  { key: "in_progress", label: "In Progress", icon: "◉" },
-  { key: "done", label: "Done", icon: "●" },
+export type TaskSortField = "manual" | "due" | "priority" | "title" | "created" | "updated";
+
+export type TaskSort = { field: TaskSortField; direction: "asc" | "desc" };
+
+export type SavedView = {
+  id: string;
+  name: string;
+  filters: TaskFilters;
+  sort: TaskSort;
+  view: ViewMode;
+};
+
+/** Default workflow for projects that have not customized their columns. */
+export const STATUS_COLUMNS: WorkflowColumn[] = [
+  { key: "backlog", label: "Backlog", icon: "○", color: "#8888a4" },
+  { key: "todo", label: "To Do", icon: "◎", color: "#4ea8de" },
+  { key: "in_progress", label: "In Progress", icon: "◉", color: "#f4a261" },
+  { key: "done", label: "Done", icon: "●", color: "#2dd4a8", done: true },
 ];
 
+export const COLUMN_ICONS = ["○", "◎", "◉", "●", "◇", "◆", "△", "▲", "□", "■"];
+
 export const PRIORITY_CONFIG: Record<TaskPriority, { label: string; color: string; bg: string; dot: string }> = {
   urgent: { label: "Urgent", color: "text-red-700", bg: "bg-red-50 border-red-200", dot: "#ff6b6b" },
   high: { label: "High", color: "text-orange-700", bg: "bg-orange-50 border-orange-200", dot: "#f4a261" },
@@ -57,6 +142,32 @@ export const PROJECT_COLORS = [
 
 export type MemberRole = "viewer" | "editor" | "owner";
 
+export type TaskComment = {
+  id: Id;
+  taskId: Id;
+  projectId: Id;
+  authorId?: string; // user id; absent in the local (signed-out) repo
+  body: string;
+  createdAt: string;
+};
+
+/** Fields whose changes are written to a task's activity log. */
+export type ActivityKind = "created" | "status" | "priority" | "title" | "assignees";
+
+/** Column key, priority, title or assignee keys, depending on the activity kind. */
+export type ActivityValue = string | string[] | null;
+
+export type TaskActivity = {
+  id: Id;
+  taskId: Id;
+  projectId: Id;
+  actorId?: string; // user id; absent in the local (signed-out) repo
+  kind: ActivityKind;
+  from?: ActivityValue;
+  to?: ActivityValue;
+  createdAt: string;
+};
+
 export type ProjectMember = {
   id: string;
   projectId: string;
@@ -0,0 +1,36 @@
+import type { Task } from "../types";
+import { getTaskAssignees } from "../assignees";
+import { useTaskBoard } from "../context";
+import { Avatar } from "./Avatar";
+import { cn } from "../utils";
+
+/** Avatars for a task's assignees, with the name shown when there is only one. */
+export function AssigneeList({
+  task,
+  nameClassName = "text-2xs text-gray-500 dark:text-gray-400",
+  fallback = null,
+}: {
+  task: Pick<Task, "assignee" | "assigneeIds">;
+  nameClassName?: string;
+  fallback?: React.ReactNode;
+}) {
+  const { members } = useTaskBoard();
+  const assignees = getTaskAssignees(task, members);
+  if (assignees.length === 0) return <>{fallback}</>;
+  return (
+    <div className="flex min-w-0 items-center gap-1.5" title={assignees.map((a) => a.name).join(", ")}>
+      <div className="flex -space-x-1.5">
+        {assignees.slice(0, 3).map((a) => (
+          <span key={a.key} className="rounded-full ring-2 ring-white dark:ring-dark-surface">
+            <Avatar initials={a.initials} color={a.color} />
+          </span>
+        ))}
+      </div>
+      {assignees.length === 1 ? (
+        <span className={cn("truncate", nameClassName)}>{assignees[0].name}</span>
+      ) : assignees.length > 3 ? (
+        <span className={nameClassName}>+{assignees.length - 3}</span>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import type { Task } from "../types";
+import { IconPaperclip } from "../icons";
+
+export function AttachmentBadge({ task }: { task: Pick<Task, "attachments"> }) {
+  const count = task.attachments?.length ?? 0;
+  if (count === 0) return null;
+  return (
+    <span
+      className="inline-flex items-center gap-1 rounded-md border border-gray-200 bg-gray-50 px-1.5 py-0.5 text-2xs font-medium text-gray-500 dark:border-dark-border dark:bg-dark-border dark:text-gray-400"
+      title={count === 1 ? "1 attachment" : `${count} attachments`}
+    >
+      <IconPaperclip className="h-2.5 w-2.5" />
+      {count}
+    </span>
+  );
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import type { TaskAttachment } from "../types";
+import { IconDocument } from "../icons";
+import { useTaskBoard } from "../context";
+import { isImageAttachment } from "../attachments";
+import { cn } from "../utils";
+
+/** An image attachment's picture, or a file icon for other files and while the image loads. */
+export function AttachmentThumb({ attachment, className }: { attachment: TaskAttachment; className?: string }) {
+  const { attachmentUrl } = useTaskBoard();
+  const [url, setUrl] = useState<string | null>(null);
+  const isImage = isImageAttachment(attachment);
+
+  useEffect(() => {
+    if (!isImage || !attachmentUrl) return;
+    // Runs again whenever the task is refreshed; both repos cache URLs, so the image stays put.
+    let cancelled = false;
+    attachmentUrl(attachment)
+      .then((u) => { if (!cancelled) setUrl(u); })
+      .catch(() => { if (!cancelled) setUrl(null); });
+    return () => { cancelled = true; };
+  }, [attachment, attachmentUrl, isImage]);
+
+  return (
+    <div className={cn("flex items-center justify-center overflow-hidden bg-gray-100 dark:bg-dark-border text-gray-400", className)}>
+      {url ? (
+        <img src={url} alt={attachment.name} loading="lazy" draggable={false} className="h-full w-full object-cover" />
+      ) : (
+        <IconDocument className="h-5 w-5" />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import type { Task } from "../types";
+import { IconLock } from "../icons";
+import { useOpenBlockers } from "../context";
+
+export function BlockedBadge({ task }: { task: Pick<Task, "id"> }) {
+  const blockers = useOpenBlockers(task.id);
+  if (blockers.length === 0) return null;
+  return (
+    <span
+      className="inline-flex items-center gap-1 rounded-md border border-red-200 bg-red-50 px-1.5 py-0.5 text-2xs font-medium text-red-700 dark:border-red-900/60 dark:bg-red-950/40 dark:text-red-300"
+      title={`Blocked by ${blockers.map((b) => `"${b.title}"`).join(", ")}`}
+    >
+      <IconLock className="h-2.5 w-2.5" />
+      {blockers.length === 1 ? "Blocked" : `Blocked · ${blockers.length}`}
+    </span>
+  );
+}
@@ -0,0 +1,26 @@
+import type { Task } from "../types";
+import { formatDue, getDueState } from "../dates";
+import { IconCalendar } from "../icons";
+import { useIsDone } from "../context";
+import { cn } from "../utils";
+
+export function DueBadge({ task }: { task: Pick<Task, "due" | "status"> }) {
+  const done = useIsDone(task.status);
+  if (!task.due) return null;
+  const state = getDueState(task, done);
+  const styles =
+    state === "overdue"
+      ? "border-red-200 bg-red-50 text-red-700 dark:border-red-900/60 dark:bg-red-950/40 dark:text-red-300"
+      : state === "today" || state === "soon"
+        ? "border-amber-200 bg-amber-50 text-amber-700 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-300"
+        : "border-gray-200 bg-gray-50 text-gray-500 dark:border-dark-border dark:bg-dark-border dark:text-gray-400";
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 rounded-md border px-1.5 py-0.5 text-2xs font-medium", styles)}
+      title={state === "overdue" ? `Overdue (due ${task.due})` : `Due ${task.due}`}
+    >
+      <IconCalendar className="h-2.5 w-2.5" />
+      {state === "overdue" ? `Overdue · ${formatDue(task.due)}` : formatDue(task.due)}
+    </span>
+  );
+}
@@ -0,0 +1,173 @@
+import { Fragment, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { IconCheck } from "../icons";
+import { cn, stopProp } from "../utils";
+import { useTaskBoard } from "../context";
+import { parseMarkdown, type MdBlock, type MdInline } from "../markdown";
+
+const HEADING_CLASS = [
+  "text-base font-semibold",
+  "text-sm font-semibold",
+  "text-sm font-semibold",
+  "text-xs font-semibold uppercase tracking-wide",
+  "text-xs font-semibold",
+  "text-xs font-medium",
+];
+
+function TaskRef({ id }: { id: string }) {
+  const { tasksById, taskHref } = useTaskBoard();
+  const task = tasksById?.get(id);
+  if (!task || !taskHref) {
+    return <span className="text-gray-400" title="Task not found, or not shared with you">#{id}</span>;
+  }
+  return (
+    <Link
+      to={taskHref(task)}
+      onClick={stopProp}
+      className="rounded bg-accent/8 dark:bg-accent/15 px-1 font-medium text-accent-dark dark:text-accent-light hover:underline"
+      title={`#${id}`}
+    >
+      {task.title}
+    </Link>
+  );
+}
+
+function Mention({ email }: { email: string }) {
+  const { members } = useTaskBoard();
+  const member = members.find((m) => m.email.toLowerCase() === email);
+  if (!member) return <>@{email}</>;
+  return (
+    <span className="rounded bg-gray-100 dark:bg-dark-border px-1 font-medium text-gray-900 dark:text-gray-100" title={member.email}>
+      @{member.email.split("@")[0]}
+    </span>
+  );
+}
+
+function Inline({ nodes }: { nodes: MdInline[] }) {
+  return (
+    <>
+      {nodes.map((n, i) => {
+        switch (n.type) {
+          case "text":
+            return <Fragment key={i}>{n.text}</Fragment>;
+          case "break":
+            return <br key={i} />;
+          case "code":
+            return (
+              <code key={i} className="rounded bg-gray-100 dark:bg-dark-border px-1 py-px font-mono text-[0.85em]">
+                {n.text}
+              </code>
+            );
+          case "strong":
+            return <strong key={i} className="font-semibold text-gray-900 dark:text-gray-100"><Inline nodes={n.children} /></strong>;
+          case "em":
+            return <em key={i}><Inline nodes={n.children} /></em>;
+          case "link":
+            return (
+              <a
+                key={i}
+                href={n.href}
+                target={n.href.startsWith("/") || n.href.startsWith("#") ? undefined : "_blank"}
+                rel="noopener noreferrer nofollow"
+                onClick={stopProp}
+                className="text-accent underline decoration-accent/40 underline-offset-2 hover:decoration-accent"
+              >
+                <Inline nodes={n.children} />
+              </a>
+            );
+          case "taskRef":
+            return <TaskRef key={i} id={n.id} />;
+          case "mention":
+            return <Mention key={i} email={n.email} />;
+        }
+      })}
+    </>
+  );
+}
+
+function Blocks({ blocks, onToggleCheckbox }: { blocks: MdBlock[]; onToggleCheckbox?: (line: number) => void }) {
+  return (
+    <>
+      {blocks.map((b, i) => {
+        switch (b.type) {
+          case "heading":
+            return (
+              <p key={i} className={cn("text-gray-900 dark:text-gray-100", HEADING_CLASS[b.level - 1])}>
+                <Inline nodes={b.children} />
+              </p>
+            );
+          case "paragraph":
+            return <p key={i}><Inline nodes={b.children} /></p>;
+          case "rule":
+            return <hr key={i} className="border-gray-200 dark:border-dark-border" />;
+          case "code":
+            return (
+              <pre key={i} className="overflow-x-auto rounded-lg bg-gray-100 dark:bg-dark-border px-3 py-2 font-mono text-xs text-gray-800 dark:text-gray-200">
+                <code>{b.text}</code>
+              </pre>
+            );
+          case "quote":
+            return (
+              <blockquote key={i} className="space-y-2 border-l-2 border-gray-200 dark:border-dark-border pl-3 text-gray-500 dark:text-gray-400">
+                <Blocks blocks={b.children} onToggleCheckbox={onToggleCheckbox} />
+              </blockquote>
+            );
+          case "list": {
+            const ListTag = b.ordered ? "ol" : "ul";
+            const isChecklist = b.items.some((item) => item.checked !== undefined);
+            return (
+              <ListTag
+                key={i}
+                start={b.ordered && b.start !== 1 ? b.start : undefined}
+                className={cn("space-y-1", isChecklist ? "list-none" : b.ordered ? "list-decimal pl-5" : "list-disc pl-5")}
+              >
+                {b.items.map((item) => (
+                  <li key={item.line} className={cn(item.checked !== undefined && "flex items-start gap-2")}>
+                    {item.checked !== undefined && (
+                      <button
+                        type="button"
+                        disabled={!onToggleCheckbox}
+                        onClick={(e) => { e.stopPropagation(); onToggleCheckbox?.(item.line); }}
+                        className={cn(
+                          "mt-0.5 flex h-4 w-4 shrink-0 items-center justify-center rounded border transition-colors",
+                          item.checked ? "border-accent bg-accent text-white" : "border-gray-300 dark:border-gray-600",
+                          onToggleCheckbox && !item.checked && "hover:border-accent"
+                        )}
+                        title={onToggleCheckbox ? (item.checked ? "Mark as not done" : "Mark as done") : undefined}
+                      >
+                        {item.checked && <IconCheck className="h-3 w-3" />}
+                      </button>
+                    )}
+                    <span className={cn(item.checked && "text-gray-400 line-through")}>
+                      <Inline nodes={item.children} />
+                    </span>
+                  </li>
+                ))}
+              </ListTag>
+            );
+          }
+        }
+      })}
+    </>
+  );
+}
+
+/** A task description rendered from Markdown (see markdown.ts); checkboxes toggle when `onToggleCheckbox` is given. */
+export function Markdown({
+  source,
+  onToggleCheckbox,
+  className = "text-sm",
+}: {
+  source: string;
+  onToggleCheckbox?: (line: number) => void;
+  /** Sets the text size, `text-sm` unless given. */
+  className?: string;
+}) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={cn("space-y-2 break-words leading-relaxed text-gray-700 dark:text-gray-300", className)}>
+      <Blocks blocks={blocks} onToggleCheckbox={onToggleCheckbox} />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import type { Task } from "../types";
+import { IconRepeat } from "../icons";
+import { describeRecurrence } from "../recurrence";
+
+export function RecurrenceBadge({ task }: { task: Pick<Task, "recurrence"> }) {
+  if (!task.recurrence) return null;
+  return (
+    <span
+      className="inline-flex items-center rounded-md border border-gray-200 bg-gray-50 px-1 py-0.5 text-gray-500 dark:border-dark-border dark:bg-dark-border dark:text-gray-400"
+      title={describeRecurrence(task.recurrence)}
+    >
+      <IconRepeat className="h-2.5 w-2.5" />
+    </span>
+  );
+}
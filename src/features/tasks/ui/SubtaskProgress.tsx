@@ -0,0 +1,23 @@
+import type { Subtask } from "../types";
+import { IconCheck } from "../icons";
+import { cn } from "../utils";
+
+export function SubtaskProgress({ subtasks }: { subtasks?: Subtask[] }) {
+  if (!subtasks || subtasks.length === 0) return null;
+  const done = subtasks.filter((s) => s.done).length;
+  const complete = done === subtasks.length;
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-md border px-1.5 py-0.5 text-2xs font-medium",
+        complete
+          ? "border-green-200 bg-green-50 text-green-700 dark:border-green-900/60 dark:bg-green-950/40 dark:text-green-300"
+          : "border-gray-200 bg-gray-50 text-gray-500 dark:border-dark-border dark:bg-dark-border dark:text-gray-400"
+      )}
+      title={`${done} of ${subtasks.length} subtasks done`}
+    >
+      <IconCheck className="h-2.5 w-2.5" />
+      {done}/{subtasks.length}
+    </span>
+  );
+}
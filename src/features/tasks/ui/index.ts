@@ -4,3 +4,11 @@ export { ThemeToggle } from "./ThemeToggle";
 export { PriorityBadge } from "./PriorityBadge";
 export { Avatar } from "./Avatar";
 export { Tag } from "./Tag";
+export { SubtaskProgress } from "./SubtaskProgress";
+export { DueBadge } from "./DueBadge";
+export { AssigneeList } from "./AssigneeList";
+export { BlockedBadge } from "./BlockedBadge";
+export { RecurrenceBadge } from "./RecurrenceBadge";
+export { Markdown } from "./Markdown";
+export { AttachmentThumb } from "./AttachmentThumb";
+export { AttachmentBadge } from "./AttachmentBadge";
@@ -0,0 +1,103 @@
+import type { Project, Task, TaskStatus, WipPolicy, WorkflowColumn } from "./types";
+import { STATUS_COLUMNS } from "./types";
+
+export function getProjectColumns(project?: Pick<Project, "columns"> | null): WorkflowColumn[] {
+  return project?.columns && project.columns.length > 0 ? project.columns : STATUS_COLUMNS;
+}
+
+export function isDoneStatus(columns: WorkflowColumn[], status: TaskStatus): boolean {
+  return columns.some((c) => c.key === status && c.done);
+}
+
+export function hasStatus(columns: WorkflowColumn[], status: TaskStatus): boolean {
+  return columns.some((c) => c.key === status);
+}
+
+/** Status for new tasks: "todo" when the workflow has it, else the first open column. */
+export function getDefaultStatus(columns: WorkflowColumn[]): TaskStatus {
+  if (hasStatus(columns, "todo")) return "todo";
+  return (columns.find((c) => !c.done) ?? columns[0] ?? STATUS_COLUMNS[0]).key;
+}
+
+/**
+ * Where tasks arriving from another project land: their own status when the
+ * workflow has it (else the default column), appended after `existing` in order.
+ */
+export function placeInProject(
+  incoming: Pick<Task, "id" | "status">[],
+  existing: Pick<Task, "id" | "status" | "order">[],
+  columns: WorkflowColumn[]
+): Map<string, { status: TaskStatus; order: number }> {
+  const skip = new Set(incoming.map((t) => t.id));
+  const nextOrder = new Map<TaskStatus, number>();
+  for (const t of existing) {
+    if (!skip.has(t.id)) nextOrder.set(t.status, Math.max(nextOrder.get(t.status) ?? 0, t.order + 1));
+  }
+  const placed = new Map<string, { status: TaskStatus; order: number }>();
+  for (const t of incoming) {
+    const status = hasStatus(columns, t.status) ? t.status : getDefaultStatus(columns);
+    const order = nextOrder.get(status) ?? 0;
+    nextOrder.set(status, order + 1);
+    placed.set(t.id, { status, order });
+  }
+  return placed;
+}
+
+/** Derive a stable, unique status key from a column label. */
+export function makeColumnKey(label: string, taken: Iterable<string>): TaskStatus {
+  const used = new Set(taken);
+  const base =
+    label
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "column";
+  let key = base;
+  for (let i = 2; used.has(key); i++) key = `${base}_${i}`;
+  return key;
+}
+
+export function isWorkflowColumn(obj: unknown): obj is WorkflowColumn {
+  if (!obj || typeof obj !== "object") return false;
+  const o = obj as Record<string, unknown>;
+  return (
+    typeof o.key === "string" &&
+    o.key.length > 0 &&
+    typeof o.label === "string" &&
+    typeof o.icon === "string" &&
+    typeof o.color === "string" &&
+    (o.done === undefined || typeof o.done === "boolean") &&
+    (o.wipLimit === undefined || (typeof o.wipLimit === "number" && o.wipLimit > 0))
+  );
+}
+
+export function getWipPolicy(project?: Pick<Project, "wipPolicy"> | null): WipPolicy {
+  return project?.wipPolicy ?? "warn";
+}
+
+/** True when `count` tasks would exceed the column's WIP limit. */
+export function isOverWipLimit(column: Pick<WorkflowColumn, "wipLimit">, count: number): boolean {
+  return column.wipLimit !== undefined && count > column.wipLimit;
+}
+
+/**
+ * Follow a chain of "move tasks from → to" steps (a deleted column may point
+ * at another deleted column) until a surviving column is reached.
+ */
+export function resolveStatusMoves(
+  moves: Record<TaskStatus, TaskStatus>,
+  columns: WorkflowColumn[]
+): Record<TaskStatus, TaskStatus> {
+  const fallback = getDefaultStatus(columns);
+  const resolved: Record<TaskStatus, TaskStatus> = {};
+  for (const from of Object.keys(moves)) {
+    let to = moves[from];
+    const seen = new Set([from]);
+    while (!hasStatus(columns, to) && moves[to] && !seen.has(to)) {
+      seen.add(to);
+      to = moves[to];
+    }
+    resolved[from] = hasStatus(columns, to) ? to : fallback;
+  }
+  return resolved;
+}